@@ -0,0 +1,106 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+import { BotConfigService } from "./services/bot-config.service";
+import { CandleStore } from "./services/candle-store.service";
+import { InstrumentRegistry } from "./services/instrument-registry.service";
+import { BacktestEngine, BacktestCandles } from "./services/backtest.service";
+import { MarketDataProviderName } from "./types/market.model";
+import { getTimeframeInfo } from "./utils/candle-sync-scheduler.utils";
+import { parseArgs, parseList, parseTime } from "./utils/cli.utils";
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage: npm run backtest -- --from <date> [options]
+
+Replays candles from the local candle store (see npm run download) through
+the alert detectors and scores every alert as a trade.
+
+Options:
+  --symbols <list>     Comma-separated pairs in any format (default: PAIRS)
+  --timeframes <list>  Comma-separated timeframes (default: TIMEFRAMES)
+  --provider <name>    Candle store provider (default: MARKET_DATA_PROVIDER)
+  --from <date>        Start date, ISO format or unix ms (required)
+  --to <date>          End date, ISO format or unix ms (default: now)
+  --tp <r>             Take profit in R multiples (default: 2)
+  --sl-atr <n>         Stop loss distance in ATRs (default: 1)
+  --hold <candles>     Exit at close after this many candles (default: 48)
+  --window <candles>   Closed candles passed to the detectors (default: 300)`;
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help || !args.from) {
+    console.log(USAGE);
+    process.exit(args.help ? 0 : 1);
+  }
+
+  const alertConfig = new BotConfigService().getAlertConfig();
+  const providerName = (args.provider ||
+    alertConfig.marketDataProvider) as MarketDataProviderName;
+  const pairs = parseList(args.symbols, alertConfig.pairs.join(","));
+  const timeframes = parseList(
+    args.timeframes,
+    alertConfig.timeframes.join(",")
+  );
+  const startTime = parseTime(args.from);
+  const endTime = args.to ? parseTime(args.to) : Date.now();
+
+  const config = {
+    alertConfig: { ...alertConfig, pairs, timeframes },
+    startTime,
+    endTime,
+    windowSize: parseInt(args.window || "300"),
+    takeProfitR: parseFloat(args.tp || "2"),
+    stopLossAtr: parseFloat(args["sl-atr"] || "1"),
+    atrPeriod: 14,
+    maxHoldCandles: parseInt(args.hold || "48"),
+    forwardHorizons: [1, 5, 20],
+  };
+
+  // Load warm-up candles before the start and outcome candles after the end
+  const candleStore = new CandleStore();
+  const instrumentRegistry = new InstrumentRegistry();
+  const candles: BacktestCandles = {};
+
+  for (const symbol of pairs) {
+    const venueSymbol = instrumentRegistry.toVenueSymbol(symbol, providerName);
+    candles[symbol] = {};
+
+    for (const timeframe of timeframes) {
+      const timeframeMs = getTimeframeInfo(timeframe).milliseconds;
+      const series = candleStore.getRange(
+        providerName,
+        venueSymbol,
+        timeframe,
+        startTime - (config.windowSize + config.atrPeriod + 1) * timeframeMs,
+        endTime + config.maxHoldCandles * timeframeMs
+      );
+      candles[symbol][timeframe] = series;
+
+      console.log(`📁 Loaded ${series.length} ${symbol} ${timeframe} candles`);
+      if (series.length === 0) {
+        console.warn(
+          `⚠️ No stored candles for ${symbol} ${timeframe}, run npm run download first`
+        );
+      }
+    }
+  }
+
+  const engine = new BacktestEngine(config, candles);
+  const report = engine.run();
+  console.log(engine.formatReport(report));
+
+  const reportDir = path.join(process.cwd(), "/data/backtests");
+  if (!fs.existsSync(reportDir)) {
+    fs.mkdirSync(reportDir, { recursive: true });
+  }
+  const reportFile = path.join(reportDir, `backtest-${Date.now()}.json`);
+  fs.writeFileSync(reportFile, JSON.stringify(report, null, 2));
+  console.log(`💾 Report saved to ${reportFile}`);
+}
+
+main().catch((error) => {
+  console.error("❌ Backtest failed:", error);
+  process.exit(1);
+});
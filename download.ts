@@ -0,0 +1,85 @@
+import dotenv from "dotenv";
+import path from "path";
+import { CandleStore } from "./services/candle-store.service";
+import { InstrumentRegistry } from "./services/instrument-registry.service";
+import { createMarketDataProvider } from "./services/market-data-provider.service";
+import {
+  HistoryDownloader,
+  DownloadOutput,
+} from "./services/history-downloader.service";
+import { MarketDataProviderName } from "./types/market.model";
+import { parseArgs, parseList, parseTime } from "./utils/cli.utils";
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage: npm run download -- --from <date> [options]
+
+Options:
+  --symbols <list>     Comma-separated pairs in any format (default: PAIRS)
+  --timeframes <list>  Comma-separated timeframes (default: TIMEFRAMES)
+  --provider <name>    binance_spot, binance_futures or okx (default: MARKET_DATA_PROVIDER)
+  --from <date>        Start date, ISO format or unix ms (required)
+  --to <date>          End date, ISO format or unix ms (default: now)
+  --output <type>      store or csv (default: store)
+  --csv-dir <path>     CSV output directory (default: data/exports)
+  --no-resume          Ignore saved progress and start over`;
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help || !args.from) {
+    console.log(USAGE);
+    process.exit(args.help ? 0 : 1);
+  }
+
+  const providerName = (args.provider ||
+    process.env.MARKET_DATA_PROVIDER ||
+    "binance_spot") as MarketDataProviderName;
+  const output = (args.output || "store") as DownloadOutput;
+  if (output !== "store" && output !== "csv") {
+    throw new Error(`Invalid output: ${output}`);
+  }
+
+  const symbols = parseList(args.symbols, process.env.PAIRS || "BTCUSDT");
+  const timeframes = parseList(args.timeframes, process.env.TIMEFRAMES || "5m");
+  const startTime = parseTime(args.from);
+  const endTime = args.to ? parseTime(args.to) : Date.now();
+
+  const provider = createMarketDataProvider(providerName);
+  const instrumentRegistry = new InstrumentRegistry();
+  const downloader = new HistoryDownloader(provider, new CandleStore(), {
+    output,
+    csvDir: path.resolve(args["csv-dir"] || "data/exports"),
+    resume: args["no-resume"] !== "true",
+    flushSize: 10000,
+    maxRetries: 5,
+  });
+
+  console.log(
+    `📥 Downloading ${symbols.length} symbols × ${
+      timeframes.length
+    } timeframes from ${providerName} (${new Date(
+      startTime
+    ).toISOString()} → ${new Date(endTime).toISOString()})`
+  );
+
+  for (const symbol of symbols) {
+    const venueSymbol = instrumentRegistry.toVenueSymbol(symbol, providerName);
+
+    for (const timeframe of timeframes) {
+      await downloader.download({
+        symbol: venueSymbol,
+        timeframe,
+        startTime,
+        endTime,
+      });
+    }
+  }
+
+  console.log("✅ Download complete");
+}
+
+main().catch((error) => {
+  console.error("❌ Download failed:", error);
+  process.exit(1);
+});
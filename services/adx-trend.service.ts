@@ -0,0 +1,85 @@
+import {
+  AlertConfig,
+  ADXTrendAlert,
+  ADXTrendConfig,
+  KlineData,
+} from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+import { ADXValue, StreamingADX, toPriceBar } from "../utils/indicators.utils";
+import { IndicatorSignalService } from "./indicator-signal.service";
+
+interface ADXState {
+  adx: StreamingADX;
+  previous: ADXValue | null;
+}
+
+type ADXSignal = Omit<
+  ADXTrendAlert,
+  "symbol" | "timeframe" | "timestamp" | "currentPrice"
+>;
+
+/**
+ * Trend strength transitions: ADX crossing above trendThreshold means a
+ * trend is forming, crossing below weakThreshold that it is fading. The
+ * trend direction comes from +DI against -DI.
+ */
+export class ADXTrendService extends IndicatorSignalService<
+  ADXState,
+  ADXSignal
+> {
+  private config: ADXTrendConfig;
+
+  constructor(
+    config: AlertConfig,
+    clock: Clock = systemClock,
+    persistTracker: boolean = true
+  ) {
+    super("ADX trend", "adx-trend-tracker.json", clock, persistTracker);
+    this.config = config.adxTrend;
+  }
+
+  protected createState(): ADXState {
+    return {
+      adx: new StreamingADX(this.config.period),
+      previous: null,
+    };
+  }
+
+  protected update(state: ADXState, candle: KlineData): ADXSignal[] {
+    const current = state.adx.update(toPriceBar(candle));
+    const previous = state.previous;
+    state.previous = current;
+    if (!current || !previous) return [];
+
+    const transition = this.getTransition(previous.adx, current.adx);
+    if (!transition) return [];
+
+    return [
+      {
+        type: "adx_trend",
+        transition,
+        trendDirection:
+          current.plusDI >= current.minusDI ? "bullish" : "bearish",
+        candleTime: candle.openTime,
+        adx: current.adx,
+        previousAdx: previous.adx,
+        plusDI: current.plusDI,
+        minusDI: current.minusDI,
+      },
+    ];
+  }
+
+  private getTransition(
+    previousAdx: number,
+    adx: number
+  ): ADXTrendAlert["transition"] | null {
+    const { trendThreshold, weakThreshold } = this.config;
+    if (previousAdx < trendThreshold && adx >= trendThreshold) {
+      return "strengthening";
+    }
+    if (previousAdx > weakThreshold && adx <= weakThreshold) {
+      return "weakening";
+    }
+    return null;
+  }
+}
@@ -1,24 +1,77 @@
 import {
   AlertConfig,
-  VolumeAlert,
-  RSIAlert,
-  ScalpingAlert,
+  MarketAlert,
   MultiPairMarketData,
 } from "../types/market.model";
 import { VolumeDivergenceService } from "./volume-divergence.service";
 import { RSIDivergenceService } from "./rsi-divergence.service";
+import { RSIPivotDivergenceService } from "./rsi-pivot-divergence.service";
+import { OscillatorDivergenceService } from "./oscillator-divergence.service";
+import { MACDService } from "./macd.service";
+import { ATRVolatilityService } from "./atr-volatility.service";
+import { ADXTrendService } from "./adx-trend.service";
+import { SuperTrendService } from "./supertrend.service";
 import { ScalpingService } from "./scalping.service";
+import { Clock, systemClock } from "../utils/clock.utils";
 
 export class AlertService {
   private config: AlertConfig;
   private volumeDivergenceService: VolumeDivergenceService;
   private rsiDivergenceService: RSIDivergenceService;
+  private rsiPivotDivergenceService: RSIPivotDivergenceService;
+  private oscillatorDivergenceService: OscillatorDivergenceService;
+  private macdService: MACDService;
+  private atrVolatilityService: ATRVolatilityService;
+  private adxTrendService: ADXTrendService;
+  private superTrendService: SuperTrendService;
   private scalpingService: ScalpingService;
+  private clock: Clock;
+  private persistTrackers: boolean;
 
-  constructor(config: AlertConfig) {
+  /**
+   * @param clock Time source for alert timestamps and cooldowns
+   * @param persistTrackers Set to false to keep trackers in memory (backtests)
+   */
+  constructor(
+    config: AlertConfig,
+    clock: Clock = systemClock,
+    persistTrackers: boolean = true
+  ) {
     this.config = config;
-    this.volumeDivergenceService = new VolumeDivergenceService(config);
-    this.rsiDivergenceService = new RSIDivergenceService(config);
+    this.clock = clock;
+    this.persistTrackers = persistTrackers;
+    this.volumeDivergenceService = new VolumeDivergenceService(
+      config,
+      clock,
+      persistTrackers
+    );
+    this.rsiDivergenceService = new RSIDivergenceService(
+      config,
+      clock,
+      persistTrackers
+    );
+    this.rsiPivotDivergenceService = new RSIPivotDivergenceService(
+      config,
+      clock,
+      persistTrackers
+    );
+    this.oscillatorDivergenceService = new OscillatorDivergenceService(
+      config,
+      clock,
+      persistTrackers
+    );
+    this.macdService = new MACDService(config, clock, persistTrackers);
+    this.atrVolatilityService = new ATRVolatilityService(
+      config,
+      clock,
+      persistTrackers
+    );
+    this.adxTrendService = new ADXTrendService(config, clock, persistTrackers);
+    this.superTrendService = new SuperTrendService(
+      config,
+      clock,
+      persistTrackers
+    );
 
     // Create scalping config from alert config
     const scalpingConfig = {
@@ -38,16 +91,18 @@ export class AlertService {
       alertCooldown: 300000, // 5 minutes
     };
 
-    this.scalpingService = new ScalpingService(scalpingConfig);
+    this.scalpingService = new ScalpingService(
+      scalpingConfig,
+      clock,
+      persistTrackers
+    );
   }
 
   /**
    * Process market data for all pairs and timeframes
    */
-  processMarketData(
-    marketData: MultiPairMarketData
-  ): (VolumeAlert | RSIAlert | ScalpingAlert)[] {
-    const alerts: (VolumeAlert | RSIAlert | ScalpingAlert)[] = [];
+  processMarketData(marketData: MultiPairMarketData): MarketAlert[] {
+    const alerts: MarketAlert[] = [];
 
     for (const symbol of this.config.pairs) {
       for (const timeframe of this.config.timeframes) {
@@ -89,6 +144,78 @@ export class AlertService {
           alerts.push(rsiDivergenceAlert);
         }
 
+        // Check for RSI pivot divergence (Pine B/S with TP & SL)
+        if (this.config.rsiPivotDivergence.enabled) {
+          alerts.push(
+            ...this.rsiPivotDivergenceService.detect(
+              symbol,
+              timeframe,
+              data.klineData,
+              data.currentPrice
+            )
+          );
+        }
+
+        // Check for regular and hidden divergence on each oscillator
+        if (this.config.oscillatorDivergence.enabled) {
+          alerts.push(
+            ...this.oscillatorDivergenceService.detect(
+              symbol,
+              timeframe,
+              data.klineData,
+              data.currentPrice
+            )
+          );
+        }
+
+        // Check for MACD crossovers and zero-line crosses
+        if (this.isEnabledFor(this.config.macdSignals, timeframe)) {
+          alerts.push(
+            ...this.macdService.detect(
+              symbol,
+              timeframe,
+              data.klineData,
+              data.currentPrice
+            )
+          );
+        }
+
+        // Check for ATR volatility expansion
+        if (this.isEnabledFor(this.config.atrVolatility, timeframe)) {
+          alerts.push(
+            ...this.atrVolatilityService.detect(
+              symbol,
+              timeframe,
+              data.klineData,
+              data.currentPrice
+            )
+          );
+        }
+
+        // Check for ADX trend strength transitions
+        if (this.isEnabledFor(this.config.adxTrend, timeframe)) {
+          alerts.push(
+            ...this.adxTrendService.detect(
+              symbol,
+              timeframe,
+              data.klineData,
+              data.currentPrice
+            )
+          );
+        }
+
+        // Check for SuperTrend flips
+        if (this.isEnabledFor(this.config.superTrend, timeframe)) {
+          alerts.push(
+            ...this.superTrendService.detect(
+              symbol,
+              timeframe,
+              data.klineData,
+              data.currentPrice
+            )
+          );
+        }
+
         // Check for scalping signals (only for 1m timeframe)
         if (timeframe === "1m") {
           const scalpingAlerts = this.scalpingService.processMarketData(
@@ -105,6 +232,21 @@ export class AlertService {
     return alerts;
   }
 
+  /**
+   * Whether a detector runs on this timeframe, all timeframes when its
+   * list is empty
+   */
+  private isEnabledFor(
+    detector: { enabled: boolean; timeframes: string[] },
+    timeframe: string
+  ): boolean {
+    return (
+      detector.enabled &&
+      (detector.timeframes.length === 0 ||
+        detector.timeframes.includes(timeframe))
+    );
+  }
+
   /**
    * Get current configuration
    */
@@ -119,8 +261,46 @@ export class AlertService {
     this.config = { ...this.config, ...newConfig };
 
     // Update the configuration in all services
-    this.volumeDivergenceService = new VolumeDivergenceService(this.config);
-    this.rsiDivergenceService = new RSIDivergenceService(this.config);
+    this.volumeDivergenceService = new VolumeDivergenceService(
+      this.config,
+      this.clock,
+      this.persistTrackers
+    );
+    this.rsiDivergenceService = new RSIDivergenceService(
+      this.config,
+      this.clock,
+      this.persistTrackers
+    );
+    this.rsiPivotDivergenceService = new RSIPivotDivergenceService(
+      this.config,
+      this.clock,
+      this.persistTrackers
+    );
+    this.oscillatorDivergenceService = new OscillatorDivergenceService(
+      this.config,
+      this.clock,
+      this.persistTrackers
+    );
+    this.macdService = new MACDService(
+      this.config,
+      this.clock,
+      this.persistTrackers
+    );
+    this.atrVolatilityService = new ATRVolatilityService(
+      this.config,
+      this.clock,
+      this.persistTrackers
+    );
+    this.adxTrendService = new ADXTrendService(
+      this.config,
+      this.clock,
+      this.persistTrackers
+    );
+    this.superTrendService = new SuperTrendService(
+      this.config,
+      this.clock,
+      this.persistTrackers
+    );
 
     // Recreate scalping service with updated config
     const scalpingConfig = {
@@ -139,7 +319,11 @@ export class AlertService {
       minConfidence: 70,
       alertCooldown: 300000, // 5 minutes
     };
-    this.scalpingService = new ScalpingService(scalpingConfig);
+    this.scalpingService = new ScalpingService(
+      scalpingConfig,
+      this.clock,
+      this.persistTrackers
+    );
 
     console.log("📝 Alert service config updated:", this.config);
   }
@@ -158,6 +342,32 @@ export class AlertService {
     return this.rsiDivergenceService.getDivergenceTrackerStatus();
   }
 
+  /**
+   * Get RSI pivot divergence tracker status
+   */
+  getRSIPivotDivergenceTrackerStatus() {
+    return this.rsiPivotDivergenceService.getTrackerStatus();
+  }
+
+  /**
+   * Get oscillator divergence tracker status
+   */
+  getOscillatorDivergenceTrackerStatus() {
+    return this.oscillatorDivergenceService.getTrackerStatus();
+  }
+
+  /**
+   * Get MACD, ATR, ADX and SuperTrend tracker status
+   */
+  getTrendTrackerStatus() {
+    return {
+      macd: this.macdService.getTrackerStatus(),
+      atrVolatility: this.atrVolatilityService.getTrackerStatus(),
+      adxTrend: this.adxTrendService.getTrackerStatus(),
+      superTrend: this.superTrendService.getTrackerStatus(),
+    };
+  }
+
   /**
    * Clear volume divergence tracker
    */
@@ -172,6 +382,30 @@ export class AlertService {
     this.rsiDivergenceService.clearDivergenceTracker();
   }
 
+  /**
+   * Clear RSI pivot divergence tracker
+   */
+  clearRSIPivotDivergenceTracker(): void {
+    this.rsiPivotDivergenceService.clearTracker();
+  }
+
+  /**
+   * Clear oscillator divergence tracker
+   */
+  clearOscillatorDivergenceTracker(): void {
+    this.oscillatorDivergenceService.clearTracker();
+  }
+
+  /**
+   * Clear MACD, ATR, ADX and SuperTrend trackers
+   */
+  clearTrendTrackers(): void {
+    this.macdService.clearTracker();
+    this.atrVolatilityService.clearTracker();
+    this.adxTrendService.clearTracker();
+    this.superTrendService.clearTracker();
+  }
+
   /**
    * Get scalping tracker status
    */
@@ -192,6 +426,9 @@ export class AlertService {
   clearAllDivergenceTrackers(): void {
     this.clearVolumeDivergenceTracker();
     this.clearRSIDivergenceTracker();
+    this.clearRSIPivotDivergenceTracker();
+    this.clearOscillatorDivergenceTracker();
+    this.clearTrendTrackers();
     this.clearScalpingTracker();
     console.log("🗑️ All divergence trackers cleared");
   }
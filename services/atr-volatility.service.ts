@@ -0,0 +1,84 @@
+import {
+  AlertConfig,
+  ATRVolatilityAlert,
+  ATRVolatilityConfig,
+  KlineData,
+} from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+import {
+  StreamingATR,
+  StreamingSMA,
+  toPriceBar,
+} from "../utils/indicators.utils";
+import { IndicatorSignalService } from "./indicator-signal.service";
+
+interface ATRState {
+  atr: StreamingATR;
+  baseline: StreamingSMA; // Mean ATR of the previous averagePeriod candles
+  expanded: boolean; // Ratio was above the multiplier at the last candle
+}
+
+type ATRSignal = Omit<
+  ATRVolatilityAlert,
+  "symbol" | "timeframe" | "timestamp" | "currentPrice"
+>;
+
+/**
+ * Volatility expansion: alerts when ATR rises above expansionMultiplier
+ * times its mean over the previous averagePeriod candles. Fires once per
+ * expansion, again only after the ratio has fallen back below.
+ */
+export class ATRVolatilityService extends IndicatorSignalService<
+  ATRState,
+  ATRSignal
+> {
+  private config: ATRVolatilityConfig;
+
+  constructor(
+    config: AlertConfig,
+    clock: Clock = systemClock,
+    persistTracker: boolean = true
+  ) {
+    super(
+      "ATR volatility",
+      "atr-volatility-tracker.json",
+      clock,
+      persistTracker
+    );
+    this.config = config.atrVolatility;
+  }
+
+  protected createState(): ATRState {
+    return {
+      atr: new StreamingATR(this.config.period),
+      baseline: new StreamingSMA(this.config.averagePeriod),
+      expanded: false,
+    };
+  }
+
+  protected update(state: ATRState, candle: KlineData): ATRSignal[] {
+    const bar = toPriceBar(candle);
+    const averageAtr = state.baseline.value;
+    const atr = state.atr.update(bar);
+    if (atr === null) return [];
+    state.baseline.update(atr);
+    if (averageAtr === null || averageAtr <= 0) return [];
+
+    const expansionRatio = atr / averageAtr;
+    const wasExpanded = state.expanded;
+    state.expanded = expansionRatio > this.config.expansionMultiplier;
+    if (!state.expanded || wasExpanded) return [];
+
+    return [
+      {
+        type: "atr_expansion",
+        candleTime: candle.openTime,
+        candleDirection: bar.close >= parseFloat(candle.open) ? "up" : "down",
+        atr,
+        averageAtr,
+        expansionRatio,
+        atrPercent: bar.close > 0 ? (atr / bar.close) * 100 : 0,
+      },
+    ];
+  }
+}
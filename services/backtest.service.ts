@@ -0,0 +1,469 @@
+import { AlertService } from "./alert.service";
+import {
+  AlertConfig,
+  KlineData,
+  MultiPairMarketData,
+  MarketAlert,
+} from "../types/market.model";
+import { getTimeframeInfo } from "../utils/candle-sync-scheduler.utils";
+import { VirtualClock } from "../utils/clock.utils";
+
+export interface BacktestConfig {
+  alertConfig: AlertConfig; // Pairs/timeframes and detector settings to replay
+  startTime: number;
+  endTime: number;
+  windowSize: number; // Default: 300 closed candles passed to the detectors
+  takeProfitR: number; // Default: 2 (take profit at 2x the stop distance)
+  stopLossAtr: number; // Default: 1 (stop distance in ATRs)
+  atrPeriod: number; // Default: 14
+  maxHoldCandles: number; // Default: 48, exit at close after this many candles
+  forwardHorizons: number[]; // Default: [1, 5, 20] candles
+}
+
+export interface BacktestCandles {
+  [symbol: string]: {
+    [timeframe: string]: KlineData[];
+  };
+}
+
+export interface BacktestTrade {
+  alertType: string;
+  symbol: string;
+  timeframe: string;
+  direction: "long" | "short";
+  entryTime: number;
+  entryPrice: number;
+  stopLoss: number;
+  takeProfit: number;
+  exitTime: number;
+  exitPrice: number;
+  outcome: "take_profit" | "stop_loss" | "timeout";
+  r: number;
+  returnPercent: number;
+  forwardReturns: { [horizon: number]: number }; // Direction-adjusted %
+}
+
+export interface BacktestStats {
+  group: string;
+  trades: number;
+  hitRate: number; // % of trades with R > 0
+  averageR: number;
+  averageWinR: number;
+  averageLossR: number;
+  expectancyPercent: number; // Average direction-adjusted return per trade
+  maxDrawdownR: number;
+  forwardReturns: { [horizon: number]: number }; // Average direction-adjusted %
+}
+
+export interface BacktestReport {
+  startTime: number;
+  endTime: number;
+  steps: number;
+  totalAlerts: number;
+  unevaluatedAlerts: number; // Not enough candles after the alert or no ATR
+  stats: BacktestStats[];
+  trades: BacktestTrade[];
+}
+
+/**
+ * Replays historical candles through AlertService on a virtual clock and
+ * scores every alert as a trade with an ATR stop and an R-multiple target.
+ *
+ * Each step mirrors what the live bot sees when CandleSyncScheduler fires at
+ * a candle open: the closed candles so far plus the candle that just opened
+ * (open price only, no volume yet). Higher timeframes are only included at
+ * their own candle opens, since intra-candle state cannot be rebuilt from
+ * closed candles.
+ */
+export class BacktestEngine {
+  private config: BacktestConfig;
+  private candles: BacktestCandles;
+  private clock: VirtualClock;
+  private alertService: AlertService;
+
+  constructor(config: BacktestConfig, candles: BacktestCandles) {
+    this.config = config;
+    this.candles = candles;
+    this.clock = new VirtualClock(config.startTime);
+    this.alertService = new AlertService(config.alertConfig, this.clock, false);
+  }
+
+  /**
+   * Run the replay and build the report
+   */
+  run(): BacktestReport {
+    const { pairs, timeframes } = this.config.alertConfig;
+    const stepMs = Math.min(
+      ...timeframes.map((timeframe) => this.getTimeframeMs(timeframe))
+    );
+
+    const cursors: { [key: string]: number } = {};
+    const trades: BacktestTrade[] = [];
+    let totalAlerts = 0;
+    let unevaluatedAlerts = 0;
+    let steps = 0;
+
+    for (
+      let time = Math.ceil(this.config.startTime / stepMs) * stepMs;
+      time <= this.config.endTime;
+      time += stepMs
+    ) {
+      this.clock.setTime(time);
+      steps++;
+
+      const marketData: MultiPairMarketData = {};
+      const openIndexes: { [key: string]: number } = {};
+
+      for (const symbol of pairs) {
+        marketData[symbol] = {};
+
+        for (const timeframe of timeframes) {
+          const key = `${symbol}-${timeframe}`;
+          const candles = this.candles[symbol]?.[timeframe] || [];
+
+          let index = cursors[key] || 0;
+          while ((candles[index]?.openTime ?? Infinity) < time) index++;
+          cursors[key] = index;
+
+          const opening = candles[index];
+          if (!opening || opening.openTime !== time) continue;
+
+          openIndexes[key] = index;
+          marketData[symbol][timeframe] = {
+            symbol,
+            currentPrice: parseFloat(opening.open),
+            timestamp: time,
+            klineData: [
+              ...candles.slice(
+                Math.max(0, index - this.config.windowSize),
+                index
+              ),
+              {
+                ...opening,
+                high: opening.open,
+                low: opening.open,
+                close: opening.open,
+                volume: "0",
+                quoteAssetVolume: "0",
+                numberOfTrades: 0,
+                takerBuyBaseAssetVolume: "0",
+                takerBuyQuoteAssetVolume: "0",
+              },
+            ],
+          };
+        }
+      }
+
+      const alerts = this.alertService.processMarketData(marketData);
+      totalAlerts += alerts.length;
+
+      for (const alert of alerts) {
+        const key = `${alert.symbol}-${alert.timeframe}`;
+        const candles = this.candles[alert.symbol]?.[alert.timeframe];
+        const index = openIndexes[key];
+        const trade =
+          candles && index !== undefined
+            ? this.evaluateAlert(alert, candles, index)
+            : null;
+
+        if (trade) {
+          trades.push(trade);
+        } else {
+          unevaluatedAlerts++;
+        }
+      }
+    }
+
+    return {
+      startTime: this.config.startTime,
+      endTime: this.config.endTime,
+      steps,
+      totalAlerts,
+      unevaluatedAlerts,
+      stats: this.buildStats(trades),
+      trades,
+    };
+  }
+
+  /**
+   * Format a report for the console
+   */
+  formatReport(report: BacktestReport): string {
+    const lines = [
+      `📊 Backtest ${new Date(report.startTime).toISOString()} → ${new Date(
+        report.endTime
+      ).toISOString()}`,
+      `Steps: ${report.steps} | Alerts: ${report.totalAlerts} | Unevaluated: ${report.unevaluatedAlerts}`,
+      `TP: ${this.config.takeProfitR}R | SL: ${this.config.stopLossAtr} ATR(${this.config.atrPeriod}) | Max hold: ${this.config.maxHoldCandles} candles`,
+      "",
+    ];
+
+    for (const stats of report.stats) {
+      const forward = this.config.forwardHorizons
+        .map(
+          (horizon) =>
+            `${horizon}c ${this.formatPercent(stats.forwardReturns[horizon])}`
+        )
+        .join(" ");
+
+      lines.push(
+        `${stats.group}: ${stats.trades} trades | hit ${stats.hitRate.toFixed(
+          1
+        )}% | avg ${stats.averageR.toFixed(
+          2
+        )}R (win ${stats.averageWinR.toFixed(
+          2
+        )}R / loss ${stats.averageLossR.toFixed(
+          2
+        )}R) | expectancy ${this.formatPercent(
+          stats.expectancyPercent
+        )} | max DD ${stats.maxDrawdownR.toFixed(2)}R | fwd ${forward}`
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Simulate a trade opened at the alert candle's open
+   */
+  private evaluateAlert(
+    alert: MarketAlert,
+    candles: KlineData[],
+    entryIndex: number
+  ): BacktestTrade | null {
+    const entryCandle = candles[entryIndex];
+    const lastIndex = entryIndex + this.config.maxHoldCandles - 1;
+    if (!entryCandle || !candles[lastIndex]) return null;
+
+    const direction = this.getDirection(alert, candles, entryIndex);
+    const atr = this.calculateATR(candles, entryIndex);
+    if (atr <= 0) return null;
+
+    const side = direction === "long" ? 1 : -1;
+    const entryPrice = parseFloat(entryCandle.open);
+    const risk = atr * this.config.stopLossAtr;
+    const stopLoss = entryPrice - side * risk;
+    const takeProfit = entryPrice + side * risk * this.config.takeProfitR;
+
+    let exitIndex = lastIndex;
+    let exitPrice = parseFloat(candles[lastIndex]?.close || "0");
+    let outcome: BacktestTrade["outcome"] = "timeout";
+
+    for (let i = entryIndex; i <= lastIndex; i++) {
+      const candle = candles[i];
+      if (!candle) break;
+
+      const high = parseFloat(candle.high);
+      const low = parseFloat(candle.low);
+      const stopHit = direction === "long" ? low <= stopLoss : high >= stopLoss;
+      const targetHit =
+        direction === "long" ? high >= takeProfit : low <= takeProfit;
+
+      // Both inside one candle: assume the stop came first
+      if (stopHit) {
+        exitIndex = i;
+        exitPrice = stopLoss;
+        outcome = "stop_loss";
+        break;
+      }
+      if (targetHit) {
+        exitIndex = i;
+        exitPrice = takeProfit;
+        outcome = "take_profit";
+        break;
+      }
+    }
+
+    const forwardReturns: { [horizon: number]: number } = {};
+    for (const horizon of this.config.forwardHorizons) {
+      const candle = candles[entryIndex + horizon - 1];
+      if (candle) {
+        forwardReturns[horizon] =
+          ((parseFloat(candle.close) - entryPrice) / entryPrice) * 100 * side;
+      }
+    }
+
+    return {
+      alertType: this.getAlertType(alert),
+      symbol: alert.symbol,
+      timeframe: alert.timeframe,
+      direction,
+      entryTime: entryCandle.openTime,
+      entryPrice,
+      stopLoss,
+      takeProfit,
+      exitTime: candles[exitIndex]?.closeTime || entryCandle.closeTime,
+      exitPrice,
+      outcome,
+      r: ((exitPrice - entryPrice) * side) / risk,
+      returnPercent: ((exitPrice - entryPrice) / entryPrice) * 100 * side,
+      forwardReturns,
+    };
+  }
+
+  /**
+   * Trade direction implied by an alert. Volume spikes and ATR expansions
+   * carry no direction of their own, so they are traded in the direction of
+   * the candle. ADX transitions follow the +DI/-DI trend.
+   */
+  private getDirection(
+    alert: MarketAlert,
+    candles: KlineData[],
+    entryIndex: number
+  ): "long" | "short" {
+    switch (alert.type) {
+      case "rsi_divergence":
+      case "oscillator_divergence":
+        return alert.divergenceType === "bullish" ? "long" : "short";
+      case "divergence":
+        // Rising price on falling volume: exhaustion
+        return "short";
+      case "spike": {
+        const spikeCandle = candles[entryIndex - 1];
+        return spikeCandle &&
+          parseFloat(spikeCandle.close) < parseFloat(spikeCandle.open)
+          ? "short"
+          : "long";
+      }
+      case "atr_expansion":
+        return alert.candleDirection === "up" ? "long" : "short";
+      case "adx_trend":
+        return alert.trendDirection === "bullish" ? "long" : "short";
+      default:
+        return alert.signal === "buy" ? "long" : "short";
+    }
+  }
+
+  private getAlertType(alert: MarketAlert): string {
+    switch (alert.type) {
+      case "spike":
+        return "volume_spike";
+      case "divergence":
+        return "volume_divergence";
+      case "rsi_divergence":
+        return "rsi_divergence";
+      case "rsi_pivot_divergence":
+        return "rsi_pivot_divergence";
+      case "oscillator_divergence":
+        return `${alert.oscillator}_${alert.divergenceClass}_divergence`;
+      case "macd_crossover":
+      case "macd_zero_cross":
+      case "atr_expansion":
+      case "supertrend_flip":
+        return alert.type;
+      case "adx_trend":
+        return `adx_${alert.transition}`;
+      default:
+        return `scalping_${alert.type}`;
+    }
+  }
+
+  /**
+   * Average true range over the closed candles before the entry
+   */
+  private calculateATR(candles: KlineData[], entryIndex: number): number {
+    const period = this.config.atrPeriod;
+    if (entryIndex < period + 1) return 0;
+
+    let total = 0;
+    for (let i = entryIndex - period; i < entryIndex; i++) {
+      const candle = candles[i];
+      const previous = candles[i - 1];
+      if (!candle || !previous) return 0;
+
+      const high = parseFloat(candle.high);
+      const low = parseFloat(candle.low);
+      const previousClose = parseFloat(previous.close);
+      total += Math.max(
+        high - low,
+        Math.abs(high - previousClose),
+        Math.abs(low - previousClose)
+      );
+    }
+
+    return total / period;
+  }
+
+  /**
+   * Aggregate trades overall, per alert type and per alert type/symbol/timeframe
+   */
+  private buildStats(trades: BacktestTrade[]): BacktestStats[] {
+    const groups = new Map<string, BacktestTrade[]>();
+    const addToGroup = (group: string, trade: BacktestTrade) => {
+      const groupTrades = groups.get(group) || [];
+      groupTrades.push(trade);
+      groups.set(group, groupTrades);
+    };
+
+    for (const trade of trades) {
+      addToGroup("ALL", trade);
+      addToGroup(trade.alertType, trade);
+      addToGroup(
+        `${trade.alertType} ${trade.symbol} ${trade.timeframe}`,
+        trade
+      );
+    }
+
+    return Array.from(groups.entries()).map(([group, groupTrades]) =>
+      this.calculateStats(group, groupTrades)
+    );
+  }
+
+  private calculateStats(
+    group: string,
+    trades: BacktestTrade[]
+  ): BacktestStats {
+    const wins = trades.filter((trade) => trade.r > 0);
+    const losses = trades.filter((trade) => trade.r <= 0);
+    const average = (values: number[]) =>
+      values.length > 0
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : 0;
+
+    // Drawdown of the cumulative R curve in entry order
+    let cumulativeR = 0;
+    let peakR = 0;
+    let maxDrawdownR = 0;
+    [...trades]
+      .sort((a, b) => a.entryTime - b.entryTime)
+      .forEach((trade) => {
+        cumulativeR += trade.r;
+        peakR = Math.max(peakR, cumulativeR);
+        maxDrawdownR = Math.max(maxDrawdownR, peakR - cumulativeR);
+      });
+
+    const forwardReturns: { [horizon: number]: number } = {};
+    for (const horizon of this.config.forwardHorizons) {
+      const returns = trades
+        .map((trade) => trade.forwardReturns[horizon])
+        .filter((value): value is number => value !== undefined);
+      forwardReturns[horizon] = average(returns);
+    }
+
+    return {
+      group,
+      trades: trades.length,
+      hitRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+      averageR: average(trades.map((trade) => trade.r)),
+      averageWinR: average(wins.map((trade) => trade.r)),
+      averageLossR: average(losses.map((trade) => trade.r)),
+      expectancyPercent: average(trades.map((trade) => trade.returnPercent)),
+      maxDrawdownR,
+      forwardReturns,
+    };
+  }
+
+  private getTimeframeMs(timeframe: string): number {
+    const timeframeMs = getTimeframeInfo(timeframe).milliseconds;
+    if (timeframeMs <= 0) {
+      throw new Error(`Unsupported timeframe: ${timeframe}`);
+    }
+    return timeframeMs;
+  }
+
+  private formatPercent(value: number | undefined): string {
+    if (value === undefined) return "n/a";
+    return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+  }
+}
@@ -1,21 +1,92 @@
-import { OKXService, OrderAction, PositionType } from "./okx.service";
+import fs from "fs";
+import path from "path";
+import {
+  Fill,
+  OKXService,
+  OrderAction,
+  OrderProtection,
+  PositionType,
+} from "./okx.service";
+import { InstrumentRegistry } from "./instrument-registry.service";
+import { RiskAccount, RiskManager, RiskPosition } from "./risk-manager.service";
+import { FundingPayment, TradeHistorySource } from "./trade-journal.service";
+import { EquitySource } from "./performance.service";
+import { calculatePositionSize } from "../utils/position-sizing.utils";
+import { Clock, systemClock } from "../utils/clock.utils";
 
 export interface BotAction {
   id: string;
-  type: "buy" | "sell" | "close_position" | "adjust_leverage" | "custom";
+  type:
+    | "buy"
+    | "sell"
+    | "close_position"
+    | "cancel_order"
+    | "adjust_leverage"
+    | "set_tpsl"
+    | "custom";
   symbol: string;
   parameters: Record<string, any>;
   timestamp: number;
-  status: "pending" | "executing" | "completed" | "failed";
+  // completed: accepted by the executor. Exchange orders then move on to
+  // partially_filled, filled or canceled through reconciliation.
+  status:
+    | "pending"
+    | "executing"
+    | "completed"
+    | "partially_filled"
+    | "filled"
+    | "canceled"
+    | "failed";
   result?: any;
   error?: string;
+  source?: BotActionSource;
+  transitions?: BotActionTransition[];
+  fill?: BotActionFill;
+}
+
+export interface BotActionFill {
+  size: number; // Contracts filled
+  averagePrice?: number;
+  fee: number; // Negative when charged
+  updatedAt: number;
+}
+
+export interface BotActionTransition {
+  status: BotAction["status"];
+  timestamp: number;
+  error?: string;
+}
+
+export interface ActionHistoryFilter {
+  symbol?: string;
+  type?: BotAction["type"];
+  status?: BotAction["status"];
+  from?: number; // Queued at or after (ms)
+  to?: number; // Queued at or before (ms)
+  limit?: number; // Default: 50, newest kept
+}
+
+/**
+ * Signal that generated an action, for auditing automated trades
+ */
+export interface BotActionSource {
+  strategy: string;
+  signalId: string;
+  alertId: string;
 }
 
 export interface ActionExecutor {
   canExecute(action: BotAction): boolean;
   execute(action: BotAction): Promise<BotActionResult>;
+  /**
+   * Look up an action interrupted mid-execution: a successful result when
+   * its order reached the exchange, null when it did not
+   */
+  recover?(action: BotAction): Promise<BotActionResult | null>;
 }
 
+const MAX_ACTION_HISTORY = 2000;
+
 export interface BotActionResult {
   success: boolean;
   actionId: string;
@@ -24,17 +95,97 @@ export interface BotActionResult {
   timestamp: number;
 }
 
-export class OKXActionExecutor implements ActionExecutor {
+/**
+ * Resolve TP/SL parameters (takeProfitPrice/stopLossPrice, or
+ * takeProfitPercent/stopLossPercent from the reference price) into trigger
+ * prices, rejecting levels on the wrong side of the reference price
+ */
+export function resolveProtection(
+  parameters: Record<string, any>,
+  posSide: "long" | "short",
+  referencePrice: number,
+  roundPrice: (price: number) => number = (price) => price
+): OrderProtection {
+  const direction = posSide === "long" ? 1 : -1;
+  const fromPercent = (percent: number, sign: number) =>
+    roundPrice(referencePrice * (1 + (sign * direction * percent) / 100));
+
+  const takeProfitPrice = parameters.takeProfitPrice
+    ? roundPrice(parameters.takeProfitPrice)
+    : parameters.takeProfitPercent
+    ? fromPercent(parameters.takeProfitPercent, 1)
+    : undefined;
+  const stopLossPrice = parameters.stopLossPrice
+    ? roundPrice(parameters.stopLossPrice)
+    : parameters.stopLossPercent
+    ? fromPercent(parameters.stopLossPercent, -1)
+    : undefined;
+
+  if (
+    takeProfitPrice !== undefined &&
+    (takeProfitPrice - referencePrice) * direction <= 0
+  ) {
+    throw new Error(
+      `Take profit ${takeProfitPrice} must be ${
+        posSide === "long" ? "above" : "below"
+      } ${referencePrice} for a ${posSide} position`
+    );
+  }
+  if (
+    stopLossPrice !== undefined &&
+    (referencePrice - stopLossPrice) * direction <= 0
+  ) {
+    throw new Error(
+      `Stop loss ${stopLossPrice} must be ${
+        posSide === "long" ? "below" : "above"
+      } ${referencePrice} for a ${posSide} position`
+    );
+  }
+
+  return {
+    ...(takeProfitPrice !== undefined ? { takeProfitPrice } : {}),
+    ...(stopLossPrice !== undefined ? { stopLossPrice } : {}),
+  };
+}
+
+/**
+ * Whether the parameters ask for a take profit or stop loss
+ */
+export function hasProtection(parameters: Record<string, any>): boolean {
+  return Boolean(
+    parameters.takeProfitPrice ||
+      parameters.takeProfitPercent ||
+      parameters.stopLossPrice ||
+      parameters.stopLossPercent
+  );
+}
+
+export class OKXActionExecutor
+  implements ActionExecutor, RiskAccount, TradeHistorySource, EquitySource
+{
   private okxService: OKXService;
+  private instrumentRegistry: InstrumentRegistry;
+  private clock: Clock;
 
-  constructor(okxService: OKXService) {
+  constructor(
+    okxService: OKXService,
+    instrumentRegistry: InstrumentRegistry,
+    clock: Clock = systemClock
+  ) {
     this.okxService = okxService;
+    this.instrumentRegistry = instrumentRegistry;
+    this.clock = clock;
   }
 
   canExecute(action: BotAction): boolean {
-    return ["buy", "sell", "close_position", "adjust_leverage"].includes(
-      action.type
-    );
+    return [
+      "buy",
+      "sell",
+      "close_position",
+      "cancel_order",
+      "adjust_leverage",
+      "set_tpsl",
+    ].includes(action.type);
   }
 
   async execute(action: BotAction): Promise<BotActionResult> {
@@ -43,17 +194,23 @@ export class OKXActionExecutor implements ActionExecutor {
 
       switch (action.type) {
         case "buy":
-          result = await this.executeBuyAction(action);
+          result = await this.executeOpenAction(action, PositionType.Long);
           break;
         case "sell":
-          result = await this.executeSellAction(action);
+          result = await this.executeOpenAction(action, PositionType.Short);
           break;
         case "close_position":
           result = await this.executeClosePositionAction(action);
           break;
+        case "cancel_order":
+          result = await this.executeCancelOrderAction(action);
+          break;
         case "adjust_leverage":
           result = await this.executeAdjustLeverageAction(action);
           break;
+        case "set_tpsl":
+          result = await this.executeSetTpSlAction(action);
+          break;
         default:
           throw new Error(`Unsupported action type: ${action.type}`);
       }
@@ -62,81 +219,464 @@ export class OKXActionExecutor implements ActionExecutor {
         success: true,
         actionId: action.id,
         result,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       };
     } catch (error) {
       return {
         success: false,
         actionId: action.id,
         error: error instanceof Error ? error.message : "Unknown error",
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       };
     }
   }
 
-  private async executeBuyAction(action: BotAction): Promise<any> {
-    const { symbol, quantity, price, leverage = 20 } = action.parameters;
+  /**
+   * Find an interrupted open order on OKX by its clOrdId (the action ID)
+   */
+  async recover(action: BotAction): Promise<BotActionResult | null> {
+    if (action.type !== "buy" && action.type !== "sell") return null;
+
+    const instId = this.resolveInstId(action.parameters.symbol);
+    const order = await this.okxService.getOrderByClientId(instId, action.id);
+    if (!order) return null;
+
+    return {
+      success: true,
+      actionId: action.id,
+      result: {
+        success: true,
+        orderId: order.orderId,
+        message: `Recovered ${order.status} order after restart`,
+      },
+      timestamp: this.clock.now(),
+    };
+  }
+
+  /**
+   * Open positions with their notional at the mark price
+   */
+  async getOpenPositions(): Promise<RiskPosition[]> {
+    const positions = await this.okxService.getPositions();
+
+    return positions.map((position) => {
+      const instrument = this.instrumentRegistry.getInstrument(
+        position.symbol,
+        "okx",
+        "swap"
+      );
+      return {
+        instId: position.symbol,
+        posSide: position.position === PositionType.Long ? "long" : "short",
+        notional:
+          position.quantity *
+          (instrument?.contractValue ?? 1) *
+          position.markPrice,
+      };
+    });
+  }
+
+  async getAccountEquity(): Promise<number> {
+    return await this.okxService.getAccountEquity("USDT");
+  }
+
+  async getCurrentPrice(instId: string): Promise<number> {
+    return await this.okxService.getTickerPrice(instId);
+  }
+
+  async getRealizedPnl(since: number): Promise<number> {
+    return await this.okxService.getRealizedPnl(since);
+  }
+
+  async cancelAllOrders(): Promise<number> {
+    return await this.okxService.cancelPendingOrders();
+  }
 
-    if (!symbol || !quantity) {
-      throw new Error("Symbol and quantity are required for buy action");
+  /**
+   * Close every open position at market
+   */
+  async closeAllPositions(): Promise<number> {
+    const positions = await this.okxService.getPositions();
+    for (const position of positions) {
+      await this.okxService.closePosition(
+        position.symbol,
+        position.position,
+        position.marginMode
+      );
     }
+    return positions.length;
+  }
 
-    return await this.okxService.placeFuturesOrder(
-      symbol,
+  async getTradeFills(since: number): Promise<Fill[]> {
+    return await this.okxService.getFillsHistory(since);
+  }
+
+  async getEquityValue(): Promise<number> {
+    return await this.okxService.getTotalEquityUsdt();
+  }
+
+  async getUnrealizedPnl(): Promise<number> {
+    const positions = await this.okxService.getPositions();
+    return positions.reduce(
+      (total, position) => total + position.unrealizedPnl,
+      0
+    );
+  }
+
+  async getFundingPayments(since: number): Promise<FundingPayment[]> {
+    const fees = await this.okxService.getFundingFees(since);
+    return fees.map((fee) => ({
+      id: fee.billId,
+      symbol: fee.symbol,
+      amount: fee.amount,
+      timestamp: fee.timestamp,
+    }));
+  }
+
+  /**
+   * Open a long (buy) or short (sell) position. Size is either the given
+   * quantity in contracts, or derived from riskPercent of equity and the
+   * stop loss when quantity is omitted.
+   */
+  private async executeOpenAction(
+    action: BotAction,
+    position: PositionType
+  ): Promise<any> {
+    const { symbol, price, leverage = 20, riskPercent } = action.parameters;
+    let quantity: number | undefined = action.parameters.quantity;
+
+    if (!symbol || (!quantity && !riskPercent)) {
+      throw new Error(
+        `Symbol and quantity (or riskPercent with a stop loss) are required for ${action.type} action`
+      );
+    }
+
+    const instId = this.resolveInstId(symbol, quantity, price);
+    const referencePrice =
+      price ||
+      (hasProtection(action.parameters) || !quantity
+        ? await this.okxService.getTickerPrice(instId)
+        : 0);
+    const protection = this.getProtection(
+      action,
+      instId,
+      position,
+      referencePrice
+    );
+
+    if (!quantity) {
+      quantity = await this.getRiskBasedSize(
+        instId,
+        riskPercent,
+        referencePrice,
+        protection.stopLossPrice
+      );
+      this.resolveInstId(symbol, quantity, price);
+    }
+
+    const response = await this.okxService.placeFuturesOrder(
+      instId,
       OrderAction.Open,
-      PositionType.Long,
+      position,
       quantity,
       price,
       price ? "limit" : "market",
-      leverage
+      leverage,
+      protection,
+      action.id
     );
+    // instId lets reconciliation look the order up later
+    return { ...response, instId };
   }
 
-  private async executeSellAction(action: BotAction): Promise<any> {
-    const { symbol, quantity, price, leverage = 20 } = action.parameters;
+  /**
+   * Size an order so hitting the stop loses riskPercent of USDT equity
+   */
+  private async getRiskBasedSize(
+    instId: string,
+    riskPercent: number,
+    entryPrice: number,
+    stopPrice?: number
+  ): Promise<number> {
+    if (!stopPrice) {
+      throw new Error("Risk-based sizing requires a stop loss");
+    }
+
+    const instrument = this.instrumentRegistry.getInstrument(
+      instId,
+      "okx",
+      "swap"
+    );
+    const sizing = calculatePositionSize({
+      equity: await this.okxService.getAccountEquity("USDT"),
+      riskPercent,
+      entryPrice,
+      stopPrice,
+      contractValue: instrument?.contractValue ?? 1,
+      ...(instrument
+        ? { lotSize: instrument.lotSize, minSize: instrument.minSize }
+        : {}),
+    });
 
-    if (!symbol || !quantity) {
-      throw new Error("Symbol and quantity are required for sell action");
+    console.log(
+      `📐 ${instId}: risking ${riskPercent}% (${sizing.riskAmount.toFixed(
+        2
+      )} USDT) with stop at ${stopPrice} → ${sizing.size} contracts`
+    );
+    return sizing.size;
+  }
+
+  /**
+   * Place a standalone TP/SL order for an open position. Percentages are
+   * taken from entryPrice when given, otherwise from the last price.
+   */
+  private async executeSetTpSlAction(action: BotAction): Promise<any> {
+    const { symbol, posSide, quantity, entryPrice } = action.parameters;
+
+    if (!symbol || !posSide || !quantity || !hasProtection(action.parameters)) {
+      throw new Error(
+        "Symbol, posSide, quantity and a take profit or stop loss are required for set TP/SL action"
+      );
     }
 
-    return await this.okxService.placeFuturesOrder(
-      symbol,
-      OrderAction.Open,
-      PositionType.Short,
+    const instId = this.resolveInstId(symbol, quantity);
+    const position =
+      posSide === "short" ? PositionType.Short : PositionType.Long;
+    const protection = this.getProtection(
+      action,
+      instId,
+      position,
+      entryPrice || (await this.okxService.getTickerPrice(instId))
+    );
+
+    // Attach to the open position's margin mode; without one yet (e.g. a
+    // pending entry) the configured mode is what the entry will use
+    const [openPosition] = (await this.okxService.getPositions(instId)).filter(
+      (entry) => entry.position === position
+    );
+
+    return await this.okxService.placeAlgoOrder(
+      instId,
+      position,
       quantity,
-      price,
-      price ? "limit" : "market",
-      leverage
+      protection,
+      openPosition?.marginMode
+    );
+  }
+
+  /**
+   * Resolve the action's TP/SL into tick-rounded trigger prices
+   */
+  private getProtection(
+    action: BotAction,
+    instId: string,
+    position: PositionType,
+    referencePrice: number
+  ): OrderProtection {
+    if (!hasProtection(action.parameters)) return {};
+
+    const instrument = this.instrumentRegistry.getInstrument(
+      instId,
+      "okx",
+      "swap"
+    );
+
+    return resolveProtection(
+      action.parameters,
+      position,
+      referencePrice,
+      (value) =>
+        instrument
+          ? this.instrumentRegistry.roundPrice(instrument, value)
+          : value
     );
   }
 
+  /**
+   * Translate a symbol into an OKX swap instId and reject sizes/prices
+   * that break the instrument's lot and tick rules
+   */
+  private resolveInstId(
+    symbol: string,
+    quantity?: number,
+    price?: number
+  ): string {
+    const instrument = this.instrumentRegistry.getInstrument(
+      symbol,
+      "okx",
+      "swap"
+    );
+
+    if (!instrument) {
+      if (this.instrumentRegistry.hasVenue("okx")) {
+        throw new Error(`Unknown OKX instrument: ${symbol}`);
+      }
+      // Metadata unavailable, let OKX validate the order
+      return symbol;
+    }
+
+    if (quantity !== undefined) {
+      this.instrumentRegistry.validateOrder(instrument, quantity, price);
+    }
+    return instrument.venueSymbol;
+  }
+
+  /**
+   * Close open positions at market, fully or by percent (1-100) of their
+   * size. Without posSide both sides of the symbol are closed.
+   */
   private async executeClosePositionAction(action: BotAction): Promise<any> {
+    const { symbol, posSide, percent = 100 } = action.parameters;
+
+    if (!symbol) {
+      throw new Error("Symbol is required for close position action");
+    }
+    if (percent <= 0 || percent > 100) {
+      throw new Error("Close percent must be between 0 and 100");
+    }
+
+    const instId = this.resolveInstId(symbol);
+    const positions = (await this.okxService.getPositions(instId)).filter(
+      (position) => !posSide || position.position === posSide
+    );
+    if (positions.length === 0) {
+      throw new Error(`No open position for ${instId}`);
+    }
+
+    const instrument = this.instrumentRegistry.getInstrument(
+      instId,
+      "okx",
+      "swap"
+    );
+    const orders = [];
+
+    for (const position of positions) {
+      if (percent >= 100) {
+        orders.push(
+          await this.okxService.closePosition(
+            instId,
+            position.position,
+            position.marginMode
+          )
+        );
+        continue;
+      }
+
+      const rawSize = (position.quantity * percent) / 100;
+      const size = instrument
+        ? this.instrumentRegistry.roundSize(instrument, rawSize)
+        : rawSize;
+      if (size <= 0) {
+        throw new Error(
+          `${percent}% of ${position.quantity} contracts is below the lot size`
+        );
+      }
+
+      orders.push(
+        await this.okxService.placeFuturesOrder(
+          instId,
+          OrderAction.Close,
+          position.position,
+          size,
+          undefined,
+          "market",
+          position.leverage,
+          {},
+          undefined,
+          // Close in the position's own mode, not the default for new orders
+          position.marginMode
+        )
+      );
+    }
+
+    return {
+      success: true,
+      orderId: orders.map((order) => order.orderId).find(Boolean),
+      message: `Closed ${percent}% of ${positions.length} position(s)`,
+    };
+  }
+
+  private async executeCancelOrderAction(action: BotAction): Promise<any> {
     const { symbol, orderId } = action.parameters;
 
     if (!symbol || !orderId) {
       throw new Error(
-        "Symbol and orderId are required for close position action"
+        "Symbol and orderId are required for cancel order action"
       );
     }
 
-    return await this.okxService.closeFuturesOrder(orderId, symbol);
+    return await this.okxService.closeFuturesOrder(
+      orderId,
+      this.resolveInstId(symbol)
+    );
   }
 
+  /**
+   * Set leverage, optionally switching the instrument's margin mode first
+   */
   private async executeAdjustLeverageAction(action: BotAction): Promise<any> {
-    // This would require additional OKX API methods for leverage adjustment
-    // For now, we'll return a placeholder
-    throw new Error("Leverage adjustment not yet implemented");
+    const { symbol, leverage, marginMode, posSide } = action.parameters;
+
+    if (!symbol || !leverage) {
+      throw new Error(
+        "Symbol and leverage are required for adjust leverage action"
+      );
+    }
+    if (marginMode && marginMode !== "cross" && marginMode !== "isolated") {
+      throw new Error(`Unsupported margin mode: ${marginMode}`);
+    }
+
+    const instId = this.resolveInstId(symbol);
+    const instrument = this.instrumentRegistry.getInstrument(
+      instId,
+      "okx",
+      "swap"
+    );
+    if (instrument?.maxLeverage && leverage > instrument.maxLeverage) {
+      throw new Error(
+        `Leverage ${leverage}x exceeds ${instId} maximum of ${instrument.maxLeverage}x`
+      );
+    }
+
+    if (marginMode) {
+      this.okxService.setMarginMode(instId, marginMode);
+    }
+    const mode = this.okxService.getMarginMode(instId);
+    const results = await this.okxService.setLeverage(
+      instId,
+      leverage,
+      mode,
+      posSide
+    );
+
+    return {
+      success: true,
+      message: `${instId} ${mode} leverage set to ${leverage}x`,
+      leverage: results,
+    };
   }
 }
 
 export class BotActionService {
+  private readonly actionsFile: string;
   private actionExecutors: ActionExecutor[] = [];
   private pendingActions: Map<string, BotAction> = new Map();
   private actionHistory: BotAction[] = [];
-  private isProcessing: boolean = false;
+  private processing: Promise<BotActionResult[]> | null = null;
+  private riskManager: RiskManager | null = null;
+  private clock: Clock;
 
-  constructor() {
-    // Initialize with default executors
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+    this.actionsFile = path.join(process.cwd(), "/data/bot-actions.json");
+    this.loadActions();
+  }
+
+  /**
+   * Check every action against the risk limits before execution
+   */
+  setRiskManager(riskManager: RiskManager): void {
+    this.riskManager = riskManager;
   }
 
   /**
@@ -147,21 +687,24 @@ export class BotActionService {
   }
 
   /**
-   * Queue an action for execution
+   * Queue an action for execution. The action ID doubles as the OKX
+   * clOrdId (alphanumeric, at most 32 characters).
    */
   queueAction(action: Omit<BotAction, "id" | "timestamp" | "status">): string {
-    const actionId = `action_${Date.now()}_${Math.random()
+    const actionId = `action${this.clock.now()}${Math.random()
       .toString(36)
       .substr(2, 9)}`;
 
     const fullAction: BotAction = {
       ...action,
       id: actionId,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       status: "pending",
+      transitions: [],
     };
 
     this.pendingActions.set(actionId, fullAction);
+    this.transition(fullAction, "pending");
     console.log(`📋 Action queued: ${actionId} (${action.type})`);
 
     return actionId;
@@ -171,73 +714,136 @@ export class BotActionService {
    * Execute all pending actions
    */
   async executePendingActions(): Promise<BotActionResult[]> {
-    if (this.isProcessing) {
+    if (this.processing) {
       console.log("⏳ Action processing already in progress");
       return [];
     }
 
-    this.isProcessing = true;
+    this.processing = this.processPendingActions();
+    try {
+      return await this.processing;
+    } finally {
+      this.processing = null;
+    }
+  }
+
+  /**
+   * Execute a queued action and return its result. Unlike
+   * executePendingActions() a pass already in progress is waited for
+   * rather than skipped; an action that still did not run (e.g. cancelled
+   * meanwhile) is cancelled, so it never outlives the null result.
+   */
+  async executeAction(actionId: string): Promise<BotActionResult | null> {
+    while (this.processing) {
+      await this.processing.catch(() => undefined);
+    }
+
+    const results = await this.executePendingActions();
+    const result = results.find((entry) => entry.actionId === actionId);
+    if (!result) {
+      this.cancelAction(actionId, "Action was not executed");
+    }
+    return result || null;
+  }
+
+  private async processPendingActions(): Promise<BotActionResult[]> {
     const results: BotActionResult[] = [];
 
-    try {
-      const actions = Array.from(this.pendingActions.values());
-
-      for (const action of actions) {
-        try {
-          action.status = "executing";
-
-          const executor = this.findExecutor(action);
-          if (!executor) {
-            throw new Error(
-              `No executor found for action type: ${action.type}`
-            );
-          }
-
-          const result = await executor.execute(action);
-          results.push(result);
-
-          if (result.success) {
-            action.status = "completed";
-            action.result = result.result;
-          } else {
-            action.status = "failed";
-            action.error = result.error || "";
-          }
-
-          // Remove from pending and add to history
-          this.pendingActions.delete(action.id);
-          this.actionHistory.push(action);
-
-          console.log(
-            `✅ Action executed: ${action.id} - ${
-              result.success ? "SUCCESS" : "FAILED"
-            }`
-          );
-        } catch (error) {
-          action.status = "failed";
-          action.error =
-            error instanceof Error ? error.message : "Unknown error";
+    // Interrupted actions wait for recoverActions() instead
+    const actions = Array.from(this.pendingActions.values()).filter(
+      (action) => action.status === "pending"
+    );
+
+    for (const action of actions) {
+      try {
+        // Persisted before any order is sent, so a crash leaves a
+        // trace to reconcile on the next start
+        this.transition(action, "executing");
+
+        // Actions breaking a risk limit fail without reaching an executor
+        if (this.riskManager) {
+          await this.riskManager.checkAction(action);
+        }
 
-          this.pendingActions.delete(action.id);
-          this.actionHistory.push(action);
+        const executor = this.findExecutor(action);
+        if (!executor) {
+          throw new Error(`No executor found for action type: ${action.type}`);
+        }
 
-          results.push({
-            success: false,
-            actionId: action.id,
-            error: action.error,
-            timestamp: Date.now(),
-          });
+        const result = await executor.execute(action);
+        results.push(result);
 
-          console.error(`❌ Action failed: ${action.id}`, error);
+        if (result.success) {
+          action.result = result.result;
+        } else {
+          action.error = result.error || "";
         }
+
+        // Remove from pending and add to history
+        this.finish(action, result.success ? "completed" : "failed");
+
+        console.log(
+          `✅ Action executed: ${action.id} - ${
+            result.success ? "SUCCESS" : "FAILED"
+          }`
+        );
+      } catch (error) {
+        action.error = error instanceof Error ? error.message : "Unknown error";
+        this.finish(action, "failed");
+
+        results.push({
+          success: false,
+          actionId: action.id,
+          error: action.error,
+          timestamp: this.clock.now(),
+        });
+
+        console.error(`❌ Action failed: ${action.id}`, error);
       }
-    } finally {
-      this.isProcessing = false;
     }
 
     return results;
   }
 
+  /**
+   * Resolve actions left executing by a crash or restart. Executors that
+   * can look the action up on the exchange (by clOrdId) decide whether it
+   * completed; the rest are marked failed for manual checking, never
+   * executed twice.
+   */
+  async recoverActions(): Promise<void> {
+    const interrupted = Array.from(this.pendingActions.values()).filter(
+      (action) => action.status === "executing"
+    );
+    if (interrupted.length === 0) return;
+
+    console.log(`🔁 Recovering ${interrupted.length} interrupted actions...`);
+
+    for (const action of interrupted) {
+      try {
+        const executor = this.findExecutor(action);
+        const result = executor?.recover
+          ? await executor.recover(action)
+          : null;
+
+        if (result?.success) {
+          action.result = result.result;
+          this.finish(action, "completed");
+          console.log(`✅ Action recovered: ${action.id} (found on exchange)`);
+        } else {
+          action.error =
+            result?.error ||
+            "Interrupted by a restart, order not found on the exchange";
+          this.finish(action, "failed");
+          console.log(`⚠️ Action ${action.id} marked failed: ${action.error}`);
+        }
+      } catch (error) {
+        // Leave it executing and retry on the next start
+        console.error(`❌ Error recovering action ${action.id}:`, error);
+      }
+    }
+  }
+
   /**
    * Find an executor for the given action
    */
@@ -248,6 +854,80 @@ export class BotActionService {
     );
   }
 
+  /**
+   * Record a status change and persist the queue
+   */
+  private transition(
+    action: BotAction,
+    status: BotAction["status"],
+    error?: string
+  ): void {
+    action.status = status;
+    action.transitions = [
+      ...(action.transitions || []),
+      {
+        status,
+        timestamp: this.clock.now(),
+        ...(error !== undefined ? { error } : {}),
+      },
+    ];
+    this.saveActions();
+  }
+
+  /**
+   * Move an action from the queue to history with its final status
+   */
+  private finish(action: BotAction, status: "completed" | "failed"): void {
+    this.pendingActions.delete(action.id);
+    this.actionHistory.push(action);
+    if (this.actionHistory.length > MAX_ACTION_HISTORY) {
+      this.actionHistory = this.actionHistory.slice(-MAX_ACTION_HISTORY);
+    }
+    this.transition(action, status, action.error);
+  }
+
+  /**
+   * Buy/sell actions whose exchange order can still fill or be canceled,
+   * queued at or after the given time
+   */
+  getOpenOrderActions(since: number): BotAction[] {
+    return this.actionHistory.filter(
+      (action) =>
+        (action.type === "buy" || action.type === "sell") &&
+        (action.status === "completed" ||
+          action.status === "partially_filled") &&
+        action.result?.orderId &&
+        action.timestamp >= since
+    );
+  }
+
+  /**
+   * Update an order action from its exchange order state. Returns the
+   * action when its status changed.
+   */
+  updateOrderStatus(
+    actionId: string,
+    status: "completed" | "partially_filled" | "filled" | "canceled",
+    fill: Omit<BotActionFill, "updatedAt">
+  ): BotAction | null {
+    const action = this.actionHistory.find((entry) => entry.id === actionId);
+    if (!action) return null;
+
+    const fillChanged =
+      action.fill?.size !== fill.size || action.fill?.fee !== fill.fee;
+    if (action.status === status && !fillChanged) return null;
+
+    action.fill = { ...fill, updatedAt: this.clock.now() };
+    if (action.status === status) {
+      this.saveActions();
+      return null;
+    }
+
+    this.transition(action, status);
+    console.log(`🔄 Action ${action.id} order ${status}`);
+    return action;
+  }
+
   /**
    * Get action status
    */
@@ -267,23 +947,31 @@ export class BotActionService {
   }
 
   /**
-   * Get action history
+   * Get finished actions matching the filter, newest last
    */
-  getActionHistory(limit: number = 50): BotAction[] {
-    return this.actionHistory.slice(-limit);
+  getActionHistory(filter: ActionHistoryFilter = {}): BotAction[] {
+    const { symbol, type, status, from, to, limit = 50 } = filter;
+
+    return this.actionHistory
+      .filter(
+        (action) =>
+          (!symbol || action.symbol === symbol) &&
+          (!type || action.type === type) &&
+          (!status || action.status === status) &&
+          (from === undefined || action.timestamp >= from) &&
+          (to === undefined || action.timestamp <= to)
+      )
+      .slice(-limit);
   }
 
   /**
    * Cancel a pending action
    */
-  cancelAction(actionId: string): boolean {
+  cancelAction(actionId: string, reason = "Cancelled by user"): boolean {
     const action = this.pendingActions.get(actionId);
     if (action && action.status === "pending") {
-      action.status = "failed";
-      action.error = "Cancelled by user";
-
-      this.pendingActions.delete(actionId);
-      this.actionHistory.push(action);
+      action.error = reason;
+      this.finish(action, "failed");
 
       console.log(`🚫 Action cancelled: ${actionId}`);
       return true;
@@ -301,7 +989,7 @@ export class BotActionService {
     executorCount: number;
   } {
     return {
-      isProcessing: this.isProcessing,
+      isProcessing: this.processing !== null,
       pendingCount: this.pendingActions.size,
       historyCount: this.actionHistory.length,
       executorCount: this.actionExecutors.length,
@@ -313,6 +1001,58 @@ export class BotActionService {
    */
   clearHistory(): void {
     this.actionHistory = [];
+    this.saveActions();
     console.log("🗑️ Action history cleared");
   }
+
+  /**
+   * Load the action queue and history from JSON file
+   */
+  private loadActions(): void {
+    try {
+      if (fs.existsSync(this.actionsFile)) {
+        const data = JSON.parse(fs.readFileSync(this.actionsFile, "utf8"));
+        this.pendingActions = new Map(
+          (data.pendingActions || []).map((action: BotAction) => [
+            action.id,
+            action,
+          ])
+        );
+        this.actionHistory = data.actionHistory || [];
+      }
+    } catch (error) {
+      console.error("❌ Error loading bot actions:", error);
+      this.pendingActions = new Map();
+      this.actionHistory = [];
+    }
+  }
+
+  /**
+   * Save the action queue and history to JSON file. Written to a temporary
+   * file and renamed, so a crash mid-write keeps the previous version.
+   */
+  private saveActions(): void {
+    try {
+      const dataDir = path.dirname(this.actionsFile);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      const tempFile = `${this.actionsFile}.tmp`;
+      fs.writeFileSync(
+        tempFile,
+        JSON.stringify(
+          {
+            pendingActions: Array.from(this.pendingActions.values()),
+            actionHistory: this.actionHistory,
+          },
+          null,
+          2
+        )
+      );
+      fs.renameSync(tempFile, this.actionsFile);
+    } catch (error) {
+      console.error("❌ Error saving bot actions:", error);
+    }
+  }
 }
@@ -1,14 +1,64 @@
-import { BotConfig, AlertConfig, OKXConfig } from "../types/market.model";
+import fs from "fs";
+import path from "path";
+import {
+  BotConfig,
+  AlertConfig,
+  OKXConfig,
+  MarketDataProviderName,
+  TradingMode,
+  MarginMode,
+  StrategyConfig,
+  StrategyRule,
+  RiskConfig,
+  PerformanceConfig,
+  RSISmoothing,
+  RSIPivotDivergenceConfig,
+  OscillatorDivergenceConfig,
+  DivergenceOscillator,
+  DivergenceClass,
+  MACDConfig,
+  ATRVolatilityConfig,
+  ADXTrendConfig,
+  SuperTrendConfig,
+} from "../types/market.model";
+
+const DIVERGENCE_OSCILLATORS: DivergenceOscillator[] = [
+  "rsi",
+  "macd",
+  "obv",
+  "cvd",
+  "stochastic",
+  "mfi",
+];
+
+const STRATEGY_ALERT_TYPES = [
+  "rsi_divergence",
+  "rsi_pivot_divergence",
+  "oscillator_divergence",
+  "macd_crossover",
+  "macd_zero_cross",
+  "supertrend_flip",
+  "ema_crossover",
+  "stochastic_signal",
+  "bollinger_squeeze",
+  "volume_spike",
+];
 
 export class BotConfigService {
   private botConfig: BotConfig;
   private alertConfig: AlertConfig;
   private okxConfig: OKXConfig;
+  private strategyConfig: StrategyConfig;
+  private riskConfig: RiskConfig;
+  private performanceConfig: PerformanceConfig;
 
   constructor() {
     this.botConfig = this.loadBotConfig();
     this.alertConfig = this.loadAlertConfig();
     this.okxConfig = this.loadOKXConfig();
+    this.strategyConfig = this.loadStrategyConfig();
+    this.riskConfig = this.loadRiskConfig();
+    this.performanceConfig = this.loadPerformanceConfig();
   }
 
   /**
@@ -41,14 +91,231 @@ export class BotConfigService {
         process.env.DIVERGENCE_CANDLE_COUNT || "3"
       ),
       rsiPeriod: parseInt(process.env.RSI_PERIOD || "14"),
+      rsiSmoothing: this.parseRSISmoothing(
+        process.env.RSI_SMOOTHING || "wilder"
+      ),
       rsiOverbought: parseFloat(process.env.RSI_OVERBOUGHT || "70"),
       rsiOversold: parseFloat(process.env.RSI_OVERSOLD || "30"),
       rsiDivergenceLookback: parseInt(
         process.env.RSI_DIVERGENCE_LOOKBACK || "20"
       ),
+      rsiPivotDivergence: this.loadRSIPivotDivergenceConfig(),
+      oscillatorDivergence: this.loadOscillatorDivergenceConfig(),
+      macdSignals: this.loadMACDConfig(),
+      atrVolatility: this.loadATRVolatilityConfig(),
+      adxTrend: this.loadADXTrendConfig(),
+      superTrend: this.loadSuperTrendConfig(),
+      useKlineStreams: process.env.USE_KLINE_STREAMS !== "false",
+      useCandleStore: process.env.USE_CANDLE_STORE !== "false",
+      marketDataProvider: this.parseMarketDataProvider(
+        process.env.MARKET_DATA_PROVIDER || "binance_spot"
+      ),
+      pairProviders: this.parsePairProviders(process.env.PAIR_PROVIDERS || ""),
+    };
+  }
+
+  /**
+   * Load the Pine RSI pivot divergence settings from environment variables
+   */
+  private loadRSIPivotDivergenceConfig(): RSIPivotDivergenceConfig {
+    return {
+      enabled: process.env.RSI_PIVOT_ENABLED !== "false",
+      rsiLength: parseInt(process.env.RSI_PIVOT_RSI_LENGTH || "14"),
+      pivotLength: parseInt(process.env.RSI_PIVOT_LOOKBACK || "2"),
+      bullDivDiff: parseFloat(process.env.RSI_PIVOT_BULL_DIFF || "5"),
+      bearDivDiff: parseFloat(process.env.RSI_PIVOT_BEAR_DIFF || "5"),
+      bullRsiLevel: parseFloat(process.env.RSI_PIVOT_OVERSOLD || "35"),
+      bearRsiLevel: parseFloat(process.env.RSI_PIVOT_OVERBOUGHT || "65"),
+      tpPercent: parseFloat(process.env.RSI_PIVOT_TP_PERCENT || "1"),
+      slPercent: parseFloat(process.env.RSI_PIVOT_SL_PERCENT || "1"),
+    };
+  }
+
+  /**
+   * Load multi-oscillator divergence settings from environment variables
+   */
+  private loadOscillatorDivergenceConfig(): OscillatorDivergenceConfig {
+    return {
+      enabled: process.env.OSC_DIVERGENCE_ENABLED !== "false",
+      oscillators: this.parseDivergenceOscillators(
+        process.env.OSC_DIVERGENCE_OSCILLATORS ||
+          DIVERGENCE_OSCILLATORS.join(",")
+      ),
+      classes: this.parseDivergenceClasses(
+        process.env.OSC_DIVERGENCE_CLASSES || "regular,hidden"
+      ),
+      pivotStrength: parseInt(process.env.OSC_DIVERGENCE_PIVOT_STRENGTH || "3"),
+      maxBarDistance: parseInt(process.env.OSC_DIVERGENCE_MAX_BARS || "60"),
+    };
+  }
+
+  /**
+   * Load MACD crossover settings from environment variables
+   */
+  private loadMACDConfig(): MACDConfig {
+    return {
+      enabled: process.env.MACD_ENABLED !== "false",
+      timeframes: this.parseTimeframes(process.env.MACD_TIMEFRAMES || ""),
+      fastPeriod: parseInt(process.env.MACD_FAST || "12"),
+      slowPeriod: parseInt(process.env.MACD_SLOW || "26"),
+      signalPeriod: parseInt(process.env.MACD_SIGNAL || "9"),
+    };
+  }
+
+  /**
+   * Load ATR volatility expansion settings from environment variables
+   */
+  private loadATRVolatilityConfig(): ATRVolatilityConfig {
+    return {
+      enabled: process.env.ATR_ENABLED !== "false",
+      timeframes: this.parseTimeframes(process.env.ATR_TIMEFRAMES || ""),
+      period: parseInt(process.env.ATR_PERIOD || "14"),
+      averagePeriod: parseInt(process.env.ATR_AVERAGE_PERIOD || "20"),
+      expansionMultiplier: parseFloat(
+        process.env.ATR_EXPANSION_MULTIPLIER || "1.5"
+      ),
+    };
+  }
+
+  /**
+   * Load ADX trend strength settings from environment variables
+   */
+  private loadADXTrendConfig(): ADXTrendConfig {
+    const trendThreshold = parseFloat(process.env.ADX_TREND_THRESHOLD || "25");
+    const weakThreshold = parseFloat(process.env.ADX_WEAK_THRESHOLD || "20");
+    if (weakThreshold > trendThreshold) {
+      throw new Error(
+        `Invalid ADX thresholds: ADX_WEAK_THRESHOLD (${weakThreshold}) must not exceed ADX_TREND_THRESHOLD (${trendThreshold})`
+      );
+    }
+
+    return {
+      enabled: process.env.ADX_ENABLED !== "false",
+      timeframes: this.parseTimeframes(process.env.ADX_TIMEFRAMES || ""),
+      period: parseInt(process.env.ADX_PERIOD || "14"),
+      trendThreshold,
+      weakThreshold,
+    };
+  }
+
+  /**
+   * Load SuperTrend settings from environment variables
+   */
+  private loadSuperTrendConfig(): SuperTrendConfig {
+    return {
+      enabled: process.env.SUPERTREND_ENABLED !== "false",
+      timeframes: this.parseTimeframes(process.env.SUPERTREND_TIMEFRAMES || ""),
+      atrPeriod: parseInt(process.env.SUPERTREND_ATR_PERIOD || "10"),
+      multiplier: parseFloat(process.env.SUPERTREND_MULTIPLIER || "3"),
     };
   }
 
+  /**
+   * Parse a detector's timeframes, e.g. "15m,1h"; empty means all
+   */
+  private parseTimeframes(value: string): string[] {
+    return value
+      .split(",")
+      .map((timeframe) => timeframe.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Parse oscillators for divergence detection, e.g. "rsi,macd,obv"
+   */
+  private parseDivergenceOscillators(value: string): DivergenceOscillator[] {
+    return value
+      .split(",")
+      .map((entry) => entry.trim().toLowerCase())
+      .filter(Boolean)
+      .map((entry) => {
+        const oscillator = DIVERGENCE_OSCILLATORS.find(
+          (candidate) => candidate === entry
+        );
+        if (!oscillator) {
+          throw new Error(
+            `Unsupported divergence oscillator: ${entry} (expected ${DIVERGENCE_OSCILLATORS.join(
+              ", "
+            )})`
+          );
+        }
+        return oscillator;
+      });
+  }
+
+  /**
+   * Parse divergence classes, e.g. "regular,hidden"
+   */
+  private parseDivergenceClasses(value: string): DivergenceClass[] {
+    return value
+      .split(",")
+      .map((entry) => entry.trim().toLowerCase())
+      .filter(Boolean)
+      .map((entry) => {
+        if (entry !== "regular" && entry !== "hidden") {
+          throw new Error(
+            `Unsupported divergence class: ${entry} (expected regular, hidden)`
+          );
+        }
+        return entry;
+      });
+  }
+
+  /**
+   * Parse the RSI smoothing method
+   */
+  private parseRSISmoothing(value: string): RSISmoothing {
+    const smoothing = value.trim().toLowerCase();
+    if (smoothing !== "wilder" && smoothing !== "sma") {
+      throw new Error(
+        `Unsupported RSI smoothing: ${value} (expected wilder, sma)`
+      );
+    }
+    return smoothing;
+  }
+
+  /**
+   * Parse a market data provider name
+   */
+  private parseMarketDataProvider(value: string): MarketDataProviderName {
+    const providers: MarketDataProviderName[] = [
+      "binance_spot",
+      "binance_futures",
+      "okx",
+    ];
+    const provider = providers.find((name) => name === value.trim());
+    if (!provider) {
+      throw new Error(
+        `Unsupported market data provider: ${value} (expected ${providers.join(
+          ", "
+        )})`
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * Parse per-pair provider overrides, e.g. "BTC-USDT-SWAP:okx,ETHUSDT:binance_futures"
+   */
+  private parsePairProviders(value: string): {
+    [pair: string]: MarketDataProviderName;
+  } {
+    const pairProviders: { [pair: string]: MarketDataProviderName } = {};
+
+    value
+      .split(",")
+      .filter((entry) => entry.trim())
+      .forEach((entry) => {
+        const [pair, provider] = entry.split(":");
+        if (!pair || !provider) {
+          throw new Error(`Invalid PAIR_PROVIDERS entry: ${entry}`);
+        }
+        pairProviders[pair.trim()] = this.parseMarketDataProvider(provider);
+      });
+
+    return pairProviders;
+  }
+
   /**
    * Load OKX configuration from environment variables
    */
@@ -62,11 +329,214 @@ export class BotConfigService {
         process.env.OKX_BALANCE_ALERT_INTERVAL || "5"
       ),
       minBalanceThreshold: parseFloat(
-        process.env.OKX_MIN_BALANCE_THRESHOLD || "0.001"
+        process.env.OKX_MIN_BALANCE_THRESHOLD || "1"
+      ),
+      lowBalanceThresholds: this.parseLowBalanceThresholds(
+        process.env.OKX_LOW_BALANCE_USD || ""
+      ),
+      minTotalEquity: parseFloat(process.env.OKX_MIN_TOTAL_EQUITY_USD || "0"),
+      balanceChangePercent: parseFloat(
+        process.env.OKX_BALANCE_CHANGE_PERCENT || "10"
       ),
+      marginRatioAlert: parseFloat(process.env.OKX_MARGIN_RATIO_ALERT || "3"),
+      tradingMode: this.parseTradingMode(process.env.TRADING_MODE || "live"),
+      paperTrading: {
+        initialBalance: parseFloat(
+          process.env.PAPER_INITIAL_BALANCE || "10000"
+        ),
+        takerFeeRate: parseFloat(process.env.PAPER_TAKER_FEE || "0.0005"),
+        makerFeeRate: parseFloat(process.env.PAPER_MAKER_FEE || "0.0002"),
+        slippageBps: parseFloat(process.env.PAPER_SLIPPAGE_BPS || "2"),
+        fundingRate: parseFloat(process.env.PAPER_FUNDING_RATE || "0.0001"),
+      },
+      marginMode: this.parseMarginMode(process.env.OKX_MARGIN_MODE || "cross"),
+      marginModeOverrides: this.parseMarginModeOverrides(
+        process.env.OKX_MARGIN_MODES || ""
+      ),
+      reconcileInterval: parseInt(process.env.OKX_RECONCILE_INTERVAL || "30"),
+      privateStreamEnabled: process.env.OKX_PRIVATE_STREAM_ENABLED !== "false",
+    };
+  }
+
+  /**
+   * Load strategy router configuration. Rules live in a JSON file
+   * (STRATEGIES_FILE) since each one has its own filters and sizing.
+   */
+  private loadStrategyConfig(): StrategyConfig {
+    const enabled = process.env.AUTO_TRADING_ENABLED === "true";
+    const rulesFile = path.resolve(
+      process.env.STRATEGIES_FILE || "strategies.json"
+    );
+
+    let rules: StrategyRule[] = [];
+    if (enabled) {
+      if (!fs.existsSync(rulesFile)) {
+        throw new Error(`Strategy rules file not found: ${rulesFile}`);
+      }
+      const parsed = JSON.parse(fs.readFileSync(rulesFile, "utf8"));
+      if (!Array.isArray(parsed)) {
+        throw new Error(`${rulesFile} must contain an array of strategy rules`);
+      }
+      rules = parsed.map((rule) => this.parseStrategyRule(rule));
+    }
+
+    return {
+      enabled,
+      approvalTimeout:
+        parseInt(process.env.STRATEGY_APPROVAL_TIMEOUT || "15") * 60 * 1000,
+      rules,
+    };
+  }
+
+  /**
+   * Load pre-trade risk limits from environment variables
+   */
+  private loadRiskConfig(): RiskConfig {
+    return {
+      maxLeverage: parseFloat(process.env.RISK_MAX_LEVERAGE || "20"),
+      maxNotionalPerSymbol: parseFloat(
+        process.env.RISK_MAX_NOTIONAL_PER_SYMBOL || "0"
+      ),
+      maxOpenPositions: parseInt(process.env.RISK_MAX_OPEN_POSITIONS || "0"),
+      maxDailyLoss: parseFloat(process.env.RISK_MAX_DAILY_LOSS || "0"),
+      maxOrdersPerMinute: parseInt(
+        process.env.RISK_MAX_ORDERS_PER_MINUTE || "10"
+      ),
+      blockedSymbols: (process.env.RISK_BLOCKED_SYMBOLS || "")
+        .split(",")
+        .map((symbol) => symbol.trim().toUpperCase())
+        .filter(Boolean),
+      flattenOnKill: process.env.RISK_FLATTEN_ON_KILL === "true",
+    };
+  }
+
+  /**
+   * Load performance reporting configuration from environment variables
+   */
+  private loadPerformanceConfig(): PerformanceConfig {
+    const dailySummaryHour = parseInt(process.env.DAILY_SUMMARY_HOUR || "0");
+    if (
+      isNaN(dailySummaryHour) ||
+      dailySummaryHour < 0 ||
+      dailySummaryHour > 23
+    ) {
+      throw new Error(
+        `Invalid DAILY_SUMMARY_HOUR: ${process.env.DAILY_SUMMARY_HOUR} (expected 0-23)`
+      );
+    }
+
+    return {
+      snapshotInterval: parseInt(
+        process.env.PERFORMANCE_SNAPSHOT_INTERVAL || "60"
+      ),
+      dailySummaryEnabled: process.env.DAILY_SUMMARY_ENABLED !== "false",
+      dailySummaryHour,
     };
   }
 
+  /**
+   * Validate one strategy rule
+   */
+  private parseStrategyRule(rule: any): StrategyRule {
+    const name = rule?.name || "unnamed";
+
+    if (!STRATEGY_ALERT_TYPES.includes(rule?.alertType)) {
+      throw new Error(
+        `Strategy ${name}: alertType must be one of ${STRATEGY_ALERT_TYPES.join(
+          ", "
+        )}`
+      );
+    }
+    if (!["notify", "approve", "auto"].includes(rule.mode)) {
+      throw new Error(`Strategy ${name}: mode must be notify, approve or auto`);
+    }
+    if (rule.signal && rule.signal !== "buy" && rule.signal !== "sell") {
+      throw new Error(`Strategy ${name}: signal must be buy or sell`);
+    }
+    if (rule.mode !== "notify" && !rule.quantity && !rule.riskPercent) {
+      throw new Error(`Strategy ${name}: quantity or riskPercent is required`);
+    }
+    // RSI pivot divergence alerts carry their own stop loss
+    if (
+      rule.riskPercent &&
+      !rule.stopLossPercent &&
+      rule.alertType !== "rsi_pivot_divergence"
+    ) {
+      throw new Error(
+        `Strategy ${name}: riskPercent requires stopLossPercent for sizing`
+      );
+    }
+
+    return { ...rule, name };
+  }
+
+  /**
+   * Parse a margin mode
+   */
+  private parseMarginMode(value: string): MarginMode {
+    const mode = value.trim();
+    if (mode !== "cross" && mode !== "isolated") {
+      throw new Error(
+        `Unsupported margin mode: ${value} (expected cross, isolated)`
+      );
+    }
+    return mode;
+  }
+
+  /**
+   * Parse per-instrument margin modes, e.g. "BTC-USDT-SWAP:isolated,ETH-USDT-SWAP:cross"
+   */
+  private parseMarginModeOverrides(value: string): {
+    [instId: string]: MarginMode;
+  } {
+    const overrides: { [instId: string]: MarginMode } = {};
+
+    for (const entry of value.split(",")) {
+      if (!entry.trim()) continue;
+
+      const [instId, mode] = entry.split(":");
+      if (!instId || !mode) {
+        throw new Error(`Invalid OKX_MARGIN_MODES entry: ${entry}`);
+      }
+      overrides[instId.trim().toUpperCase()] = this.parseMarginMode(mode);
+    }
+    return overrides;
+  }
+
+  /**
+   * Parse per-asset low balance thresholds in USD, e.g. "USDT:100,BTC:50"
+   */
+  private parseLowBalanceThresholds(value: string): {
+    [asset: string]: number;
+  } {
+    const thresholds: { [asset: string]: number } = {};
+
+    for (const entry of value.split(",")) {
+      if (!entry.trim()) continue;
+
+      const [asset, amount] = entry.split(":");
+      const threshold = parseFloat(amount ?? "");
+      if (!asset || isNaN(threshold) || threshold < 0) {
+        throw new Error(`Invalid OKX_LOW_BALANCE_USD entry: ${entry}`);
+      }
+      thresholds[asset.trim().toUpperCase()] = threshold;
+    }
+    return thresholds;
+  }
+
+  /**
+   * Parse the trading mode
+   */
+  private parseTradingMode(value: string): TradingMode {
+    const mode = value.trim();
+    if (mode !== "live" && mode !== "paper") {
+      throw new Error(
+        `Unsupported trading mode: ${value} (expected live, paper)`
+      );
+    }
+    return mode;
+  }
+
   /**
    * Get bot configuration
    */
@@ -88,6 +558,27 @@ export class BotConfigService {
     return { ...this.okxConfig };
   }
 
+  /**
+   * Get strategy router configuration
+   */
+  getStrategyConfig(): StrategyConfig {
+    return { ...this.strategyConfig };
+  }
+
+  /**
+   * Get risk limits
+   */
+  getRiskConfig(): RiskConfig {
+    return { ...this.riskConfig };
+  }
+
+  /**
+   * Get performance reporting configuration
+   */
+  getPerformanceConfig(): PerformanceConfig {
+    return { ...this.performanceConfig };
+  }
+
   /**
    * Get the smallest timeframe for candle synchronization
    */
@@ -163,12 +654,18 @@ export class BotConfigService {
     bot: BotConfig;
     alert: AlertConfig;
     okx: OKXConfig;
+    strategy: StrategyConfig;
+    risk: RiskConfig;
+    performance: PerformanceConfig;
     smallestTimeframe: string;
   } {
     return {
       bot: this.getBotConfig(),
       alert: this.getAlertConfig(),
       okx: this.getOKXConfig(),
+      strategy: this.getStrategyConfig(),
+      risk: this.getRiskConfig(),
+      performance: this.getPerformanceConfig(),
       smallestTimeframe: this.getSmallestTimeframe(),
     };
   }
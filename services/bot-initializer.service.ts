@@ -7,18 +7,50 @@ import { OKXBalanceAlertService } from "./okx-balance-alert.service";
 import { BotActionService, OKXActionExecutor } from "./bot-action.service";
 import { TelegramCommandService } from "./telegram-command.service";
 import { OKXService } from "./okx.service";
+import { InstrumentRegistry } from "./instrument-registry.service";
+import {
+  PaperActionExecutor,
+  MarketDataPriceFeed,
+} from "./paper-trading.service";
+import { createMarketDataProvider } from "./market-data-provider.service";
+import { StrategyRouter } from "./strategy-router.service";
+import { RiskAccount, RiskManager } from "./risk-manager.service";
+import { ReconciliationService } from "./reconciliation.service";
+import { OKXPrivateStreamService } from "./okx-private-stream.service";
+import { TradeHistorySource, TradeJournal } from "./trade-journal.service";
+import { EquitySource, PerformanceService } from "./performance.service";
 import { CandleSyncScheduler } from "../utils/candle-sync-scheduler.utils";
+import { Clock, systemClock } from "../utils/clock.utils";
+import {
+  OKXConfig,
+  PerformanceConfig,
+  RiskConfig,
+} from "../types/market.model";
 
 export class BotInitializer {
   private configService: BotConfigService;
+  private clock: Clock;
   private botService!: BotService;
+  private multiPairMarketService!: MultiPairMarketService;
+  private instrumentRegistry!: InstrumentRegistry;
   private candleSyncScheduler!: CandleSyncScheduler;
   private okxBalanceAlertService!: OKXBalanceAlertService;
   private botActionService!: BotActionService;
   private telegramCommandService!: TelegramCommandService;
+  private paperActionExecutor: PaperActionExecutor | null = null;
+  private okxService: OKXService | null = null;
+  private riskManager: RiskManager | null = null;
+  private reconciliationService: ReconciliationService | null = null;
+  private okxPrivateStream: OKXPrivateStreamService | null = null;
+  private tradeJournal: TradeJournal | null = null;
+  private performanceService: PerformanceService | null = null;
   private isInitialized: boolean = false;
 
-  constructor() {
+  /**
+   * @param clock Time source shared by every service and scheduler
+   */
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
     this.configService = new BotConfigService();
     this.initializeServices();
   }
@@ -29,77 +61,208 @@ export class BotInitializer {
   private initializeServices(): void {
     const config = this.configService.getConfigSummary();
 
+    // Initialize instrument registry (metadata is loaded on start)
+    this.instrumentRegistry = new InstrumentRegistry(this.clock);
+
     // Initialize market service
-    const multiPairMarketService = new MultiPairMarketService(config.alert);
+    this.multiPairMarketService = new MultiPairMarketService(
+      config.alert,
+      this.instrumentRegistry,
+      this.clock
+    );
 
     // Initialize alert service
-    const alertService = new AlertService(config.alert);
+    const alertService = new AlertService(config.alert, this.clock);
 
     // Initialize telegram service
     const telegramService = new TelegramService(
       config.bot.telegramBotToken,
-      config.bot.telegramChatId
+      config.bot.telegramChatId,
+      this.clock
     );
 
     // Initialize OKX services (without setting OKX service for command service yet)
-    this.initializeOKXServices(config.okx, telegramService);
+    this.initializeOKXServices(
+      config.okx,
+      config.risk,
+      config.performance,
+      telegramService
+    );
 
     // Initialize telegram command service
     this.telegramCommandService = new TelegramCommandService(
       telegramService.bot, // Access the underlying bot instance
       config.bot.telegramChatId,
       this.botActionService,
-      this.okxBalanceAlertService
+      this.okxBalanceAlertService,
+      this.instrumentRegistry,
+      this.clock
     );
 
+    // Paper mode reports the simulated account instead of OKX
+    if (this.paperActionExecutor) {
+      this.telegramCommandService.setPaperActionExecutor(
+        this.paperActionExecutor
+      );
+    }
+
     // Set OKX service for command service if available
-    if (config.okx.apiKey && config.okx.apiSecret) {
-      const okxService = new OKXService(
-        config.okx.apiKey,
-        config.okx.apiSecret,
-        config.okx.passphrase
+    if (this.okxService) {
+      this.telegramCommandService.setOKXService(this.okxService);
+    }
+
+    if (this.riskManager) {
+      this.telegramCommandService.setRiskManager(this.riskManager);
+    }
+
+    if (this.okxPrivateStream) {
+      this.telegramCommandService.setOKXPrivateStream(this.okxPrivateStream);
+    }
+
+    if (this.tradeJournal) {
+      this.telegramCommandService.setTradeJournal(this.tradeJournal);
+    }
+
+    if (this.performanceService) {
+      this.telegramCommandService.setPerformanceService(
+        this.performanceService
       );
-      this.telegramCommandService.setOKXService(okxService);
     }
 
     // Initialize bot service
     this.botService = new BotService(
-      multiPairMarketService,
+      this.multiPairMarketService,
       alertService,
       telegramService,
       this.okxBalanceAlertService,
-      this.botActionService
+      this.botActionService,
+      this.clock
     );
 
+    // Route alerts into trading actions when auto trading is enabled
+    if (config.strategy.enabled) {
+      const strategyRouter = new StrategyRouter(
+        config.strategy,
+        this.botActionService,
+        telegramService,
+        this.clock
+      );
+      this.botService.setStrategyRouter(strategyRouter);
+      this.telegramCommandService.setStrategyRouter(strategyRouter);
+
+      console.log(
+        `🤖 Strategy router initialized with ${config.strategy.rules.length} rules`
+      );
+    }
+
     // Initialize candle sync scheduler
-    this.candleSyncScheduler = new CandleSyncScheduler({
-      timeframe: config.smallestTimeframe,
-      timezone: "UTC",
-    });
+    this.candleSyncScheduler = new CandleSyncScheduler(
+      {
+        timeframe: config.smallestTimeframe,
+        timezone: "UTC",
+      },
+      this.clock
+    );
   }
 
   /**
    * Initialize OKX-related services
    */
   private initializeOKXServices(
-    okxConfig: any,
+    okxConfig: OKXConfig,
+    riskConfig: RiskConfig,
+    performanceConfig: PerformanceConfig,
     telegramService: TelegramService
   ): void {
     // Initialize OKX balance alert service
-    this.okxBalanceAlertService = new OKXBalanceAlertService(okxConfig);
+    this.okxBalanceAlertService = new OKXBalanceAlertService(
+      okxConfig,
+      this.clock
+    );
 
     // Initialize bot action service
-    this.botActionService = new BotActionService();
+    this.botActionService = new BotActionService(this.clock);
+
+    // One OKX client shared by the executor and commands, so margin mode
+    // and leverage state stay consistent
+    this.okxService =
+      okxConfig.apiKey && okxConfig.apiSecret
+        ? new OKXService(
+            okxConfig.apiKey,
+            okxConfig.apiSecret,
+            okxConfig.passphrase,
+            okxConfig.marginMode,
+            okxConfig.marginModeOverrides
+          )
+        : null;
+
+    // Paper mode simulates fills against OKX prices instead of trading
+    if (okxConfig.tradingMode === "paper") {
+      this.paperActionExecutor = new PaperActionExecutor(
+        okxConfig.paperTrading,
+        this.instrumentRegistry,
+        new MarketDataPriceFeed(createMarketDataProvider("okx")),
+        this.clock
+      );
+      this.botActionService.addExecutor(this.paperActionExecutor);
+      this.initializeRiskManager(
+        riskConfig,
+        this.paperActionExecutor,
+        telegramService
+      );
+      this.initializeReporting(
+        this.paperActionExecutor,
+        performanceConfig,
+        telegramService
+      );
+
+      console.log("📝 Paper trading executor initialized");
+      return;
+    }
+    this.paperActionExecutor = null;
+    this.riskManager = null;
+    this.reconciliationService = null;
+    this.okxPrivateStream = null;
+    this.tradeJournal = null;
+    this.performanceService = null;
 
     // Add OKX action executor if credentials are available
-    if (okxConfig.apiKey && okxConfig.apiSecret) {
-      const okxService = new OKXService(
-        okxConfig.apiKey,
-        okxConfig.apiSecret,
-        okxConfig.passphrase
+    if (this.okxService) {
+      const okxActionExecutor = new OKXActionExecutor(
+        this.okxService,
+        this.instrumentRegistry,
+        this.clock
       );
-      const okxActionExecutor = new OKXActionExecutor(okxService);
       this.botActionService.addExecutor(okxActionExecutor);
+      this.initializeRiskManager(
+        riskConfig,
+        okxActionExecutor,
+        telegramService
+      );
+      this.initializeReporting(
+        okxActionExecutor,
+        performanceConfig,
+        telegramService
+      );
+
+      // Follow orders, TP/SL and positions on OKX after placement
+      this.reconciliationService = new ReconciliationService(
+        this.okxService,
+        this.botActionService,
+        telegramService,
+        okxConfig.reconcileInterval * 1000,
+        this.clock
+      );
+
+      // Push fills and balances instead of waiting for the next poll
+      if (okxConfig.privateStreamEnabled) {
+        this.okxPrivateStream = new OKXPrivateStreamService(
+          this.okxService,
+          this.clock
+        );
+        this.okxPrivateStream.addListener(this.reconciliationService);
+        this.okxBalanceAlertService.setPrivateStream(this.okxPrivateStream);
+      }
 
       console.log("✅ OKX action executor initialized");
     } else {
@@ -109,6 +272,46 @@ export class BotInitializer {
     }
   }
 
+  /**
+   * Check every action against the risk limits of the executing account
+   */
+  private initializeRiskManager(
+    riskConfig: RiskConfig,
+    account: RiskAccount,
+    telegramService: TelegramService
+  ): void {
+    this.riskManager = new RiskManager(
+      riskConfig,
+      account,
+      this.instrumentRegistry,
+      telegramService,
+      this.clock
+    );
+    this.botActionService.setRiskManager(this.riskManager);
+
+    console.log(
+      `🛡️ Risk manager initialized (max leverage ${riskConfig.maxLeverage}x)`
+    );
+  }
+
+  /**
+   * Journal the executing account's trades and track its performance
+   */
+  private initializeReporting(
+    account: TradeHistorySource & EquitySource,
+    performanceConfig: PerformanceConfig,
+    telegramService: TelegramService
+  ): void {
+    this.tradeJournal = new TradeJournal(account, this.clock);
+    this.performanceService = new PerformanceService(
+      performanceConfig,
+      account,
+      this.tradeJournal,
+      telegramService,
+      this.clock
+    );
+  }
+
   /**
    * Initialize and start the bot
    */
@@ -119,6 +322,15 @@ export class BotInitializer {
       // Validate configuration
       this.configService.validateConfig();
 
+      // Load instrument metadata for market data venues and OKX trading
+      await this.instrumentRegistry.load([
+        ...this.multiPairMarketService.getProviderNames(),
+        "okx",
+      ]);
+
+      // Reconcile actions interrupted by the last shutdown
+      await this.botActionService.recoverActions();
+
       // Test services
       console.log("🔍 Testing services...");
       const isHealthy = await this.botService.healthCheck();
@@ -129,9 +341,27 @@ export class BotInitializer {
       // Send startup message
       await this.botService.sendStartupMessage();
 
+      // Start streaming market data
+      await this.multiPairMarketService.start();
+
+      // Start receiving OKX order, position and balance pushes
+      this.okxPrivateStream?.start();
+
       // Start OKX balance alert service
       this.okxBalanceAlertService.start();
 
+      // Start filling paper orders against live prices
+      this.paperActionExecutor?.start();
+
+      // Start watching the daily loss limit
+      this.riskManager?.start();
+
+      // Start reconciling orders and positions with OKX
+      this.reconciliationService?.start();
+
+      // Start equity snapshots and the daily summary
+      this.performanceService?.start();
+
       // Start the candle-synchronized scheduler
       this.candleSyncScheduler.start(() => this.botService.executeBotTask());
 
@@ -150,9 +380,27 @@ export class BotInitializer {
     if (this.candleSyncScheduler) {
       this.candleSyncScheduler.stop();
     }
+    if (this.multiPairMarketService) {
+      this.multiPairMarketService.stop();
+    }
     if (this.okxBalanceAlertService) {
       this.okxBalanceAlertService.stop();
     }
+    if (this.paperActionExecutor) {
+      this.paperActionExecutor.stop();
+    }
+    if (this.riskManager) {
+      this.riskManager.stop();
+    }
+    if (this.reconciliationService) {
+      this.reconciliationService.stop();
+    }
+    if (this.okxPrivateStream) {
+      this.okxPrivateStream.stop();
+    }
+    if (this.performanceService) {
+      this.performanceService.stop();
+    }
     this.isInitialized = false;
     console.log("🛑 Bot stopped gracefully");
   }
@@ -237,6 +485,48 @@ export class BotInitializer {
     return this.botActionService;
   }
 
+  /**
+   * Get paper trading executor for external access (null in live mode)
+   */
+  getPaperActionExecutor(): PaperActionExecutor | null {
+    return this.paperActionExecutor;
+  }
+
+  /**
+   * Get risk manager for external access (null without an executor)
+   */
+  getRiskManager(): RiskManager | null {
+    return this.riskManager;
+  }
+
+  /**
+   * Get OKX reconciliation service for external access (null without OKX trading)
+   */
+  getReconciliationService(): ReconciliationService | null {
+    return this.reconciliationService;
+  }
+
+  /**
+   * Get OKX private stream for external access (null when disabled or not trading on OKX)
+   */
+  getOKXPrivateStream(): OKXPrivateStreamService | null {
+    return this.okxPrivateStream;
+  }
+
+  /**
+   * Get trade journal for external access (null without an executor)
+   */
+  getTradeJournal(): TradeJournal | null {
+    return this.tradeJournal;
+  }
+
+  /**
+   * Get performance service for external access (null without an executor)
+   */
+  getPerformanceService(): PerformanceService | null {
+    return this.performanceService;
+  }
+
   /**
    * Get telegram command service for external access
    */
@@ -3,12 +3,9 @@ import { AlertService } from "./alert.service";
 import { TelegramService } from "./telegram.service";
 import { OKXBalanceAlertService } from "./okx-balance-alert.service";
 import { BotActionService } from "./bot-action.service";
-import {
-  VolumeAlert,
-  RSIAlert,
-  ScalpingAlert,
-  OKXBalanceAlert,
-} from "../types/market.model";
+import { StrategyRouter } from "./strategy-router.service";
+import { Alert } from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
 
 export class BotService {
   private multiPairMarketService: MultiPairMarketService;
@@ -16,19 +13,30 @@ export class BotService {
   private telegramService: TelegramService;
   private okxBalanceAlertService: OKXBalanceAlertService;
   private botActionService: BotActionService;
+  private strategyRouter: StrategyRouter | null = null;
+  private clock: Clock;
 
   constructor(
     multiPairMarketService: MultiPairMarketService,
     alertService: AlertService,
     telegramService: TelegramService,
     okxBalanceAlertService: OKXBalanceAlertService,
-    botActionService: BotActionService
+    botActionService: BotActionService,
+    clock: Clock = systemClock
   ) {
     this.multiPairMarketService = multiPairMarketService;
     this.alertService = alertService;
     this.telegramService = telegramService;
     this.okxBalanceAlertService = okxBalanceAlertService;
     this.botActionService = botActionService;
+    this.clock = clock;
+  }
+
+  /**
+   * Route alerts into trading actions
+   */
+  setStrategyRouter(strategyRouter: StrategyRouter): void {
+    this.strategyRouter = strategyRouter;
   }
 
   /**
@@ -47,12 +55,7 @@ export class BotService {
       const marketData = await this.multiPairMarketService.fetchAllMarketData();
 
       // Process alerts
-      const alerts: (
-        | VolumeAlert
-        | RSIAlert
-        | ScalpingAlert
-        | OKXBalanceAlert
-      )[] = this.alertService.processMarketData(marketData);
+      const alerts: Alert[] = this.alertService.processMarketData(marketData);
 
       // Check for OKX balance alerts
       const okxBalanceAlert =
@@ -69,6 +72,14 @@ export class BotService {
 
         // Log alert details
         this.logAlertDetails(alerts);
+
+        // Turn matching signals into trading actions
+        if (this.strategyRouter) {
+          const signals = await this.strategyRouter.route(alerts);
+          if (signals.length > 0) {
+            console.log(`🤖 Routed ${signals.length} strategy signals`);
+          }
+        }
       } else {
         console.log("✅ No alerts detected");
       }
@@ -83,31 +94,113 @@ export class BotService {
   /**
    * Log detailed information about detected alerts
    */
-  private logAlertDetails(
-    alerts: (VolumeAlert | RSIAlert | ScalpingAlert | OKXBalanceAlert)[]
-  ): void {
+  private logAlertDetails(alerts: Alert[]): void {
     alerts.forEach((alert) => {
       if (alert.type === "okx_balance") {
-        const okxAlert = alert as OKXBalanceAlert;
         console.log(`💰 ${alert.type.toUpperCase()} alert:`, {
-          alertType: okxAlert.alertType,
-          balanceCount: okxAlert.balances.length,
-          totalValue: okxAlert.totalPortfolioValue,
-          balances: okxAlert.balances.map(
-            (b) => `${b.asset}: ${b.available + b.locked}`
+          alertType: alert.alertType,
+          balanceCount: alert.balances.length,
+          totalValue: alert.totalPortfolioValue,
+          marginRatio: alert.marginRatio,
+          balances: alert.balances.map(
+            (b) =>
+              `${b.asset}: ${b.available + b.locked} ($${
+                b.usdValue?.toFixed(2) ?? "N/A"
+              })`
           ),
         });
       } else if (alert.type === "rsi_divergence") {
-        const rsiAlert = alert as RSIAlert;
         console.log(
           `📊 ${alert.type.toUpperCase()} alert for ${alert.symbol} ${
             alert.timeframe
           }:`,
           {
             price: alert.currentPrice,
-            rsiValue: rsiAlert.rsiValue,
-            divergenceType: rsiAlert.divergenceType,
-            divergenceData: rsiAlert.divergenceData,
+            rsiValue: alert.rsiValue,
+            divergenceType: alert.divergenceType,
+            divergenceData: alert.divergenceData,
+          }
+        );
+      } else if (alert.type === "oscillator_divergence") {
+        console.log(
+          `📊 ${alert.type.toUpperCase()} alert for ${alert.symbol} ${
+            alert.timeframe
+          }:`,
+          {
+            price: alert.currentPrice,
+            oscillator: alert.oscillator,
+            divergenceClass: alert.divergenceClass,
+            divergenceType: alert.divergenceType,
+            previousPivot: alert.previousPivot,
+            currentPivot: alert.currentPivot,
+          }
+        );
+      } else if (
+        alert.type === "macd_crossover" ||
+        alert.type === "macd_zero_cross"
+      ) {
+        console.log(
+          `📈 ${alert.type.toUpperCase()} alert for ${alert.symbol} ${
+            alert.timeframe
+          }:`,
+          {
+            price: alert.currentPrice,
+            signal: alert.signal,
+            macd: alert.macd,
+            signalLine: alert.signalLine,
+            histogram: alert.histogram,
+          }
+        );
+      } else if (alert.type === "atr_expansion") {
+        console.log(
+          `📈 ${alert.type.toUpperCase()} alert for ${alert.symbol} ${
+            alert.timeframe
+          }:`,
+          {
+            price: alert.currentPrice,
+            atr: alert.atr,
+            averageAtr: alert.averageAtr,
+            expansionRatio: alert.expansionRatio,
+          }
+        );
+      } else if (alert.type === "adx_trend") {
+        console.log(
+          `📈 ${alert.type.toUpperCase()} alert for ${alert.symbol} ${
+            alert.timeframe
+          }:`,
+          {
+            price: alert.currentPrice,
+            transition: alert.transition,
+            trendDirection: alert.trendDirection,
+            adx: alert.adx,
+            plusDI: alert.plusDI,
+            minusDI: alert.minusDI,
+          }
+        );
+      } else if (alert.type === "supertrend_flip") {
+        console.log(
+          `📈 ${alert.type.toUpperCase()} alert for ${alert.symbol} ${
+            alert.timeframe
+          }:`,
+          {
+            price: alert.currentPrice,
+            signal: alert.signal,
+            superTrend: alert.superTrend,
+            atr: alert.atr,
+          }
+        );
+      } else if (alert.type === "rsi_pivot_divergence") {
+        console.log(
+          `📊 ${alert.type.toUpperCase()} alert for ${alert.symbol} ${
+            alert.timeframe
+          }:`,
+          {
+            price: alert.currentPrice,
+            signal: alert.signal,
+            entryPrice: alert.entryPrice,
+            takeProfitPrice: alert.takeProfitPrice,
+            stopLossPrice: alert.stopLossPrice,
+            rsiValue: alert.rsiValue,
           }
         );
       } else if (
@@ -116,30 +209,28 @@ export class BotService {
         alert.type === "bollinger_squeeze" ||
         alert.type === "volume_spike"
       ) {
-        const scalpingAlert = alert as ScalpingAlert;
         console.log(
           `🚀 ${alert.type.toUpperCase()} alert for ${alert.symbol} ${
             alert.timeframe
           }:`,
           {
             price: alert.currentPrice,
-            signal: scalpingAlert.signal,
-            confidence: scalpingAlert.confidence,
-            indicatorData: scalpingAlert.indicatorData,
+            signal: alert.signal,
+            confidence: alert.confidence,
+            indicatorData: alert.indicatorData,
           }
         );
-      } else {
-        const volumeAlert = alert as VolumeAlert;
+      } else if (alert.type === "spike" || alert.type === "divergence") {
         console.log(
           `📊 ${alert.type.toUpperCase()} alert for ${alert.symbol} ${
             alert.timeframe
           }:`,
           {
             price: alert.currentPrice,
-            volume: volumeAlert.volume,
-            averageVolume: volumeAlert.averageVolume,
-            spikeRatio: volumeAlert.spikeRatio,
-            divergenceData: volumeAlert.divergenceData,
+            volume: alert.volume,
+            averageVolume: alert.averageVolume,
+            spikeRatio: alert.spikeRatio,
+            divergenceData: alert.divergenceData,
           }
         );
       }
@@ -223,7 +314,12 @@ export class BotService {
         okxStatus.config.balanceAlertsEnabled ? "ENABLED" : "DISABLED"
       }
 • Alert Interval: ${okxStatus.config.balanceAlertInterval} minutes
-• Min Threshold: ${okxStatus.config.minBalanceThreshold}
+• Min Threshold: $${okxStatus.config.minBalanceThreshold}
+• Margin Ratio Alert: ${
+        okxStatus.config.marginRatioAlert > 0
+          ? `${okxStatus.config.marginRatioAlert * 100}%`
+          : "DISABLED"
+      }
 • Action System: READY`;
     } else {
       okxInfo = `
@@ -232,6 +328,17 @@ export class BotService {
 • Add OKX_API_KEY and OKX_API_SECRET to enable`;
     }
 
+    const rsiPivot = alertConfig.rsiPivotDivergence;
+    const oscillatorDivergence = alertConfig.oscillatorDivergence;
+    const formatDetector = (detector: {
+      enabled: boolean;
+      timeframes: string[];
+    }) =>
+      !detector.enabled
+        ? "TẮT"
+        : detector.timeframes.length > 0
+        ? detector.timeframes.join(", ")
+        : "tất cả khung";
     const startupMessage = `
 <b>BOT CẢNH BÁO VOLUME, RSI, SCALPING & OKX ĐÃ KHỞI ĐỘNG</b>
 
@@ -239,9 +346,27 @@ export class BotService {
 <b>Khung thời gian:</b> ${alertConfig.timeframes.join(", ")}
 <b>Ngưỡng tăng volume:</b> ${alertConfig.volumeSpikeThreshold}x
 <b>Số nến phân kỳ:</b> ${alertConfig.divergenceCandleCount}
-<b>RSI Period:</b> ${alertConfig.rsiPeriod}
+<b>RSI Period:</b> ${alertConfig.rsiPeriod} (${alertConfig.rsiSmoothing})
 <b>RSI Overbought:</b> ${alertConfig.rsiOverbought}
 <b>RSI Oversold:</b> ${alertConfig.rsiOversold}
+<b>RSI Pivot B/S:</b> ${
+      rsiPivot.enabled
+        ? `RSI ${rsiPivot.rsiLength}, pivot ${rsiPivot.pivotLength}, TP ${rsiPivot.tpPercent}% / SL ${rsiPivot.slPercent}%`
+        : "TẮT"
+    }
+<b>Phân kỳ chỉ báo:</b> ${
+      oscillatorDivergence.enabled
+        ? `${oscillatorDivergence.oscillators.join(
+            ", "
+          )} (${oscillatorDivergence.classes.join(", ")})`
+        : "TẮT"
+    }
+
+<b>📈 XU HƯỚNG & BIẾN ĐỘNG:</b>
+• MACD (${formatDetector(alertConfig.macdSignals)})
+• ATR (${formatDetector(alertConfig.atrVolatility)})
+• ADX (${formatDetector(alertConfig.adxTrend)})
+• SuperTrend (${formatDetector(alertConfig.superTrend)})
 
 <b>🚀 SCALPING (1m):</b>
 • EMA Crossover (9/21)
@@ -259,7 +384,7 @@ ${okxInfo}
 /help - Danh sách lệnh
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-<i>Khởi động lúc: ${new Date().toISOString()}</i>
+<i>Khởi động lúc: ${new Date(this.clock.now()).toISOString()}</i>
     `.trim();
 
     await this.telegramService.sendMessage(startupMessage);
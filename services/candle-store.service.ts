@@ -0,0 +1,357 @@
+import fs from "fs";
+import path from "path";
+import { KlineData } from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+
+export interface CandleGap {
+  startTime: number; // openTime of the first missing candle
+  endTime: number; // openTime of the last missing candle
+  missingCount: number;
+}
+
+/**
+ * Append-only on-disk candle store with one file per provider/symbol/timeframe.
+ * Each line is a compact JSON array of a closed kline; the tail of every
+ * series is cached in memory so indicators can be served without disk reads.
+ */
+export class CandleStore {
+  private readonly storeDir: string;
+  private readonly maxCachedCandles: number;
+  private readonly clock: Clock;
+  private cache: Map<string, KlineData[]> = new Map();
+
+  constructor(maxCachedCandles: number = 5000, clock: Clock = systemClock) {
+    this.storeDir = path.join(process.cwd(), "/data/candles");
+    this.maxCachedCandles = maxCachedCandles;
+    this.clock = clock;
+  }
+
+  /**
+   * Get the openTime of the newest stored candle
+   */
+  getLastOpenTime(
+    provider: string,
+    symbol: string,
+    timeframe: string
+  ): number | null {
+    const candles = this.getCachedCandles(provider, symbol, timeframe);
+    return candles[candles.length - 1]?.openTime ?? null;
+  }
+
+  /**
+   * Get the most recent stored candles
+   */
+  getRecent(
+    provider: string,
+    symbol: string,
+    timeframe: string,
+    limit: number
+  ): KlineData[] {
+    const candles = this.getCachedCandles(provider, symbol, timeframe);
+    if (limit <= candles.length) {
+      return candles.slice(-limit);
+    }
+    return this.readAll(provider, symbol, timeframe).slice(-limit);
+  }
+
+  /**
+   * Get stored candles opened within [startTime, endTime]
+   */
+  getRange(
+    provider: string,
+    symbol: string,
+    timeframe: string,
+    startTime: number,
+    endTime: number
+  ): KlineData[] {
+    const cached = this.getCachedCandles(provider, symbol, timeframe);
+    const source =
+      cached[0] && cached[0].openTime <= startTime
+        ? cached
+        : this.readAll(provider, symbol, timeframe);
+
+    return source.filter(
+      (candle) => candle.openTime >= startTime && candle.openTime <= endTime
+    );
+  }
+
+  /**
+   * Append closed candles newer than the last stored one.
+   * Returns the number of candles written.
+   */
+  append(
+    provider: string,
+    symbol: string,
+    timeframe: string,
+    candles: KlineData[]
+  ): number {
+    const cached = this.getCachedCandles(provider, symbol, timeframe);
+    const lastOpenTime = cached[cached.length - 1]?.openTime ?? -1;
+    const now = this.clock.now();
+
+    const newCandles = candles
+      .filter(
+        (candle) => candle.openTime > lastOpenTime && candle.closeTime < now
+      )
+      .sort((a, b) => a.openTime - b.openTime);
+    if (newCandles.length === 0) return 0;
+
+    try {
+      this.ensureStoreDir();
+      const filePath = this.getFilePath(provider, symbol, timeframe);
+      // Start on a fresh line if a crash left a truncated last line
+      const prefix = this.endsWithNewline(filePath) ? "" : "\n";
+      fs.appendFileSync(
+        filePath,
+        prefix +
+          newCandles.map((candle) => this.serialize(candle)).join("\n") +
+          "\n"
+      );
+    } catch (error) {
+      console.error(
+        `❌ Error appending candles for ${symbol} ${timeframe}:`,
+        error
+      );
+      return 0;
+    }
+
+    cached.push(...newCandles);
+    if (cached.length > this.maxCachedCandles) {
+      cached.splice(0, cached.length - this.maxCachedCandles);
+    }
+
+    return newCandles.length;
+  }
+
+  /**
+   * Merge closed candles anywhere in the series (used for gap repair and
+   * backfills older than the newest candle). Rewrites the file atomically.
+   */
+  insert(
+    provider: string,
+    symbol: string,
+    timeframe: string,
+    candles: KlineData[]
+  ): number {
+    const now = this.clock.now();
+    const closedCandles = candles.filter((candle) => candle.closeTime < now);
+    if (closedCandles.length === 0) return 0;
+
+    const byOpenTime = new Map<number, KlineData>();
+    this.readAll(provider, symbol, timeframe).forEach((candle) =>
+      byOpenTime.set(candle.openTime, candle)
+    );
+    const sizeBefore = byOpenTime.size;
+    closedCandles.forEach((candle) => byOpenTime.set(candle.openTime, candle));
+
+    const merged = Array.from(byOpenTime.values()).sort(
+      (a, b) => a.openTime - b.openTime
+    );
+
+    try {
+      this.ensureStoreDir();
+      const filePath = this.getFilePath(provider, symbol, timeframe);
+      const tempPath = `${filePath}.tmp`;
+      fs.writeFileSync(
+        tempPath,
+        merged.map((candle) => this.serialize(candle)).join("\n") + "\n"
+      );
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      console.error(
+        `❌ Error inserting candles for ${symbol} ${timeframe}:`,
+        error
+      );
+      return 0;
+    }
+
+    this.cache.set(
+      this.getCacheKey(provider, symbol, timeframe),
+      merged.slice(-this.maxCachedCandles)
+    );
+
+    return byOpenTime.size - sizeBefore;
+  }
+
+  /**
+   * Find missing candles in the stored series, optionally only after a given time
+   */
+  findGaps(
+    provider: string,
+    symbol: string,
+    timeframe: string,
+    timeframeMs: number,
+    since?: number
+  ): CandleGap[] {
+    const cached = this.getCachedCandles(provider, symbol, timeframe);
+    const candles =
+      since !== undefined && cached[0] && cached[0].openTime <= since
+        ? cached
+        : this.readAll(provider, symbol, timeframe);
+
+    const gaps: CandleGap[] = [];
+    for (let i = 1; i < candles.length; i++) {
+      const previous = candles[i - 1];
+      const current = candles[i];
+      if (!previous || !current) continue;
+      if (since !== undefined && current.openTime < since) continue;
+
+      const missingCount =
+        Math.round((current.openTime - previous.openTime) / timeframeMs) - 1;
+      if (missingCount > 0) {
+        gaps.push({
+          startTime: previous.openTime + timeframeMs,
+          endTime: current.openTime - timeframeMs,
+          missingCount,
+        });
+      }
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Read the full stored series from disk
+   */
+  readAll(provider: string, symbol: string, timeframe: string): KlineData[] {
+    const filePath = this.getFilePath(provider, symbol, timeframe);
+    if (!fs.existsSync(filePath)) return [];
+
+    try {
+      const byOpenTime = new Map<number, KlineData>();
+      fs.readFileSync(filePath, "utf8")
+        .split("\n")
+        .filter((line) => line.trim())
+        .forEach((line) => {
+          const candle = this.deserialize(line);
+          if (candle) byOpenTime.set(candle.openTime, candle);
+        });
+
+      return Array.from(byOpenTime.values()).sort(
+        (a, b) => a.openTime - b.openTime
+      );
+    } catch (error) {
+      console.error(
+        `❌ Error reading candles for ${symbol} ${timeframe}:`,
+        error
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Get store statistics per series
+   */
+  getStatus(): { [key: string]: { cached: number; lastOpenTime: number } } {
+    const status: { [key: string]: { cached: number; lastOpenTime: number } } =
+      {};
+    this.cache.forEach((candles, key) => {
+      status[key] = {
+        cached: candles.length,
+        lastOpenTime: candles[candles.length - 1]?.openTime || 0,
+      };
+    });
+    return status;
+  }
+
+  /**
+   * Get the in-memory tail of a series, loading it from disk on first use
+   */
+  private getCachedCandles(
+    provider: string,
+    symbol: string,
+    timeframe: string
+  ): KlineData[] {
+    const key = this.getCacheKey(provider, symbol, timeframe);
+    let candles = this.cache.get(key);
+    if (!candles) {
+      candles = this.readAll(provider, symbol, timeframe).slice(
+        -this.maxCachedCandles
+      );
+      this.cache.set(key, candles);
+    }
+    return candles;
+  }
+
+  private getCacheKey(
+    provider: string,
+    symbol: string,
+    timeframe: string
+  ): string {
+    return `${provider}_${symbol}_${timeframe}`;
+  }
+
+  private getFilePath(
+    provider: string,
+    symbol: string,
+    timeframe: string
+  ): string {
+    return path.join(
+      this.storeDir,
+      `${this.getCacheKey(provider, symbol, timeframe)}.jsonl`
+    );
+  }
+
+  private endsWithNewline(filePath: string): boolean {
+    if (!fs.existsSync(filePath)) return true;
+
+    const size = fs.statSync(filePath).size;
+    if (size === 0) return true;
+
+    const fd = fs.openSync(filePath, "r");
+    try {
+      const buffer = Buffer.alloc(1);
+      fs.readSync(fd, buffer, 0, 1, size - 1);
+      return buffer.toString() === "\n";
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  private ensureStoreDir(): void {
+    if (!fs.existsSync(this.storeDir)) {
+      fs.mkdirSync(this.storeDir, { recursive: true });
+    }
+  }
+
+  private serialize(candle: KlineData): string {
+    return JSON.stringify([
+      candle.openTime,
+      candle.open,
+      candle.high,
+      candle.low,
+      candle.close,
+      candle.volume,
+      candle.closeTime,
+      candle.quoteAssetVolume,
+      candle.numberOfTrades,
+      candle.takerBuyBaseAssetVolume,
+      candle.takerBuyQuoteAssetVolume,
+    ]);
+  }
+
+  private deserialize(line: string): KlineData | null {
+    try {
+      const row = JSON.parse(line);
+      if (!Array.isArray(row) || typeof row[0] !== "number") return null;
+
+      return {
+        openTime: row[0],
+        open: row[1],
+        high: row[2],
+        low: row[3],
+        close: row[4],
+        volume: row[5],
+        closeTime: row[6],
+        quoteAssetVolume: row[7],
+        numberOfTrades: row[8],
+        takerBuyBaseAssetVolume: row[9],
+        takerBuyQuoteAssetVolume: row[10],
+        ignore: "0",
+      };
+    } catch {
+      // A crash mid-append can leave a truncated last line
+      return null;
+    }
+  }
+}
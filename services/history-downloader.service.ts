@@ -0,0 +1,322 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import { CandleStore } from "./candle-store.service";
+import { MarketDataProvider } from "./market-data-provider.service";
+import { KlineData } from "../types/market.model";
+import { getTimeframeInfo } from "../utils/candle-sync-scheduler.utils";
+import { Clock, systemClock } from "../utils/clock.utils";
+import { WeightRateLimiter, sleep } from "../utils/rate-limiter.utils";
+
+export type DownloadOutput = "store" | "csv";
+
+export interface DownloadJob {
+  symbol: string; // Venue symbol, e.g. BTCUSDT or BTC-USDT-SWAP
+  timeframe: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface DownloadOptions {
+  output: DownloadOutput;
+  csvDir: string;
+  resume: boolean;
+  flushSize: number; // Candles buffered before each write + checkpoint
+  maxRetries: number;
+}
+
+interface DownloadProgress {
+  [jobKey: string]: {
+    startTime: number;
+    endTime: number;
+    cursor: number; // openTime of the next candle to download
+    updatedAt: number;
+  };
+}
+
+const CSV_HEADER =
+  "open_time,open,high,low,close,volume,close_time,quote_volume,trades,taker_buy_base_volume,taker_buy_quote_volume";
+
+/**
+ * Bulk kline downloader. Walks a time range forward page by page within the
+ * provider's request weight budget, writes into the candle store or CSV and
+ * checkpoints progress so an interrupted download resumes where it stopped.
+ */
+export class HistoryDownloader {
+  private readonly progressFile: string;
+  private provider: MarketDataProvider;
+  private candleStore: CandleStore;
+  private options: DownloadOptions;
+  private rateLimiter: WeightRateLimiter;
+  private progress: DownloadProgress = {};
+  private clock: Clock;
+
+  constructor(
+    provider: MarketDataProvider,
+    candleStore: CandleStore,
+    options: DownloadOptions,
+    clock: Clock = systemClock
+  ) {
+    this.provider = provider;
+    this.candleStore = candleStore;
+    this.options = options;
+    this.clock = clock;
+    this.rateLimiter = new WeightRateLimiter(
+      // Leave headroom for a bot running from the same IP
+      Math.floor(provider.requestWeightPerMinute * 0.8)
+    );
+    this.progressFile = path.join(
+      process.cwd(),
+      "/data/download-progress.json"
+    );
+    this.loadProgress();
+  }
+
+  /**
+   * Download one symbol/timeframe range, returns the number of candles written
+   */
+  async download(job: DownloadJob): Promise<number> {
+    const timeframeMs = getTimeframeInfo(job.timeframe).milliseconds;
+    if (timeframeMs <= 0) {
+      throw new Error(`Unsupported timeframe: ${job.timeframe}`);
+    }
+
+    // Only closed candles are downloaded
+    const lastClosedOpenTime =
+      Math.floor(this.clock.now() / timeframeMs) * timeframeMs - timeframeMs;
+    const startTime = Math.ceil(job.startTime / timeframeMs) * timeframeMs;
+    const endTime = Math.min(job.endTime, lastClosedOpenTime);
+    const jobKey = this.getJobKey(job);
+
+    let cursor = startTime;
+    const saved = this.progress[jobKey];
+    if (this.options.resume && saved && saved.startTime === startTime) {
+      cursor = saved.cursor;
+      console.log(
+        `⏯️ Resuming ${job.symbol} ${job.timeframe} from ${new Date(
+          cursor
+        ).toISOString()}`
+      );
+    } else if (this.options.output === "csv") {
+      this.writeCsvHeader(job);
+    }
+
+    const pageSize = this.provider.maxKlinesPerRequest;
+    const totalCandles = Math.max(
+      0,
+      Math.floor((endTime - startTime) / timeframeMs) + 1
+    );
+    let buffer: KlineData[] = [];
+    let written = 0;
+
+    while (cursor <= endTime) {
+      const pageEnd = Math.min(cursor + (pageSize - 1) * timeframeMs, endTime);
+      const page = (
+        await this.fetchPage(job, cursor, pageEnd, pageSize)
+      ).filter(
+        (kline) => kline.openTime >= cursor && kline.openTime <= pageEnd
+      );
+
+      buffer.push(...page);
+      cursor = pageEnd + timeframeMs;
+
+      if (buffer.length >= this.options.flushSize || cursor > endTime) {
+        written += this.flush(job, buffer);
+        buffer = [];
+        this.saveCheckpoint(jobKey, startTime, endTime, cursor);
+
+        const done = Math.min(
+          totalCandles,
+          Math.floor((cursor - startTime) / timeframeMs)
+        );
+        console.log(
+          `📥 ${job.symbol} ${
+            job.timeframe
+          }: ${done}/${totalCandles} candles (${
+            totalCandles > 0 ? Math.round((done / totalCandles) * 100) : 100
+          }%)`
+        );
+      }
+    }
+
+    delete this.progress[jobKey];
+    this.saveProgress();
+    console.log(
+      `✅ Downloaded ${written} candles for ${job.symbol} ${job.timeframe}`
+    );
+    return written;
+  }
+
+  /**
+   * Fetch one page, waiting for rate limit budget and retrying transient errors
+   */
+  private async fetchPage(
+    job: DownloadJob,
+    startTime: number,
+    endTime: number,
+    limit: number
+  ): Promise<KlineData[]> {
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.acquire(this.provider.getKlinesWeight(limit));
+
+      try {
+        return await this.provider.getKlines(job.symbol, job.timeframe, {
+          limit,
+          startTime,
+          endTime,
+        });
+      } catch (error) {
+        if (attempt >= this.options.maxRetries) throw error;
+
+        const status = axios.isAxiosError(error)
+          ? error.response?.status
+          : undefined;
+        // 429 = rate limited, 418 = IP banned for ignoring 429s
+        if (status === 429 || status === 418) {
+          const retryAfter = parseInt(
+            String(
+              axios.isAxiosError(error)
+                ? error.response?.headers["retry-after"] || "60"
+                : "60"
+            )
+          );
+          console.warn(
+            `⚠️ ${this.provider.name} rate limit hit, pausing ${retryAfter}s`
+          );
+          this.rateLimiter.pause(retryAfter * 1000);
+          continue;
+        }
+
+        const delay = Math.min(30000, 1000 * Math.pow(2, attempt));
+        console.warn(
+          `⚠️ Error downloading ${job.symbol} ${job.timeframe}, retrying in ${
+            delay / 1000
+          }s:`,
+          error instanceof Error ? error.message : error
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Write buffered candles to the configured output
+   */
+  private flush(job: DownloadJob, candles: KlineData[]): number {
+    if (candles.length === 0) return 0;
+
+    if (this.options.output === "csv") {
+      fs.appendFileSync(
+        this.getCsvPath(job),
+        candles.map((candle) => this.toCsvRow(candle)).join("\n") + "\n"
+      );
+      return candles.length;
+    }
+
+    const lastOpenTime = this.candleStore.getLastOpenTime(
+      this.provider.name,
+      job.symbol,
+      job.timeframe
+    );
+    const first = candles[0];
+    // Older than what the bot already stored, so merge instead of appending
+    if (lastOpenTime !== null && first && first.openTime <= lastOpenTime) {
+      return this.candleStore.insert(
+        this.provider.name,
+        job.symbol,
+        job.timeframe,
+        candles
+      );
+    }
+
+    return this.candleStore.append(
+      this.provider.name,
+      job.symbol,
+      job.timeframe,
+      candles
+    );
+  }
+
+  private writeCsvHeader(job: DownloadJob): void {
+    if (!fs.existsSync(this.options.csvDir)) {
+      fs.mkdirSync(this.options.csvDir, { recursive: true });
+    }
+    fs.writeFileSync(this.getCsvPath(job), CSV_HEADER + "\n");
+  }
+
+  private toCsvRow(candle: KlineData): string {
+    return [
+      candle.openTime,
+      candle.open,
+      candle.high,
+      candle.low,
+      candle.close,
+      candle.volume,
+      candle.closeTime,
+      candle.quoteAssetVolume,
+      candle.numberOfTrades,
+      candle.takerBuyBaseAssetVolume,
+      candle.takerBuyQuoteAssetVolume,
+    ].join(",");
+  }
+
+  private getCsvPath(job: DownloadJob): string {
+    return path.join(
+      this.options.csvDir,
+      `${this.provider.name}_${job.symbol}_${job.timeframe}.csv`
+    );
+  }
+
+  private getJobKey(job: DownloadJob): string {
+    return `${this.options.output}:${this.provider.name}:${job.symbol}:${job.timeframe}`;
+  }
+
+  private saveCheckpoint(
+    jobKey: string,
+    startTime: number,
+    endTime: number,
+    cursor: number
+  ): void {
+    this.progress[jobKey] = {
+      startTime,
+      endTime,
+      cursor,
+      updatedAt: this.clock.now(),
+    };
+    this.saveProgress();
+  }
+
+  /**
+   * Load download checkpoints from JSON file
+   */
+  private loadProgress(): void {
+    try {
+      if (fs.existsSync(this.progressFile)) {
+        const data = fs.readFileSync(this.progressFile, "utf8");
+        this.progress = JSON.parse(data);
+      }
+    } catch (error) {
+      console.error("❌ Error loading download progress:", error);
+      this.progress = {};
+    }
+  }
+
+  /**
+   * Save download checkpoints to JSON file
+   */
+  private saveProgress(): void {
+    try {
+      const dataDir = path.dirname(this.progressFile);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      fs.writeFileSync(
+        this.progressFile,
+        JSON.stringify(this.progress, null, 2)
+      );
+    } catch (error) {
+      console.error("❌ Error saving download progress:", error);
+    }
+  }
+}
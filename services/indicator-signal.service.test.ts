@@ -0,0 +1,231 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { AlertConfig, KlineData } from "../types/market.model";
+import { ADXTrendService } from "./adx-trend.service";
+import { ATRVolatilityService } from "./atr-volatility.service";
+import { IndicatorSignal } from "./indicator-signal.service";
+import { MACDService } from "./macd.service";
+import { SuperTrendService } from "./supertrend.service";
+
+const HOUR = 60 * 60 * 1000;
+
+// Short periods so a few dozen candles warm the indicators up
+const detectorConfig: Pick<
+  AlertConfig,
+  "macdSignals" | "atrVolatility" | "adxTrend" | "superTrend"
+> = {
+  macdSignals: {
+    enabled: true,
+    timeframes: [],
+    fastPeriod: 3,
+    slowPeriod: 6,
+    signalPeriod: 3,
+  },
+  atrVolatility: {
+    enabled: true,
+    timeframes: [],
+    period: 3,
+    averagePeriod: 5,
+    expansionMultiplier: 1.5,
+  },
+  adxTrend: {
+    enabled: true,
+    timeframes: [],
+    period: 5,
+    trendThreshold: 25,
+    weakThreshold: 23, // Just above the ADX of the test's chop
+  },
+  superTrend: { enabled: true, timeframes: [], atrPeriod: 3, multiplier: 1 },
+};
+const config = detectorConfig as AlertConfig;
+
+/**
+ * Hourly candles opening at the previous close, spanning range around
+ * their body. One more candle is appended as the one still forming.
+ */
+function toKlines(closes: number[], ranges: number[] = []): KlineData[] {
+  const all = [...closes, closes[closes.length - 1] ?? 0];
+  return all.map((close, i) => {
+    const open = all[i - 1] ?? close;
+    const range = ranges[i] ?? 1;
+    return {
+      openTime: i * HOUR,
+      open: String(open),
+      high: String(Math.max(open, close) + range / 2),
+      low: String(Math.min(open, close) - range / 2),
+      close: String(close),
+      volume: "1",
+      closeTime: (i + 1) * HOUR - 1,
+      quoteAssetVolume: "0",
+      numberOfTrades: 0,
+      takerBuyBaseAssetVolume: "0",
+      takerBuyQuoteAssetVolume: "0",
+      ignore: "0",
+    };
+  });
+}
+
+function repeat(value: number, count: number): number[] {
+  return Array.from({ length: count }, () => value);
+}
+
+function steps(from: number, step: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => from + step * (i + 1));
+}
+
+/**
+ * Live feed: one more candle per call, the last one still forming
+ */
+function feed<T extends IndicatorSignal>(
+  service: {
+    detect(s: string, tf: string, k: KlineData[], p: number): T[];
+  },
+  klines: KlineData[]
+): T[] {
+  const alerts: T[] = [];
+  for (let i = 2; i <= klines.length; i++) {
+    alerts.push(...service.detect("BTCUSDT", "1h", klines.slice(0, i), 0));
+  }
+  return alerts;
+}
+
+// Flat, then a steady rise from candle 15, then a steady fall
+const macdCloses = [
+  ...repeat(100, 15),
+  ...steps(100, 1, 8),
+  ...steps(108, -1, 12),
+];
+
+describe("MACDService", () => {
+  test("signals the turns of a rise and a fall once each", () => {
+    const service = new MACDService(config, undefined, false);
+    const alerts = feed(service, toKlines(macdCloses));
+
+    assert.deepEqual(
+      alerts.map((alert) => [alert.type, alert.signal]),
+      [
+        ["macd_crossover", "buy"],
+        ["macd_zero_cross", "buy"],
+        ["macd_crossover", "sell"],
+        ["macd_zero_cross", "sell"],
+      ]
+    );
+    // A flat MACD of zero turns both ways on the first rising candle
+    assert.equal(alerts[0]!.candleTime, 15 * HOUR);
+    assert.equal(alerts[1]!.candleTime, 15 * HOUR);
+    // The histogram turns before the MACD line reaches zero
+    assert.ok(alerts[2]!.candleTime >= 23 * HOUR);
+    assert.ok(alerts[3]!.candleTime >= alerts[2]!.candleTime);
+  });
+});
+
+describe("ATRVolatilityService", () => {
+  test("fires once per expansion", () => {
+    // Calm, 3 wide candles, calm again, wide again
+    const ranges = [
+      ...repeat(1, 20),
+      ...repeat(6, 3),
+      ...repeat(1, 30),
+      ...repeat(6, 3),
+    ];
+    const service = new ATRVolatilityService(config, undefined, false);
+    const alerts = feed(service, toKlines(repeat(100, ranges.length), ranges));
+
+    assert.deepEqual(
+      alerts.map((alert) => alert.candleTime),
+      [20 * HOUR, 53 * HOUR]
+    );
+    assert.ok(alerts.every((alert) => alert.expansionRatio > 1.5));
+  });
+});
+
+describe("ADXTrendService", () => {
+  test("reports a trend forming and fading", () => {
+    // Chop, a steady rally from candle 20, chop again from candle 35
+    const chop = (count: number, base: number) =>
+      Array.from({ length: count }, (_, i) => base + [0, 2, 0, -2][i % 4]!);
+    const closes = [...chop(20, 100), ...steps(100, 2, 15), ...chop(40, 130)];
+    const service = new ADXTrendService(config, undefined, false);
+    const alerts = feed(service, toKlines(closes));
+
+    // The warm-up ADX settles into the first chop from above
+    assert.deepEqual(
+      alerts.map((alert) => alert.transition),
+      ["weakening", "strengthening", "weakening"]
+    );
+    const [, strengthening, weakening] = alerts;
+    assert.equal(strengthening!.trendDirection, "bullish");
+    assert.ok(strengthening!.candleTime > 20 * HOUR);
+    assert.ok(strengthening!.candleTime < 35 * HOUR);
+    assert.ok(strengthening!.previousAdx < 25 && strengthening!.adx >= 25);
+    assert.ok(weakening!.candleTime > 35 * HOUR);
+    assert.ok(weakening!.previousAdx > 23 && weakening!.adx <= 23);
+  });
+});
+
+describe("SuperTrendService", () => {
+  test("flips with the trend", () => {
+    const closes = [
+      ...steps(100, 1, 15),
+      ...steps(115, -1, 15),
+      ...steps(100, 1, 15),
+    ];
+    const service = new SuperTrendService(config, undefined, false);
+    const alerts = feed(service, toKlines(closes));
+
+    // The first flip turns the initial down direction up during warm-up
+    assert.deepEqual(
+      alerts.map((alert) => alert.signal),
+      ["buy", "sell", "buy"]
+    );
+    assert.ok(alerts[1]!.candleTime > 15 * HOUR);
+    assert.ok(alerts[1]!.candleTime < 30 * HOUR);
+    assert.ok(alerts[2]!.candleTime > 30 * HOUR);
+  });
+});
+
+describe("IndicatorSignalService", () => {
+  const klines = toKlines(macdCloses);
+  // Candle 15 (both buy signals) is the last closed one
+  const upToSignal = klines.slice(0, 17);
+
+  test("a rebuilt series only reports the latest closed candle", () => {
+    // The four signals of the series are all before its last closed candle
+    const service = new MACDService(config, undefined, false);
+    assert.deepEqual(service.detect("BTCUSDT", "1h", klines, 0), []);
+
+    const rebuilt = new MACDService(config, undefined, false);
+    const alerts = rebuilt.detect("BTCUSDT", "1h", upToSignal, 0);
+    assert.deepEqual(
+      alerts.map((alert) => [alert.type, alert.candleTime]),
+      [
+        ["macd_crossover", 15 * HOUR],
+        ["macd_zero_cross", 15 * HOUR],
+      ]
+    );
+    assert.deepEqual(rebuilt.detect("BTCUSDT", "1h", upToSignal, 0), []);
+  });
+
+  test("does not repeat signals after a history reload", () => {
+    const service = new MACDService(config, undefined, false);
+    assert.equal(feed(service, upToSignal).length, 2);
+
+    // A reload ending before the signal candle, then the candle again
+    assert.deepEqual(
+      service.detect("BTCUSDT", "1h", klines.slice(0, 16), 0),
+      []
+    );
+    assert.deepEqual(service.detect("BTCUSDT", "1h", upToSignal, 0), []);
+    assert.deepEqual(service.getTrackerStatus(), {
+      BTCUSDT: { "1h": { lastSignalTime: 15 * HOUR } },
+    });
+  });
+
+  test("keeps symbols and timeframes apart", () => {
+    const service = new MACDService(config, undefined, false);
+    service.detect("BTCUSDT", "1h", upToSignal, 0);
+
+    assert.equal(service.detect("ETHUSDT", "1h", upToSignal, 0).length, 2);
+    assert.equal(service.detect("BTCUSDT", "4h", upToSignal, 0).length, 2);
+  });
+});
@@ -0,0 +1,186 @@
+import fs from "fs";
+import path from "path";
+import { IndicatorSignalTracker, KlineData } from "../types/market.model";
+import { Clock } from "../utils/clock.utils";
+import { ClosedCandleCursor } from "../utils/indicators.utils";
+
+/**
+ * Signal of one closed candle, without the fields detect() adds
+ */
+export interface IndicatorSignal {
+  type: string;
+  candleTime: number;
+}
+
+export type IndicatorAlert<TSignal extends IndicatorSignal> = TSignal & {
+  symbol: string;
+  timeframe: string;
+  timestamp: number;
+  currentPrice: number;
+};
+
+/**
+ * Base of the detectors that stream one indicator per symbol-timeframe
+ * over closed candles (MACD, ATR volatility, ADX trend, SuperTrend).
+ * Subclasses turn each closed candle into signals; the cursor, rebuilds
+ * and the persisted lastSignalTime dedupe live here.
+ */
+export abstract class IndicatorSignalService<
+  TState,
+  TSignal extends IndicatorSignal
+> {
+  private tracker: IndicatorSignalTracker = {};
+  private states: Map<string, { cursor: ClosedCandleCursor; state: TState }> =
+    new Map();
+  private readonly name: string;
+  private readonly trackerFile: string;
+  private readonly persistTracker: boolean;
+  private clock: Clock;
+
+  constructor(
+    name: string,
+    trackerFile: string,
+    clock: Clock,
+    persistTracker: boolean
+  ) {
+    this.name = name;
+    this.clock = clock;
+    this.persistTracker = persistTracker;
+    this.trackerFile = path.join(process.cwd(), "/data", trackerFile);
+    if (this.persistTracker) {
+      this.loadTracker();
+    }
+  }
+
+  /**
+   * Fresh indicator state, before any candle
+   */
+  protected abstract createState(): TState;
+
+  /**
+   * Feed one closed candle and return the signals it triggers
+   */
+  protected abstract update(state: TState, candle: KlineData): TSignal[];
+
+  /**
+   * Load tracker from JSON file
+   */
+  private loadTracker(): void {
+    try {
+      if (fs.existsSync(this.trackerFile)) {
+        const data = fs.readFileSync(this.trackerFile, "utf8");
+        this.tracker = JSON.parse(data);
+        console.log(`📁 Loaded ${this.name} tracker from file`);
+      }
+    } catch (error) {
+      console.error(`❌ Error loading ${this.name} tracker:`, error);
+      this.tracker = {};
+    }
+  }
+
+  /**
+   * Save tracker to JSON file
+   */
+  private saveTracker(): void {
+    if (!this.persistTracker) return;
+
+    try {
+      // Ensure data directory exists
+      const dataDir = path.dirname(this.trackerFile);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      fs.writeFileSync(this.trackerFile, JSON.stringify(this.tracker, null, 2));
+    } catch (error) {
+      console.error(`❌ Error saving ${this.name} tracker:`, error);
+    }
+  }
+
+  /**
+   * Detect signals on the candles closed since the last call. After a
+   * rebuild (first call, gap, history reload) only the latest closed candle
+   * can signal.
+   */
+  detect(
+    symbol: string,
+    timeframe: string,
+    klineData: KlineData[],
+    currentPrice: number
+  ): IndicatorAlert<TSignal>[] {
+    const entry = this.getEntry(symbol, timeframe);
+    const { candles, reset } = entry.cursor.advance(klineData);
+    if (reset) {
+      entry.state = this.createState();
+    }
+
+    const signals: TSignal[] = [];
+    candles.forEach((candle, index) => {
+      const candleSignals = this.update(entry.state, candle);
+      if (reset && index !== candles.length - 1) return;
+      signals.push(...candleSignals);
+    });
+    if (signals.length === 0) return [];
+
+    if (!this.tracker[symbol]) {
+      this.tracker[symbol] = {};
+    }
+    if (!this.tracker[symbol][timeframe]) {
+      this.tracker[symbol][timeframe] = {};
+    }
+    const tracker = this.tracker[symbol][timeframe];
+
+    // Skip signals already sent, e.g. before a restart
+    const lastSignalTime = tracker.lastSignalTime ?? -Infinity;
+    const newSignals = signals.filter(
+      (signal) => signal.candleTime > lastSignalTime
+    );
+    if (newSignals.length === 0) return [];
+
+    tracker.lastSignalTime = Math.max(
+      ...newSignals.map((signal) => signal.candleTime)
+    );
+    this.saveTracker();
+
+    const now = this.clock.now();
+    return newSignals.map((signal) => ({
+      ...signal,
+      symbol,
+      timeframe,
+      timestamp: now,
+      currentPrice,
+    }));
+  }
+
+  /**
+   * Get or create the indicator state of a symbol-timeframe
+   */
+  private getEntry(
+    symbol: string,
+    timeframe: string
+  ): { cursor: ClosedCandleCursor; state: TState } {
+    const key = `${symbol}:${timeframe}`;
+    let entry = this.states.get(key);
+    if (!entry) {
+      entry = { cursor: new ClosedCandleCursor(), state: this.createState() };
+      this.states.set(key, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Get tracker status
+   */
+  getTrackerStatus(): IndicatorSignalTracker {
+    return JSON.parse(JSON.stringify(this.tracker));
+  }
+
+  /**
+   * Clear tracker
+   */
+  clearTracker(): void {
+    this.tracker = {};
+    this.saveTracker();
+    console.log(`🗑️ ${this.name} tracker cleared`);
+  }
+}
@@ -0,0 +1,394 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import {
+  Instrument,
+  InstrumentType,
+  MarketDataProviderName,
+} from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+import { roundDownToStep, roundToStep } from "../utils/step.utils";
+
+interface InstrumentCache {
+  [venue: string]: {
+    updatedAt: number;
+    instruments: Instrument[];
+  };
+}
+
+/**
+ * Quote assets recognised when splitting concatenated symbols like BTCUSDT,
+ * longest first so FDUSD is not read as USD
+ */
+const KNOWN_QUOTES = [
+  "FDUSD",
+  "USDT",
+  "USDC",
+  "BUSD",
+  "TUSD",
+  "USD",
+  "DAI",
+  "EUR",
+  "TRY",
+  "BTC",
+  "ETH",
+  "BNB",
+];
+
+export class InstrumentRegistry {
+  private readonly cacheFile: string;
+  private readonly cacheTtl = 24 * 60 * 60 * 1000; // 24 hours
+  private cache: InstrumentCache = {};
+  private byVenueSymbol: Map<string, Instrument> = new Map();
+  private byCanonical: Map<string, Instrument> = new Map();
+  private clock: Clock;
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+    this.cacheFile = path.join(process.cwd(), "/data/instruments.json");
+    this.loadCache();
+  }
+
+  /**
+   * Load instrument metadata for the given venues, refreshing from the
+   * exchange when the cache is older than 24 hours
+   */
+  async load(
+    venues: MarketDataProviderName[],
+    forceRefresh: boolean = false
+  ): Promise<void> {
+    const uniqueVenues = Array.from(new Set(venues));
+
+    await Promise.all(
+      uniqueVenues.map(async (venue) => {
+        const cached = this.cache[venue];
+        if (
+          !forceRefresh &&
+          cached &&
+          this.clock.now() - cached.updatedAt < this.cacheTtl
+        ) {
+          return;
+        }
+
+        try {
+          const instruments = await this.fetchInstruments(venue);
+          this.cache[venue] = { updatedAt: this.clock.now(), instruments };
+          console.log(`📚 Loaded ${instruments.length} ${venue} instruments`);
+        } catch (error) {
+          console.error(
+            `❌ Error loading ${venue} instruments${
+              cached ? ", using cached metadata" : ""
+            }:`,
+            error
+          );
+        }
+      })
+    );
+
+    this.rebuildIndexes();
+    this.saveCache();
+  }
+
+  /**
+   * Split any supported symbol format into base/quote/type.
+   * Accepts BTCUSDT, BTC-USDT, BTC/USDT and BTC-USDT-SWAP.
+   */
+  parseSymbol(
+    symbol: string
+  ): { base: string; quote: string; type: InstrumentType } | null {
+    const normalized = symbol.trim().toUpperCase().replace("/", "-");
+    const isSwap = normalized.endsWith("-SWAP");
+    const pair = isSwap ? normalized.slice(0, -"-SWAP".length) : normalized;
+    const type: InstrumentType = isSwap ? "swap" : "spot";
+
+    if (pair.includes("-")) {
+      const [base, quote, ...rest] = pair.split("-");
+      if (!base || !quote || rest.length > 0) return null;
+      return { base, quote, type };
+    }
+
+    const quote = KNOWN_QUOTES.find(
+      (candidate) => pair.endsWith(candidate) && pair.length > candidate.length
+    );
+    if (!quote) return null;
+
+    return { base: pair.slice(0, -quote.length), quote, type };
+  }
+
+  /**
+   * Get the canonical symbol for any supported input format
+   */
+  toCanonical(symbol: string, type?: InstrumentType): string | null {
+    const parsed = this.parseSymbol(symbol);
+    if (!parsed) return null;
+
+    const instrumentType = type || parsed.type;
+    return instrumentType === "swap"
+      ? `${parsed.base}-${parsed.quote}-SWAP`
+      : `${parsed.base}-${parsed.quote}`;
+  }
+
+  /**
+   * Translate a symbol into the venue's own format. Binance futures only
+   * lists perpetuals and Binance spot only spot, so the type follows the venue.
+   */
+  toVenueSymbol(symbol: string, venue: MarketDataProviderName): string {
+    const parsed = this.parseSymbol(symbol);
+    if (!parsed) {
+      throw new Error(`Unrecognised symbol: ${symbol}`);
+    }
+
+    switch (venue) {
+      case "binance_spot":
+      case "binance_futures":
+        return `${parsed.base}${parsed.quote}`;
+      case "okx":
+        return parsed.type === "swap"
+          ? `${parsed.base}-${parsed.quote}-SWAP`
+          : `${parsed.base}-${parsed.quote}`;
+      default:
+        throw new Error(`Unsupported venue: ${venue}`);
+    }
+  }
+
+  /**
+   * Look up an instrument by any symbol format
+   */
+  getInstrument(
+    symbol: string,
+    venue: MarketDataProviderName,
+    type?: InstrumentType
+  ): Instrument | null {
+    const canonical = this.toCanonical(
+      symbol,
+      type || (venue === "binance_futures" ? "swap" : undefined)
+    );
+    if (canonical) {
+      const instrument = this.byCanonical.get(`${venue}:${canonical}`);
+      if (instrument) return instrument;
+    }
+
+    return (
+      this.byVenueSymbol.get(`${venue}:${symbol.trim().toUpperCase()}`) || null
+    );
+  }
+
+  /**
+   * Check whether metadata is available for a venue
+   */
+  hasVenue(venue: MarketDataProviderName): boolean {
+    return (this.cache[venue]?.instruments.length || 0) > 0;
+  }
+
+  /**
+   * Round a size down to the instrument's lot size
+   */
+  roundSize(instrument: Instrument, size: number): number {
+    return roundDownToStep(size, instrument.lotSize);
+  }
+
+  /**
+   * Round a price to the nearest tick
+   */
+  roundPrice(instrument: Instrument, price: number): number {
+    return roundToStep(price, instrument.tickSize);
+  }
+
+  /**
+   * Reject sizes and prices that violate lot/tick rules before they reach the exchange
+   */
+  validateOrder(instrument: Instrument, size: number, price?: number): void {
+    if (size < instrument.minSize) {
+      throw new Error(
+        `Size ${size} is below the minimum ${instrument.minSize} for ${instrument.venueSymbol}`
+      );
+    }
+    if (!this.isMultipleOf(size, instrument.lotSize)) {
+      throw new Error(
+        `Size ${size} is not a multiple of lot size ${instrument.lotSize} for ${instrument.venueSymbol}`
+      );
+    }
+    if (price !== undefined && !this.isMultipleOf(price, instrument.tickSize)) {
+      throw new Error(
+        `Price ${price} is not a multiple of tick size ${instrument.tickSize} for ${instrument.venueSymbol}`
+      );
+    }
+  }
+
+  /**
+   * Check if a value is a whole number of steps (tolerant to float error)
+   */
+  private isMultipleOf(value: number, step: number): boolean {
+    if (step <= 0) return true;
+    const steps = value / step;
+    return Math.abs(steps - Math.round(steps)) < 1e-8 * Math.max(1, steps);
+  }
+
+  /**
+   * Fetch instrument metadata from a venue
+   */
+  private async fetchInstruments(
+    venue: MarketDataProviderName
+  ): Promise<Instrument[]> {
+    switch (venue) {
+      case "binance_spot":
+        return this.fetchBinanceInstruments(
+          "https://api.binance.com/api/v3/exchangeInfo",
+          venue,
+          "spot"
+        );
+      case "binance_futures":
+        return this.fetchBinanceInstruments(
+          "https://fapi.binance.com/fapi/v1/exchangeInfo",
+          venue,
+          "swap"
+        );
+      case "okx":
+        return [
+          ...(await this.fetchOKXInstruments("SWAP")),
+          ...(await this.fetchOKXInstruments("SPOT")),
+        ];
+      default:
+        throw new Error(`Unsupported venue: ${venue}`);
+    }
+  }
+
+  /**
+   * Load symbols from a Binance exchangeInfo endpoint
+   */
+  private async fetchBinanceInstruments(
+    url: string,
+    venue: MarketDataProviderName,
+    type: InstrumentType
+  ): Promise<Instrument[]> {
+    const response = await axios.get(url);
+
+    return response.data.symbols
+      .filter(
+        (symbol: any) =>
+          symbol.status === "TRADING" &&
+          (type === "spot" || symbol.contractType === "PERPETUAL")
+      )
+      .map((symbol: any) => {
+        const priceFilter = symbol.filters.find(
+          (filter: any) => filter.filterType === "PRICE_FILTER"
+        );
+        const lotFilter = symbol.filters.find(
+          (filter: any) => filter.filterType === "LOT_SIZE"
+        );
+        const canonical =
+          type === "swap"
+            ? `${symbol.baseAsset}-${symbol.quoteAsset}-SWAP`
+            : `${symbol.baseAsset}-${symbol.quoteAsset}`;
+
+        return {
+          canonical,
+          venue,
+          venueSymbol: symbol.symbol,
+          base: symbol.baseAsset,
+          quote: symbol.quoteAsset,
+          type,
+          tickSize: parseFloat(priceFilter?.tickSize || "0"),
+          lotSize: parseFloat(lotFilter?.stepSize || "0"),
+          minSize: parseFloat(lotFilter?.minQty || "0"),
+          contractValue: 1,
+        };
+      });
+  }
+
+  /**
+   * Load instruments from OKX /public/instruments
+   */
+  private async fetchOKXInstruments(
+    instType: "SWAP" | "SPOT"
+  ): Promise<Instrument[]> {
+    const response = await axios.get(
+      "https://www.okx.com/api/v5/public/instruments",
+      { params: { instType } }
+    );
+
+    if (response.data.code !== "0") {
+      throw new Error(
+        `OKX API Error: ${response.data.msg} (Code: ${response.data.code})`
+      );
+    }
+
+    return response.data.data
+      .filter((inst: any) => inst.state === "live")
+      .map((inst: any) => {
+        const [base, quote] =
+          instType === "SWAP"
+            ? inst.uly.split("-")
+            : [inst.baseCcy, inst.quoteCcy];
+        const lever = parseFloat(inst.lever);
+
+        return {
+          canonical: inst.instId,
+          venue: "okx",
+          venueSymbol: inst.instId,
+          base,
+          quote,
+          type: instType === "SWAP" ? "swap" : "spot",
+          tickSize: parseFloat(inst.tickSz),
+          lotSize: parseFloat(inst.lotSz),
+          minSize: parseFloat(inst.minSz),
+          contractValue: instType === "SWAP" ? parseFloat(inst.ctVal) : 1,
+          ...(lever > 0 ? { maxLeverage: lever } : {}),
+        };
+      });
+  }
+
+  /**
+   * Rebuild lookup indexes from the cache
+   */
+  private rebuildIndexes(): void {
+    this.byVenueSymbol.clear();
+    this.byCanonical.clear();
+
+    Object.values(this.cache).forEach(({ instruments }) => {
+      instruments.forEach((instrument) => {
+        this.byVenueSymbol.set(
+          `${instrument.venue}:${instrument.venueSymbol}`,
+          instrument
+        );
+        this.byCanonical.set(
+          `${instrument.venue}:${instrument.canonical}`,
+          instrument
+        );
+      });
+    });
+  }
+
+  /**
+   * Load cached instruments from JSON file
+   */
+  private loadCache(): void {
+    try {
+      if (fs.existsSync(this.cacheFile)) {
+        const data = fs.readFileSync(this.cacheFile, "utf8");
+        this.cache = JSON.parse(data);
+        this.rebuildIndexes();
+        console.log("📁 Loaded instrument cache from file");
+      }
+    } catch (error) {
+      console.error("❌ Error loading instrument cache:", error);
+      this.cache = {};
+    }
+  }
+
+  /**
+   * Save instruments to JSON file
+   */
+  private saveCache(): void {
+    try {
+      const dataDir = path.dirname(this.cacheFile);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      fs.writeFileSync(this.cacheFile, JSON.stringify(this.cache));
+    } catch (error) {
+      console.error("❌ Error saving instrument cache:", error);
+    }
+  }
+}
@@ -0,0 +1,430 @@
+import WebSocket from "ws";
+import { MarketService } from "./market.service";
+import { KlineData, MarketData } from "../types/market.model";
+import { getTimeframeInfo } from "../utils/candle-sync-scheduler.utils";
+import { Clock, ClockTimer, systemClock } from "../utils/clock.utils";
+
+export interface KlineStreamConfig {
+  pairs: string[];
+  venueSymbols: { [pair: string]: string }; // Pair -> exchange symbol
+  timeframes: string[];
+  maxCandles: number; // Default: 1500
+  reconnectBaseDelay: number; // Default: 1000 (ms)
+  reconnectMaxDelay: number; // Default: 60000 (ms)
+  staleTimeout: number; // Default: 60000 (ms) without messages before reconnecting
+}
+
+/**
+ * Optional persistence hooks so the stream can start warm from local history
+ * and hand every closed candle back for storage
+ */
+export interface KlineHistorySource {
+  loadHistory(key: string): Promise<KlineData[]>;
+  saveClosedKlines(key: string, klineData: KlineData[]): void;
+}
+
+/**
+ * Binance combined-stream kline message (`/stream?streams=...`)
+ */
+interface BinanceKlineMessage {
+  stream: string;
+  data: {
+    e: string;
+    s: string;
+    k: {
+      t: number;
+      T: number;
+      s: string;
+      i: string;
+      o: string;
+      c: string;
+      h: string;
+      l: string;
+      v: string;
+      n: number;
+      x: boolean;
+      q: string;
+      V: string;
+      Q: string;
+      B: string;
+    };
+  };
+}
+
+/**
+ * Streams klines from Binance combined streams (spot or USDⓈ-M futures) and
+ * keeps a rolling in-memory KlineData[] per symbol/timeframe. REST is only
+ * used to bootstrap history on start and to backfill gaps after a disconnect.
+ */
+export class KlineStreamService {
+  private readonly streamUrl: string;
+  private readonly maxStreamsPerConnection = 1024;
+  private config: KlineStreamConfig;
+  private marketServices: Map<string, MarketService>;
+  private historySource: KlineHistorySource | null;
+  private clock: Clock;
+  private klines: Map<string, KlineData[]> = new Map();
+  private streamKeys: Map<string, string> = new Map();
+  private ws: WebSocket | null = null;
+  private reconnectTimeout: ClockTimer | null = null;
+  private staleCheckInterval: ClockTimer | null = null;
+  private reconnectAttempts: number = 0;
+  private lastMessageTime: number = 0;
+  private hasConnected: boolean = false;
+  private backfillInProgress: Set<string> = new Set();
+  private isRunning: boolean = false;
+
+  constructor(
+    config: KlineStreamConfig,
+    marketServices: Map<string, MarketService>,
+    streamUrl: string,
+    historySource?: KlineHistorySource,
+    clock: Clock = systemClock
+  ) {
+    this.config = config;
+    this.marketServices = marketServices;
+    this.streamUrl = streamUrl;
+    this.historySource = historySource || null;
+    this.clock = clock;
+
+    for (const symbol of config.pairs) {
+      for (const timeframe of config.timeframes) {
+        const venueSymbol = config.venueSymbols[symbol] || symbol;
+        const streamName = `${venueSymbol.toLowerCase()}@kline_${timeframe}`;
+        this.streamKeys.set(streamName, `${symbol}-${timeframe}`);
+      }
+    }
+
+    if (this.streamKeys.size > this.maxStreamsPerConnection) {
+      throw new Error(
+        `Too many kline streams (${this.streamKeys.size}), Binance allows ${this.maxStreamsPerConnection} per connection`
+      );
+    }
+  }
+
+  /**
+   * Bootstrap history over REST and open the WebSocket connection
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.log("⚠️ Kline stream is already running");
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(
+      `📡 Starting kline stream for ${this.streamKeys.size} symbol/timeframe streams`
+    );
+
+    await Promise.allSettled(
+      Array.from(this.streamKeys.values()).map((key) => this.bootstrap(key))
+    );
+
+    this.connect();
+
+    this.staleCheckInterval = this.clock.setInterval(
+      () => this.checkStaleConnection(),
+      this.config.staleTimeout / 2
+    );
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  stop(): void {
+    this.isRunning = false;
+
+    if (this.reconnectTimeout) {
+      this.clock.clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.staleCheckInterval) {
+      this.clock.clearInterval(this.staleCheckInterval);
+      this.staleCheckInterval = null;
+    }
+    if (this.ws) {
+      this.ws.removeAllListeners();
+      this.ws.terminate();
+      this.ws = null;
+    }
+
+    this.hasConnected = false;
+    console.log("🛑 Kline stream stopped");
+  }
+
+  /**
+   * Get market data for a symbol/timeframe from the in-memory buffer
+   */
+  getMarketData(symbol: string, timeframe: string): MarketData | null {
+    const klineData = this.klines.get(`${symbol}-${timeframe}`);
+    const latest = klineData?.[klineData.length - 1];
+    if (!klineData || !latest) return null;
+
+    return {
+      symbol,
+      currentPrice: parseFloat(latest.close),
+      timestamp: this.clock.now(),
+      klineData: [...klineData],
+    };
+  }
+
+  /**
+   * Check if the stream is connected
+   */
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Get stream status
+   */
+  getStatus(): {
+    isRunning: boolean;
+    isConnected: boolean;
+    streamCount: number;
+    reconnectAttempts: number;
+    lastMessageTime: number;
+    bufferSizes: { [key: string]: number };
+  } {
+    const bufferSizes: { [key: string]: number } = {};
+    this.klines.forEach((klineData, key) => {
+      bufferSizes[key] = klineData.length;
+    });
+
+    return {
+      isRunning: this.isRunning,
+      isConnected: this.isConnected(),
+      streamCount: this.streamKeys.size,
+      reconnectAttempts: this.reconnectAttempts,
+      lastMessageTime: this.lastMessageTime,
+      bufferSizes,
+    };
+  }
+
+  /**
+   * Open the combined-stream WebSocket connection
+   */
+  private connect(): void {
+    if (!this.isRunning) return;
+
+    const streams = Array.from(this.streamKeys.keys()).join("/");
+    const ws = new WebSocket(`${this.streamUrl}?streams=${streams}`);
+    this.ws = ws;
+
+    ws.on("open", () => {
+      const isReconnect = this.hasConnected;
+      this.hasConnected = true;
+      this.reconnectAttempts = 0;
+      this.lastMessageTime = this.clock.now();
+      console.log("✅ Kline stream connected");
+
+      // Candles may have closed while we were disconnected
+      if (isReconnect) {
+        this.streamKeys.forEach((key) => this.backfill(key));
+      }
+    });
+
+    ws.on("message", (raw) => {
+      this.lastMessageTime = this.clock.now();
+      this.handleMessage(raw.toString());
+    });
+
+    ws.on("error", (error) => {
+      console.error("❌ Kline stream error:", error.message);
+    });
+
+    ws.on("close", (code) => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      console.warn(`⚠️ Kline stream closed (code: ${code})`);
+      this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * Reconnect with exponential backoff and jitter
+   */
+  private scheduleReconnect(): void {
+    if (!this.isRunning || this.reconnectTimeout) return;
+
+    const delay =
+      Math.min(
+        this.config.reconnectMaxDelay,
+        this.config.reconnectBaseDelay * Math.pow(2, this.reconnectAttempts)
+      ) +
+      Math.random() * 1000;
+    this.reconnectAttempts++;
+
+    console.log(
+      `🔄 Reconnecting kline stream in ${Math.round(
+        delay / 1000
+      )} seconds (attempt ${this.reconnectAttempts})...`
+    );
+
+    this.reconnectTimeout = this.clock.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * Force a reconnect if no message arrived within the stale timeout
+   */
+  private checkStaleConnection(): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    if (this.clock.now() - this.lastMessageTime > this.config.staleTimeout) {
+      console.warn("⚠️ Kline stream is stale, reconnecting...");
+      this.ws.terminate();
+    }
+  }
+
+  /**
+   * Handle a raw stream message
+   */
+  private handleMessage(raw: string): void {
+    let message: BinanceKlineMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      console.error("❌ Invalid kline stream message:", error);
+      return;
+    }
+
+    const key = this.streamKeys.get(message.stream);
+    const k = message.data?.k;
+    if (!key || !k) return;
+
+    const kline: KlineData = {
+      openTime: k.t,
+      open: k.o,
+      high: k.h,
+      low: k.l,
+      close: k.c,
+      volume: k.v,
+      closeTime: k.T,
+      quoteAssetVolume: k.q,
+      numberOfTrades: k.n,
+      takerBuyBaseAssetVolume: k.V,
+      takerBuyQuoteAssetVolume: k.Q,
+      ignore: k.B,
+    };
+
+    this.applyKline(key, kline);
+    if (k.x) {
+      this.historySource?.saveClosedKlines(key, [kline]);
+    }
+  }
+
+  /**
+   * Apply a streamed kline to the rolling buffer
+   */
+  private applyKline(key: string, kline: KlineData): void {
+    const klineData = this.klines.get(key);
+    if (!klineData) return;
+
+    const latest = klineData[klineData.length - 1];
+
+    if (!latest || kline.openTime > latest.openTime) {
+      const timeframeMs = this.getTimeframeMs(key);
+      if (
+        latest &&
+        timeframeMs > 0 &&
+        kline.openTime - latest.openTime > timeframeMs
+      ) {
+        // Missed at least one candle, fill it from REST
+        this.backfill(key);
+      }
+      klineData.push(kline);
+    } else if (kline.openTime === latest.openTime) {
+      klineData[klineData.length - 1] = kline;
+    } else {
+      return; // Out-of-order update for an old candle
+    }
+
+    if (klineData.length > this.config.maxCandles) {
+      klineData.splice(0, klineData.length - this.config.maxCandles);
+    }
+  }
+
+  /**
+   * Load initial history from the history source, or over REST without one
+   */
+  private async bootstrap(key: string): Promise<void> {
+    const marketService = this.marketServices.get(key);
+    if (!marketService) return;
+
+    try {
+      const klineData = this.historySource
+        ? await this.historySource.loadHistory(key)
+        : await marketService.getKlineData(this.config.maxCandles);
+      this.klines.set(key, klineData);
+    } catch (error) {
+      console.error(`❌ Error bootstrapping klines for ${key}:`, error);
+      this.klines.set(key, []);
+    }
+  }
+
+  /**
+   * Fetch candles since the last buffered candle and merge them in
+   */
+  private async backfill(key: string): Promise<void> {
+    if (this.backfillInProgress.has(key)) return;
+
+    const marketService = this.marketServices.get(key);
+    const klineData = this.klines.get(key);
+    if (!marketService || !klineData) return;
+
+    const latest = klineData[klineData.length - 1];
+    if (!latest) {
+      await this.bootstrap(key);
+      return;
+    }
+
+    this.backfillInProgress.add(key);
+    try {
+      const missing = await marketService.getKlineData(
+        this.config.maxCandles,
+        latest.openTime
+      );
+      this.mergeKlines(key, missing);
+      this.historySource?.saveClosedKlines(key, missing);
+      console.log(`🩹 Backfilled ${missing.length} klines for ${key}`);
+    } catch (error) {
+      console.error(`❌ Error backfilling klines for ${key}:`, error);
+    } finally {
+      this.backfillInProgress.delete(key);
+    }
+  }
+
+  /**
+   * Merge REST klines into the buffer, keeping it sorted and unique by openTime
+   */
+  private mergeKlines(key: string, incoming: KlineData[]): void {
+    const klineData = this.klines.get(key);
+    if (!klineData) return;
+
+    const byOpenTime = new Map<number, KlineData>();
+    klineData.forEach((kline) => byOpenTime.set(kline.openTime, kline));
+    incoming.forEach((kline) => {
+      // Keep the streamed version of a candle if it is newer than REST's
+      const existing = byOpenTime.get(kline.openTime);
+      if (!existing || existing.numberOfTrades <= kline.numberOfTrades) {
+        byOpenTime.set(kline.openTime, kline);
+      }
+    });
+
+    const merged = Array.from(byOpenTime.values())
+      .sort((a, b) => a.openTime - b.openTime)
+      .slice(-this.config.maxCandles);
+    this.klines.set(key, merged);
+  }
+
+  /**
+   * Get timeframe duration for a `${symbol}-${timeframe}` key
+   */
+  private getTimeframeMs(key: string): number {
+    const timeframe = key.slice(key.lastIndexOf("-") + 1);
+    return getTimeframeInfo(timeframe).milliseconds;
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  AlertConfig,
+  KlineData,
+  MACDAlert,
+  MACDConfig,
+} from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+import { MACDValue, StreamingMACD } from "../utils/indicators.utils";
+import { IndicatorSignalService } from "./indicator-signal.service";
+
+interface MACDState {
+  macd: StreamingMACD;
+  previous: MACDValue | null;
+}
+
+type MACDSignal = Omit<
+  MACDAlert,
+  "symbol" | "timeframe" | "timestamp" | "currentPrice"
+>;
+
+/**
+ * MACD line/signal crossovers and MACD zero-line crosses on closed candles
+ */
+export class MACDService extends IndicatorSignalService<MACDState, MACDSignal> {
+  private config: MACDConfig;
+
+  constructor(
+    config: AlertConfig,
+    clock: Clock = systemClock,
+    persistTracker: boolean = true
+  ) {
+    super("MACD", "macd-tracker.json", clock, persistTracker);
+    this.config = config.macdSignals;
+  }
+
+  protected createState(): MACDState {
+    return {
+      macd: new StreamingMACD(
+        this.config.fastPeriod,
+        this.config.slowPeriod,
+        this.config.signalPeriod
+      ),
+      previous: null,
+    };
+  }
+
+  protected update(state: MACDState, candle: KlineData): MACDSignal[] {
+    const current = state.macd.update(parseFloat(candle.close));
+    const previous = state.previous;
+    state.previous = current;
+    if (!current || !previous) return [];
+
+    const values = {
+      candleTime: candle.openTime,
+      macd: current.macd,
+      signalLine: current.signal,
+      histogram: current.histogram,
+    };
+    const signals: MACDSignal[] = [];
+    const crossover = crossDirection(previous.histogram, current.histogram);
+    if (crossover) {
+      signals.push({ type: "macd_crossover", signal: crossover, ...values });
+    }
+    const zeroCross = crossDirection(previous.macd, current.macd);
+    if (zeroCross) {
+      signals.push({ type: "macd_zero_cross", signal: zeroCross, ...values });
+    }
+    return signals;
+  }
+}
+
+/**
+ * Direction a value crossed zero in, like ta.crossover/ta.crossunder
+ */
+function crossDirection(
+  previous: number,
+  current: number
+): "buy" | "sell" | null {
+  if (previous <= 0 && current > 0) return "buy";
+  if (previous >= 0 && current < 0) return "sell";
+  return null;
+}
@@ -0,0 +1,345 @@
+import axios from "axios";
+import { KlineData, MarketDataProviderName } from "../types/market.model";
+import { getTimeframeInfo } from "../utils/candle-sync-scheduler.utils";
+
+export interface KlineQuery {
+  limit: number;
+  startTime?: number; // Only klines opened at or after this time
+  endTime?: number; // Only klines opened at or before this time
+}
+
+/**
+ * Source of candles and prices for one exchange/market. Implementations
+ * normalize everything into Binance-shaped KlineData sorted by openTime.
+ */
+export interface MarketDataProvider {
+  readonly name: MarketDataProviderName;
+  readonly maxKlinesPerRequest: number;
+  readonly streamUrl?: string; // Binance-compatible combined kline stream
+  readonly requestWeightPerMinute: number; // Public IP budget for kline requests
+  getKlinesWeight(limit: number): number; // Weight of one getKlines call
+  getKlines(
+    symbol: string,
+    interval: string,
+    query: KlineQuery
+  ): Promise<KlineData[]>;
+  getCurrentPrice(symbol: string): Promise<number>;
+  healthCheck(): Promise<boolean>;
+}
+
+abstract class BinanceMarketDataProvider implements MarketDataProvider {
+  abstract readonly name: MarketDataProviderName;
+  abstract readonly maxKlinesPerRequest: number;
+  abstract readonly streamUrl: string;
+  abstract readonly requestWeightPerMinute: number;
+  protected abstract readonly baseUrl: string;
+
+  abstract getKlinesWeight(limit: number): number;
+
+  /**
+   * Pages forward from startTime when given, otherwise backwards from
+   * endTime (or now), until the requested number of klines is collected
+   */
+  async getKlines(
+    symbol: string,
+    interval: string,
+    query: KlineQuery
+  ): Promise<KlineData[]> {
+    const klines: KlineData[] = [];
+    const pagingForward = query.startTime !== undefined;
+    let startTime = query.startTime;
+    let endTime = query.endTime;
+
+    while (klines.length < query.limit) {
+      const pageLimit = Math.min(
+        query.limit - klines.length,
+        this.maxKlinesPerRequest
+      );
+      const page = await this.fetchKlines(
+        symbol,
+        interval,
+        pageLimit,
+        startTime,
+        endTime
+      );
+
+      const first = page[0];
+      const last = page[page.length - 1];
+      if (!first || !last) break;
+
+      if (pagingForward) {
+        klines.push(...page);
+        startTime = last.openTime + 1;
+      } else {
+        klines.unshift(...page);
+        endTime = first.openTime - 1;
+      }
+
+      if (page.length < pageLimit) break;
+    }
+
+    return klines;
+  }
+
+  private async fetchKlines(
+    symbol: string,
+    interval: string,
+    limit: number,
+    startTime?: number,
+    endTime?: number
+  ): Promise<KlineData[]> {
+    const response = await axios.get(`${this.baseUrl}/klines`, {
+      params: {
+        symbol,
+        interval,
+        limit,
+        ...(startTime !== undefined ? { startTime } : {}),
+        ...(endTime !== undefined ? { endTime } : {}),
+      },
+    });
+
+    return response.data.map((kline: any[]) => ({
+      openTime: kline[0],
+      open: kline[1],
+      high: kline[2],
+      low: kline[3],
+      close: kline[4],
+      volume: kline[5],
+      closeTime: kline[6],
+      quoteAssetVolume: kline[7],
+      numberOfTrades: kline[8],
+      takerBuyBaseAssetVolume: kline[9],
+      takerBuyQuoteAssetVolume: kline[10],
+      ignore: kline[11],
+    }));
+  }
+
+  async getCurrentPrice(symbol: string): Promise<number> {
+    const response = await axios.get(`${this.baseUrl}/ticker/price`, {
+      params: { symbol },
+    });
+
+    return parseFloat(response.data.price);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await axios.get(`${this.baseUrl}/ping`);
+      return true;
+    } catch (error) {
+      console.error(`${this.name} health check failed:`, error);
+      return false;
+    }
+  }
+}
+
+/**
+ * Binance spot market (`BTCUSDT`)
+ */
+export class BinanceSpotProvider extends BinanceMarketDataProvider {
+  readonly name = "binance_spot";
+  readonly maxKlinesPerRequest = 1000;
+  readonly streamUrl = "wss://stream.binance.com:9443/stream";
+  readonly requestWeightPerMinute = 6000;
+  protected readonly baseUrl = "https://api.binance.com/api/v3";
+
+  getKlinesWeight(limit: number): number {
+    return 2 * Math.ceil(limit / this.maxKlinesPerRequest);
+  }
+}
+
+/**
+ * Binance USDⓈ-M perpetual futures (`BTCUSDT`)
+ */
+export class BinanceFuturesProvider extends BinanceMarketDataProvider {
+  readonly name = "binance_futures";
+  readonly maxKlinesPerRequest = 1500;
+  readonly streamUrl = "wss://fstream.binance.com/stream";
+  readonly requestWeightPerMinute = 2400;
+  protected readonly baseUrl = "https://fapi.binance.com/fapi/v1";
+
+  /**
+   * Futures klines cost 1/2/5/10 depending on the page size
+   */
+  getKlinesWeight(limit: number): number {
+    const pages = Math.ceil(limit / this.maxKlinesPerRequest);
+    const pageLimit = Math.min(limit, this.maxKlinesPerRequest);
+    const pageWeight =
+      pageLimit < 100 ? 1 : pageLimit < 500 ? 2 : pageLimit <= 1000 ? 5 : 10;
+    return pages * pageWeight;
+  }
+}
+
+/**
+ * OKX public candles for spot and swap instruments (`BTC-USDT`, `BTC-USDT-SWAP`)
+ */
+export class OKXMarketDataProvider implements MarketDataProvider {
+  readonly name = "okx";
+  readonly maxKlinesPerRequest = 300;
+  readonly requestWeightPerMinute = 600; // history-candles: 20 requests / 2s
+  private readonly historyMaxKlinesPerRequest = 100;
+  private readonly baseUrl = "https://www.okx.com/api/v5";
+
+  /**
+   * One unit per request, paging through history-candles in worst case
+   */
+  getKlinesWeight(limit: number): number {
+    return Math.ceil(limit / this.historyMaxKlinesPerRequest);
+  }
+
+  /**
+   * OKX returns newest candles first and pages backwards with `after`, so the
+   * first page comes from /market/candles and older pages from
+   * /market/history-candles until the limit or startTime is reached.
+   */
+  async getKlines(
+    symbol: string,
+    interval: string,
+    query: KlineQuery
+  ): Promise<KlineData[]> {
+    const bar = this.toOKXBar(interval);
+    const timeframeMs = getTimeframeInfo(interval).milliseconds;
+    const klines: KlineData[] = [];
+    let after = query.endTime !== undefined ? query.endTime + 1 : undefined;
+    let useHistory = after !== undefined;
+
+    while (klines.length < query.limit) {
+      const endpoint = useHistory ? "history-candles" : "candles";
+      const pageLimit = Math.min(
+        query.limit - klines.length,
+        useHistory ? this.historyMaxKlinesPerRequest : this.maxKlinesPerRequest
+      );
+
+      const response = await axios.get(`${this.baseUrl}/market/${endpoint}`, {
+        params: {
+          instId: symbol,
+          bar,
+          limit: pageLimit,
+          ...(after !== undefined ? { after } : {}),
+        },
+      });
+
+      if (response.data.code !== "0") {
+        throw new Error(
+          `OKX API Error: ${response.data.msg} (Code: ${response.data.code})`
+        );
+      }
+
+      const rows: string[][] = response.data.data;
+      if (rows.length === 0) break;
+
+      const page = rows.map((row) =>
+        this.toKlineData(symbol, row, timeframeMs)
+      );
+      klines.push(...page);
+
+      const oldest = page[page.length - 1];
+      if (!oldest) break;
+      if (query.startTime !== undefined && oldest.openTime <= query.startTime) {
+        break;
+      }
+
+      after = oldest.openTime;
+      useHistory = true;
+    }
+
+    return klines
+      .filter(
+        (kline) =>
+          query.startTime === undefined || kline.openTime >= query.startTime
+      )
+      .sort((a, b) => a.openTime - b.openTime)
+      .slice(-query.limit);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<number> {
+    const response = await axios.get(`${this.baseUrl}/market/ticker`, {
+      params: { instId: symbol },
+    });
+
+    const ticker = response.data.data?.[0];
+    if (!ticker) {
+      throw new Error(`No OKX ticker for ${symbol}`);
+    }
+
+    return parseFloat(ticker.last);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await axios.get(`${this.baseUrl}/public/time`);
+      return true;
+    } catch (error) {
+      console.error("okx health check failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Convert an OKX candle row into KlineData.
+   * Row: [ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]
+   */
+  private toKlineData(
+    symbol: string,
+    row: string[],
+    timeframeMs: number
+  ): KlineData {
+    const openTime = parseInt(row[0] || "0");
+    // Derivatives report `vol` in contracts, `volCcy` in base currency
+    const isDerivative = symbol.endsWith("-SWAP") || /-\d{6}$/.test(symbol);
+
+    return {
+      openTime,
+      open: row[1] || "0",
+      high: row[2] || "0",
+      low: row[3] || "0",
+      close: row[4] || "0",
+      volume: (isDerivative ? row[6] : row[5]) || "0",
+      closeTime: openTime + timeframeMs - 1,
+      quoteAssetVolume: row[7] || "0",
+      numberOfTrades: 0,
+      takerBuyBaseAssetVolume: "0",
+      takerBuyQuoteAssetVolume: "0",
+      ignore: "0",
+    };
+  }
+
+  /**
+   * Convert a Binance-style interval into an OKX bar (UTC-aligned)
+   */
+  private toOKXBar(interval: string): string {
+    const unit = interval.slice(-1);
+    const value = interval.slice(0, -1);
+
+    switch (unit) {
+      case "m":
+        return `${value}m`;
+      case "h":
+        return parseInt(value) >= 6 ? `${value}Hutc` : `${value}H`;
+      case "d":
+        return `${value}Dutc`;
+      case "w":
+        return `${value}Wutc`;
+      default:
+        throw new Error(`Unsupported timeframe: ${interval}`);
+    }
+  }
+}
+
+/**
+ * Create a market data provider by name
+ */
+export function createMarketDataProvider(
+  name: MarketDataProviderName
+): MarketDataProvider {
+  switch (name) {
+    case "binance_spot":
+      return new BinanceSpotProvider();
+    case "binance_futures":
+      return new BinanceFuturesProvider();
+    case "okx":
+      return new OKXMarketDataProvider();
+    default:
+      throw new Error(`Unsupported market data provider: ${name}`);
+  }
+}
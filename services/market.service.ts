@@ -1,14 +1,26 @@
-import axios from "axios";
 import { KlineData, MarketData } from "../types/market.model";
+import {
+  MarketDataProvider,
+  BinanceSpotProvider,
+} from "./market-data-provider.service";
+import { Clock, systemClock } from "../utils/clock.utils";
 
 export class MarketService {
-  private readonly baseUrl = "https://api.binance.com/api/v3";
+  private readonly provider: MarketDataProvider;
   private readonly symbol: string;
   private readonly interval: string;
+  private readonly clock: Clock;
 
-  constructor(symbol: string = "BTCUSDT", interval: string = "5m") {
+  constructor(
+    symbol: string = "BTCUSDT",
+    interval: string = "5m",
+    provider: MarketDataProvider = new BinanceSpotProvider(),
+    clock: Clock = systemClock
+  ) {
     this.symbol = symbol;
     this.interval = interval;
+    this.provider = provider;
+    this.clock = clock;
   }
 
   /**
@@ -16,11 +28,7 @@ export class MarketService {
    */
   async getCurrentPrice(): Promise<number> {
     try {
-      const response = await axios.get(`${this.baseUrl}/ticker/price`, {
-        params: { symbol: this.symbol },
-      });
-
-      return parseFloat(response.data.price);
+      return await this.provider.getCurrentPrice(this.symbol);
     } catch (error) {
       console.error("Error fetching current price:", error);
       throw new Error(`Failed to fetch current price for ${this.symbol}`);
@@ -30,31 +38,17 @@ export class MarketService {
   /**
    * Fetch kline data for RSI calculation
    * @param limit Number of klines to fetch (default: 100 to ensure we have enough data)
+   * @param startTime Only return klines opened at or after this time (used for gap backfill)
    */
-  async getKlineData(limit: number = 1500): Promise<KlineData[]> {
+  async getKlineData(
+    limit: number = 1500,
+    startTime?: number
+  ): Promise<KlineData[]> {
     try {
-      const response = await axios.get(`${this.baseUrl}/klines`, {
-        params: {
-          symbol: this.symbol,
-          interval: this.interval,
-          limit: limit,
-        },
+      return await this.provider.getKlines(this.symbol, this.interval, {
+        limit,
+        ...(startTime !== undefined ? { startTime } : {}),
       });
-
-      return response.data.map((kline: any[]) => ({
-        openTime: kline[0],
-        open: kline[1],
-        high: kline[2],
-        low: kline[3],
-        close: kline[4],
-        volume: kline[5],
-        closeTime: kline[6],
-        quoteAssetVolume: kline[7],
-        numberOfTrades: kline[8],
-        takerBuyBaseAssetVolume: kline[9],
-        takerBuyQuoteAssetVolume: kline[10],
-        ignore: kline[11],
-      }));
     } catch (error) {
       console.error("Error fetching kline data:", error);
       throw new Error(`Failed to fetch kline data for ${this.symbol}`);
@@ -74,7 +68,7 @@ export class MarketService {
       return {
         symbol: this.symbol,
         currentPrice,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         klineData,
       };
     } catch (error) {
@@ -83,16 +77,17 @@ export class MarketService {
     }
   }
 
+  /**
+   * Get the provider this service reads from
+   */
+  getProvider(): MarketDataProvider {
+    return this.provider;
+  }
+
   /**
    * Check if the service is healthy by making a simple API call
    */
   async healthCheck(): Promise<boolean> {
-    try {
-      await axios.get(`${this.baseUrl}/ping`);
-      return true;
-    } catch (error) {
-      console.error("Market service health check failed:", error);
-      return false;
-    }
+    return this.provider.healthCheck();
   }
 }
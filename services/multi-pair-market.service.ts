@@ -1,24 +1,166 @@
 import { MarketService } from "./market.service";
-import { MultiPairMarketData, AlertConfig } from "../types/market.model";
+import { KlineStreamService, KlineHistorySource } from "./kline-stream.service";
+import { InstrumentRegistry } from "./instrument-registry.service";
+import { CandleStore } from "./candle-store.service";
+import {
+  MarketDataProvider,
+  createMarketDataProvider,
+} from "./market-data-provider.service";
+import {
+  KlineData,
+  MarketData,
+  MultiPairMarketData,
+  AlertConfig,
+  MarketDataProviderName,
+} from "../types/market.model";
+import { getTimeframeInfo } from "../utils/candle-sync-scheduler.utils";
+import { Clock, systemClock } from "../utils/clock.utils";
+
+/**
+ * Identifies the stored candle series behind a `${symbol}-${timeframe}` key
+ */
+interface CandleSeries {
+  providerName: MarketDataProviderName;
+  venueSymbol: string;
+  timeframe: string;
+}
 
 export class MultiPairMarketService {
+  private readonly historyLimit = 1500;
   private marketServices: Map<string, MarketService> = new Map();
+  private candleSeries: Map<string, CandleSeries> = new Map();
+  private unrepairableGaps: Set<string> = new Set();
+  private providers: Map<MarketDataProviderName, MarketDataProvider> =
+    new Map();
+  private klineStreams: Map<string, KlineStreamService> = new Map();
+  private instrumentRegistry: InstrumentRegistry;
+  private candleStore: CandleStore | null;
   private config: AlertConfig;
+  private clock: Clock;
 
-  constructor(config: AlertConfig) {
+  constructor(
+    config: AlertConfig,
+    instrumentRegistry: InstrumentRegistry,
+    clock: Clock = systemClock
+  ) {
     this.config = config;
+    this.instrumentRegistry = instrumentRegistry;
+    this.clock = clock;
+    this.candleStore = config.useCandleStore
+      ? new CandleStore(5000, clock)
+      : null;
     this.initializeMarketServices();
   }
 
+  /**
+   * Start streaming klines for pairs whose provider has a kline stream
+   * (no-op when streams are disabled, other pairs keep using REST)
+   */
+  async start(): Promise<void> {
+    if (!this.config.useKlineStreams) {
+      console.log("📊 Kline streams disabled, using REST polling");
+      return;
+    }
+
+    const streamStarts: Promise<void>[] = [];
+    const historySource: KlineHistorySource | undefined = this.candleStore
+      ? {
+          loadHistory: (key) => this.syncKlines(key),
+          saveClosedKlines: (key, klineData) =>
+            this.storeKlines(key, klineData),
+        }
+      : undefined;
+
+    this.providers.forEach((provider, providerName) => {
+      if (!provider.streamUrl) return;
+
+      const pairs = this.config.pairs.filter(
+        (pair) => this.getProviderName(pair) === providerName
+      );
+      if (pairs.length === 0) return;
+
+      const venueSymbols: { [pair: string]: string } = {};
+      pairs.forEach((pair) => {
+        venueSymbols[pair] = this.instrumentRegistry.toVenueSymbol(
+          pair,
+          providerName
+        );
+      });
+
+      const klineStreamService = new KlineStreamService(
+        {
+          pairs,
+          venueSymbols,
+          timeframes: this.config.timeframes,
+          maxCandles: this.historyLimit,
+          reconnectBaseDelay: 1000,
+          reconnectMaxDelay: 60000,
+          staleTimeout: 60000,
+        },
+        this.marketServices,
+        provider.streamUrl,
+        historySource,
+        this.clock
+      );
+      pairs.forEach((pair) => this.klineStreams.set(pair, klineStreamService));
+      streamStarts.push(klineStreamService.start());
+    });
+
+    await Promise.all(streamStarts);
+  }
+
+  /**
+   * Stop streaming klines
+   */
+  stop(): void {
+    new Set(this.klineStreams.values()).forEach((klineStreamService) =>
+      klineStreamService.stop()
+    );
+    this.klineStreams.clear();
+  }
+
+  /**
+   * Get the market data provider configured for a pair
+   */
+  getProviderName(pair: string): MarketDataProviderName {
+    return this.config.pairProviders[pair] || this.config.marketDataProvider;
+  }
+
+  /**
+   * Get the distinct providers used by the configured pairs
+   */
+  getProviderNames(): MarketDataProviderName[] {
+    return Array.from(this.providers.keys());
+  }
+
   /**
    * Initialize market services for all pairs and timeframes
    */
   private initializeMarketServices(): void {
     for (const symbol of this.config.pairs) {
+      const providerName = this.getProviderName(symbol);
+      let provider = this.providers.get(providerName);
+      if (!provider) {
+        provider = createMarketDataProvider(providerName);
+        this.providers.set(providerName, provider);
+      }
+
+      // Pairs may be written in any format, each provider gets its own
+      const venueSymbol = this.instrumentRegistry.toVenueSymbol(
+        symbol,
+        providerName
+      );
+
       for (const timeframe of this.config.timeframes) {
         const key = `${symbol}-${timeframe}`;
-        const marketService = new MarketService(symbol, timeframe);
+        const marketService = new MarketService(
+          venueSymbol,
+          timeframe,
+          provider,
+          this.clock
+        );
         this.marketServices.set(key, marketService);
+        this.candleSeries.set(key, { providerName, venueSymbol, timeframe });
       }
     }
     console.log(`📊 Initialized ${this.marketServices.size} market services`);
@@ -35,12 +177,19 @@ export class MultiPairMarketService {
       marketData[symbol] = {};
 
       for (const timeframe of this.config.timeframes) {
+        const streamedData = this.klineStreams
+          .get(symbol)
+          ?.getMarketData(symbol, timeframe);
+        if (streamedData) {
+          marketData[symbol][timeframe] = streamedData;
+          continue;
+        }
+
+        // Fall back to REST when streams are disabled or not ready yet
         const key = `${symbol}-${timeframe}`;
-        const marketService = this.marketServices.get(key);
 
-        if (marketService) {
-          const promise = marketService
-            .getMarketData()
+        if (this.marketServices.has(key)) {
+          const promise = this.fetchMarketData(symbol, timeframe)
             .then((data) => {
               if (marketData[symbol]) {
                 marketData[symbol][timeframe] = data;
@@ -56,7 +205,7 @@ export class MultiPairMarketService {
                 marketData[symbol][timeframe] = {
                   symbol,
                   currentPrice: 0,
-                  timestamp: Date.now(),
+                  timestamp: this.clock.now(),
                   klineData: [],
                 };
               }
@@ -79,7 +228,46 @@ export class MultiPairMarketService {
   /**
    * Get market data for a specific symbol and timeframe
    */
-  async getMarketData(symbol: string, timeframe: string) {
+  async getMarketData(symbol: string, timeframe: string): Promise<MarketData> {
+    const streamedData = this.klineStreams
+      .get(symbol)
+      ?.getMarketData(symbol, timeframe);
+    if (streamedData) {
+      return streamedData;
+    }
+
+    return this.fetchMarketData(symbol, timeframe);
+  }
+
+  /**
+   * Get stored closed candles opened within [startTime, endTime], for
+   * indicators that need more history than the rolling buffer holds
+   */
+  getHistory(
+    symbol: string,
+    timeframe: string,
+    startTime: number,
+    endTime: number = this.clock.now()
+  ): KlineData[] {
+    const series = this.candleSeries.get(`${symbol}-${timeframe}`);
+    if (!this.candleStore || !series) return [];
+
+    return this.candleStore.getRange(
+      series.providerName,
+      series.venueSymbol,
+      series.timeframe,
+      startTime,
+      endTime
+    );
+  }
+
+  /**
+   * Fetch market data over REST, syncing through the candle store when enabled
+   */
+  private async fetchMarketData(
+    symbol: string,
+    timeframe: string
+  ): Promise<MarketData> {
     const key = `${symbol}-${timeframe}`;
     const marketService = this.marketServices.get(key);
 
@@ -87,15 +275,144 @@ export class MultiPairMarketService {
       throw new Error(`No market service found for ${symbol} ${timeframe}`);
     }
 
-    return await marketService.getMarketData();
+    if (!this.candleStore) {
+      return { ...(await marketService.getMarketData()), symbol };
+    }
+
+    const klineData = await this.syncKlines(key);
+    const latest = klineData[klineData.length - 1];
+    return {
+      symbol,
+      currentPrice: latest ? parseFloat(latest.close) : 0,
+      timestamp: this.clock.now(),
+      klineData,
+    };
+  }
+
+  /**
+   * Bring the stored series up to date and return the latest candles.
+   * Only candles after the last stored one are requested, so a warm restart
+   * costs one small request instead of a full history download.
+   */
+  private async syncKlines(key: string): Promise<KlineData[]> {
+    const marketService = this.marketServices.get(key);
+    const series = this.candleSeries.get(key);
+    if (!marketService || !series) {
+      throw new Error(`No market service found for ${key}`);
+    }
+    if (!this.candleStore) {
+      return marketService.getKlineData(this.historyLimit);
+    }
+
+    const { providerName, venueSymbol, timeframe } = series;
+    const timeframeMs = getTimeframeInfo(timeframe).milliseconds;
+    const lastOpenTime = this.candleStore.getLastOpenTime(
+      providerName,
+      venueSymbol,
+      timeframe
+    );
+    const windowStart = this.clock.now() - this.historyLimit * timeframeMs;
+
+    // Cold start, or too far behind for the missing range to matter
+    const fetched =
+      lastOpenTime === null || timeframeMs <= 0 || lastOpenTime < windowStart
+        ? await marketService.getKlineData(this.historyLimit)
+        : await marketService.getKlineData(
+            this.historyLimit,
+            lastOpenTime + timeframeMs
+          );
+
+    this.candleStore.append(providerName, venueSymbol, timeframe, fetched);
+    if (timeframeMs > 0) {
+      await this.repairGaps(
+        key,
+        marketService,
+        series,
+        timeframeMs,
+        windowStart
+      );
+    }
+
+    // Stored candles are closed only, the forming candle comes from REST
+    const stored = this.candleStore.getRecent(
+      providerName,
+      venueSymbol,
+      timeframe,
+      this.historyLimit
+    );
+    const lastStoredOpenTime = stored[stored.length - 1]?.openTime ?? -1;
+    const forming = fetched.filter(
+      (kline) => kline.openTime > lastStoredOpenTime
+    );
+
+    return [...stored, ...forming].slice(-this.historyLimit);
+  }
+
+  /**
+   * Fill holes in the recent part of a stored series from REST. Gaps the
+   * exchange has no candles for (e.g. maintenance) are remembered and skipped.
+   */
+  private async repairGaps(
+    key: string,
+    marketService: MarketService,
+    series: CandleSeries,
+    timeframeMs: number,
+    since: number
+  ): Promise<void> {
+    if (!this.candleStore) return;
+
+    const { providerName, venueSymbol, timeframe } = series;
+    const gaps = this.candleStore
+      .findGaps(providerName, venueSymbol, timeframe, timeframeMs, since)
+      .filter((gap) => !this.unrepairableGaps.has(`${key}:${gap.startTime}`));
+
+    for (const gap of gaps) {
+      try {
+        const candles = (
+          await marketService.getKlineData(gap.missingCount, gap.startTime)
+        ).filter(
+          (kline) =>
+            kline.openTime >= gap.startTime && kline.openTime <= gap.endTime
+        );
+        const inserted = this.candleStore.insert(
+          providerName,
+          venueSymbol,
+          timeframe,
+          candles
+        );
+
+        if (inserted === 0) {
+          this.unrepairableGaps.add(`${key}:${gap.startTime}`);
+        } else {
+          console.log(`🩹 Repaired ${inserted} stored candles for ${key}`);
+        }
+      } catch (error) {
+        console.error(`❌ Error repairing candle gap for ${key}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Persist closed candles received from a kline stream
+   */
+  private storeKlines(key: string, klineData: KlineData[]): void {
+    const series = this.candleSeries.get(key);
+    if (!this.candleStore || !series) return;
+
+    this.candleStore.append(
+      series.providerName,
+      series.venueSymbol,
+      series.timeframe,
+      klineData
+    );
   }
 
   /**
    * Health check for all market services
    */
   async healthCheck(): Promise<boolean> {
-    const promises = Array.from(this.marketServices.values()).map((service) =>
-      service.healthCheck()
+    const promises = Array.from(this.providers.values()).map((provider) =>
+      provider.healthCheck()
     );
 
     const results = await Promise.allSettled(promises);
@@ -121,9 +438,23 @@ export class MultiPairMarketService {
    * Update configuration and reinitialize services
    */
   updateConfig(newConfig: AlertConfig): void {
+    const wasStreaming = this.klineStreams.size > 0;
+    this.stop();
+
     this.config = newConfig;
+    this.candleStore = newConfig.useCandleStore
+      ? this.candleStore || new CandleStore(5000, this.clock)
+      : null;
     this.marketServices.clear();
+    this.candleSeries.clear();
+    this.providers.clear();
     this.initializeMarketServices();
+
+    if (wasStreaming) {
+      this.start().catch((error) =>
+        console.error("❌ Error restarting kline stream:", error)
+      );
+    }
     console.log("📝 Multi-pair market service config updated");
   }
 
@@ -142,12 +473,25 @@ export class MultiPairMarketService {
     pairs: string[];
     timeframes: string[];
     serviceKeys: string[];
+    providers: { [pair: string]: MarketDataProviderName };
+    streams: ReturnType<KlineStreamService["getStatus"]>[];
+    candleStore: ReturnType<CandleStore["getStatus"]> | null;
   } {
+    const providers: { [pair: string]: MarketDataProviderName } = {};
+    this.config.pairs.forEach((pair) => {
+      providers[pair] = this.getProviderName(pair);
+    });
+
     return {
       totalServices: this.marketServices.size,
       pairs: [...this.config.pairs],
       timeframes: [...this.config.timeframes],
       serviceKeys: Array.from(this.marketServices.keys()),
+      providers,
+      streams: Array.from(new Set(this.klineStreams.values())).map(
+        (klineStreamService) => klineStreamService.getStatus()
+      ),
+      candleStore: this.candleStore?.getStatus() || null,
     };
   }
 }
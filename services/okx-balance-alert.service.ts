@@ -1,15 +1,21 @@
-import { OKXService } from "./okx.service";
+import { AccountBalance, OKXService } from "./okx.service";
+import { OKXPrivateStreamService } from "./okx-private-stream.service";
 import { OKXConfig, OKXBalanceAlert } from "../types/market.model";
+import { Clock, ClockTimer, systemClock } from "../utils/clock.utils";
 
 export class OKXBalanceAlertService {
   private okxService: OKXService;
+  private privateStream: OKXPrivateStreamService | null = null;
   private config: OKXConfig;
-  private balanceAlertInterval: NodeJS.Timeout | null = null;
-  private lastBalanceData: Map<string, number> = new Map();
+  private clock: Clock;
+  private balanceAlertInterval: ClockTimer | null = null;
+  private lastBalanceData: Map<string, number> = new Map(); // USD per asset
+  private lastTotalValue: number | null = null; // USD
   private isRunning: boolean = false;
 
-  constructor(config: OKXConfig) {
+  constructor(config: OKXConfig, clock: Clock = systemClock) {
     this.config = config;
+    this.clock = clock;
     this.okxService = new OKXService(
       config.apiKey,
       config.apiSecret,
@@ -17,6 +23,14 @@ export class OKXBalanceAlertService {
     );
   }
 
+  /**
+   * Read balances pushed over the private stream instead of polling REST.
+   * REST is still used while the stream is disconnected.
+   */
+  setPrivateStream(privateStream: OKXPrivateStreamService): void {
+    this.privateStream = privateStream;
+  }
+
   /**
    * Start the balance alert service
    */
@@ -38,6 +52,14 @@ export class OKXBalanceAlertService {
       return;
     }
 
+    this.isRunning = true;
+
+    // Pushed balances are always current, no polling needed
+    if (this.privateStream) {
+      console.log("📊 Starting OKX balance alerts from the private stream");
+      return;
+    }
+
     console.log(
       `📊 Starting OKX balance alerts every ${this.config.balanceAlertInterval} minutes`
     );
@@ -46,12 +68,10 @@ export class OKXBalanceAlertService {
     this.checkAndAlertBalance();
 
     // Set up interval
-    this.balanceAlertInterval = setInterval(
+    this.balanceAlertInterval = this.clock.setInterval(
       () => this.checkAndAlertBalance(),
       this.config.balanceAlertInterval * 60 * 1000 // Convert minutes to milliseconds
     );
-
-    this.isRunning = true;
   }
 
   /**
@@ -59,7 +79,7 @@ export class OKXBalanceAlertService {
    */
   stop(): void {
     if (this.balanceAlertInterval) {
-      clearInterval(this.balanceAlertInterval);
+      this.clock.clearInterval(this.balanceAlertInterval);
       this.balanceAlertInterval = null;
     }
     this.isRunning = false;
@@ -71,52 +91,78 @@ export class OKXBalanceAlertService {
    */
   private async checkAndAlertBalance(): Promise<OKXBalanceAlert | null> {
     try {
-      console.log("📊 Checking OKX futures balance...");
+      const streamedAccount = this.privateStream?.getAccountBalance() ?? null;
+      if (!streamedAccount) {
+        console.log("📊 Checking OKX futures balance...");
+      }
 
-      const balances = await this.okxService.getFuturesBalance();
+      const account =
+        streamedAccount ?? (await this.okxService.getAccountBalance());
 
-      if (!balances || balances.length === 0) {
+      if (account.balances.length === 0) {
         console.log("📊 No futures balance data available");
         return null;
       }
 
-      // Filter balances above threshold
-      const significantBalances = balances.filter(
-        (balance) => balance.available >= this.config.minBalanceThreshold
-      );
+      const usdValues = await this.okxService.getUsdValues(account.balances);
+
+      // Leave out dust, keep assets without a price so they are still shown
+      const significantBalances = account.balances.filter((balance) => {
+        const usdValue = usdValues.get(balance.asset);
+        return usdValue !== undefined
+          ? usdValue >= this.config.minBalanceThreshold
+          : balance.available + balance.locked > 0;
+      });
 
       if (significantBalances.length === 0) {
         console.log("📊 No significant balances found");
         return null;
       }
 
-      // Calculate total portfolio value (simplified - would need price data for accurate calculation)
-      const totalPortfolioValue = significantBalances.reduce(
-        (total, balance) => total + balance.available + balance.locked,
-        0
+      const totalPortfolioValue =
+        account.totalEquityUsd ??
+        Array.from(usdValues.values()).reduce(
+          (total, value) => total + value,
+          0
+        );
+      const marginRatio = await this.getLowestMarginRatio(account);
+
+      // Determine alert type based on USD values and margin
+      const alertType = this.determineAlertType(
+        usdValues,
+        totalPortfolioValue,
+        marginRatio
       );
 
-      // Determine alert type based on balance changes
-      const alertType = this.determineAlertType(significantBalances);
-
       const balanceAlert: OKXBalanceAlert = {
         type: "okx_balance",
-        timestamp: Date.now(),
-        balances: significantBalances.map((balance) => ({
-          asset: balance.asset,
-          available: balance.available,
-          locked: balance.locked,
-          ...(balance.marginBalance !== undefined && {
-            marginBalance: balance.marginBalance,
-          }),
-          totalValue: balance.available + balance.locked,
-        })),
+        timestamp: this.clock.now(),
+        balances: significantBalances.map((balance) => {
+          const usdValue = usdValues.get(balance.asset);
+          return {
+            asset: balance.asset,
+            available: balance.available,
+            locked: balance.locked,
+            ...(balance.marginBalance !== undefined && {
+              marginBalance: balance.marginBalance,
+            }),
+            totalValue: balance.available + balance.locked,
+            ...(usdValue !== undefined && {
+              usdValue,
+              portfolioShare:
+                totalPortfolioValue > 0
+                  ? (usdValue / totalPortfolioValue) * 100
+                  : 0,
+            }),
+          };
+        }),
         totalPortfolioValue,
+        ...(marginRatio !== undefined && { marginRatio }),
         alertType,
       };
 
       // Update last balance data for comparison
-      this.updateLastBalanceData(significantBalances);
+      this.updateLastBalanceData(usdValues, totalPortfolioValue);
 
       console.log(`📊 OKX balance alert generated: ${alertType}`);
       return balanceAlert;
@@ -127,53 +173,80 @@ export class OKXBalanceAlertService {
   }
 
   /**
-   * Determine the type of alert based on balance changes
+   * Lowest margin ratio of the account, its currencies and isolated
+   * positions
    */
-  private determineAlertType(
-    balances: any[]
-  ): "balance_update" | "low_balance_warning" | "balance_threshold_breach" {
-    // Check for significant changes in balances
-    let hasSignificantChange = false;
-    let hasLowBalance = false;
-
-    for (const balance of balances) {
-      const lastBalance = this.lastBalanceData.get(balance.asset) || 0;
-      const currentBalance = balance.available + balance.locked;
-
-      // Check for significant change (more than 10%)
-      if (lastBalance > 0) {
-        const changePercent =
-          Math.abs(currentBalance - lastBalance) / lastBalance;
-        if (changePercent > 0.1) {
-          hasSignificantChange = true;
-        }
+  private async getLowestMarginRatio(
+    account: AccountBalance
+  ): Promise<number | undefined> {
+    let positions = this.privateStream?.getPositions() ?? null;
+    if (!positions) {
+      try {
+        positions = await this.okxService.getPositions();
+      } catch (error) {
+        console.warn("⚠️ Could not fetch positions for margin ratio:", error);
+        positions = [];
       }
+    }
 
-      // Check for low balance warning
-      if (currentBalance < this.config.minBalanceThreshold * 10) {
-        hasLowBalance = true;
-      }
+    const ratios = [
+      account.marginRatio,
+      ...account.balances.map((balance) => balance.marginRatio),
+      ...positions.map((position) => position.marginRatio),
+    ].filter((ratio): ratio is number => ratio !== undefined && ratio > 0);
+
+    return ratios.length > 0 ? Math.min(...ratios) : undefined;
+  }
+
+  /**
+   * Determine the type of alert from USD values and the margin ratio
+   */
+  private determineAlertType(
+    usdValues: Map<string, number>,
+    totalValue: number,
+    marginRatio: number | undefined
+  ): OKXBalanceAlert["alertType"] {
+    // Check for a margin ratio approaching liquidation
+    if (
+      this.config.marginRatioAlert > 0 &&
+      marginRatio !== undefined &&
+      marginRatio < this.config.marginRatioAlert
+    ) {
+      return "margin_ratio_warning";
     }
 
-    if (hasLowBalance) {
+    // Check for low balance warning, per asset and for total equity
+    const hasLowAsset = Object.entries(this.config.lowBalanceThresholds).some(
+      ([asset, threshold]) => (usdValues.get(asset) ?? 0) < threshold
+    );
+    const hasLowEquity =
+      this.config.minTotalEquity > 0 && totalValue < this.config.minTotalEquity;
+    if (hasLowAsset || hasLowEquity) {
       return "low_balance_warning";
-    } else if (hasSignificantChange) {
-      return "balance_threshold_breach";
-    } else {
-      return "balance_update";
     }
+
+    // Check for a significant change in total equity
+    if (this.lastTotalValue !== null && this.lastTotalValue > 0) {
+      const changePercent =
+        (Math.abs(totalValue - this.lastTotalValue) / this.lastTotalValue) *
+        100;
+      if (changePercent > this.config.balanceChangePercent) {
+        return "balance_threshold_breach";
+      }
+    }
+
+    return "balance_update";
   }
 
   /**
    * Update the last balance data for comparison
    */
-  private updateLastBalanceData(balances: any[]): void {
-    for (const balance of balances) {
-      this.lastBalanceData.set(
-        balance.asset,
-        balance.available + balance.locked
-      );
-    }
+  private updateLastBalanceData(
+    usdValues: Map<string, number>,
+    totalValue: number
+  ): void {
+    this.lastBalanceData = new Map(usdValues);
+    this.lastTotalValue = totalValue;
   }
 
   /**
@@ -0,0 +1,447 @@
+import WebSocket from "ws";
+import {
+  AccountBalance,
+  Balance,
+  Fill,
+  FuturesOrder,
+  FuturesPosition,
+  OKXService,
+  PositionType,
+} from "./okx.service";
+import { Clock, ClockTimer, systemClock } from "../utils/clock.utils";
+
+/**
+ * Account event from the balance_and_position channel, e.g. a fill,
+ * liquidation, ADL or funding fee
+ */
+export interface BalanceAndPositionEvent {
+  eventType: string; // snapshot, filled, liquidation, adl, funding_fee, ...
+  balances: { asset: string; cashBalance: number }[];
+  positions: {
+    symbol: string;
+    position: PositionType;
+    quantity: number; // Contracts, 0 once closed
+    averagePrice: number;
+  }[];
+  timestamp: number;
+}
+
+/**
+ * Push handlers, every one is optional
+ */
+export interface OKXPrivateStreamListener {
+  onOrder?(order: FuturesOrder, fill: Fill | null): void | Promise<void>;
+  onPositions?(positions: FuturesPosition[]): void | Promise<void>;
+  onBalances?(balances: Balance[]): void | Promise<void>;
+  onBalanceAndPosition?(event: BalanceAndPositionEvent): void | Promise<void>;
+}
+
+const PRIVATE_STREAM_URL = "wss://ws.okx.com:8443/ws/v5/private";
+const PING_AFTER = 20 * 1000; // OKX drops connections silent for 30s
+const PONG_TIMEOUT = 10 * 1000;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 60 * 1000;
+const SUBSCRIPTIONS = [
+  { channel: "orders", instType: "SWAP" },
+  { channel: "positions", instType: "SWAP" },
+  { channel: "account" },
+  { channel: "balance_and_position" },
+];
+
+/**
+ * OKX private WebSocket for the trading account. Logs in with the API key
+ * signature, subscribes to orders, positions, account and
+ * balance_and_position, and hands every push to the registered listeners.
+ * The latest balances and positions are cached so readers can skip REST
+ * while the stream is up. A "ping" is sent after 20s of silence and the
+ * connection is dropped when no "pong" follows; reconnects log in and
+ * subscribe again.
+ */
+export class OKXPrivateStreamService {
+  private okxService: OKXService;
+  private clock: Clock;
+  private listeners: OKXPrivateStreamListener[] = [];
+  private ws: WebSocket | null = null;
+  private keepaliveInterval: ClockTimer | null = null;
+  private reconnectTimeout: ClockTimer | null = null;
+  private reconnectAttempts: number = 0;
+  private lastMessageTime: number = 0;
+  private pingSentAt: number | null = null;
+  private isLoggedIn: boolean = false;
+  private isRunning: boolean = false;
+  private balances: Map<string, Balance> | null = null; // null until the first push
+  private accountTotals: Omit<AccountBalance, "balances"> = {};
+  private positions: Map<string, FuturesPosition> | null = null;
+
+  constructor(okxService: OKXService, clock: Clock = systemClock) {
+    this.okxService = okxService;
+    this.clock = clock;
+  }
+
+  /**
+   * Register push handlers
+   */
+  addListener(listener: OKXPrivateStreamListener): void {
+    this.listeners.push(listener);
+  }
+
+  start(): void {
+    if (this.isRunning) {
+      console.log("⚠️ OKX private stream is already running");
+      return;
+    }
+
+    this.isRunning = true;
+    console.log("🔐 Starting OKX private stream");
+    this.connect();
+
+    this.keepaliveInterval = this.clock.setInterval(
+      () => this.keepalive(),
+      PONG_TIMEOUT / 2
+    );
+  }
+
+  stop(): void {
+    this.isRunning = false;
+
+    if (this.reconnectTimeout) {
+      this.clock.clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.keepaliveInterval) {
+      this.clock.clearInterval(this.keepaliveInterval);
+      this.keepaliveInterval = null;
+    }
+    if (this.ws) {
+      this.ws.removeAllListeners();
+      this.ws.terminate();
+      this.ws = null;
+    }
+
+    this.resetSession();
+    console.log("🛑 OKX private stream stopped");
+  }
+
+  /**
+   * Check if the stream is logged in and receiving account pushes
+   */
+  isConnected(): boolean {
+    return this.isLoggedIn && this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Latest pushed balances, null while disconnected or before the first push
+   */
+  getBalances(): Balance[] | null {
+    if (!this.isConnected() || !this.balances) return null;
+    return Array.from(this.balances.values());
+  }
+
+  /**
+   * Latest pushed account totals and balances, null while disconnected or
+   * before the first push
+   */
+  getAccountBalance(): AccountBalance | null {
+    const balances = this.getBalances();
+    if (!balances) return null;
+    return { ...this.accountTotals, balances };
+  }
+
+  /**
+   * Latest pushed open positions, null while disconnected or before the
+   * first push
+   */
+  getPositions(): FuturesPosition[] | null {
+    if (!this.isConnected() || !this.positions) return null;
+    return Array.from(this.positions.values());
+  }
+
+  /**
+   * Get stream status
+   */
+  getStatus(): {
+    isRunning: boolean;
+    isConnected: boolean;
+    reconnectAttempts: number;
+    lastMessageTime: number;
+  } {
+    return {
+      isRunning: this.isRunning,
+      isConnected: this.isConnected(),
+      reconnectAttempts: this.reconnectAttempts,
+      lastMessageTime: this.lastMessageTime,
+    };
+  }
+
+  private connect(): void {
+    if (!this.isRunning) return;
+
+    const ws = new WebSocket(PRIVATE_STREAM_URL);
+    this.ws = ws;
+
+    ws.on("open", () => {
+      this.lastMessageTime = this.clock.now();
+      this.send({
+        op: "login",
+        args: [this.okxService.getWebSocketLoginArgs()],
+      });
+    });
+
+    ws.on("message", (raw) => {
+      this.lastMessageTime = this.clock.now();
+      this.pingSentAt = null;
+      this.handleMessage(raw.toString());
+    });
+
+    ws.on("error", (error) => {
+      console.error("❌ OKX private stream error:", error.message);
+    });
+
+    ws.on("close", (code) => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.resetSession();
+      console.warn(`⚠️ OKX private stream closed (code: ${code})`);
+      this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * Reconnect with exponential backoff and jitter
+   */
+  private scheduleReconnect(): void {
+    if (!this.isRunning || this.reconnectTimeout) return;
+
+    const delay =
+      Math.min(
+        RECONNECT_MAX_DELAY,
+        RECONNECT_BASE_DELAY * Math.pow(2, this.reconnectAttempts)
+      ) +
+      Math.random() * 1000;
+    this.reconnectAttempts++;
+
+    console.log(
+      `🔄 Reconnecting OKX private stream in ${Math.round(
+        delay / 1000
+      )} seconds (attempt ${this.reconnectAttempts})...`
+    );
+
+    this.reconnectTimeout = this.clock.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * Ping a quiet connection, drop it when the pong does not arrive
+   */
+  private keepalive(): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    const now = this.clock.now();
+    if (this.pingSentAt !== null) {
+      if (now - this.pingSentAt > PONG_TIMEOUT) {
+        console.warn("⚠️ OKX private stream missed pong, reconnecting...");
+        this.ws.terminate();
+      }
+      return;
+    }
+
+    if (now - this.lastMessageTime >= PING_AFTER) {
+      this.pingSentAt = now;
+      this.ws.send("ping");
+    }
+  }
+
+  /**
+   * Forget session state, the next login starts from fresh snapshots
+   */
+  private resetSession(): void {
+    this.isLoggedIn = false;
+    this.pingSentAt = null;
+    this.balances = null;
+    this.accountTotals = {};
+    this.positions = null;
+  }
+
+  private send(message: object): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  private handleMessage(raw: string): void {
+    if (raw === "pong") return;
+
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      console.error("❌ Invalid OKX private stream message:", error);
+      return;
+    }
+
+    if (message.event) {
+      this.handleEvent(message);
+      return;
+    }
+
+    const channel: string | undefined = message.arg?.channel;
+    if (!channel || !Array.isArray(message.data)) return;
+
+    switch (channel) {
+      case "orders":
+        message.data.forEach((order: any) => this.handleOrder(order));
+        break;
+      case "positions":
+        this.handlePositions(message.data);
+        break;
+      case "account":
+        this.handleAccount(message.data);
+        break;
+      case "balance_and_position":
+        message.data.forEach((event: any) =>
+          this.handleBalanceAndPosition(event)
+        );
+        break;
+    }
+  }
+
+  /**
+   * Login, subscribe and error acknowledgements
+   */
+  private handleEvent(message: any): void {
+    switch (message.event) {
+      case "login":
+        if (message.code !== "0") {
+          console.error(`❌ OKX private stream login failed: ${message.msg}`);
+          return;
+        }
+        this.isLoggedIn = true;
+        this.reconnectAttempts = 0;
+        console.log("✅ OKX private stream logged in");
+        this.send({ op: "subscribe", args: SUBSCRIPTIONS });
+        break;
+      case "subscribe":
+        console.log(
+          `📡 OKX private stream subscribed: ${message.arg?.channel}`
+        );
+        break;
+      case "error":
+        console.error(
+          `❌ OKX private stream error ${message.code}: ${message.msg}`
+        );
+        // Login errors leave the connection useless, start over
+        if (!this.isLoggedIn) {
+          this.ws?.terminate();
+        }
+        break;
+    }
+  }
+
+  private handleOrder(raw: any): void {
+    const order = this.okxService.parseOrder(raw);
+    const fill: Fill | null =
+      raw.tradeId && parseFloat(raw.fillSz || "0") > 0
+        ? {
+            tradeId: raw.tradeId,
+            orderId: order.orderId,
+            symbol: order.symbol,
+            side: raw.side,
+            position: order.position,
+            quantity: parseFloat(raw.fillSz),
+            price: parseFloat(raw.fillPx),
+            fee: parseFloat(raw.fillFee || "0"),
+            realizedPnl: parseFloat(raw.fillPnl || "0"),
+            timestamp: parseInt(raw.fillTime || raw.uTime),
+          }
+        : null;
+
+    this.notify((listener) => listener.onOrder?.(order, fill));
+  }
+
+  /**
+   * Merge position pushes, a size of 0 means the position closed
+   */
+  private handlePositions(data: any[]): void {
+    const positions = this.positions ?? new Map<string, FuturesPosition>();
+
+    for (const raw of data) {
+      if (parseFloat(raw.pos || "0") === 0) {
+        // A closed net position no longer tells its side
+        const sides =
+          raw.posSide === "net"
+            ? [PositionType.Long, PositionType.Short]
+            : [raw.posSide];
+        sides.forEach((side) => positions.delete(`${raw.instId}:${side}`));
+        continue;
+      }
+
+      const position = this.okxService.parsePosition(raw);
+      positions.set(`${position.symbol}:${position.position}`, position);
+    }
+
+    this.positions = positions;
+    const open = Array.from(positions.values());
+    this.notify((listener) => listener.onPositions?.(open));
+  }
+
+  /**
+   * Merge account pushes, which may only carry the currencies that changed
+   */
+  private handleAccount(data: any[]): void {
+    const balances = this.balances ?? new Map<string, Balance>();
+
+    for (const raw of data) {
+      const { balances: changed, ...totals } =
+        this.okxService.parseAccountBalance(raw);
+      changed.forEach((balance) => balances.set(balance.asset, balance));
+      this.accountTotals = totals;
+    }
+
+    this.balances = balances;
+    const current = Array.from(balances.values());
+    this.notify((listener) => listener.onBalances?.(current));
+  }
+
+  private handleBalanceAndPosition(raw: any): void {
+    const event: BalanceAndPositionEvent = {
+      eventType: raw.eventType,
+      balances: (raw.balData || []).map((balance: any) => ({
+        asset: balance.ccy,
+        cashBalance: parseFloat(balance.cashBal),
+      })),
+      positions: (raw.posData || []).map((position: any) => ({
+        symbol: position.instId,
+        position:
+          position.posSide === "net"
+            ? parseFloat(position.pos) >= 0
+              ? PositionType.Long
+              : PositionType.Short
+            : position.posSide,
+        quantity: Math.abs(parseFloat(position.pos || "0")),
+        averagePrice: parseFloat(position.avgPx || "0"),
+      })),
+      timestamp: parseInt(raw.pTime),
+    };
+
+    this.notify((listener) => listener.onBalanceAndPosition?.(event));
+  }
+
+  /**
+   * Call every listener, a failing handler does not stop the others
+   */
+  private notify(
+    call: (listener: OKXPrivateStreamListener) => void | Promise<void>
+  ): void {
+    for (const listener of this.listeners) {
+      try {
+        Promise.resolve(call(listener)).catch((error) =>
+          console.error("❌ Error handling OKX private stream push:", error)
+        );
+      } catch (error) {
+        console.error("❌ Error handling OKX private stream push:", error);
+      }
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { MarginMode } from "../types/market.model";
+
 enum OrderAction {
   Open = "open",
   Close = "close",
@@ -8,25 +10,112 @@ enum PositionType {
   Short = "short",
 }
 
-interface FuturesOrder {
+export interface FuturesOrder {
   orderId: string;
   symbol: string;
   action: OrderAction;
   position: PositionType;
   quantity: number;
   price?: number;
-  status: "open" | "filled" | "canceled";
+  status: "open" | "live" | "partially_filled" | "filled" | "canceled";
+  leverage: number;
+  timestamp: number;
+  takeProfitPrice?: number; // Attached TP trigger price
+  stopLossPrice?: number; // Attached SL trigger price
+  clientOrderId?: string;
+  filledQuantity?: number; // Contracts filled so far
+  averagePrice?: number; // Average fill price
+  fee?: number; // Negative when charged
+  realizedPnl?: number; // Accumulated PnL of a closing order
+  algoId?: string; // TP/SL algo order that placed this order
+}
+
+export interface FuturesPosition {
+  symbol: string;
+  position: PositionType;
+  quantity: number; // Contracts
+  averagePrice: number;
+  markPrice: number;
+  unrealizedPnl: number;
+  unrealizedPnlRatio: number;
+  liquidationPrice?: number;
   leverage: number;
+  margin: number;
+  marginMode: MarginMode;
+  marginRatio?: number; // OKX mgnRatio of isolated positions, liquidation at 1
+  openedAt: number;
   timestamp: number;
 }
 
-interface Balance {
+export interface AlgoOrder {
+  algoId: string;
+  symbol: string;
+  ordType: "conditional" | "oco";
+  position: PositionType;
+  quantity: number;
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+  state: string; // live, effective (triggered), canceled, order_failed
+  timestamp: number;
+  triggeredSide?: "tp" | "sl"; // Leg that triggered
+  triggeredOrderId?: string; // Market order placed on trigger
+}
+
+export interface Fill {
+  tradeId: string;
+  orderId: string;
+  symbol: string;
+  side: "buy" | "sell";
+  position: PositionType;
+  quantity: number;
+  price: number;
+  fee: number; // Negative when charged
+  realizedPnl: number;
+  timestamp: number;
+}
+
+/**
+ * Take profit / stop loss trigger prices, executed at market when triggered
+ */
+export interface OrderProtection {
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+}
+
+export interface Balance {
   asset: string;
   available: number;
   locked: number;
   marginBalance?: number;
+  equity?: number; // Balance plus unrealized PnL
+  equityUsd?: number; // Equity valued in USD by OKX
+  marginRatio?: number; // OKX mgnRatio in single-currency margin, liquidation at 1
+}
+
+/**
+ * Trading account totals with the per-currency balances
+ */
+export interface AccountBalance {
+  totalEquityUsd?: number;
+  marginRatio?: number; // Account mgnRatio in multi-currency margin, liquidation at 1
+  balances: Balance[];
+}
+
+const USD_STABLECOINS = ["USDT", "USDC", "USD"];
+
+interface LeverageInfo {
+  symbol: string;
+  marginMode: MarginMode;
+  posSide: "long" | "short" | "net";
+  leverage: number;
 }
 
+/**
+ * long_short: separate long and short positions per instrument (posSide required)
+ * net: one signed position per instrument (posSide must be omitted)
+ */
+export type PositionMode = "long_short" | "net";
+
 interface OrderResponse {
   success: boolean;
   orderId?: string;
@@ -38,11 +127,192 @@ export class OKXService {
   private apiSecret: string;
   private passphrase: string;
   private baseUrl: string = "https://www.okx.com/api/v5";
+  private defaultMarginMode: MarginMode;
+  private marginModes: Map<string, MarginMode>;
+  private positionMode: PositionMode | null = null;
+  private leverageCache: Map<string, number> = new Map(); // instId:mgnMode:posSide
 
-  constructor(apiKey: string, apiSecret: string, passphrase: string) {
+  constructor(
+    apiKey: string,
+    apiSecret: string,
+    passphrase: string,
+    defaultMarginMode: MarginMode = "cross",
+    marginModeOverrides: { [instId: string]: MarginMode } = {}
+  ) {
     this.apiKey = apiKey;
     this.apiSecret = apiSecret;
     this.passphrase = passphrase;
+    this.defaultMarginMode = defaultMarginMode;
+    this.marginModes = new Map(Object.entries(marginModeOverrides));
+  }
+
+  /**
+   * Margin mode used as tdMode for the instrument's orders
+   */
+  getMarginMode(symbol: string): MarginMode {
+    return this.marginModes.get(symbol) || this.defaultMarginMode;
+  }
+
+  /**
+   * Switch the instrument between cross and isolated margin for new orders.
+   * OKX keeps separate leverage per margin mode, so this does not change
+   * existing positions.
+   */
+  setMarginMode(symbol: string, marginMode: MarginMode): void {
+    this.marginModes.set(symbol, marginMode);
+  }
+
+  /**
+   * Detect the account position mode (cached after the first request)
+   */
+  async getPositionMode(forceRefresh: boolean = false): Promise<PositionMode> {
+    if (this.positionMode && !forceRefresh) {
+      return this.positionMode;
+    }
+
+    const response = await this.makeRequest("GET", "/account/config");
+    this.positionMode =
+      response.data[0]?.posMode === "net_mode" ? "net" : "long_short";
+    return this.positionMode;
+  }
+
+  /**
+   * Reject orders that would send posSide to a net mode account before they
+   * reach OKX
+   */
+  private async assertLongShortMode(): Promise<void> {
+    if ((await this.getPositionMode()) === "net") {
+      throw new Error(
+        "OKX account is in net position mode but orders use long/short posSide. Switch the account to long/short mode in OKX settings."
+      );
+    }
+  }
+
+  /**
+   * Get the leverage configured for an instrument and margin mode
+   */
+  async getLeverageInfo(
+    symbol: string,
+    marginMode: MarginMode = this.getMarginMode(symbol)
+  ): Promise<LeverageInfo[]> {
+    try {
+      const response = await this.makeRequest("GET", "/account/leverage-info", {
+        instId: symbol,
+        mgnMode: marginMode,
+      });
+
+      return response.data.map((info: any) => {
+        const leverageInfo: LeverageInfo = {
+          symbol: info.instId,
+          marginMode: info.mgnMode,
+          posSide: info.posSide || "net",
+          leverage: parseFloat(info.lever),
+        };
+        this.leverageCache.set(
+          this.getLeverageKey(symbol, info.mgnMode, leverageInfo.posSide),
+          leverageInfo.leverage
+        );
+        return leverageInfo;
+      });
+    } catch (error: any) {
+      throw new Error(`Failed to fetch leverage info: ${error.message}`);
+    }
+  }
+
+  /**
+   * Set leverage for an instrument and margin mode. Isolated margin in
+   * long/short mode has separate leverage per side, so both sides are set
+   * unless posSide is given.
+   */
+  async setLeverage(
+    symbol: string,
+    leverage: number,
+    marginMode: MarginMode = this.getMarginMode(symbol),
+    posSide?: PositionType
+  ): Promise<LeverageInfo[]> {
+    try {
+      if (leverage < 1) {
+        throw new Error("Leverage must be at least 1");
+      }
+
+      const perSide =
+        marginMode === "isolated" &&
+        (await this.getPositionMode()) === "long_short";
+      const sides: (PositionType | undefined)[] = perSide
+        ? posSide
+          ? [posSide]
+          : [PositionType.Long, PositionType.Short]
+        : [undefined];
+
+      const results: LeverageInfo[] = [];
+      for (const side of sides) {
+        const payload = {
+          instId: symbol,
+          lever: leverage.toString(),
+          mgnMode: marginMode,
+          ...(side ? { posSide: side } : {}),
+        };
+
+        console.log("📤 OKX Set Leverage Payload:", payload);
+
+        const response = await this.makeRequest(
+          "POST",
+          "/account/set-leverage",
+          payload
+        );
+
+        for (const info of response.data) {
+          const leverageInfo: LeverageInfo = {
+            symbol: info.instId,
+            marginMode: info.mgnMode,
+            posSide: info.posSide || "net",
+            leverage: parseFloat(info.lever),
+          };
+          this.leverageCache.set(
+            this.getLeverageKey(symbol, marginMode, leverageInfo.posSide),
+            leverageInfo.leverage
+          );
+          results.push(leverageInfo);
+        }
+      }
+
+      return results;
+    } catch (error: any) {
+      console.error("❌ OKX Set Leverage Error:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set leverage before an order when it differs from the instrument's
+   * current setting, since OKX ignores leverage in the order payload
+   */
+  private async ensureLeverage(
+    symbol: string,
+    leverage: number,
+    marginMode: MarginMode,
+    posSide: PositionType
+  ): Promise<void> {
+    const sideKey = marginMode === "isolated" ? posSide : "net";
+    const key = this.getLeverageKey(symbol, marginMode, sideKey);
+
+    if (!this.leverageCache.has(key)) {
+      await this.getLeverageInfo(symbol, marginMode);
+    }
+    if (this.leverageCache.get(key) !== leverage) {
+      await this.setLeverage(symbol, leverage, marginMode, posSide);
+    }
+  }
+
+  private getLeverageKey(
+    symbol: string,
+    marginMode: MarginMode,
+    posSide: string
+  ): string {
+    // Cross margin leverage is shared by both sides
+    return `${symbol}:${marginMode}:${
+      marginMode === "cross" ? "net" : posSide
+    }`;
   }
 
   private mapActionToSide(
@@ -64,28 +334,14 @@ export class OKXService {
 
   async getActiveFuturesOrders(symbol?: string): Promise<FuturesOrder[]> {
     try {
-      const queryParams = symbol ? `?instId=${symbol}` : "";
-      const response = await this.makeRequest(
-        "GET",
-        `/trade/orders-pending${queryParams}`,
-        { instType: "FUTURES" }
-      );
+      const response = await this.makeRequest("GET", "/trade/orders-pending", {
+        instType: "SWAP",
+        ...(symbol ? { instId: symbol } : {}),
+      });
 
       return response.data.map((order: any) => ({
-        orderId: order.ordId,
-        symbol: order.instId,
-        action:
-          order.side === "buy" && order.posSide === "long"
-            ? OrderAction.Open
-            : order.side === "sell" && order.posSide === "short"
-            ? OrderAction.Open
-            : OrderAction.Close,
-        position: order.posSide,
-        quantity: parseFloat(order.sz),
-        price: order.px ? parseFloat(order.px) : undefined,
-        status: order.state,
-        leverage: parseFloat(order.lever),
-        timestamp: parseInt(order.cTime),
+        ...this.parseOrder(order),
+        ...this.parseProtection(order.attachAlgoOrds?.[0]),
       }));
     } catch (error: any) {
       throw new Error(
@@ -94,6 +350,32 @@ export class OKXService {
     }
   }
 
+  /**
+   * Get completed swap orders of the last 7 days, newest first
+   */
+  async getOrderHistory(
+    filter: {
+      symbol?: string;
+      state?: "filled" | "canceled";
+      since?: number;
+      limit?: number; // Default: 100, the OKX maximum
+    } = {}
+  ): Promise<FuturesOrder[]> {
+    try {
+      const response = await this.makeRequest("GET", "/trade/orders-history", {
+        instType: "SWAP",
+        limit: (filter.limit ?? 100).toString(),
+        ...(filter.symbol ? { instId: filter.symbol } : {}),
+        ...(filter.state ? { state: filter.state } : {}),
+        ...(filter.since ? { begin: filter.since.toString() } : {}),
+      });
+
+      return response.data.map((order: any) => this.parseOrder(order));
+    } catch (error: any) {
+      throw new Error(`Failed to fetch order history: ${error.message}`);
+    }
+  }
+
   async placeFuturesOrder(
     symbol: string,
     action: OrderAction,
@@ -101,7 +383,10 @@ export class OKXService {
     quantity: number,
     price?: number,
     orderType: "limit" | "market" = "limit",
-    leverage: number = 20
+    leverage: number = 20,
+    protection: OrderProtection = {},
+    clientOrderId?: string,
+    marginMode: MarginMode = this.getMarginMode(symbol)
   ): Promise<OrderResponse> {
     try {
       const { side, posSide } = this.mapActionToSide(action, position);
@@ -113,15 +398,24 @@ export class OKXService {
         throw new Error("Price is required for limit order");
       }
 
+      await this.assertLongShortMode();
+
+      if (action === OrderAction.Open) {
+        await this.ensureLeverage(symbol, leverage, marginMode, position);
+      }
+
       const payload = {
         instId: symbol,
-        tdMode: "cross",
+        tdMode: marginMode,
         side,
         posSide,
         ordType: orderType,
         sz: quantity.toString(),
-        lever: leverage.toString(),
         ...(price && orderType === "limit" ? { px: price.toString() } : {}),
+        ...(clientOrderId ? { clOrdId: clientOrderId } : {}),
+        ...(protection.takeProfitPrice || protection.stopLossPrice
+          ? { attachAlgoOrds: [this.toAlgoTriggers(protection)] }
+          : {}),
       };
 
       console.log("📤 OKX Order Payload:", payload);
@@ -176,25 +470,638 @@ export class OKXService {
     }
   }
 
+  /**
+   * Get an order with its fill progress
+   */
+  async getOrder(symbol: string, orderId: string): Promise<FuturesOrder> {
+    const order = await this.fetchOrder({ instId: symbol, ordId: orderId });
+    if (!order) {
+      throw new Error(`Order not found: ${orderId}`);
+    }
+    return order;
+  }
+
+  /**
+   * Look up an order by the client order ID it was placed with. Returns
+   * null when OKX has no such order.
+   */
+  async getOrderByClientId(
+    symbol: string,
+    clientOrderId: string
+  ): Promise<FuturesOrder | null> {
+    return await this.fetchOrder({ instId: symbol, clOrdId: clientOrderId });
+  }
+
+  private async fetchOrder(
+    query: Record<string, string>
+  ): Promise<FuturesOrder | null> {
+    try {
+      const response = await this.makeRequest("GET", "/trade/order", query);
+      const order = response.data[0];
+      return order ? this.parseOrder(order) : null;
+    } catch (error: any) {
+      if (/does not exist/i.test(error.message)) {
+        return null;
+      }
+      throw new Error(
+        `Failed to fetch order ${query.ordId || query.clOrdId}: ${
+          error.message
+        }`
+      );
+    }
+  }
+
+  /**
+   * Map an OKX order, from REST or a private WebSocket push (same fields)
+   */
+  parseOrder(order: any): FuturesOrder {
+    return {
+      orderId: order.ordId,
+      symbol: order.instId,
+      action:
+        (order.side === "buy") === (order.posSide === "long")
+          ? OrderAction.Open
+          : OrderAction.Close,
+      position: order.posSide,
+      quantity: parseFloat(order.sz),
+      ...(order.px ? { price: parseFloat(order.px) } : {}),
+      status: order.state,
+      leverage: parseFloat(order.lever),
+      timestamp: parseInt(order.cTime),
+      filledQuantity: parseFloat(order.accFillSz || "0"),
+      ...(order.avgPx ? { averagePrice: parseFloat(order.avgPx) } : {}),
+      fee: parseFloat(order.fee || "0"),
+      ...(order.pnl ? { realizedPnl: parseFloat(order.pnl) } : {}),
+      ...(order.clOrdId ? { clientOrderId: order.clOrdId } : {}),
+      ...(order.algoId ? { algoId: order.algoId } : {}),
+    };
+  }
+
+  /**
+   * Cancel every pending swap order (TP/SL algo orders are kept). Returns
+   * the number of orders canceled.
+   */
+  async cancelPendingOrders(symbol?: string): Promise<number> {
+    try {
+      const response = await this.makeRequest("GET", "/trade/orders-pending", {
+        instType: "SWAP",
+        ...(symbol ? { instId: symbol } : {}),
+      });
+      const orders = response.data.map((order: any) => ({
+        instId: order.instId,
+        ordId: order.ordId,
+      }));
+
+      let canceled = 0;
+      // Batch cancels take at most 20 orders
+      for (let i = 0; i < orders.length; i += 20) {
+        const result = await this.makeRequest(
+          "POST",
+          "/trade/cancel-batch-orders",
+          orders.slice(i, i + 20)
+        );
+        canceled += result.data.filter(
+          (entry: any) => entry.sCode === "0"
+        ).length;
+      }
+      return canceled;
+    } catch (error: any) {
+      throw new Error(`Failed to cancel pending orders: ${error.message}`);
+    }
+  }
+
+  /**
+   * Realized PnL of swap trades since a time (fees included), from the
+   * account bills of the last 7 days
+   */
+  async getRealizedPnl(since: number): Promise<number> {
+    try {
+      let realizedPnl = 0;
+      let after: string | undefined;
+
+      for (;;) {
+        const response = await this.makeRequest("GET", "/account/bills", {
+          instType: "SWAP",
+          type: "2", // Trade
+          begin: since.toString(),
+          limit: "100",
+          ...(after ? { after } : {}),
+        });
+        const bills: any[] = response.data;
+
+        for (const bill of bills) {
+          realizedPnl +=
+            parseFloat(bill.pnl || "0") + parseFloat(bill.fee || "0");
+        }
+
+        if (bills.length < 100) break;
+        after = bills[bills.length - 1].billId;
+      }
+
+      return realizedPnl;
+    } catch (error: any) {
+      throw new Error(`Failed to fetch realized PnL: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get open swap positions
+   */
+  async getPositions(symbol?: string): Promise<FuturesPosition[]> {
+    try {
+      const response = await this.makeRequest("GET", "/account/positions", {
+        instType: "SWAP",
+        ...(symbol ? { instId: symbol } : {}),
+      });
+
+      return response.data
+        .filter((position: any) => parseFloat(position.pos) !== 0)
+        .map((position: any) => this.parsePosition(position));
+    } catch (error: any) {
+      throw new Error(`Failed to fetch positions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Map an open OKX position, from REST or a private WebSocket push
+   */
+  parsePosition(position: any): FuturesPosition {
+    return {
+      symbol: position.instId,
+      // Net mode reports posSide "net" with a signed size
+      position:
+        position.posSide === "net"
+          ? parseFloat(position.pos) > 0
+            ? PositionType.Long
+            : PositionType.Short
+          : position.posSide,
+      quantity: Math.abs(parseFloat(position.pos)),
+      averagePrice: parseFloat(position.avgPx),
+      markPrice: parseFloat(position.markPx),
+      unrealizedPnl: parseFloat(position.upl),
+      unrealizedPnlRatio: parseFloat(position.uplRatio),
+      ...(position.liqPx
+        ? { liquidationPrice: parseFloat(position.liqPx) }
+        : {}),
+      leverage: parseFloat(position.lever),
+      margin: parseFloat(position.margin || position.imr || "0"),
+      marginMode: position.mgnMode as MarginMode,
+      ...(position.mgnRatio
+        ? { marginRatio: parseFloat(position.mgnRatio) }
+        : {}),
+      openedAt: parseInt(position.cTime),
+      timestamp: parseInt(position.uTime),
+    };
+  }
+
+  /**
+   * Close a whole position at market, cancelling its pending TP/SL orders
+   */
+  async closePosition(
+    symbol: string,
+    position: PositionType,
+    marginMode: MarginMode = this.getMarginMode(symbol)
+  ): Promise<OrderResponse> {
+    try {
+      const positionMode = await this.getPositionMode();
+      const payload = {
+        instId: symbol,
+        mgnMode: marginMode,
+        posSide: positionMode === "net" ? "net" : position,
+        autoCxl: true,
+      };
+
+      console.log("📤 OKX Close Position Payload:", payload);
+
+      const response = await this.makeRequest(
+        "POST",
+        "/trade/close-position",
+        payload
+      );
+
+      return {
+        success: true,
+        message: response.msg,
+      };
+    } catch (error: any) {
+      console.error("❌ OKX Close Position Error:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Place a standalone TP/SL order that closes the given position side when
+   * triggered. Both prices make an OCO order, one price a conditional order.
+   * The margin mode must be the position's own, which can differ from the
+   * configured one.
+   */
+  async placeAlgoOrder(
+    symbol: string,
+    position: PositionType,
+    quantity: number,
+    protection: OrderProtection,
+    marginMode: MarginMode = this.getMarginMode(symbol)
+  ): Promise<OrderResponse> {
+    try {
+      const { side, posSide } = this.mapActionToSide(
+        OrderAction.Close,
+        position
+      );
+
+      if (quantity <= 0) {
+        throw new Error("Quantity must be greater than 0");
+      }
+      if (!protection.takeProfitPrice && !protection.stopLossPrice) {
+        throw new Error("Take profit or stop loss price is required");
+      }
+
+      await this.assertLongShortMode();
+
+      const payload = {
+        instId: symbol,
+        tdMode: marginMode,
+        side,
+        posSide,
+        ordType:
+          protection.takeProfitPrice && protection.stopLossPrice
+            ? "oco"
+            : "conditional",
+        sz: quantity.toString(),
+        reduceOnly: "true",
+        ...this.toAlgoTriggers(protection),
+      };
+
+      console.log("📤 OKX Algo Order Payload:", payload);
+
+      const response = await this.makeRequest(
+        "POST",
+        "/trade/order-algo",
+        payload
+      );
+
+      return {
+        success: true,
+        orderId: response.data[0]?.algoId,
+        message: response.msg,
+      };
+    } catch (error: any) {
+      console.error("❌ OKX Algo Order Error:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get pending TP/SL algo orders (conditional and OCO)
+   */
+  async getPendingAlgoOrders(symbol?: string): Promise<AlgoOrder[]> {
+    try {
+      const orders: AlgoOrder[] = [];
+
+      for (const ordType of ["conditional", "oco"] as const) {
+        const response = await this.makeRequest(
+          "GET",
+          "/trade/orders-algo-pending",
+          {
+            instType: "SWAP",
+            ordType,
+            ...(symbol ? { instId: symbol } : {}),
+          }
+        );
+
+        orders.push(
+          ...response.data.map((order: any) => ({
+            algoId: order.algoId,
+            symbol: order.instId,
+            ordType,
+            position: order.posSide,
+            quantity: parseFloat(order.sz),
+            state: order.state,
+            timestamp: parseInt(order.cTime),
+            ...this.parseProtection(order),
+          }))
+        );
+      }
+
+      return orders;
+    } catch (error: any) {
+      throw new Error(`Failed to fetch pending algo orders: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get an algo order in any state, with the triggered leg once effective
+   */
+  async getAlgoOrder(algoId: string): Promise<AlgoOrder> {
+    try {
+      const response = await this.makeRequest("GET", "/trade/order-algo", {
+        algoId,
+      });
+      const order = response.data[0];
+      if (!order) {
+        throw new Error("Algo order not found");
+      }
+
+      return {
+        algoId: order.algoId,
+        symbol: order.instId,
+        ordType: order.ordType,
+        position: order.posSide,
+        quantity: parseFloat(order.sz),
+        state: order.state,
+        timestamp: parseInt(order.cTime),
+        ...this.parseProtection(order),
+        ...(order.actualSide === "tp" || order.actualSide === "sl"
+          ? { triggeredSide: order.actualSide }
+          : {}),
+        ...(order.ordId ? { triggeredOrderId: order.ordId } : {}),
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to fetch algo order ${algoId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get recent swap fills (last 3 days), optionally for one order
+   */
+  async getFills(
+    filter: { symbol?: string; orderId?: string } = {}
+  ): Promise<Fill[]> {
+    try {
+      const response = await this.makeRequest("GET", "/trade/fills", {
+        instType: "SWAP",
+        ...(filter.symbol ? { instId: filter.symbol } : {}),
+        ...(filter.orderId ? { ordId: filter.orderId } : {}),
+      });
+
+      return response.data.map((fill: any) => this.parseFill(fill));
+    } catch (error: any) {
+      throw new Error(`Failed to fetch fills: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get swap fills since a time (up to 3 months back), oldest first
+   */
+  async getFillsHistory(since: number, symbol?: string): Promise<Fill[]> {
+    try {
+      const fills: Fill[] = [];
+      let after: string | undefined;
+
+      for (;;) {
+        const response = await this.makeRequest("GET", "/trade/fills-history", {
+          instType: "SWAP",
+          begin: since.toString(),
+          limit: "100",
+          ...(symbol ? { instId: symbol } : {}),
+          ...(after ? { after } : {}),
+        });
+        const page: any[] = response.data;
+        fills.push(...page.map((fill) => this.parseFill(fill)));
+
+        if (page.length < 100) break;
+        after = page[page.length - 1].billId;
+      }
+
+      return fills.reverse();
+    } catch (error: any) {
+      throw new Error(`Failed to fetch fill history: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get swap funding fee bills since a time (up to 3 months back), oldest
+   * first. Amounts are positive when received.
+   */
+  async getFundingFees(
+    since: number
+  ): Promise<
+    { billId: string; symbol: string; amount: number; timestamp: number }[]
+  > {
+    try {
+      const payments: {
+        billId: string;
+        symbol: string;
+        amount: number;
+        timestamp: number;
+      }[] = [];
+      let after: string | undefined;
+
+      for (;;) {
+        const response = await this.makeRequest(
+          "GET",
+          "/account/bills-archive",
+          {
+            instType: "SWAP",
+            type: "8", // Funding fee
+            begin: since.toString(),
+            limit: "100",
+            ...(after ? { after } : {}),
+          }
+        );
+        const bills: any[] = response.data;
+        payments.push(
+          ...bills.map((bill) => ({
+            billId: bill.billId,
+            symbol: bill.instId,
+            amount: parseFloat(bill.balChg || "0"),
+            timestamp: parseInt(bill.ts),
+          }))
+        );
+
+        if (bills.length < 100) break;
+        after = bills[bills.length - 1].billId;
+      }
+
+      return payments.reverse();
+    } catch (error: any) {
+      throw new Error(`Failed to fetch funding fees: ${error.message}`);
+    }
+  }
+
+  private parseFill(fill: any): Fill {
+    return {
+      tradeId: fill.tradeId,
+      orderId: fill.ordId,
+      symbol: fill.instId,
+      side: fill.side,
+      position: fill.posSide,
+      quantity: parseFloat(fill.fillSz),
+      price: parseFloat(fill.fillPx),
+      fee: parseFloat(fill.fee || "0"),
+      realizedPnl: parseFloat(fill.fillPnl || "0"),
+      timestamp: parseInt(fill.ts),
+    };
+  }
+
+  /**
+   * Get the last traded price
+   */
+  async getTickerPrice(symbol: string): Promise<number> {
+    const response = await this.makeRequest("GET", "/market/ticker", {
+      instId: symbol,
+    });
+    return parseFloat(response.data[0].last);
+  }
+
+  /**
+   * OKX trigger fields, "-1" order price executes at market
+   */
+  private toAlgoTriggers(protection: OrderProtection): Record<string, string> {
+    return {
+      ...(protection.takeProfitPrice
+        ? {
+            tpTriggerPx: protection.takeProfitPrice.toString(),
+            tpOrdPx: "-1",
+          }
+        : {}),
+      ...(protection.stopLossPrice
+        ? {
+            slTriggerPx: protection.stopLossPrice.toString(),
+            slOrdPx: "-1",
+          }
+        : {}),
+    };
+  }
+
+  private parseProtection(algo: any): OrderProtection {
+    return {
+      ...(algo?.tpTriggerPx
+        ? { takeProfitPrice: parseFloat(algo.tpTriggerPx) }
+        : {}),
+      ...(algo?.slTriggerPx
+        ? { stopLossPrice: parseFloat(algo.slTriggerPx) }
+        : {}),
+    };
+  }
+
+  /**
+   * Get account equity for one currency (balance plus unrealized PnL)
+   */
+  async getAccountEquity(asset: string = "USDT"): Promise<number> {
+    const [balance] = await this.getFuturesBalance(asset);
+    if (!balance) {
+      throw new Error(`No ${asset} balance on the OKX account`);
+    }
+    return balance.equity ?? balance.available + balance.locked;
+  }
+
+  /**
+   * Total account equity in USDT, other currencies valued at their USDT
+   * ticker price
+   */
+  async getTotalEquityUsdt(): Promise<number> {
+    const values = await this.getUsdValues(await this.getFuturesBalance());
+    return Array.from(values.values()).reduce(
+      (total, value) => total + value,
+      0
+    );
+  }
+
+  /**
+   * Value each balance in USD: OKX eqUsd when reported, otherwise the
+   * equity at the currency's USDT ticker price (stablecoins at 1). Currencies
+   * without a price are left out of the map.
+   */
+  async getUsdValues(balances: Balance[]): Promise<Map<string, number>> {
+    const values = new Map<string, number>();
+
+    for (const balance of balances) {
+      if (balance.equityUsd !== undefined) {
+        values.set(balance.asset, balance.equityUsd);
+        continue;
+      }
+
+      const equity = balance.equity ?? balance.available + balance.locked;
+      if (equity === 0 || USD_STABLECOINS.includes(balance.asset)) {
+        values.set(balance.asset, equity);
+        continue;
+      }
+
+      try {
+        values.set(
+          balance.asset,
+          equity * (await this.getTickerPrice(`${balance.asset}-USDT`))
+        );
+      } catch (error) {
+        console.warn(`⚠️ No USDT price for ${balance.asset}, left unvalued`);
+      }
+    }
+
+    return values;
+  }
+
   async getFuturesBalance(asset?: string): Promise<Balance[]> {
+    const { balances } = await this.getAccountBalance();
+    return balances.filter((bal) => !asset || bal.asset === asset);
+  }
+
+  /**
+   * Get account totals and balances of the trading account
+   */
+  async getAccountBalance(): Promise<AccountBalance> {
     try {
       const response = await this.makeRequest("GET", "/account/balance", {
         instType: "FUTURES",
       });
 
-      return response.data[0].details
-        .map((bal: any) => ({
-          asset: bal.ccy,
-          available: parseFloat(bal.availBal),
-          locked: parseFloat(bal.frozenBal),
-          marginBalance: parseFloat(bal.marginBal),
-        }))
-        .filter((bal: Balance) => !asset || bal.asset === asset);
+      return this.parseAccountBalance(response.data[0]);
     } catch (error: any) {
       throw new Error(`Failed to fetch futures balance: ${error.message}`);
     }
   }
 
+  /**
+   * Map an OKX account balance, from REST or a private WebSocket push
+   */
+  parseAccountBalance(account: any): AccountBalance {
+    return {
+      ...(account.totalEq
+        ? { totalEquityUsd: parseFloat(account.totalEq) }
+        : {}),
+      ...(account.mgnRatio
+        ? { marginRatio: parseFloat(account.mgnRatio) }
+        : {}),
+      balances: (account.details || []).map((bal: any) =>
+        this.parseBalance(bal)
+      ),
+    };
+  }
+
+  /**
+   * Map one currency of an OKX account balance, from REST or a private
+   * WebSocket push
+   */
+  parseBalance(bal: any): Balance {
+    return {
+      asset: bal.ccy,
+      available: parseFloat(bal.availBal),
+      locked: parseFloat(bal.frozenBal),
+      marginBalance: parseFloat(bal.marginBal),
+      ...(bal.eq ? { equity: parseFloat(bal.eq) } : {}),
+      ...(bal.eqUsd ? { equityUsd: parseFloat(bal.eqUsd) } : {}),
+      ...(bal.mgnRatio ? { marginRatio: parseFloat(bal.mgnRatio) } : {}),
+    };
+  }
+
+  /**
+   * Login arguments for the private WebSocket, signed like a REST request
+   * to GET /users/self/verify with a timestamp in seconds
+   */
+  getWebSocketLoginArgs(): {
+    apiKey: string;
+    passphrase: string;
+    timestamp: string;
+    sign: string;
+  } {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    return {
+      apiKey: this.apiKey,
+      passphrase: this.passphrase,
+      timestamp,
+      sign: this.createSignature(timestamp, "GET", "/users/self/verify", ""),
+    };
+  }
+
   private async makeRequest(
     method: string,
     endpoint: string,
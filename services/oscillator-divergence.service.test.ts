@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { AlertConfig, KlineData } from "../types/market.model";
+import { OscillatorDivergenceService } from "./oscillator-divergence.service";
+
+const HOUR = 60 * 60 * 1000;
+
+const detectorConfig: Pick<AlertConfig, "oscillatorDivergence"> = {
+  oscillatorDivergence: {
+    enabled: true,
+    oscillators: ["obv", "cvd"],
+    classes: ["regular", "hidden"],
+    pivotStrength: 2,
+    maxBarDistance: 60,
+  },
+};
+const config = detectorConfig as AlertConfig;
+
+/**
+ * Hourly candles with lows half a point under the close and a flat high.
+ * One more candle is appended as the one still forming.
+ */
+function toKlines(
+  candles: Array<{ close: number; volume: number; takerBuy: number }>
+): KlineData[] {
+  const all = [...candles, candles[candles.length - 1]!];
+  return all.map(({ close, volume, takerBuy }, i) => ({
+    openTime: i * HOUR,
+    open: String(all[i - 1]?.close ?? close),
+    high: "100",
+    low: String(close - 0.5),
+    close: String(close),
+    volume: String(volume),
+    closeTime: (i + 1) * HOUR - 1,
+    quoteAssetVolume: "0",
+    numberOfTrades: 1,
+    takerBuyBaseAssetVolume: String(takerBuy),
+    takerBuyQuoteAssetVolume: "0",
+    ignore: "0",
+  }));
+}
+
+/**
+ * Live feed: one more candle per call, the last one still forming
+ */
+function feed(service: OscillatorDivergenceService, klines: KlineData[]) {
+  const alerts = [];
+  for (let i = 2; i <= klines.length; i++) {
+    alerts.push(...service.detect("BTCUSDT", "1h", klines.slice(0, i), 0));
+  }
+  return alerts;
+}
+
+describe("OscillatorDivergenceService", () => {
+  // Troughs at candles 2, 6 and 10. The rally after the first has heavy
+  // volume but taker sells, and the slide into the third is light and sold.
+  const klines = toKlines([
+    { close: 10, volume: 1, takerBuy: 0.5 },
+    { close: 9, volume: 1, takerBuy: 0.5 },
+    { close: 5, volume: 1, takerBuy: 0.5 },
+    { close: 9, volume: 2, takerBuy: 0.5 },
+    { close: 10, volume: 2, takerBuy: 0.5 },
+    { close: 9, volume: 1, takerBuy: 0.5 },
+    { close: 4, volume: 1, takerBuy: 0.5 },
+    { close: 9, volume: 1, takerBuy: 0.5 },
+    { close: 10, volume: 1, takerBuy: 0.5 },
+    { close: 9, volume: 0.5, takerBuy: 0 },
+    { close: 4.5, volume: 0.5, takerBuy: 0 },
+    { close: 9, volume: 1, takerBuy: 0.5 },
+    { close: 10, volume: 1, takerBuy: 0.5 },
+  ]);
+
+  test("pairs the same price pivots on each oscillator's own values", () => {
+    const service = new OscillatorDivergenceService(config, undefined, false);
+    const alerts = feed(service, klines);
+
+    // OBV at the troughs: -2, 0, 1. CVD: 0, -2, -3.
+    assert.deepEqual(
+      alerts.map((alert) => ({
+        oscillator: alert.oscillator,
+        kind: `${alert.divergenceClass} ${alert.divergenceType}`,
+        previous: alert.previousPivot,
+        current: alert.currentPivot,
+      })),
+      [
+        {
+          oscillator: "obv",
+          kind: "regular bullish",
+          previous: { time: 2 * HOUR, price: 4.5, value: -2 },
+          current: { time: 6 * HOUR, price: 3.5, value: 0 },
+        },
+        {
+          oscillator: "cvd",
+          kind: "hidden bullish",
+          previous: { time: 6 * HOUR, price: 3.5, value: -2 },
+          current: { time: 10 * HOUR, price: 4, value: -3 },
+        },
+      ]
+    );
+    assert.deepEqual(service.getTrackerStatus(), {
+      BTCUSDT: { "1h": { lastPivotTimes: { obv: 6 * HOUR, cvd: 10 * HOUR } } },
+    });
+  });
+});
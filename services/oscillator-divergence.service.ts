@@ -0,0 +1,300 @@
+import fs from "fs";
+import path from "path";
+import {
+  AlertConfig,
+  DivergenceOscillator,
+  KlineData,
+  OscillatorDivergenceAlert,
+  OscillatorDivergenceConfig,
+  OscillatorDivergenceTracker,
+} from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+import { Divergence, DivergenceDetector } from "../utils/divergence.utils";
+import {
+  ClosedCandleCursor,
+  StreamingCVD,
+  StreamingIndicator,
+  StreamingMACD,
+  StreamingMFI,
+  StreamingOBV,
+  StreamingRSI,
+  StreamingStochastic,
+  VolumeBar,
+  toVolumeBar,
+} from "../utils/indicators.utils";
+
+const MACD_FAST_PERIOD = 12;
+const MACD_SLOW_PERIOD = 26;
+const MACD_SIGNAL_PERIOD = 9;
+const STOCHASTIC_K_PERIOD = 14;
+const STOCHASTIC_D_PERIOD = 3;
+const MFI_PERIOD = 14;
+
+/**
+ * One oscillator series and the divergence detector comparing it with price
+ */
+interface OscillatorState {
+  oscillator: DivergenceOscillator;
+  stream: StreamingIndicator<VolumeBar, number>;
+  detector: DivergenceDetector;
+}
+
+/**
+ * Detects regular and hidden divergences between price pivots and each
+ * configured oscillator (RSI, MACD histogram, OBV, CVD, Stochastic %K, MFI).
+ * Only closed candles are evaluated; a divergence is reported once its
+ * price pivot is confirmed, pivotStrength candles later.
+ */
+export class OscillatorDivergenceService {
+  private alertConfig: AlertConfig;
+  private config: OscillatorDivergenceConfig;
+  private tracker: OscillatorDivergenceTracker = {};
+  private states: Map<
+    string,
+    { cursor: ClosedCandleCursor; oscillators: OscillatorState[] }
+  > = new Map();
+  private readonly trackerFile: string;
+  private readonly persistTracker: boolean;
+  private clock: Clock;
+
+  constructor(
+    config: AlertConfig,
+    clock: Clock = systemClock,
+    persistTracker: boolean = true
+  ) {
+    this.alertConfig = config;
+    this.config = config.oscillatorDivergence;
+    this.clock = clock;
+    this.persistTracker = persistTracker;
+    this.trackerFile = path.join(
+      process.cwd(),
+      "/data/oscillator-divergence-tracker.json"
+    );
+    if (this.persistTracker) {
+      this.loadTracker();
+    }
+  }
+
+  /**
+   * Load tracker from JSON file
+   */
+  private loadTracker(): void {
+    try {
+      if (fs.existsSync(this.trackerFile)) {
+        const data = fs.readFileSync(this.trackerFile, "utf8");
+        this.tracker = JSON.parse(data);
+        console.log("📁 Loaded oscillator divergence tracker from file");
+      }
+    } catch (error) {
+      console.error("❌ Error loading oscillator divergence tracker:", error);
+      this.tracker = {};
+    }
+  }
+
+  /**
+   * Save tracker to JSON file
+   */
+  private saveTracker(): void {
+    if (!this.persistTracker) return;
+
+    try {
+      // Ensure data directory exists
+      const dataDir = path.dirname(this.trackerFile);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      fs.writeFileSync(this.trackerFile, JSON.stringify(this.tracker, null, 2));
+    } catch (error) {
+      console.error("❌ Error saving oscillator divergence tracker:", error);
+    }
+  }
+
+  /**
+   * Detect divergences confirmed by the candles closed since the last call.
+   * When the series is rebuilt (first call, gap, history reload) the older
+   * candles only warm up the oscillators and just the latest closed candle
+   * can report, so a restart does not replay old divergences.
+   */
+  detect(
+    symbol: string,
+    timeframe: string,
+    klineData: KlineData[],
+    currentPrice: number
+  ): OscillatorDivergenceAlert[] {
+    const state = this.getState(symbol, timeframe);
+    const { candles, reset } = state.cursor.advance(klineData);
+    if (reset) {
+      for (const { stream, detector } of state.oscillators) {
+        stream.reset();
+        detector.reset();
+      }
+    }
+
+    const found: Array<{
+      oscillator: DivergenceOscillator;
+      divergence: Divergence;
+    }> = [];
+    candles.forEach((candle, index) => {
+      const bar = toVolumeBar(candle);
+      for (const { oscillator, stream, detector } of state.oscillators) {
+        const divergences = detector.update({
+          time: candle.openTime,
+          high: bar.high,
+          low: bar.low,
+          value: stream.update(bar),
+        });
+        if (!reset || index === candles.length - 1) {
+          found.push(
+            ...divergences.map((divergence) => ({ oscillator, divergence }))
+          );
+        }
+      }
+    });
+    if (found.length === 0) return [];
+
+    if (!this.tracker[symbol]) {
+      this.tracker[symbol] = {};
+    }
+    if (!this.tracker[symbol][timeframe]) {
+      this.tracker[symbol][timeframe] = { lastPivotTimes: {} };
+    }
+    const { lastPivotTimes } = this.tracker[symbol][timeframe];
+    const sentUntil = { ...lastPivotTimes };
+
+    // Skip divergences already sent, e.g. before a restart
+    const now = this.clock.now();
+    const alerts: OscillatorDivergenceAlert[] = [];
+    for (const { oscillator, divergence } of found) {
+      const pivotTime = divergence.current.time;
+      if (pivotTime <= (sentUntil[oscillator] ?? -Infinity)) continue;
+
+      lastPivotTimes[oscillator] = Math.max(
+        lastPivotTimes[oscillator] ?? -Infinity,
+        pivotTime
+      );
+      alerts.push({
+        type: "oscillator_divergence",
+        symbol,
+        timeframe,
+        timestamp: now,
+        currentPrice,
+        oscillator,
+        divergenceClass: divergence.divergenceClass,
+        divergenceType: divergence.divergenceType,
+        previousPivot: divergence.previous,
+        currentPivot: divergence.current,
+        barDistance: divergence.barDistance,
+      });
+    }
+
+    if (alerts.length > 0) {
+      this.saveTracker();
+    }
+    return alerts;
+  }
+
+  /**
+   * Get or create the oscillators of a symbol-timeframe
+   */
+  private getState(
+    symbol: string,
+    timeframe: string
+  ): { cursor: ClosedCandleCursor; oscillators: OscillatorState[] } {
+    const key = `${symbol}:${timeframe}`;
+    let state = this.states.get(key);
+    if (!state) {
+      state = {
+        cursor: new ClosedCandleCursor(),
+        oscillators: this.config.oscillators.map((oscillator) => ({
+          oscillator,
+          stream: this.createOscillator(oscillator),
+          detector: new DivergenceDetector({
+            pivotStrength: this.config.pivotStrength,
+            maxBarDistance: this.config.maxBarDistance,
+            classes: this.config.classes,
+          }),
+        })),
+      };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  /**
+   * Oscillator series fed with closed candles
+   */
+  private createOscillator(
+    oscillator: DivergenceOscillator
+  ): StreamingIndicator<VolumeBar, number> {
+    switch (oscillator) {
+      case "rsi":
+        return mapStream(
+          new StreamingRSI(
+            this.alertConfig.rsiPeriod,
+            this.alertConfig.rsiSmoothing
+          ),
+          (bar) => bar.close,
+          (rsi) => rsi
+        );
+      case "macd":
+        return mapStream(
+          new StreamingMACD(
+            MACD_FAST_PERIOD,
+            MACD_SLOW_PERIOD,
+            MACD_SIGNAL_PERIOD
+          ),
+          (bar) => bar.close,
+          (macd) => macd.histogram
+        );
+      case "obv":
+        return new StreamingOBV();
+      case "cvd":
+        return new StreamingCVD();
+      case "stochastic":
+        return mapStream(
+          new StreamingStochastic(STOCHASTIC_K_PERIOD, STOCHASTIC_D_PERIOD),
+          (bar) => bar,
+          (stochastic) => stochastic.k
+        );
+      case "mfi":
+        return new StreamingMFI(MFI_PERIOD);
+    }
+  }
+
+  /**
+   * Get tracker status
+   */
+  getTrackerStatus(): OscillatorDivergenceTracker {
+    return JSON.parse(JSON.stringify(this.tracker));
+  }
+
+  /**
+   * Clear tracker
+   */
+  clearTracker(): void {
+    this.tracker = {};
+    this.saveTracker();
+    console.log("🗑️ Oscillator divergence tracker cleared");
+  }
+}
+
+/**
+ * Adapt an indicator to candle input and a single number output
+ */
+function mapStream<TInput, TOutput>(
+  stream: StreamingIndicator<TInput, TOutput>,
+  toInput: (bar: VolumeBar) => TInput,
+  toValue: (output: TOutput) => number
+): StreamingIndicator<VolumeBar, number> {
+  const map = (output: TOutput | null) =>
+    output !== null ? toValue(output) : null;
+  return {
+    get value() {
+      return map(stream.value);
+    },
+    update: (bar) => map(stream.update(toInput(bar))),
+    peek: (bar) => map(stream.peek(toInput(bar))),
+    reset: () => stream.reset(),
+  };
+}
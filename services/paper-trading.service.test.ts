@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { KlineData, PaperTradingConfig } from "../types/market.model";
+import { VirtualClock } from "../utils/clock.utils";
+import { BotAction } from "./bot-action.service";
+import { InstrumentRegistry } from "./instrument-registry.service";
+import { PaperActionExecutor, PaperPriceFeed } from "./paper-trading.service";
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2025, 0, 1, 10);
+
+const config: PaperTradingConfig = {
+  initialBalance: 10000,
+  takerFeeRate: 0,
+  makerFeeRate: 0,
+  slippageBps: 0,
+  fundingRate: 0,
+};
+
+const priceFeed: PaperPriceFeed = {
+  getCurrentPrice: async () => 100,
+  getCandles: async () => [],
+};
+
+function candle(openTime: number, high: number, low: number): KlineData {
+  return {
+    openTime,
+    open: "100",
+    high: String(high),
+    low: String(low),
+    close: "100",
+    volume: "1",
+    closeTime: openTime + MINUTE - 1,
+    quoteAssetVolume: "0",
+    numberOfTrades: 0,
+    takerBuyBaseAssetVolume: "0",
+    takerBuyQuoteAssetVolume: "0",
+    ignore: "0",
+  };
+}
+
+function buyAction(parameters: Record<string, any>): BotAction {
+  return {
+    id: "action1",
+    type: "buy",
+    symbol: "BTC-USDT-SWAP",
+    parameters: { symbol: "BTC-USDT-SWAP", quantity: 1, ...parameters },
+    timestamp: START,
+    status: "executing",
+  };
+}
+
+describe("PaperActionExecutor", () => {
+  const cwd = process.cwd();
+  let clock: VirtualClock;
+  let executor: PaperActionExecutor;
+
+  // The account state lives under data/ of the working directory
+  before(() => {
+    process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), "paper-")));
+  });
+  after(() => {
+    const dir = process.cwd();
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createExecutor(): void {
+    // Half a minute into the candle that opened at START
+    clock = new VirtualClock(START + 30 * 1000);
+    executor = new PaperActionExecutor(
+      config,
+      new InstrumentRegistry(),
+      priceFeed,
+      clock
+    );
+    executor.reset();
+  }
+
+  test("ignores a stop loss traded before a market entry", async () => {
+    createExecutor();
+    const result = await executor.execute(buyAction({ stopLossPrice: 98 }));
+    assert.equal(result.success, true);
+
+    // The entry candle wicked to 97, but possibly before the entry
+    executor.processCandle("BTC-USDT-SWAP", candle(START, 101, 97));
+    assert.equal(executor.getPositions().length, 1);
+
+    executor.processCandle("BTC-USDT-SWAP", candle(START + MINUTE, 101, 97));
+    assert.equal(executor.getPositions().length, 0);
+    assert.equal(executor.getFills(1)[0]?.price, 98);
+  });
+
+  test("fills a limit order only on candles opened after it", async () => {
+    createExecutor();
+    await executor.execute(buyAction({ price: 99 }));
+    assert.equal(executor.getAccountSummary().openOrderCount, 1);
+
+    executor.processCandle("BTC-USDT-SWAP", candle(START, 101, 98));
+    assert.equal(executor.getPositions().length, 0);
+
+    executor.processCandle("BTC-USDT-SWAP", candle(START + MINUTE, 101, 98));
+    assert.equal(executor.getPositions().length, 1);
+    assert.equal(executor.getPositions()[0]?.entryPrice, 99);
+  });
+});
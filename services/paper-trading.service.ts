@@ -0,0 +1,1168 @@
+import fs from "fs";
+import path from "path";
+import {
+  ActionExecutor,
+  BotAction,
+  BotActionResult,
+  hasProtection,
+  resolveProtection,
+} from "./bot-action.service";
+import { InstrumentRegistry } from "./instrument-registry.service";
+import { RiskAccount, RiskPosition } from "./risk-manager.service";
+import { FundingPayment, TradeHistorySource } from "./trade-journal.service";
+import { EquitySource } from "./performance.service";
+import { Fill, PositionType } from "./okx.service";
+import { MarketDataProvider } from "./market-data-provider.service";
+import { KlineData, PaperTradingConfig } from "../types/market.model";
+import { Clock, ClockTimer, systemClock } from "../utils/clock.utils";
+import { calculatePositionSize } from "../utils/position-sizing.utils";
+
+type PaperSide = "buy" | "sell";
+type PaperPosSide = "long" | "short";
+
+export interface PaperPosition {
+  instId: string;
+  posSide: PaperPosSide;
+  size: number; // Contracts
+  contractValue: number; // Base asset per contract
+  entryPrice: number; // Weighted average
+  leverage: number;
+  margin: number; // USDT
+  openedAt: number;
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+}
+
+export interface PaperOrder {
+  orderId: string;
+  instId: string;
+  side: PaperSide;
+  posSide: PaperPosSide;
+  size: number;
+  contractValue: number;
+  price: number;
+  leverage: number;
+  reservedMargin: number; // Held from the available balance until filled
+  createdAt: number;
+  takeProfitPrice?: number; // Attached to the position once filled
+  stopLossPrice?: number;
+  clientOrderId?: string; // ID of the action that placed the order
+}
+
+export interface PaperFill {
+  fillId: string;
+  orderId: string;
+  instId: string;
+  side: PaperSide;
+  posSide: PaperPosSide;
+  size: number;
+  price: number;
+  fee: number;
+  realizedPnl: number; // Only for fills that reduce a position
+  liquidity: "maker" | "taker" | "liquidation";
+  timestamp: number;
+  clientOrderId?: string;
+}
+
+export interface PaperAccountSummary {
+  balance: number; // Cash after realized PnL, fees and funding
+  equity: number; // Balance + unrealized PnL
+  unrealizedPnl: number;
+  usedMargin: number; // Position margin + margin reserved by open orders
+  available: number;
+  totalFees: number;
+  totalFunding: number; // Positive when paid, negative when received
+  positionCount: number;
+  openOrderCount: number;
+}
+
+interface PaperTradingState {
+  balance: number;
+  positions: PaperPosition[];
+  openOrders: PaperOrder[];
+  fills: PaperFill[];
+  leverage: { [instId: string]: number };
+  lastPrices: { [instId: string]: number };
+  lastCandleTimes: { [instId: string]: number }; // openTime of the last candle processed
+  lastFundingTime: number;
+  fundingPayments: FundingPayment[];
+  totalFees: number;
+  totalFunding: number;
+  nextId: number;
+}
+
+/**
+ * Price source for simulated fills. Live sessions read 1m candles from an
+ * exchange, replays can serve candles from the candle store instead.
+ */
+export interface PaperPriceFeed {
+  getCurrentPrice(instId: string): Promise<number>;
+  getCandles(instId: string, startTime: number): Promise<KlineData[]>; // 1m candles opened at or after startTime
+}
+
+/**
+ * Price feed backed by a market data provider's 1m candles
+ */
+export class MarketDataPriceFeed implements PaperPriceFeed {
+  private provider: MarketDataProvider;
+
+  constructor(provider: MarketDataProvider) {
+    this.provider = provider;
+  }
+
+  async getCurrentPrice(instId: string): Promise<number> {
+    return await this.provider.getCurrentPrice(instId);
+  }
+
+  async getCandles(instId: string, startTime: number): Promise<KlineData[]> {
+    return await this.provider.getKlines(instId, "1m", {
+      limit: this.provider.maxKlinesPerRequest,
+      startTime,
+    });
+  }
+}
+
+const FUNDING_INTERVAL = 8 * 60 * 60 * 1000; // 00:00, 08:00, 16:00 UTC
+const MAINTENANCE_MARGIN_RATE = 0.004;
+const MAX_FILL_HISTORY = 500;
+const DEFAULT_LEVERAGE = 20;
+
+/**
+ * Simulated OKX swap account. Accepts the same actions as OKXActionExecutor
+ * and fills them against live or replayed candles: market orders at the last
+ * price plus slippage, limit orders once a candle trades through the limit.
+ * Tracks cross-margin balance, positions, fees and funding under data/.
+ */
+export class PaperActionExecutor
+  implements ActionExecutor, RiskAccount, TradeHistorySource, EquitySource
+{
+  private readonly stateFile: string;
+  private readonly updateIntervalMs = 15 * 1000;
+  private config: PaperTradingConfig;
+  private instrumentRegistry: InstrumentRegistry;
+  private priceFeed: PaperPriceFeed;
+  private clock: Clock;
+  private state: PaperTradingState;
+  private updateTimer: ClockTimer | null = null;
+  private isUpdating: boolean = false;
+
+  constructor(
+    config: PaperTradingConfig,
+    instrumentRegistry: InstrumentRegistry,
+    priceFeed: PaperPriceFeed,
+    clock: Clock = systemClock
+  ) {
+    this.config = config;
+    this.instrumentRegistry = instrumentRegistry;
+    this.priceFeed = priceFeed;
+    this.clock = clock;
+    this.stateFile = path.join(process.cwd(), "/data/paper-trading.json");
+    this.state = this.createInitialState();
+    this.loadState();
+  }
+
+  canExecute(action: BotAction): boolean {
+    return [
+      "buy",
+      "sell",
+      "close_position",
+      "cancel_order",
+      "adjust_leverage",
+      "set_tpsl",
+    ].includes(action.type);
+  }
+
+  async execute(action: BotAction): Promise<BotActionResult> {
+    try {
+      let result: any;
+
+      switch (action.type) {
+        case "buy":
+          result = await this.executeOpenAction(action, "long");
+          break;
+        case "sell":
+          result = await this.executeOpenAction(action, "short");
+          break;
+        case "close_position":
+          result = await this.executeClosePositionAction(action);
+          break;
+        case "cancel_order":
+          result = this.executeCancelOrderAction(action);
+          break;
+        case "adjust_leverage":
+          result = this.executeAdjustLeverageAction(action);
+          break;
+        case "set_tpsl":
+          result = this.executeSetTpSlAction(action);
+          break;
+        default:
+          throw new Error(`Unsupported action type: ${action.type}`);
+      }
+
+      this.saveState();
+      return {
+        success: true,
+        actionId: action.id,
+        result,
+        timestamp: this.clock.now(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        actionId: action.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: this.clock.now(),
+      };
+    }
+  }
+
+  /**
+   * Find an interrupted open order in the paper state by its action ID
+   */
+  async recover(action: BotAction): Promise<BotActionResult | null> {
+    const order =
+      this.state.openOrders.find(
+        (entry) => entry.clientOrderId === action.id
+      ) || this.state.fills.find((entry) => entry.clientOrderId === action.id);
+    if (!order) return null;
+
+    return {
+      success: true,
+      actionId: action.id,
+      result: {
+        success: true,
+        orderId: order.orderId,
+        message: "Recovered paper order after restart",
+      },
+      timestamp: this.clock.now(),
+    };
+  }
+
+  /**
+   * Start polling candles for instruments with open orders or positions
+   */
+  start(): void {
+    if (this.updateTimer) return;
+
+    this.updateTimer = this.clock.setInterval(() => {
+      this.update().catch((error) =>
+        console.error("❌ Error updating paper trading state:", error)
+      );
+    }, this.updateIntervalMs);
+
+    const summary = this.getAccountSummary();
+    console.log(
+      `📝 Paper trading started: ${summary.balance.toFixed(2)} USDT, ${
+        summary.positionCount
+      } positions, ${summary.openOrderCount} open orders`
+    );
+  }
+
+  stop(): void {
+    if (this.updateTimer) {
+      this.clock.clearInterval(this.updateTimer);
+      this.updateTimer = null;
+    }
+  }
+
+  /**
+   * Fetch new candles for every active instrument and process them in order
+   */
+  async update(): Promise<void> {
+    if (this.isUpdating) return;
+    this.isUpdating = true;
+
+    try {
+      for (const instId of this.getActiveInstIds()) {
+        const since =
+          this.state.lastCandleTimes[instId] ?? this.clock.now() - 60 * 1000;
+        const candles = await this.priceFeed.getCandles(instId, since);
+
+        for (const candle of candles) {
+          this.processCandle(instId, candle);
+        }
+      }
+      this.saveState();
+    } finally {
+      this.isUpdating = false;
+    }
+  }
+
+  /**
+   * Apply one candle: fill crossed limit orders, trigger TP/SL, charge
+   * funding and check liquidation. The forming candle may be passed
+   * repeatedly as it updates.
+   */
+  processCandle(instId: string, candle: KlineData): void {
+    const lastCandleTime = this.state.lastCandleTimes[instId];
+    if (lastCandleTime !== undefined && candle.openTime < lastCandleTime) {
+      return;
+    }
+
+    const high = parseFloat(candle.high);
+    const low = parseFloat(candle.low);
+    const close = parseFloat(candle.close);
+
+    this.state.lastCandleTimes[instId] = candle.openTime;
+    this.state.lastPrices[instId] = close;
+
+    // Resting limit orders fill at their own price once traded through.
+    // Only candles opened after the order count: the high/low of the candle
+    // it was placed in may have been printed before it existed.
+    const crossed = this.state.openOrders.filter(
+      (order) =>
+        order.instId === instId &&
+        candle.openTime >= order.createdAt &&
+        (order.side === "buy" ? low <= order.price : high >= order.price)
+    );
+    for (const order of crossed) {
+      this.removeOrder(order.orderId);
+      this.fillOpen(order, order.price, "maker", candle.openTime);
+    }
+
+    this.checkProtection(instId, high, low, candle.openTime);
+    this.applyFunding(candle.openTime);
+    this.checkLiquidation(candle.openTime);
+  }
+
+  private async executeOpenAction(
+    action: BotAction,
+    posSide: PaperPosSide
+  ): Promise<any> {
+    const { symbol, price, riskPercent } = action.parameters;
+    let quantity: number | undefined = action.parameters.quantity;
+
+    if (!symbol || (!quantity && !riskPercent)) {
+      throw new Error(
+        `Symbol and quantity (or riskPercent with a stop loss) are required for ${action.type} action`
+      );
+    }
+
+    const { instId, contractValue } = this.resolveInstrument(
+      symbol,
+      quantity,
+      price
+    );
+    const leverage =
+      action.parameters.leverage ??
+      this.state.leverage[instId] ??
+      DEFAULT_LEVERAGE;
+    const side: PaperSide = posSide === "long" ? "buy" : "sell";
+    const marketPrice = await this.getMarketPrice(instId);
+    const protection = resolveProtection(
+      action.parameters,
+      posSide,
+      price || marketPrice
+    );
+
+    if (!quantity) {
+      if (!protection.stopLossPrice) {
+        throw new Error("Risk-based sizing requires a stop loss");
+      }
+
+      const instrument = this.instrumentRegistry.getInstrument(
+        instId,
+        "okx",
+        "swap"
+      );
+      quantity = calculatePositionSize({
+        equity: this.getAccountSummary().equity,
+        riskPercent,
+        entryPrice: price || marketPrice,
+        stopPrice: protection.stopLossPrice,
+        contractValue,
+        feeRate: this.config.takerFeeRate,
+        ...(instrument
+          ? { lotSize: instrument.lotSize, minSize: instrument.minSize }
+          : {}),
+      }).size;
+    }
+
+    const order: PaperOrder = {
+      orderId: this.nextId("paper"),
+      instId,
+      side,
+      posSide,
+      size: quantity,
+      contractValue,
+      price: price || marketPrice,
+      leverage,
+      reservedMargin: 0,
+      createdAt: this.clock.now(),
+      clientOrderId: action.id,
+      ...protection,
+    };
+
+    const notional = order.size * contractValue * order.price;
+    const requiredMargin = notional / leverage;
+    const available = this.getAccountSummary().available;
+    if (requiredMargin + notional * this.config.takerFeeRate > available) {
+      throw new Error(
+        `Insufficient paper balance: ${requiredMargin.toFixed(
+          2
+        )} USDT margin required, ${available.toFixed(2)} USDT available`
+      );
+    }
+
+    this.state.leverage[instId] = leverage;
+
+    // Market orders and marketable limits fill now as taker
+    const marketable =
+      !price || (side === "buy" ? price >= marketPrice : price <= marketPrice);
+    if (marketable) {
+      const fillPrice = price
+        ? marketPrice
+        : this.applySlippage(marketPrice, side);
+      const fill = this.fillOpen(order, fillPrice, "taker", this.clock.now());
+      console.log(
+        `📝 Paper ${side} ${order.size} ${instId} filled at ${fill.price}`
+      );
+      return {
+        success: true,
+        orderId: order.orderId,
+        message: `Filled ${order.size} @ ${fill.price}`,
+      };
+    }
+
+    order.reservedMargin = requiredMargin;
+    this.state.openOrders.push(order);
+    console.log(
+      `📝 Paper limit ${side} ${order.size} ${instId} @ ${order.price} placed`
+    );
+    return {
+      success: true,
+      orderId: order.orderId,
+      message: `Limit order placed @ ${order.price}`,
+    };
+  }
+
+  /**
+   * Close the instrument's positions (or only posSide) at market, fully or
+   * by percent (1-100) of their size
+   */
+  private async executeClosePositionAction(action: BotAction): Promise<any> {
+    const { symbol, posSide, percent = 100 } = action.parameters;
+
+    if (!symbol) {
+      throw new Error("Symbol is required for close position action");
+    }
+    if (percent <= 0 || percent > 100) {
+      throw new Error("Close percent must be between 0 and 100");
+    }
+
+    const instId = this.resolveInstrument(symbol).instId;
+    const positions = this.state.positions.filter(
+      (position) =>
+        position.instId === instId && (!posSide || position.posSide === posSide)
+    );
+    if (positions.length === 0) {
+      throw new Error(`No paper position open for ${instId}`);
+    }
+
+    const marketPrice = await this.getMarketPrice(instId);
+    let realizedPnl = 0;
+    for (const position of positions) {
+      const side: PaperSide = position.posSide === "long" ? "sell" : "buy";
+      const fill = this.fillClose(
+        position,
+        (position.size * percent) / 100,
+        this.applySlippage(marketPrice, side),
+        "taker",
+        this.nextId("paper"),
+        this.clock.now()
+      );
+      realizedPnl += fill.realizedPnl;
+    }
+
+    console.log(
+      `📝 Paper position ${instId} closed ${percent}%, PnL ${realizedPnl.toFixed(
+        2
+      )} USDT`
+    );
+    return {
+      success: true,
+      message: `Closed ${percent}% of ${
+        positions.length
+      } position(s), PnL ${realizedPnl.toFixed(2)} USDT`,
+    };
+  }
+
+  private executeCancelOrderAction(action: BotAction): any {
+    const { orderId } = action.parameters;
+
+    if (!orderId) {
+      throw new Error("orderId is required for cancel order action");
+    }
+
+    const order = this.removeOrder(orderId);
+    if (!order) {
+      throw new Error(`Paper order not found: ${orderId}`);
+    }
+    return { success: true, orderId, message: "Order canceled" };
+  }
+
+  private executeAdjustLeverageAction(action: BotAction): any {
+    const { symbol, leverage, marginMode } = action.parameters;
+
+    if (!symbol || !leverage || leverage < 1) {
+      throw new Error(
+        "Symbol and leverage are required for adjust leverage action"
+      );
+    }
+    if (marginMode && marginMode !== "cross") {
+      throw new Error("Paper trading only supports cross margin");
+    }
+
+    const instId = this.resolveInstrument(symbol).instId;
+    const positions = this.state.positions.filter(
+      (position) => position.instId === instId
+    );
+
+    // Re-margin open positions at the new leverage
+    const extraMargin = positions.reduce(
+      (total, position) =>
+        total + this.getEntryNotional(position) / leverage - position.margin,
+      0
+    );
+    if (extraMargin > this.getAccountSummary().available) {
+      throw new Error("Insufficient paper balance for the new leverage");
+    }
+
+    for (const position of positions) {
+      position.leverage = leverage;
+      position.margin = this.getEntryNotional(position) / leverage;
+    }
+    this.state.leverage[instId] = leverage;
+
+    return { success: true, message: `Leverage set to ${leverage}x` };
+  }
+
+  /**
+   * Set TP/SL on an open position. Percentages are taken from entryPrice
+   * when given, otherwise from the position's average entry.
+   */
+  private executeSetTpSlAction(action: BotAction): any {
+    const { symbol, posSide, entryPrice } = action.parameters;
+
+    if (!symbol || !posSide || !hasProtection(action.parameters)) {
+      throw new Error(
+        "Symbol, posSide and a take profit or stop loss are required for set TP/SL action"
+      );
+    }
+
+    const instId = this.resolveInstrument(symbol).instId;
+    const position = this.findPosition(instId, posSide);
+    if (!position) {
+      throw new Error(`No paper ${posSide} position open for ${instId}`);
+    }
+
+    const protection = resolveProtection(
+      action.parameters,
+      posSide,
+      entryPrice || position.entryPrice
+    );
+    Object.assign(position, protection);
+
+    return {
+      success: true,
+      message: `TP ${position.takeProfitPrice ?? "-"} / SL ${
+        position.stopLossPrice ?? "-"
+      }`,
+    };
+  }
+
+  /**
+   * Close positions whose TP or SL traded within the candle range at the
+   * trigger price plus slippage. The stop wins when both are inside. Like
+   * limit fills, only candles opened after the position count: a market
+   * entry mid-candle cannot be stopped by a wick printed before it.
+   */
+  private checkProtection(
+    instId: string,
+    high: number,
+    low: number,
+    time: number
+  ): void {
+    const positions = this.state.positions.filter(
+      (position) => position.instId === instId && time >= position.openedAt
+    );
+
+    for (const position of positions) {
+      const isLong = position.posSide === "long";
+      const { takeProfitPrice, stopLossPrice } = position;
+      const stopHit =
+        stopLossPrice !== undefined &&
+        (isLong ? low <= stopLossPrice : high >= stopLossPrice);
+      const targetHit =
+        takeProfitPrice !== undefined &&
+        (isLong ? high >= takeProfitPrice : low <= takeProfitPrice);
+
+      const triggerPrice = stopHit
+        ? stopLossPrice
+        : targetHit
+        ? takeProfitPrice
+        : undefined;
+      if (triggerPrice === undefined) continue;
+
+      const fill = this.fillClose(
+        position,
+        position.size,
+        this.applySlippage(triggerPrice, isLong ? "sell" : "buy"),
+        "taker",
+        this.nextId("tpsl"),
+        time
+      );
+      console.log(
+        `📝 Paper ${stopHit ? "stop loss" : "take profit"} hit on ${
+          position.instId
+        } ${position.posSide}, PnL ${fill.realizedPnl.toFixed(2)} USDT`
+      );
+    }
+  }
+
+  /**
+   * Apply an opening fill, merging into any position on the same side
+   */
+  private fillOpen(
+    order: PaperOrder,
+    price: number,
+    liquidity: "maker" | "taker",
+    timestamp: number
+  ): PaperFill {
+    const notional = order.size * order.contractValue * price;
+    const fee = notional * this.getFeeRate(liquidity);
+    const margin = notional / order.leverage;
+
+    const position = this.findPosition(order.instId, order.posSide);
+    if (position) {
+      const size = position.size + order.size;
+      position.entryPrice =
+        (position.entryPrice * position.size + price * order.size) / size;
+      position.size = size;
+      position.margin += margin;
+      position.leverage = order.leverage;
+      if (order.takeProfitPrice !== undefined) {
+        position.takeProfitPrice = order.takeProfitPrice;
+      }
+      if (order.stopLossPrice !== undefined) {
+        position.stopLossPrice = order.stopLossPrice;
+      }
+    } else {
+      this.state.positions.push({
+        instId: order.instId,
+        posSide: order.posSide,
+        size: order.size,
+        contractValue: order.contractValue,
+        entryPrice: price,
+        leverage: order.leverage,
+        margin,
+        openedAt: timestamp,
+        ...(order.takeProfitPrice !== undefined
+          ? { takeProfitPrice: order.takeProfitPrice }
+          : {}),
+        ...(order.stopLossPrice !== undefined
+          ? { stopLossPrice: order.stopLossPrice }
+          : {}),
+      });
+    }
+
+    this.state.balance -= fee;
+    this.state.totalFees += fee;
+
+    return this.recordFill({
+      fillId: this.nextId("fill"),
+      orderId: order.orderId,
+      instId: order.instId,
+      side: order.side,
+      posSide: order.posSide,
+      size: order.size,
+      price,
+      fee,
+      realizedPnl: 0,
+      liquidity,
+      timestamp,
+      ...(order.clientOrderId !== undefined
+        ? { clientOrderId: order.clientOrderId }
+        : {}),
+    });
+  }
+
+  /**
+   * Reduce a position, realizing PnL and releasing its margin pro rata
+   */
+  private fillClose(
+    position: PaperPosition,
+    size: number,
+    price: number,
+    liquidity: PaperFill["liquidity"],
+    orderId: string,
+    timestamp: number
+  ): PaperFill {
+    const closeSize = Math.min(size, position.size);
+    const direction = position.posSide === "long" ? 1 : -1;
+    const realizedPnl =
+      (price - position.entryPrice) *
+      closeSize *
+      position.contractValue *
+      direction;
+    const fee =
+      closeSize *
+      position.contractValue *
+      price *
+      this.getFeeRate(liquidity === "maker" ? "maker" : "taker");
+
+    position.margin -= position.margin * (closeSize / position.size);
+    position.size -= closeSize;
+    if (position.size <= 0) {
+      this.state.positions = this.state.positions.filter(
+        (entry) => entry !== position
+      );
+    }
+
+    this.state.balance += realizedPnl - fee;
+    this.state.totalFees += fee;
+
+    return this.recordFill({
+      fillId: this.nextId("fill"),
+      orderId,
+      instId: position.instId,
+      side: position.posSide === "long" ? "sell" : "buy",
+      posSide: position.posSide,
+      size: closeSize,
+      price,
+      fee,
+      realizedPnl,
+      liquidity,
+      timestamp,
+    });
+  }
+
+  /**
+   * Charge funding at every 8h boundary crossed since the last charge.
+   * Positive rates make longs pay and shorts receive.
+   */
+  private applyFunding(time: number): void {
+    const fundingTime = Math.floor(time / FUNDING_INTERVAL) * FUNDING_INTERVAL;
+    if (this.state.lastFundingTime === 0) {
+      this.state.lastFundingTime = fundingTime;
+      return;
+    }
+    if (fundingTime <= this.state.lastFundingTime) return;
+
+    const intervals = Math.round(
+      (fundingTime - this.state.lastFundingTime) / FUNDING_INTERVAL
+    );
+    this.state.lastFundingTime = fundingTime;
+
+    for (const position of this.state.positions) {
+      const markPrice =
+        this.state.lastPrices[position.instId] ?? position.entryPrice;
+      const payment =
+        position.size *
+        position.contractValue *
+        markPrice *
+        this.config.fundingRate *
+        intervals *
+        (position.posSide === "long" ? 1 : -1);
+
+      this.state.balance -= payment;
+      this.state.totalFunding += payment;
+      this.state.fundingPayments.push({
+        id: this.nextId("funding"),
+        symbol: position.instId,
+        position: position.posSide,
+        amount: -payment,
+        timestamp: fundingTime,
+      });
+    }
+
+    if (this.state.fundingPayments.length > MAX_FILL_HISTORY) {
+      this.state.fundingPayments = this.state.fundingPayments.slice(
+        -MAX_FILL_HISTORY
+      );
+    }
+  }
+
+  /**
+   * Cross margin: close everything at the last price once equity falls to
+   * the maintenance margin
+   */
+  private checkLiquidation(time: number): void {
+    if (this.state.positions.length === 0) return;
+
+    const summary = this.getAccountSummary();
+    const maintenanceMargin = this.state.positions.reduce(
+      (total, position) =>
+        total + this.getNotional(position) * MAINTENANCE_MARGIN_RATE,
+      0
+    );
+    if (summary.equity > maintenanceMargin) return;
+
+    console.warn(
+      `🚨 Paper account liquidated: equity ${summary.equity.toFixed(
+        2
+      )} USDT, maintenance margin ${maintenanceMargin.toFixed(2)} USDT`
+    );
+    for (const position of [...this.state.positions]) {
+      this.fillClose(
+        position,
+        position.size,
+        this.state.lastPrices[position.instId] ?? position.entryPrice,
+        "liquidation",
+        this.nextId("liq"),
+        time
+      );
+    }
+  }
+
+  /**
+   * Resolve a symbol to an OKX swap instId, applying the same lot/tick
+   * validation as live orders when metadata is available
+   */
+  private resolveInstrument(
+    symbol: string,
+    quantity?: number,
+    price?: number
+  ): { instId: string; contractValue: number } {
+    const instrument = this.instrumentRegistry.getInstrument(
+      symbol,
+      "okx",
+      "swap"
+    );
+
+    if (!instrument) {
+      if (this.instrumentRegistry.hasVenue("okx")) {
+        throw new Error(`Unknown OKX instrument: ${symbol}`);
+      }
+      return { instId: symbol, contractValue: 1 };
+    }
+
+    if (quantity !== undefined) {
+      this.instrumentRegistry.validateOrder(instrument, quantity, price);
+    }
+    return {
+      instId: instrument.venueSymbol,
+      contractValue: instrument.contractValue,
+    };
+  }
+
+  /**
+   * Get the current price from the price feed
+   */
+  async getCurrentPrice(instId: string): Promise<number> {
+    return await this.getMarketPrice(instId);
+  }
+
+  private async getMarketPrice(instId: string): Promise<number> {
+    const price = await this.priceFeed.getCurrentPrice(instId);
+    this.state.lastPrices[instId] = price;
+    return price;
+  }
+
+  private applySlippage(price: number, side: PaperSide): number {
+    const slippage = (price * this.config.slippageBps) / 10000;
+    return side === "buy" ? price + slippage : price - slippage;
+  }
+
+  private getFeeRate(liquidity: "maker" | "taker"): number {
+    return liquidity === "maker"
+      ? this.config.makerFeeRate
+      : this.config.takerFeeRate;
+  }
+
+  private getNotional(position: PaperPosition): number {
+    const markPrice =
+      this.state.lastPrices[position.instId] ?? position.entryPrice;
+    return position.size * position.contractValue * markPrice;
+  }
+
+  private getEntryNotional(position: PaperPosition): number {
+    return position.size * position.contractValue * position.entryPrice;
+  }
+
+  private getPositionPnl(position: PaperPosition): number {
+    const markPrice =
+      this.state.lastPrices[position.instId] ?? position.entryPrice;
+    return (
+      (markPrice - position.entryPrice) *
+      position.size *
+      position.contractValue *
+      (position.posSide === "long" ? 1 : -1)
+    );
+  }
+
+  private findPosition(
+    instId: string,
+    posSide: PaperPosSide
+  ): PaperPosition | undefined {
+    return this.state.positions.find(
+      (position) => position.instId === instId && position.posSide === posSide
+    );
+  }
+
+  private removeOrder(orderId: string): PaperOrder | undefined {
+    const order = this.state.openOrders.find(
+      (entry) => entry.orderId === orderId
+    );
+    this.state.openOrders = this.state.openOrders.filter(
+      (entry) => entry.orderId !== orderId
+    );
+    return order;
+  }
+
+  private recordFill(fill: PaperFill): PaperFill {
+    this.state.fills.push(fill);
+    if (this.state.fills.length > MAX_FILL_HISTORY) {
+      this.state.fills = this.state.fills.slice(-MAX_FILL_HISTORY);
+    }
+    return fill;
+  }
+
+  private getActiveInstIds(): string[] {
+    return Array.from(
+      new Set([
+        ...this.state.positions.map((position) => position.instId),
+        ...this.state.openOrders.map((order) => order.instId),
+      ])
+    );
+  }
+
+  private nextId(prefix: string): string {
+    return `${prefix}_${this.state.nextId++}`;
+  }
+
+  /**
+   * Get balance, equity and margin usage
+   */
+  getAccountSummary(): PaperAccountSummary {
+    const unrealizedPnl = this.state.positions.reduce(
+      (total, position) => total + this.getPositionPnl(position),
+      0
+    );
+    const usedMargin =
+      this.state.positions.reduce(
+        (total, position) => total + position.margin,
+        0
+      ) +
+      this.state.openOrders.reduce(
+        (total, order) => total + order.reservedMargin,
+        0
+      );
+    const equity = this.state.balance + unrealizedPnl;
+
+    return {
+      balance: this.state.balance,
+      equity,
+      unrealizedPnl,
+      usedMargin,
+      available: Math.max(0, equity - usedMargin),
+      totalFees: this.state.totalFees,
+      totalFunding: this.state.totalFunding,
+      positionCount: this.state.positions.length,
+      openOrderCount: this.state.openOrders.length,
+    };
+  }
+
+  /**
+   * Get open positions with their unrealized PnL at the last price
+   */
+  getPositions(): (PaperPosition & {
+    markPrice: number;
+    unrealizedPnl: number;
+    liquidationPrice: number | null;
+  })[] {
+    return this.state.positions.map((position) => ({
+      ...position,
+      markPrice: this.state.lastPrices[position.instId] ?? position.entryPrice,
+      unrealizedPnl: this.getPositionPnl(position),
+      liquidationPrice: this.getLiquidationPrice(position),
+    }));
+  }
+
+  /**
+   * Price at which account equity meets the maintenance margin, holding
+   * every other position at its last price
+   */
+  private getLiquidationPrice(position: PaperPosition): number | null {
+    const otherMaintenance = this.state.positions
+      .filter((entry) => entry !== position)
+      .reduce(
+        (total, entry) =>
+          total + this.getNotional(entry) * MAINTENANCE_MARGIN_RATE,
+        0
+      );
+    const cushion =
+      this.getAccountSummary().equity -
+      this.getPositionPnl(position) -
+      otherMaintenance;
+    const quantity = position.size * position.contractValue;
+
+    const price =
+      position.posSide === "long"
+        ? (position.entryPrice * quantity - cushion) /
+          (quantity * (1 - MAINTENANCE_MARGIN_RATE))
+        : (position.entryPrice * quantity + cushion) /
+          (quantity * (1 + MAINTENANCE_MARGIN_RATE));
+
+    return price > 0 ? price : null;
+  }
+
+  /**
+   * Get the leverage used for new orders on an instrument
+   */
+  getLeverage(instId: string): number {
+    return this.state.leverage[instId] ?? DEFAULT_LEVERAGE;
+  }
+
+  getOpenOrders(): PaperOrder[] {
+    return [...this.state.openOrders];
+  }
+
+  getFills(limit: number = 50): PaperFill[] {
+    return this.state.fills.slice(-limit);
+  }
+
+  async getOpenPositions(): Promise<RiskPosition[]> {
+    return this.state.positions.map((position) => ({
+      instId: position.instId,
+      posSide: position.posSide,
+      notional: this.getNotional(position),
+    }));
+  }
+
+  async getAccountEquity(): Promise<number> {
+    return this.getAccountSummary().equity;
+  }
+
+  /**
+   * Realized PnL minus fees of the fills since a time (funding excluded)
+   */
+  async getRealizedPnl(since: number): Promise<number> {
+    return this.state.fills
+      .filter((fill) => fill.timestamp >= since)
+      .reduce((total, fill) => total + fill.realizedPnl - fill.fee, 0);
+  }
+
+  /**
+   * Paper fills in the OKX fill shape, fees negative when charged
+   */
+  async getTradeFills(since: number): Promise<Fill[]> {
+    return this.state.fills
+      .filter((fill) => fill.timestamp >= since)
+      .map((fill) => ({
+        tradeId: fill.fillId,
+        orderId: fill.orderId,
+        symbol: fill.instId,
+        side: fill.side,
+        position:
+          fill.posSide === "long" ? PositionType.Long : PositionType.Short,
+        quantity: fill.size,
+        price: fill.price,
+        fee: -fill.fee,
+        realizedPnl: fill.realizedPnl,
+        timestamp: fill.timestamp,
+      }));
+  }
+
+  async getEquityValue(): Promise<number> {
+    return this.getAccountSummary().equity;
+  }
+
+  async getUnrealizedPnl(): Promise<number> {
+    return this.getAccountSummary().unrealizedPnl;
+  }
+
+  async getFundingPayments(since: number): Promise<FundingPayment[]> {
+    return this.state.fundingPayments.filter(
+      (payment) => payment.timestamp >= since
+    );
+  }
+
+  async cancelAllOrders(): Promise<number> {
+    const count = this.state.openOrders.length;
+    for (const order of [...this.state.openOrders]) {
+      this.removeOrder(order.orderId);
+    }
+    this.saveState();
+    return count;
+  }
+
+  /**
+   * Close every position at market
+   */
+  async closeAllPositions(): Promise<number> {
+    const positions = [...this.state.positions];
+
+    for (const position of positions) {
+      const side: PaperSide = position.posSide === "long" ? "sell" : "buy";
+      const marketPrice = await this.getMarketPrice(position.instId);
+      this.fillClose(
+        position,
+        position.size,
+        this.applySlippage(marketPrice, side),
+        "taker",
+        this.nextId("paper"),
+        this.clock.now()
+      );
+    }
+    this.saveState();
+    return positions.length;
+  }
+
+  /**
+   * Discard all positions, orders and fills and start over
+   */
+  reset(): void {
+    this.state = this.createInitialState();
+    this.saveState();
+    console.log("🗑️ Paper trading account reset");
+  }
+
+  private createInitialState(): PaperTradingState {
+    return {
+      balance: this.config.initialBalance,
+      positions: [],
+      openOrders: [],
+      fills: [],
+      leverage: {},
+      lastPrices: {},
+      lastCandleTimes: {},
+      lastFundingTime: 0,
+      fundingPayments: [],
+      totalFees: 0,
+      totalFunding: 0,
+      nextId: 1,
+    };
+  }
+
+  /**
+   * Load paper account state from JSON file
+   */
+  private loadState(): void {
+    try {
+      if (fs.existsSync(this.stateFile)) {
+        const data = fs.readFileSync(this.stateFile, "utf8");
+        this.state = { ...this.createInitialState(), ...JSON.parse(data) };
+      }
+    } catch (error) {
+      console.error("❌ Error loading paper trading state:", error);
+      this.state = this.createInitialState();
+    }
+  }
+
+  /**
+   * Save paper account state to JSON file
+   */
+  private saveState(): void {
+    try {
+      const dataDir = path.dirname(this.stateFile);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      fs.writeFileSync(this.stateFile, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      console.error("❌ Error saving paper trading state:", error);
+    }
+  }
+}
@@ -0,0 +1,397 @@
+import fs from "fs";
+import path from "path";
+import { TradeJournal } from "./trade-journal.service";
+import { TelegramService } from "./telegram.service";
+import { PerformanceConfig } from "../types/market.model";
+import { Clock, ClockTimer, systemClock } from "../utils/clock.utils";
+
+/**
+ * Account valuation, implemented by the live OKX and paper executors
+ */
+export interface EquitySource {
+  getEquityValue(): Promise<number>; // Total equity in USDT
+  getUnrealizedPnl(): Promise<number>; // USDT
+}
+
+export interface EquitySnapshot {
+  timestamp: number;
+  equity: number; // USDT
+  unrealizedPnl: number;
+}
+
+export type PerformancePeriod = "day" | "week" | "month" | "all";
+
+export interface PerformanceReport {
+  from: number;
+  to: number;
+  startEquity: number | null; // null without a snapshot before the period ends
+  endEquity: number | null;
+  equityChange: number;
+  equityChangePercent: number;
+  realizedPnl: number; // Price PnL of trades closed in the period
+  fees: number;
+  funding: number;
+  netRealizedPnl: number; // realizedPnl - fees + funding
+  unrealizedPnl: number; // At the end of the period
+  tradeCount: number;
+  wins: number;
+  losses: number;
+  winRate: number; // Percent of closed trades with a positive net PnL
+  bestTrade: number | null;
+  worstTrade: number | null;
+  maxDrawdown: number; // USDT, peak to trough of the equity snapshots
+  maxDrawdownPercent: number;
+}
+
+const PERFORMANCE_PERIODS: PerformancePeriod[] = [
+  "day",
+  "week",
+  "month",
+  "all",
+];
+const MAX_SNAPSHOTS = 10000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Tracks how the account performs over time. Equity valued in USDT is
+ * snapshotted on an interval into data/equity-snapshots.json; realized PnL,
+ * fees, funding and win rate come from the trade journal. Reports cover the
+ * current UTC day, week (from Monday) or month, or all history, and a
+ * summary of the last 24 hours is sent to Telegram once a day.
+ */
+export class PerformanceService {
+  private readonly snapshotsFile: string;
+  private config: PerformanceConfig;
+  private account: EquitySource;
+  private tradeJournal: TradeJournal;
+  private telegramService: TelegramService;
+  private clock: Clock;
+  private snapshots: EquitySnapshot[] = [];
+  private snapshotTimer: ClockTimer | null = null;
+  private summaryTimer: ClockTimer | null = null;
+
+  constructor(
+    config: PerformanceConfig,
+    account: EquitySource,
+    tradeJournal: TradeJournal,
+    telegramService: TelegramService,
+    clock: Clock = systemClock
+  ) {
+    this.config = config;
+    this.account = account;
+    this.tradeJournal = tradeJournal;
+    this.telegramService = telegramService;
+    this.clock = clock;
+    this.snapshotsFile = path.join(
+      process.cwd(),
+      "/data/equity-snapshots.json"
+    );
+    this.loadSnapshots();
+  }
+
+  start(): void {
+    if (this.snapshotTimer) return;
+
+    this.recordSnapshot();
+    this.snapshotTimer = this.clock.setInterval(
+      () => this.recordSnapshot(),
+      this.config.snapshotInterval * 60 * 1000
+    );
+
+    if (this.config.dailySummaryEnabled) {
+      this.scheduleDailySummary();
+    }
+
+    console.log(
+      `📈 Performance tracking started (snapshot every ${this.config.snapshotInterval} minutes)`
+    );
+  }
+
+  stop(): void {
+    if (this.snapshotTimer) {
+      this.clock.clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+    if (this.summaryTimer) {
+      this.clock.clearTimeout(this.summaryTimer);
+      this.summaryTimer = null;
+    }
+  }
+
+  /**
+   * Value the account and store a snapshot
+   */
+  async takeSnapshot(): Promise<EquitySnapshot> {
+    const [equity, unrealizedPnl] = await Promise.all([
+      this.account.getEquityValue(),
+      this.account.getUnrealizedPnl(),
+    ]);
+    const snapshot = { timestamp: this.clock.now(), equity, unrealizedPnl };
+
+    this.snapshots.push(snapshot);
+    if (this.snapshots.length > MAX_SNAPSHOTS) {
+      this.snapshots = this.snapshots.slice(-MAX_SNAPSHOTS);
+    }
+    this.saveSnapshots();
+    return snapshot;
+  }
+
+  /**
+   * Report for the current day, week or month (UTC), or all history
+   */
+  async getReport(period: PerformancePeriod): Promise<PerformanceReport> {
+    const now = this.clock.now();
+    return await this.getReportBetween(this.getPeriodStart(period, now), now);
+  }
+
+  /**
+   * Report between two times. Ending now values the account live, past
+   * periods end at their last snapshot.
+   */
+  async getReportBetween(from: number, to: number): Promise<PerformanceReport> {
+    const endsNow = to >= this.clock.now();
+    await this.tradeJournal.sync();
+
+    const endSnapshot = endsNow
+      ? await this.takeSnapshot()
+      : this.findSnapshotAtOrBefore(to);
+    const startSnapshot =
+      this.findSnapshotAtOrBefore(from) ??
+      this.snapshots.find(
+        (snapshot) => snapshot.timestamp >= from && snapshot.timestamp <= to
+      ) ??
+      null;
+
+    const { trades } = this.tradeJournal.getTrades({
+      from,
+      to,
+      limit: Infinity,
+    });
+    const closedTrades = trades.filter((trade) => trade.status === "closed");
+    const realizedPnl = closedTrades.reduce(
+      (total, trade) => total + trade.realizedPnl,
+      0
+    );
+    const fees = closedTrades.reduce((total, trade) => total + trade.fees, 0);
+    const funding = closedTrades.reduce(
+      (total, trade) => total + trade.funding,
+      0
+    );
+    const netPnls = closedTrades.map((trade) => trade.netPnl);
+    const wins = netPnls.filter((pnl) => pnl > 0).length;
+
+    const startEquity = startSnapshot?.equity ?? null;
+    const endEquity = endSnapshot?.equity ?? null;
+    const equityChange =
+      startEquity !== null && endEquity !== null ? endEquity - startEquity : 0;
+    const drawdown = this.getMaxDrawdown(from, to);
+
+    return {
+      from,
+      to,
+      startEquity,
+      endEquity,
+      equityChange,
+      equityChangePercent: startEquity ? (equityChange / startEquity) * 100 : 0,
+      realizedPnl,
+      fees,
+      funding,
+      netRealizedPnl: realizedPnl - fees + funding,
+      unrealizedPnl: endSnapshot?.unrealizedPnl ?? 0,
+      tradeCount: closedTrades.length,
+      wins,
+      losses: closedTrades.length - wins,
+      winRate: closedTrades.length > 0 ? (wins / closedTrades.length) * 100 : 0,
+      bestTrade: netPnls.length > 0 ? Math.max(...netPnls) : null,
+      worstTrade: netPnls.length > 0 ? Math.min(...netPnls) : null,
+      maxDrawdown: drawdown.amount,
+      maxDrawdownPercent: drawdown.percent,
+    };
+  }
+
+  /**
+   * Send the summary of the last 24 hours to Telegram
+   */
+  async sendDailySummary(): Promise<void> {
+    const now = this.clock.now();
+    const report = await this.getReportBetween(now - DAY_MS, now);
+    await this.telegramService.sendMessage(
+      this.formatReport(report, "📅 TỔNG KẾT NGÀY")
+    );
+  }
+
+  /**
+   * Telegram HTML for a report
+   */
+  formatReport(report: PerformanceReport, title: string): string {
+    const signed = (value: number, digits: number = 2) =>
+      `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`;
+    const equityText =
+      report.startEquity !== null && report.endEquity !== null
+        ? `${report.startEquity.toFixed(2)} → ${report.endEquity.toFixed(
+            2
+          )} USDT (${signed(report.equityChange)} / ${signed(
+            report.equityChangePercent
+          )}%)`
+        : report.endEquity !== null
+        ? `${report.endEquity.toFixed(2)} USDT`
+        : "Chưa có dữ liệu";
+
+    return `
+<b>${title}</b>
+<i>${new Date(report.from)
+      .toISOString()
+      .slice(0, 16)
+      .replace("T", " ")} → ${new Date(report.to)
+      .toISOString()
+      .slice(0, 16)
+      .replace("T", " ")} UTC</i>
+
+<b>Equity:</b> ${equityText}
+<b>PnL đã chốt:</b> ${signed(report.realizedPnl)} USDT
+<b>Phí:</b> ${report.fees.toFixed(4)} USDT
+<b>Funding:</b> ${signed(report.funding, 4)} USDT
+<b>PnL ròng đã chốt:</b> ${signed(report.netRealizedPnl)} USDT
+<b>PnL chưa chốt:</b> ${signed(report.unrealizedPnl)} USDT
+
+<b>Giao dịch đã đóng:</b> ${report.tradeCount} (${report.wins} thắng / ${
+      report.losses
+    } thua)
+<b>Tỷ lệ thắng:</b> ${report.winRate.toFixed(1)}%
+<b>Tốt nhất / Tệ nhất:</b> ${
+      report.bestTrade !== null ? signed(report.bestTrade) : "-"
+    } / ${report.worstTrade !== null ? signed(report.worstTrade) : "-"} USDT
+<b>Drawdown tối đa:</b> ${report.maxDrawdown.toFixed(
+      2
+    )} USDT (${report.maxDrawdownPercent.toFixed(2)}%)
+    `.trim();
+  }
+
+  /**
+   * Parse a /pnl period argument, null when unknown
+   */
+  parsePeriod(value?: string): PerformancePeriod | null {
+    const period = (value || "day").trim().toLowerCase();
+    return PERFORMANCE_PERIODS.includes(period as PerformancePeriod)
+      ? (period as PerformancePeriod)
+      : null;
+  }
+
+  getSnapshots(since: number = 0): EquitySnapshot[] {
+    return this.snapshots.filter((snapshot) => snapshot.timestamp >= since);
+  }
+
+  private recordSnapshot(): void {
+    this.takeSnapshot().catch((error) =>
+      console.error("❌ Error taking equity snapshot:", error)
+    );
+  }
+
+  /**
+   * Send the summary at the configured UTC hour, then every day after
+   */
+  private scheduleDailySummary(): void {
+    const now = this.clock.now();
+    const dayStart = now - (now % DAY_MS);
+    let next = dayStart + this.config.dailySummaryHour * HOUR_MS;
+    if (next <= now) {
+      next += DAY_MS;
+    }
+
+    this.summaryTimer = this.clock.setTimeout(() => {
+      this.summaryTimer = null;
+      this.sendDailySummary()
+        .catch((error) =>
+          console.error("❌ Error sending daily summary:", error)
+        )
+        .finally(() => {
+          if (this.snapshotTimer) {
+            this.scheduleDailySummary();
+          }
+        });
+    }, next - now);
+  }
+
+  private getPeriodStart(period: PerformancePeriod, now: number): number {
+    const date = new Date(now - (now % DAY_MS));
+    switch (period) {
+      case "day":
+        return date.getTime();
+      case "week":
+        // getUTCDay() is 0 on Sunday, weeks start on Monday
+        return date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+      case "month":
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+      case "all":
+        return 0;
+    }
+  }
+
+  private findSnapshotAtOrBefore(time: number): EquitySnapshot | null {
+    for (let i = this.snapshots.length - 1; i >= 0; i--) {
+      const snapshot = this.snapshots[i];
+      if (snapshot && snapshot.timestamp <= time) return snapshot;
+    }
+    return null;
+  }
+
+  /**
+   * Largest peak-to-trough equity drop between two times
+   */
+  private getMaxDrawdown(
+    from: number,
+    to: number
+  ): { amount: number; percent: number } {
+    let peak = -Infinity;
+    let amount = 0;
+    let percent = 0;
+
+    for (const snapshot of this.snapshots) {
+      if (snapshot.timestamp < from || snapshot.timestamp > to) continue;
+
+      peak = Math.max(peak, snapshot.equity);
+      const drop = peak - snapshot.equity;
+      if (drop > amount) {
+        amount = drop;
+        percent = peak > 0 ? (drop / peak) * 100 : 0;
+      }
+    }
+
+    return { amount, percent };
+  }
+
+  /**
+   * Load equity snapshots from JSON file
+   */
+  private loadSnapshots(): void {
+    try {
+      if (fs.existsSync(this.snapshotsFile)) {
+        const data = JSON.parse(fs.readFileSync(this.snapshotsFile, "utf8"));
+        this.snapshots = data.snapshots || [];
+      }
+    } catch (error) {
+      console.error("❌ Error loading equity snapshots:", error);
+      this.snapshots = [];
+    }
+  }
+
+  /**
+   * Save equity snapshots to JSON file
+   */
+  private saveSnapshots(): void {
+    try {
+      const dataDir = path.dirname(this.snapshotsFile);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      fs.writeFileSync(
+        this.snapshotsFile,
+        JSON.stringify({ snapshots: this.snapshots }, null, 2)
+      );
+    } catch (error) {
+      console.error("❌ Error saving equity snapshots:", error);
+    }
+  }
+}
@@ -0,0 +1,465 @@
+import {
+  AlgoOrder,
+  Fill,
+  FuturesOrder,
+  FuturesPosition,
+  OKXService,
+} from "./okx.service";
+import { BotAction, BotActionService } from "./bot-action.service";
+import {
+  BalanceAndPositionEvent,
+  OKXPrivateStreamListener,
+} from "./okx-private-stream.service";
+import { TelegramService } from "./telegram.service";
+import { Clock, ClockTimer, systemClock } from "../utils/clock.utils";
+
+export interface ReconciliationReport {
+  updatedActions: BotAction[];
+  triggeredProtections: AlgoOrder[];
+  unknownPositions: string[]; // instId:posSide
+}
+
+const ORDER_TRACKING_WINDOW = 7 * 24 * 60 * 60 * 1000; // Older orders are no longer polled
+const POSITION_MATCH_SLACK = 60 * 1000; // Without fill history: action queued up to a minute before the position opened
+const FILL_TIME_SLACK = 1000; // Position open time and its first fill time may differ by a few ms
+const MAX_NOTIFIED_ALGOS = 1000;
+
+/**
+ * Compares what the bot believes it traded with what happened on OKX.
+ * Each pass polls the orders of accepted buy/sell actions and moves them to
+ * partially_filled, filled or canceled, diffs pending TP/SL algo orders
+ * against the previous pass to find the ones that triggered, and flags
+ * open positions that no bot action opened. Limit order fills, TP/SL
+ * triggers and unknown positions are reported to Telegram.
+ *
+ * As a private stream listener, order pushes update actions and report
+ * fills and TP/SL triggers as they happen; polling then only catches what
+ * a disconnected stream missed. Liquidations and ADL are reported from
+ * balance_and_position events.
+ */
+export class ReconciliationService implements OKXPrivateStreamListener {
+  private okxService: OKXService;
+  private botActionService: BotActionService;
+  private telegramService: TelegramService;
+  private clock: Clock;
+  private intervalMs: number;
+  private timer: ClockTimer | null = null;
+  private isReconciling: boolean = false;
+  private pendingAlgoIds: Set<string> | null = null; // null until the first pass
+  private reportedPositions: Set<string> = new Set();
+  private botPositions: Set<string> = new Set(); // Positions matched to a bot order
+  private openingFills: Map<string, Fill | null> = new Map(); // Looked up once per position
+  private notifiedAlgoIds: Set<string> = new Set(); // Shared by pushes and polling
+
+  /**
+   * @param intervalMs Time between reconciliation passes
+   */
+  constructor(
+    okxService: OKXService,
+    botActionService: BotActionService,
+    telegramService: TelegramService,
+    intervalMs: number,
+    clock: Clock = systemClock
+  ) {
+    this.okxService = okxService;
+    this.botActionService = botActionService;
+    this.telegramService = telegramService;
+    this.intervalMs = intervalMs;
+    this.clock = clock;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = this.clock.setInterval(() => {
+      this.reconcile().catch((error) =>
+        console.error("❌ Error reconciling with OKX:", error)
+      );
+    }, this.intervalMs);
+
+    console.log(
+      `🔄 Reconciliation started (every ${Math.round(this.intervalMs / 1000)}s)`
+    );
+  }
+
+  stop(): void {
+    if (this.timer) {
+      this.clock.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one reconciliation pass
+   */
+  async reconcile(): Promise<ReconciliationReport> {
+    if (this.isReconciling) {
+      return {
+        updatedActions: [],
+        triggeredProtections: [],
+        unknownPositions: [],
+      };
+    }
+    this.isReconciling = true;
+
+    try {
+      return {
+        updatedActions: await this.syncOrders(),
+        triggeredProtections: await this.syncProtection(),
+        unknownPositions: await this.syncPositions(),
+      };
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  /**
+   * Update open order actions from their OKX order state
+   */
+  private async syncOrders(): Promise<BotAction[]> {
+    const updated: BotAction[] = [];
+    const actions = this.botActionService.getOpenOrderActions(
+      this.clock.now() - ORDER_TRACKING_WINDOW
+    );
+
+    for (const action of actions) {
+      try {
+        const order = await this.okxService.getOrder(
+          action.result.instId || action.parameters.symbol,
+          action.result.orderId
+        );
+        const changed = await this.applyOrder(action, order);
+        if (changed) {
+          updated.push(changed);
+        }
+      } catch (error) {
+        console.error(`❌ Error reconciling action ${action.id}:`, error);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Move an action to its order's state, reporting limit order fills
+   */
+  private async applyOrder(
+    action: BotAction,
+    order: FuturesOrder
+  ): Promise<BotAction | null> {
+    const status = this.toActionStatus(order.status);
+    const changed = this.botActionService.updateOrderStatus(action.id, status, {
+      size: order.filledQuantity ?? 0,
+      ...(order.averagePrice !== undefined
+        ? { averagePrice: order.averagePrice }
+        : {}),
+      fee: order.fee ?? 0,
+    });
+
+    // Market orders fill right away, only resting limits are news
+    if (changed && status === "filled" && action.parameters.price) {
+      await this.notifyLimitFill(changed, order.symbol);
+    }
+    return changed;
+  }
+
+  /**
+   * Order push: bot orders are matched by clOrdId (the action id), orders
+   * placed by a TP/SL trigger by their algoId
+   */
+  async onOrder(order: FuturesOrder): Promise<void> {
+    if (order.clientOrderId) {
+      const action = this.botActionService.getActionStatus(order.clientOrderId);
+      if (
+        action &&
+        action.result?.orderId === order.orderId &&
+        (action.status === "completed" || action.status === "partially_filled")
+      ) {
+        await this.applyOrder(action, order);
+      }
+      return;
+    }
+
+    if (order.algoId && order.status === "filled") {
+      const algo = await this.okxService.getAlgoOrder(order.algoId);
+      if (this.markAlgoNotified(algo.algoId)) {
+        const fills = await this.okxService.getFills({
+          symbol: order.symbol,
+          orderId: order.orderId,
+        });
+        await this.notifyProtectionTriggered(algo, fills);
+      }
+    }
+  }
+
+  /**
+   * Account event push, reports forced reductions
+   */
+  async onBalanceAndPosition(event: BalanceAndPositionEvent): Promise<void> {
+    if (event.eventType !== "liquidation" && event.eventType !== "adl") return;
+
+    const title =
+      event.eventType === "liquidation"
+        ? "💥 VỊ THẾ BỊ THANH LÝ"
+        : "⚠️ VỊ THẾ BỊ GIẢM TỰ ĐỘNG (ADL)";
+    const positions = event.positions
+      .map(
+        (position) =>
+          `• ${position.symbol} ${position.position}: còn ${position.quantity} hợp đồng`
+      )
+      .join("\n");
+
+    console.warn(`⚠️ OKX ${event.eventType} event`);
+    await this.telegramService.sendMessage(
+      `<b>${title}</b>\n\n${positions || "-"}\n\n<b>Thời gian:</b> ${new Date(
+        event.timestamp
+      ).toLocaleString()}`
+    );
+  }
+
+  private toActionStatus(
+    state: string
+  ): "completed" | "partially_filled" | "filled" | "canceled" {
+    switch (state) {
+      case "partially_filled":
+      case "filled":
+        return state;
+      case "canceled":
+      case "mmp_canceled":
+        return "canceled";
+      default:
+        return "completed";
+    }
+  }
+
+  /**
+   * Find TP/SL orders that left the pending list since the last pass and
+   * report the ones that triggered
+   */
+  private async syncProtection(): Promise<AlgoOrder[]> {
+    const pending = await this.okxService.getPendingAlgoOrders();
+    const previous = this.pendingAlgoIds;
+    this.pendingAlgoIds = new Set(pending.map((order) => order.algoId));
+
+    // The first pass only records the baseline
+    if (!previous) return [];
+
+    const triggered: AlgoOrder[] = [];
+    for (const algoId of previous) {
+      if (this.pendingAlgoIds.has(algoId)) continue;
+
+      try {
+        const algo = await this.okxService.getAlgoOrder(algoId);
+        if (algo.state !== "effective" || !this.markAlgoNotified(algoId)) {
+          continue;
+        }
+
+        const fills = algo.triggeredOrderId
+          ? await this.okxService.getFills({
+              symbol: algo.symbol,
+              orderId: algo.triggeredOrderId,
+            })
+          : [];
+        triggered.push(algo);
+        await this.notifyProtectionTriggered(algo, fills);
+      } catch (error) {
+        console.error(`❌ Error checking algo order ${algoId}:`, error);
+      }
+    }
+
+    return triggered;
+  }
+
+  /**
+   * Report positions no bot action opened, once per position
+   */
+  private async syncPositions(): Promise<string[]> {
+    const positions = await this.okxService.getPositions();
+    const openKeys = new Set<string>();
+    const unknown: string[] = [];
+
+    for (const position of positions) {
+      const key = `${position.symbol}:${position.position}:${position.openedAt}`;
+      openKeys.add(key);
+
+      if (this.botPositions.has(key)) continue;
+      if (await this.isBotPosition(position, key)) {
+        this.botPositions.add(key);
+        continue;
+      }
+
+      unknown.push(`${position.symbol}:${position.position}`);
+      if (this.reportedPositions.has(key)) continue;
+
+      this.reportedPositions.add(key);
+      console.log(
+        `⚠️ Unknown position on OKX: ${position.symbol} ${position.position}`
+      );
+      await this.telegramService.sendMessage(
+        `<b>⚠️ VỊ THẾ KHÔNG DO BOT MỞ</b>\n\n<b>Symbol:</b> ${
+          position.symbol
+        }\n<b>Vị thế:</b> ${position.position}\n<b>Khối lượng:</b> ${
+          position.quantity
+        } hợp đồng\n<b>Giá vào:</b> ${
+          position.averagePrice
+        }\n<b>Mở lúc:</b> ${new Date(
+          position.openedAt
+        ).toLocaleString()}\n\n<i>Lệnh thủ công hoặc từ bot khác, risk manager vẫn tính vị thế này.</i>`
+      );
+    }
+
+    // Forget closed positions
+    for (const keys of [
+      this.reportedPositions,
+      this.botPositions,
+      this.openingFills,
+    ]) {
+      for (const key of keys.keys()) {
+        if (!openKeys.has(key)) {
+          keys.delete(key);
+        }
+      }
+    }
+
+    return unknown;
+  }
+
+  /**
+   * Check whether a bot order opened the position. A resting limit can fill
+   * long after its action was queued, so the order of the position's first
+   * fill is matched against the actions' orders. Positions older than the
+   * fill history fall back to the action time. The first fill is looked up
+   * once per position key, so a position reopened later is looked up again.
+   */
+  private async isBotPosition(
+    position: FuturesPosition,
+    key: string
+  ): Promise<boolean> {
+    const actions = this.botActionService
+      .getActionHistory({
+        from: position.openedAt - ORDER_TRACKING_WINDOW,
+        limit: Infinity,
+      })
+      .filter(
+        (action) =>
+          (action.type === "buy" || action.type === "sell") &&
+          (action.type === "buy" ? "long" : "short") === position.position &&
+          (action.result?.instId || action.symbol) === position.symbol
+      );
+    if (actions.length === 0) return false;
+
+    const openingFill = await this.getOpeningFill(position, key);
+
+    if (!openingFill) {
+      return actions.some(
+        (action) =>
+          action.timestamp >= position.openedAt - POSITION_MATCH_SLACK &&
+          action.status !== "failed" &&
+          action.status !== "canceled"
+      );
+    }
+
+    // A canceled limit may still have opened the position before canceling
+    return actions.some(
+      (action) => action.result?.orderId === openingFill.orderId
+    );
+  }
+
+  /**
+   * First fill of a position, null when it is older than the fill history
+   */
+  private async getOpeningFill(
+    position: FuturesPosition,
+    key: string
+  ): Promise<Fill | null> {
+    const cached = this.openingFills.get(key);
+    if (cached !== undefined) return cached;
+
+    const entrySide = position.position === "long" ? "buy" : "sell";
+    const fills = await this.okxService.getFillsHistory(
+      position.openedAt - FILL_TIME_SLACK,
+      position.symbol
+    );
+    const openingFill =
+      fills.find(
+        (fill) => fill.position === position.position && fill.side === entrySide
+      ) ?? null;
+    this.openingFills.set(key, openingFill);
+    return openingFill;
+  }
+
+  /**
+   * Remember a triggered algo order, false when it was already reported
+   */
+  private markAlgoNotified(algoId: string): boolean {
+    if (this.notifiedAlgoIds.has(algoId)) return false;
+
+    this.notifiedAlgoIds.add(algoId);
+    if (this.notifiedAlgoIds.size > MAX_NOTIFIED_ALGOS) {
+      const [oldest] = this.notifiedAlgoIds;
+      if (oldest !== undefined) {
+        this.notifiedAlgoIds.delete(oldest);
+      }
+    }
+    return true;
+  }
+
+  private async notifyLimitFill(
+    action: BotAction,
+    instId: string
+  ): Promise<void> {
+    const fill = action.fill;
+    const sideText = action.type === "buy" ? "🟢 MUA (Long)" : "🔴 BÁN (Short)";
+
+    await this.telegramService.sendMessage(
+      `<b>✅ LỆNH LIMIT ĐÃ KHỚP</b>\n\n<b>Symbol:</b> ${instId}\n<b>Loại:</b> ${sideText}\n<b>Khối lượng:</b> ${
+        fill?.size ?? "-"
+      } hợp đồng\n<b>Giá khớp:</b> ${fill?.averagePrice ?? "-"}\n<b>Phí:</b> ${(
+        fill?.fee ?? 0
+      ).toFixed(4)} USDT\n<b>Order ID:</b> ${
+        action.result?.orderId
+      }\n<b>Action:</b> ${action.id}`
+    );
+  }
+
+  private async notifyProtectionTriggered(
+    algo: AlgoOrder,
+    fills: Fill[]
+  ): Promise<void> {
+    const size = fills.reduce((total, fill) => total + fill.quantity, 0);
+    const averagePrice =
+      size > 0
+        ? fills.reduce((total, fill) => total + fill.price * fill.quantity, 0) /
+          size
+        : null;
+    const realizedPnl = fills.reduce(
+      (total, fill) => total + fill.realizedPnl + fill.fee,
+      0
+    );
+    const title =
+      algo.triggeredSide === "tp"
+        ? "🎯 TAKE PROFIT ĐÃ KÍCH HOẠT"
+        : algo.triggeredSide === "sl"
+        ? "🛑 STOP LOSS ĐÃ KÍCH HOẠT"
+        : "⚡ TP/SL ĐÃ KÍCH HOẠT";
+
+    console.log(
+      `⚡ ${algo.triggeredSide?.toUpperCase() || "TP/SL"} triggered: ${
+        algo.symbol
+      } ${algo.position}`
+    );
+    await this.telegramService.sendMessage(
+      `<b>${title}</b>\n\n<b>Symbol:</b> ${algo.symbol}\n<b>Vị thế:</b> ${
+        algo.position
+      }\n<b>Khối lượng:</b> ${
+        size || algo.quantity
+      } hợp đồng\n<b>Giá khớp:</b> ${
+        averagePrice !== null ? averagePrice.toFixed(4) : "-"
+      }\n<b>PnL (sau phí):</b> ${
+        fills.length > 0
+          ? `${realizedPnl >= 0 ? "+" : ""}${realizedPnl.toFixed(2)} USDT`
+          : "-"
+      }`
+    );
+  }
+}
@@ -0,0 +1,387 @@
+import fs from "fs";
+import path from "path";
+import { BotAction } from "./bot-action.service";
+import { InstrumentRegistry } from "./instrument-registry.service";
+import { TelegramService } from "./telegram.service";
+import { RiskConfig } from "../types/market.model";
+import { Clock, ClockTimer, systemClock } from "../utils/clock.utils";
+
+export interface RiskPosition {
+  instId: string;
+  posSide: "long" | "short";
+  notional: number; // USDT at the mark price
+}
+
+/**
+ * Account access needed to enforce limits and flatten on a kill switch,
+ * implemented by the live OKX and paper executors
+ */
+export interface RiskAccount {
+  getOpenPositions(): Promise<RiskPosition[]>;
+  getAccountEquity(): Promise<number>;
+  getCurrentPrice(instId: string): Promise<number>;
+  getRealizedPnl(since: number): Promise<number>; // USDT, fees included
+  cancelAllOrders(): Promise<number>;
+  closeAllPositions(): Promise<number>;
+}
+
+export interface KillSwitchState {
+  active: boolean;
+  reason?: string;
+  trippedAt?: number;
+  resetAt?: number; // Daily loss is counted from the later of UTC midnight and the last reset
+}
+
+const DEFAULT_ORDER_LEVERAGE = 20; // Executors' leverage when an order omits it
+const OPENING_ACTIONS = ["buy", "sell"];
+const REDUCING_ACTIONS = ["close_position", "cancel_order", "set_tpsl"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Pre-trade checks for every action before it reaches an executor.
+ * Opening orders are checked against blocked symbols, leverage, order rate,
+ * open position count and notional per symbol; leverage changes against the
+ * leverage cap. Closing, cancelling and TP/SL actions always pass so risk
+ * can be reduced at any time.
+ *
+ * A daily realized loss over the limit trips the kill switch: pending
+ * orders are canceled, positions optionally closed, Telegram is notified
+ * and new entries are blocked until /risk reset. The kill switch state is
+ * kept in data/risk-state.json so a restart does not clear it.
+ */
+export class RiskManager {
+  private readonly stateFile: string;
+  private readonly checkIntervalMs = 60 * 1000;
+  private config: RiskConfig;
+  private account: RiskAccount;
+  private instrumentRegistry: InstrumentRegistry;
+  private telegramService: TelegramService;
+  private clock: Clock;
+  private killSwitch: KillSwitchState = { active: false };
+  private orderTimes: number[] = [];
+  private checkTimer: ClockTimer | null = null;
+
+  constructor(
+    config: RiskConfig,
+    account: RiskAccount,
+    instrumentRegistry: InstrumentRegistry,
+    telegramService: TelegramService,
+    clock: Clock = systemClock
+  ) {
+    this.config = config;
+    this.account = account;
+    this.instrumentRegistry = instrumentRegistry;
+    this.telegramService = telegramService;
+    this.clock = clock;
+    this.stateFile = path.join(process.cwd(), "/data/risk-state.json");
+    this.loadState();
+  }
+
+  /**
+   * Check the daily loss every minute, so the kill switch trips on losses
+   * from TP/SL and manual trades too
+   */
+  start(): void {
+    if (this.checkTimer || this.config.maxDailyLoss <= 0) return;
+
+    this.checkTimer = this.clock.setInterval(() => {
+      this.checkDailyLoss().catch((error) =>
+        console.error("❌ Error checking daily loss:", error)
+      );
+    }, this.checkIntervalMs);
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      this.clock.clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  /**
+   * Throw when the action breaks a risk limit or the kill switch is on
+   */
+  async checkAction(action: BotAction): Promise<void> {
+    if (REDUCING_ACTIONS.includes(action.type)) return;
+
+    this.assertKillSwitchOff(action);
+
+    const symbol: string = action.parameters.symbol || action.symbol;
+    const instId = this.resolveInstId(symbol);
+
+    if (this.isBlocked(symbol, instId)) {
+      throw new Error(`Risk limit: ${instId} is blocked`);
+    }
+
+    const leverage =
+      action.parameters.leverage ??
+      (OPENING_ACTIONS.includes(action.type) ? DEFAULT_ORDER_LEVERAGE : 0);
+    if (this.config.maxLeverage > 0 && leverage > this.config.maxLeverage) {
+      throw new Error(
+        `Risk limit: leverage ${leverage}x exceeds the maximum of ${this.config.maxLeverage}x`
+      );
+    }
+
+    if (!OPENING_ACTIONS.includes(action.type)) return;
+
+    this.checkOrderRate();
+    await this.checkDailyLoss();
+    this.assertKillSwitchOff(action);
+    await this.checkExposure(action, instId);
+
+    this.orderTimes.push(this.clock.now());
+  }
+
+  /**
+   * Trip the kill switch when today's realized loss reaches the limit
+   */
+  async checkDailyLoss(): Promise<void> {
+    if (this.config.maxDailyLoss <= 0 || this.killSwitch.active) return;
+
+    const realizedPnl = await this.getDailyRealizedPnl();
+    if (realizedPnl <= -this.config.maxDailyLoss) {
+      await this.tripKillSwitch(
+        `Daily realized loss ${(-realizedPnl).toFixed(2)} USDT reached the ${
+          this.config.maxDailyLoss
+        } USDT limit`
+      );
+    }
+  }
+
+  /**
+   * Realized PnL since UTC midnight, or since the last kill switch reset
+   */
+  async getDailyRealizedPnl(): Promise<number> {
+    const now = this.clock.now();
+    const dayStart = now - (now % DAY_MS);
+    return await this.account.getRealizedPnl(
+      Math.max(dayStart, this.killSwitch.resetAt ?? 0)
+    );
+  }
+
+  /**
+   * Block new entries, cancel pending orders, optionally close every
+   * position, and notify Telegram
+   */
+  async tripKillSwitch(reason: string): Promise<void> {
+    if (this.killSwitch.active) return;
+
+    this.killSwitch = {
+      ...this.killSwitch,
+      active: true,
+      reason,
+      trippedAt: this.clock.now(),
+    };
+    this.saveState();
+    console.error(`🛑 Kill switch tripped: ${reason}`);
+
+    const results: string[] = [];
+    try {
+      const canceled = await this.account.cancelAllOrders();
+      results.push(`Đã hủy ${canceled} lệnh chờ`);
+    } catch (error) {
+      console.error("❌ Error canceling orders on kill switch:", error);
+      results.push(`❌ Hủy lệnh chờ thất bại: ${this.getErrorMessage(error)}`);
+    }
+
+    if (this.config.flattenOnKill) {
+      try {
+        const closed = await this.account.closeAllPositions();
+        results.push(`Đã đóng ${closed} vị thế`);
+      } catch (error) {
+        console.error("❌ Error closing positions on kill switch:", error);
+        results.push(`❌ Đóng vị thế thất bại: ${this.getErrorMessage(error)}`);
+      }
+    }
+
+    try {
+      await this.telegramService.sendMessage(
+        `<b>🛑 KILL SWITCH ĐÃ KÍCH HOẠT</b>\n\n<b>Lý do:</b> ${reason}\n${results
+          .map((result) => `• ${result}`)
+          .join(
+            "\n"
+          )}\n\nMọi lệnh mở vị thế mới bị chặn cho đến khi gửi /risk reset`
+      );
+    } catch (error) {
+      console.error("❌ Error sending kill switch notification:", error);
+    }
+  }
+
+  /**
+   * Turn the kill switch off. Returns false when it was not active.
+   */
+  resetKillSwitch(): boolean {
+    if (!this.killSwitch.active) return false;
+
+    this.killSwitch = { active: false, resetAt: this.clock.now() };
+    this.saveState();
+    console.log("✅ Kill switch reset");
+    return true;
+  }
+
+  getKillSwitchState(): KillSwitchState {
+    return { ...this.killSwitch };
+  }
+
+  getConfig(): RiskConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Opening orders accepted in the last minute
+   */
+  getRecentOrderCount(): number {
+    const cutoff = this.clock.now() - 60 * 1000;
+    this.orderTimes = this.orderTimes.filter((time) => time > cutoff);
+    return this.orderTimes.length;
+  }
+
+  private assertKillSwitchOff(action: BotAction): void {
+    if (this.killSwitch.active) {
+      throw new Error(
+        `Kill switch active (${this.killSwitch.reason}), ${action.type} blocked until /risk reset`
+      );
+    }
+  }
+
+  private checkOrderRate(): void {
+    if (this.config.maxOrdersPerMinute <= 0) return;
+
+    if (this.getRecentOrderCount() >= this.config.maxOrdersPerMinute) {
+      throw new Error(
+        `Risk limit: more than ${this.config.maxOrdersPerMinute} orders per minute`
+      );
+    }
+  }
+
+  /**
+   * Check open position count and the symbol's notional after the order
+   */
+  private async checkExposure(
+    action: BotAction,
+    instId: string
+  ): Promise<void> {
+    const { maxOpenPositions, maxNotionalPerSymbol } = this.config;
+    if (maxOpenPositions <= 0 && maxNotionalPerSymbol <= 0) return;
+
+    const positions = await this.account.getOpenPositions();
+    const posSide = action.type === "buy" ? "long" : "short";
+
+    if (
+      maxOpenPositions > 0 &&
+      positions.length >= maxOpenPositions &&
+      !positions.some(
+        (position) => position.instId === instId && position.posSide === posSide
+      )
+    ) {
+      throw new Error(
+        `Risk limit: ${positions.length} positions open, maximum is ${maxOpenPositions}`
+      );
+    }
+
+    if (maxNotionalPerSymbol > 0) {
+      const currentNotional = positions
+        .filter((position) => position.instId === instId)
+        .reduce((total, position) => total + position.notional, 0);
+      const orderNotional = await this.estimateNotional(action, instId);
+
+      if (currentNotional + orderNotional > maxNotionalPerSymbol) {
+        throw new Error(
+          `Risk limit: ${instId} notional ${(
+            currentNotional + orderNotional
+          ).toFixed(
+            2
+          )} USDT exceeds the maximum of ${maxNotionalPerSymbol} USDT`
+        );
+      }
+    }
+  }
+
+  /**
+   * Order notional in USDT. Risk-sized orders are bounded by the size that
+   * loses riskPercent of equity at the stop, before fees and lot rounding.
+   */
+  private async estimateNotional(
+    action: BotAction,
+    instId: string
+  ): Promise<number> {
+    const { price, quantity, riskPercent, stopLossPrice, stopLossPercent } =
+      action.parameters;
+    const entryPrice: number =
+      price || (await this.account.getCurrentPrice(instId));
+
+    if (quantity) {
+      const instrument = this.instrumentRegistry.getInstrument(
+        instId,
+        "okx",
+        "swap"
+      );
+      return quantity * (instrument?.contractValue ?? 1) * entryPrice;
+    }
+
+    const stopDistance = stopLossPrice
+      ? Math.abs(entryPrice - stopLossPrice) / entryPrice
+      : (stopLossPercent || 0) / 100;
+    if (!riskPercent || stopDistance <= 0) {
+      return 0; // Rejected by the executor without a size or stop
+    }
+
+    const equity = await this.account.getAccountEquity();
+    return (equity * riskPercent) / 100 / stopDistance;
+  }
+
+  private isBlocked(symbol: string, instId: string): boolean {
+    return this.config.blockedSymbols.some(
+      (blocked) =>
+        blocked === symbol.toUpperCase() || blocked === instId.toUpperCase()
+    );
+  }
+
+  private resolveInstId(symbol: string): string {
+    return (
+      this.instrumentRegistry.getInstrument(symbol, "okx", "swap")
+        ?.venueSymbol ?? symbol
+    );
+  }
+
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : "Unknown error";
+  }
+
+  /**
+   * Load kill switch state from JSON file
+   */
+  private loadState(): void {
+    try {
+      if (fs.existsSync(this.stateFile)) {
+        const data = JSON.parse(fs.readFileSync(this.stateFile, "utf8"));
+        this.killSwitch = data.killSwitch || { active: false };
+        if (this.killSwitch.active) {
+          console.log(`🛑 Kill switch still active: ${this.killSwitch.reason}`);
+        }
+      }
+    } catch (error) {
+      console.error("❌ Error loading risk state:", error);
+      this.killSwitch = { active: false };
+    }
+  }
+
+  /**
+   * Save kill switch state to JSON file
+   */
+  private saveState(): void {
+    try {
+      const dataDir = path.dirname(this.stateFile);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      fs.writeFileSync(
+        this.stateFile,
+        JSON.stringify({ killSwitch: this.killSwitch }, null, 2)
+      );
+    } catch (error) {
+      console.error("❌ Error saving risk state:", error);
+    }
+  }
+}
@@ -6,19 +6,37 @@ import {
   RSIDivergenceTracker,
   KlineData,
 } from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+import { ClosedCandleCursor, StreamingRSI } from "../utils/indicators.utils";
+
+const RSI_HISTORY_SIZE = 50;
 
 export class RSIDivergenceService {
   private config: AlertConfig;
   private divergenceTracker: RSIDivergenceTracker = {};
+  private indicators: Map<
+    string,
+    { cursor: ClosedCandleCursor; rsi: StreamingRSI }
+  > = new Map();
   private readonly divergenceTrackerFile: string;
-
-  constructor(config: AlertConfig) {
+  private readonly persistTracker: boolean;
+  private clock: Clock;
+
+  constructor(
+    config: AlertConfig,
+    clock: Clock = systemClock,
+    persistTracker: boolean = true
+  ) {
     this.config = config;
+    this.clock = clock;
+    this.persistTracker = persistTracker;
     this.divergenceTrackerFile = path.join(
       process.cwd(),
       "/data/rsi-divergence-tracker.json"
     );
-    this.loadDivergenceTracker();
+    if (this.persistTracker) {
+      this.loadDivergenceTracker();
+    }
   }
 
   /**
@@ -41,6 +59,8 @@ export class RSIDivergenceService {
    * Save divergence tracker to JSON file
    */
   private saveDivergenceTracker(): void {
+    if (!this.persistTracker) return;
+
     try {
       // Ensure data directory exists
       const dataDir = path.dirname(this.divergenceTrackerFile);
@@ -72,49 +92,49 @@ export class RSIDivergenceService {
   }
 
   /**
-   * Calculate RSI (Relative Strength Index)
+   * Feed closed candles to the symbol-timeframe's RSI and return the RSI of
+   * each new candle, the forming one last
    */
-  private calculateRSI(klineData: KlineData[], period: number = 14): number[] {
-    if (klineData.length < period + 1) {
-      return [];
+  private updateRSI(
+    symbol: string,
+    timeframe: string,
+    klineData: KlineData[]
+  ): Array<{ openTime: number; close: number; rsi: number }> {
+    const key = `${symbol}:${timeframe}`;
+    let indicators = this.indicators.get(key);
+    if (!indicators) {
+      indicators = {
+        cursor: new ClosedCandleCursor(),
+        rsi: new StreamingRSI(this.config.rsiPeriod, this.config.rsiSmoothing),
+      };
+      this.indicators.set(key, indicators);
     }
 
-    const closes = klineData.map((candle) => parseFloat(candle.close));
-    const rsiValues: number[] = [];
-
-    for (let i = period; i < closes.length; i++) {
-      const recentCloses = closes.slice(i - period, i + 1);
-      const gains: number[] = [];
-      const losses: number[] = [];
-
-      for (let j = 1; j < recentCloses.length; j++) {
-        const current = recentCloses[j];
-        const previous = recentCloses[j - 1];
-        if (current === undefined || previous === undefined) continue;
-
-        const change = current - previous;
-        if (change > 0) {
-          gains.push(change);
-          losses.push(0);
-        } else {
-          gains.push(0);
-          losses.push(Math.abs(change));
-        }
-      }
+    const { candles, reset } = indicators.cursor.advance(klineData);
+    if (reset) {
+      indicators.rsi.reset();
+    }
 
-      const avgGain = gains.reduce((sum, gain) => sum + gain, 0) / period;
-      const avgLoss = losses.reduce((sum, loss) => sum + loss, 0) / period;
+    const points: Array<{ openTime: number; close: number; rsi: number }> = [];
+    for (const candle of candles) {
+      const close = parseFloat(candle.close);
+      const rsi = indicators.rsi.update(close);
+      if (rsi !== null) {
+        points.push({ openTime: candle.openTime, close, rsi });
+      }
+    }
 
-      if (avgLoss === 0) {
-        rsiValues.push(100);
-      } else {
-        const rs = avgGain / avgLoss;
-        const rsi = 100 - 100 / (1 + rs);
-        rsiValues.push(rsi);
+    const latestCandle = klineData[klineData.length - 1];
+    if (latestCandle) {
+      const close = parseFloat(latestCandle.close);
+      const rsi = indicators.rsi.peek(close);
+      if (rsi !== null) {
+        points.push({ openTime: latestCandle.openTime, close, rsi });
       }
     }
 
-    return rsiValues;
+    // Only the most recent points are kept by the tracker
+    return points.slice(-RSI_HISTORY_SIZE);
   }
 
   /**
@@ -209,21 +229,21 @@ export class RSIDivergenceService {
     const tracker = this.divergenceTracker[symbol]?.[timeframe];
     if (!tracker) return null;
 
-    // Calculate RSI values
-    const rsiValues = this.calculateRSI(klineData, this.config.rsiPeriod);
-    if (rsiValues.length === 0) return null;
+    // Calculate RSI values of the new candles
+    const rsiPoints = this.updateRSI(symbol, timeframe, klineData);
+    const currentPoint = rsiPoints[rsiPoints.length - 1];
+    if (!currentPoint) return null;
 
     // Update tracker with RSI data
-    this.updateTrackerWithRSIData(symbol, timeframe, klineData, rsiValues);
+    this.updateTrackerWithRSIData(symbol, timeframe, rsiPoints);
 
     // Get updated tracker after RSI data update
     const updatedTracker = this.divergenceTracker[symbol]?.[timeframe];
     if (!updatedTracker) return null;
 
-    // Get recent RSI data for divergence analysis (get the most recent data)
+    // Get recent RSI data for divergence analysis (rsiData is oldest first)
     const recentRSIData = updatedTracker.rsiData.slice(
-      0,
-      this.config.rsiDivergenceLookback
+      -this.config.rsiDivergenceLookback
     );
     if (recentRSIData.length < this.config.rsiDivergenceLookback) return null;
 
@@ -239,7 +259,7 @@ export class RSIDivergenceService {
     if (!divergence) return null;
 
     // Check if we already sent an alert for this pattern recently (within 2 hours)
-    const now = Date.now();
+    const now = this.clock.now();
     const lastAlertTime = tracker.lastAlertTime || 0;
     const twoHours = 2 * 60 * 60 * 1000;
 
@@ -251,8 +271,7 @@ export class RSIDivergenceService {
     tracker.lastAlertTime = now;
     this.saveDivergenceTracker();
 
-    const currentRSI = rsiValues[rsiValues.length - 1];
-    if (currentRSI === undefined) return null;
+    const currentRSI = currentPoint.rsi;
 
     return {
       type: "rsi_divergence",
@@ -361,57 +380,29 @@ export class RSIDivergenceService {
   private updateTrackerWithRSIData(
     symbol: string,
     timeframe: string,
-    klineData: KlineData[],
-    rsiValues: number[]
+    rsiPoints: Array<{ openTime: number; close: number; rsi: number }>
   ): void {
     const tracker = this.divergenceTracker[symbol]?.[timeframe];
     if (!tracker) return;
 
-    // Calculate the offset for RSI values (since RSI calculation starts after period)
-    const rsiOffset = this.config.rsiPeriod;
-
     // Update RSI data
-    // console.log(`🔧 Updating tracker with ${rsiValues.length} RSI values`);
-
-    for (let i = 0; i < rsiValues.length; i++) {
-      const candleIndex = i + rsiOffset;
-      const candle = klineData[candleIndex];
-      if (!candle) continue;
-
+    for (const point of rsiPoints) {
       const existingIndex = tracker.rsiData.findIndex(
-        (r) => r.openTime === candle.openTime
+        (r) => r.openTime === point.openTime
       );
 
       if (existingIndex === -1) {
         // Add new RSI data point
-        const rsiValue = rsiValues[i];
-        if (rsiValue !== undefined) {
-          tracker.rsiData.push({
-            openTime: candle.openTime,
-            close: parseFloat(candle.close),
-            rsi: rsiValue,
-            isClosed: true,
-          });
-        }
+        tracker.rsiData.push({ ...point, isClosed: true });
       } else {
         // Update existing RSI data point
-        const rsiValue = rsiValues[i];
-        if (rsiValue !== undefined) {
-          tracker.rsiData[existingIndex] = {
-            openTime: candle.openTime,
-            close: parseFloat(candle.close),
-            rsi: rsiValue,
-            isClosed: true,
-          };
-        }
+        tracker.rsiData[existingIndex] = { ...point, isClosed: true };
       }
     }
 
-    // console.log(`Tracker after update: ${tracker.rsiData.length} entries`);
-
-    // Keep only recent RSI data (last 50 to avoid memory issues)
-    if (tracker.rsiData.length > 50) {
-      tracker.rsiData = tracker.rsiData.slice(-50);
+    // Keep only recent RSI data to avoid memory issues
+    if (tracker.rsiData.length > RSI_HISTORY_SIZE) {
+      tracker.rsiData = tracker.rsiData.slice(-RSI_HISTORY_SIZE);
     }
   }
 
@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { describe, test } from "node:test";
+import {
+  AlertConfig,
+  KlineData,
+  RSIPivotDivergenceAlert,
+  RSIPivotDivergenceConfig,
+} from "../types/market.model";
+import { RSIPivotDivergenceService } from "./rsi-pivot-divergence.service";
+
+type Candle = [number, number, number, number, number, number];
+
+/**
+ * Exchange candles with the B/S labels and TP/SL lines indicator-1.pine
+ * draws on them in TradingView, see "Recording the Pine parity fixture" in
+ * the README
+ */
+interface TradingViewFixture {
+  source: string;
+  inputs: Omit<RSIPivotDivergenceConfig, "enabled">;
+  warmupBars: number; // Labels before this bar index are not compared
+  candles: Candle[];
+  signals: Array<{
+    bar: number; // Index in candles of the labelled (pivot) bar
+    label: "B" | "S";
+    takeProfit: number;
+    stopLoss: number;
+  }>;
+}
+
+/**
+ * Signals this port produced on a synthetic series, kept to catch
+ * unintended changes. Not evidence of parity with indicator-1.pine.
+ */
+interface RegressionFixture {
+  inputs: Omit<RSIPivotDivergenceConfig, "enabled">;
+  candles: Candle[];
+  signals: Array<{
+    time: number;
+    label: "B" | "S";
+    entry: number;
+    takeProfit: number;
+    stopLoss: number;
+  }>;
+}
+
+const FIXTURES = path.join(__dirname, "fixtures");
+const TRADINGVIEW_FIXTURE = path.join(
+  FIXTURES,
+  "rsi-pivot-divergence.tradingview.json"
+);
+const HOUR = 60 * 60 * 1000;
+
+function readFixture<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+function toKlines(candles: Candle[]): KlineData[] {
+  return candles.map(([time, open, high, low, close, volume], i) => ({
+    openTime: time,
+    open: String(open),
+    high: String(high),
+    low: String(low),
+    close: String(close),
+    volume: String(volume),
+    closeTime: (candles[i + 1]?.[0] ?? time + HOUR) - 1,
+    quoteAssetVolume: "0",
+    numberOfTrades: 0,
+    takerBuyBaseAssetVolume: "0",
+    takerBuyQuoteAssetVolume: "0",
+    ignore: "0",
+  }));
+}
+
+function createService(
+  inputs: Omit<RSIPivotDivergenceConfig, "enabled">
+): RSIPivotDivergenceService {
+  const config = {
+    rsiPivotDivergence: { enabled: true, ...inputs },
+  } as AlertConfig;
+  return new RSIPivotDivergenceService(config, undefined, false);
+}
+
+/**
+ * Live feed: the last candle of each call is still forming
+ */
+function feed(
+  service: RSIPivotDivergenceService,
+  klines: KlineData[]
+): RSIPivotDivergenceAlert[] {
+  const alerts: RSIPivotDivergenceAlert[] = [];
+  for (let i = 2; i <= klines.length; i++) {
+    const klineData = klines.slice(0, i);
+    const close = parseFloat(klineData[klineData.length - 1]!.close);
+    alerts.push(...service.detect("BTCUSDT", "1h", klineData, close));
+  }
+  return alerts;
+}
+
+/**
+ * TP and SL as the script prints them, to the 0.01 tick
+ */
+function toLevels(alert: RSIPivotDivergenceAlert) {
+  return {
+    label: alert.signal === "buy" ? "B" : "S",
+    takeProfit: Number(alert.takeProfitPrice.toFixed(2)),
+    stopLoss: Number(alert.stopLossPrice.toFixed(2)),
+  };
+}
+
+describe("RSIPivotDivergenceService against TradingView", () => {
+  const recorded = fs.existsSync(TRADINGVIEW_FIXTURE);
+
+  test(
+    "labels the same bars with the same TP and SL as indicator-1.pine",
+    { skip: recorded ? false : "no TradingView export recorded yet" },
+    () => {
+      const fixture = readFixture<TradingViewFixture>(TRADINGVIEW_FIXTURE);
+      const klines = toKlines(fixture.candles);
+      const barOf = (time: number) =>
+        klines.findIndex((kline) => kline.openTime === time);
+
+      const alerts = feed(createService(fixture.inputs), klines)
+        .map((alert) => ({ bar: barOf(alert.pivotTime), ...toLevels(alert) }))
+        .filter((signal) => signal.bar >= fixture.warmupBars);
+      const expected = fixture.signals.filter(
+        (signal) => signal.bar >= fixture.warmupBars
+      );
+
+      assert.deepEqual(alerts, expected);
+    }
+  );
+});
+
+describe("RSIPivotDivergenceService regression", () => {
+  const fixture = readFixture<RegressionFixture>(
+    path.join(FIXTURES, "rsi-pivot-divergence.regression.json")
+  );
+  const klines = toKlines(fixture.candles);
+  const toSignal = (alert: RSIPivotDivergenceAlert) => {
+    const { label, takeProfit, stopLoss } = toLevels(alert);
+    return {
+      time: alert.pivotTime,
+      label,
+      entry: alert.entryPrice,
+      takeProfit,
+      stopLoss,
+    };
+  };
+
+  test("reports the recorded signals on a live feed", () => {
+    const alerts = feed(createService(fixture.inputs), klines);
+    assert.deepEqual(alerts.map(toSignal), fixture.signals);
+  });
+
+  test("a rebuilt series only reports the latest closed candle", () => {
+    const service = createService(fixture.inputs);
+    const alerts = service.detect("BTCUSDT", "1h", klines, 0);
+
+    // The last recorded signal is confirmed by the last closed candle
+    const last = fixture.signals[fixture.signals.length - 1];
+    assert.deepEqual(alerts.map(toSignal), last ? [last] : []);
+    assert.deepEqual(service.detect("BTCUSDT", "1h", klines, 0), []);
+  });
+});
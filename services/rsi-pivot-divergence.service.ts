@@ -0,0 +1,294 @@
+import fs from "fs";
+import path from "path";
+import {
+  AlertConfig,
+  KlineData,
+  RSIPivotDivergenceAlert,
+  RSIPivotDivergenceConfig,
+  RSIPivotDivergenceTracker,
+} from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+import {
+  ClosedCandleCursor,
+  StreamingPivot,
+  StreamingRSI,
+} from "../utils/indicators.utils";
+
+/**
+ * Streaming state of the Pine script for one symbol-timeframe. NaN stands
+ * for Pine's na.
+ */
+interface PivotDivergenceState {
+  cursor: ClosedCandleCursor;
+  rsi: StreamingRSI;
+  priceHigh: StreamingPivot;
+  priceLow: StreamingPivot;
+  rsiHigh: StreamingPivot;
+  rsiLow: StreamingPivot;
+  openTimes: number[]; // Last pivotLength + 1 candles, oldest first
+  prevPriceLow: number;
+  prevRsiLow: number;
+  prevPriceHigh: number;
+  prevRsiHigh: number;
+}
+
+type PivotSignal = Omit<
+  RSIPivotDivergenceAlert,
+  "type" | "symbol" | "timeframe" | "timestamp" | "currentPrice"
+>;
+
+/**
+ * Native port of the "RSI Divergence B/S with TP & SL" Pine indicator
+ * (indicator-1.pine). Pivots of the close and of the RSI are confirmed
+ * pivotLength candles later and compared with the previous pivot, exactly
+ * like ta.pivothigh/ta.pivotlow in the script. Only closed candles are
+ * evaluated so signals match the bars TradingView marks B/S.
+ */
+export class RSIPivotDivergenceService {
+  private config: RSIPivotDivergenceConfig;
+  private tracker: RSIPivotDivergenceTracker = {};
+  private states: Map<string, PivotDivergenceState> = new Map();
+  private readonly trackerFile: string;
+  private readonly persistTracker: boolean;
+  private clock: Clock;
+
+  constructor(
+    config: AlertConfig,
+    clock: Clock = systemClock,
+    persistTracker: boolean = true
+  ) {
+    this.config = config.rsiPivotDivergence;
+    this.clock = clock;
+    this.persistTracker = persistTracker;
+    this.trackerFile = path.join(
+      process.cwd(),
+      "/data/rsi-pivot-divergence-tracker.json"
+    );
+    if (this.persistTracker) {
+      this.loadTracker();
+    }
+  }
+
+  /**
+   * Load tracker from JSON file
+   */
+  private loadTracker(): void {
+    try {
+      if (fs.existsSync(this.trackerFile)) {
+        const data = fs.readFileSync(this.trackerFile, "utf8");
+        this.tracker = JSON.parse(data);
+        console.log("📁 Loaded RSI pivot divergence tracker from file");
+      }
+    } catch (error) {
+      console.error("❌ Error loading RSI pivot divergence tracker:", error);
+      this.tracker = {};
+    }
+  }
+
+  /**
+   * Save tracker to JSON file
+   */
+  private saveTracker(): void {
+    if (!this.persistTracker) return;
+
+    try {
+      // Ensure data directory exists
+      const dataDir = path.dirname(this.trackerFile);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      fs.writeFileSync(this.trackerFile, JSON.stringify(this.tracker, null, 2));
+    } catch (error) {
+      console.error("❌ Error saving RSI pivot divergence tracker:", error);
+    }
+  }
+
+  /**
+   * Detect B/S signals confirmed by the candles closed since the last call.
+   * When the series is rebuilt (first call, gap, history reload) the older
+   * candles only warm up the state and just the latest closed candle can
+   * signal, so a restart does not replay old signals.
+   */
+  detect(
+    symbol: string,
+    timeframe: string,
+    klineData: KlineData[],
+    currentPrice: number
+  ): RSIPivotDivergenceAlert[] {
+    const state = this.getState(symbol, timeframe);
+    const { candles, reset } = state.cursor.advance(klineData);
+    if (reset) {
+      this.resetState(state);
+    }
+
+    const signals: PivotSignal[] = [];
+    candles.forEach((candle, index) => {
+      const candleSignals = this.processCandle(state, candle);
+      if (!reset || index === candles.length - 1) {
+        signals.push(...candleSignals);
+      }
+    });
+    if (signals.length === 0) return [];
+
+    if (!this.tracker[symbol]) {
+      this.tracker[symbol] = {};
+    }
+    if (!this.tracker[symbol][timeframe]) {
+      this.tracker[symbol][timeframe] = {};
+    }
+    const tracker = this.tracker[symbol][timeframe];
+
+    // Skip signals already sent, e.g. before a restart
+    const newSignals = signals.filter(
+      (signal) => signal.pivotTime > (tracker.lastSignalTime ?? -Infinity)
+    );
+    if (newSignals.length === 0) return [];
+
+    tracker.lastSignalTime = Math.max(
+      ...newSignals.map((signal) => signal.pivotTime)
+    );
+    this.saveTracker();
+
+    const now = this.clock.now();
+    return newSignals.map((signal) => ({
+      type: "rsi_pivot_divergence",
+      symbol,
+      timeframe,
+      timestamp: now,
+      currentPrice,
+      ...signal,
+    }));
+  }
+
+  /**
+   * Run one closed candle through the script
+   */
+  private processCandle(
+    state: PivotDivergenceState,
+    candle: KlineData
+  ): PivotSignal[] {
+    const close = parseFloat(candle.close);
+    const rsi = state.rsi.update(close) ?? NaN;
+
+    const priceHigh = state.priceHigh.update(close) ?? NaN;
+    const priceLow = state.priceLow.update(close) ?? NaN;
+    const rsiHigh = state.rsiHigh.update(rsi) ?? NaN;
+    const rsiLow = state.rsiLow.update(rsi) ?? NaN;
+
+    state.openTimes.push(candle.openTime);
+    if (state.openTimes.length > this.config.pivotLength + 1) {
+      state.openTimes.shift();
+    }
+    const pivotTime = state.openTimes[0] ?? candle.openTime;
+
+    const signals: PivotSignal[] = [];
+
+    if (!isNaN(priceLow)) {
+      if (!isNaN(state.prevPriceLow) && !isNaN(state.prevRsiLow)) {
+        if (
+          priceLow < state.prevPriceLow &&
+          rsiLow > state.prevRsiLow + this.config.bullDivDiff &&
+          rsiLow <= this.config.bullRsiLevel
+        ) {
+          signals.push({
+            signal: "buy",
+            pivotTime,
+            entryPrice: priceLow,
+            takeProfitPrice: priceLow * (1 + this.config.tpPercent / 100),
+            stopLossPrice: priceLow * (1 - this.config.slPercent / 100),
+            rsiValue: rsiLow,
+            previousPivotPrice: state.prevPriceLow,
+            previousRsiValue: state.prevRsiLow,
+          });
+        }
+      }
+      state.prevPriceLow = priceLow;
+      state.prevRsiLow = rsiLow;
+    }
+
+    if (!isNaN(priceHigh)) {
+      if (!isNaN(state.prevPriceHigh) && !isNaN(state.prevRsiHigh)) {
+        if (
+          priceHigh > state.prevPriceHigh &&
+          rsiHigh < state.prevRsiHigh - this.config.bearDivDiff &&
+          rsiHigh >= this.config.bearRsiLevel
+        ) {
+          signals.push({
+            signal: "sell",
+            pivotTime,
+            entryPrice: priceHigh,
+            takeProfitPrice: priceHigh * (1 - this.config.tpPercent / 100),
+            stopLossPrice: priceHigh * (1 + this.config.slPercent / 100),
+            rsiValue: rsiHigh,
+            previousPivotPrice: state.prevPriceHigh,
+            previousRsiValue: state.prevRsiHigh,
+          });
+        }
+      }
+      state.prevPriceHigh = priceHigh;
+      state.prevRsiHigh = rsiHigh;
+    }
+
+    return signals;
+  }
+
+  /**
+   * Get or create the streaming state of a symbol-timeframe
+   */
+  private getState(symbol: string, timeframe: string): PivotDivergenceState {
+    const key = `${symbol}:${timeframe}`;
+    let state = this.states.get(key);
+    if (!state) {
+      const { rsiLength, pivotLength } = this.config;
+      state = {
+        cursor: new ClosedCandleCursor(),
+        // ta.rsi is Wilder-smoothed
+        rsi: new StreamingRSI(rsiLength, "wilder"),
+        priceHigh: new StreamingPivot("high", pivotLength, pivotLength),
+        priceLow: new StreamingPivot("low", pivotLength, pivotLength),
+        rsiHigh: new StreamingPivot("high", pivotLength, pivotLength),
+        rsiLow: new StreamingPivot("low", pivotLength, pivotLength),
+        openTimes: [],
+        prevPriceLow: NaN,
+        prevRsiLow: NaN,
+        prevPriceHigh: NaN,
+        prevRsiHigh: NaN,
+      };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  /**
+   * Clear the streaming state before the series is replayed
+   */
+  private resetState(state: PivotDivergenceState): void {
+    state.rsi.reset();
+    state.priceHigh.reset();
+    state.priceLow.reset();
+    state.rsiHigh.reset();
+    state.rsiLow.reset();
+    state.openTimes = [];
+    state.prevPriceLow = NaN;
+    state.prevRsiLow = NaN;
+    state.prevPriceHigh = NaN;
+    state.prevRsiHigh = NaN;
+  }
+
+  /**
+   * Get tracker status
+   */
+  getTrackerStatus(): RSIPivotDivergenceTracker {
+    return JSON.parse(JSON.stringify(this.tracker));
+  }
+
+  /**
+   * Clear tracker
+   */
+  clearTracker(): void {
+    this.tracker = {};
+    this.saveTracker();
+    console.log("🗑️ RSI pivot divergence tracker cleared");
+  }
+}
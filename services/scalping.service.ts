@@ -6,16 +6,48 @@ import {
   ScalpingTracker,
   KlineData,
 } from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+import {
+  ClosedCandleCursor,
+  StreamingBollingerBands,
+  StreamingEMA,
+  StreamingSMA,
+  StreamingStochastic,
+  toPriceBar,
+} from "../utils/indicators.utils";
+
+/**
+ * Streaming indicators of one symbol-timeframe, fed with closed candles
+ */
+interface ScalpingIndicators {
+  cursor: ClosedCandleCursor;
+  emaFast: StreamingEMA;
+  emaSlow: StreamingEMA;
+  stochastic: StreamingStochastic;
+  bollinger: StreamingBollingerBands;
+  volume: StreamingSMA;
+}
 
 export class ScalpingService {
   private config: ScalpingConfig;
   private tracker: ScalpingTracker = {};
+  private indicators: Map<string, ScalpingIndicators> = new Map();
   private readonly trackerFile: string;
-
-  constructor(config: ScalpingConfig) {
+  private readonly persistTracker: boolean;
+  private clock: Clock;
+
+  constructor(
+    config: ScalpingConfig,
+    clock: Clock = systemClock,
+    persistTracker: boolean = true
+  ) {
     this.config = config;
+    this.clock = clock;
+    this.persistTracker = persistTracker;
     this.trackerFile = path.join(process.cwd(), "/data/scalping-tracker.json");
-    this.loadTracker();
+    if (this.persistTracker) {
+      this.loadTracker();
+    }
   }
 
   /**
@@ -38,6 +70,8 @@ export class ScalpingService {
    * Save tracker to JSON file
    */
   private saveTracker(): void {
+    if (!this.persistTracker) return;
+
     try {
       const dataDir = path.dirname(this.trackerFile);
       if (!fs.existsSync(dataDir)) {
@@ -67,135 +101,53 @@ export class ScalpingService {
   }
 
   /**
-   * Calculate EMA (Exponential Moving Average)
+   * Feed closed candles to the symbol-timeframe's indicators, rebuilding
+   * them when the series does not connect to what they have seen
    */
-  private calculateEMA(prices: number[], period: number): number[] {
-    if (prices.length < period) return [];
-
-    const ema: number[] = [];
-    const multiplier = 2 / (period + 1);
-
-    // First EMA is SMA
-    let sum = 0;
-    for (let i = 0; i < period; i++) {
-      const price = prices[i];
-      if (price !== undefined) {
-        sum += price;
-      }
-    }
-    ema[period - 1] = sum / period;
-
-    // Calculate subsequent EMAs
-    for (let i = period; i < prices.length; i++) {
-      const currentPrice = prices[i];
-      const previousEma = ema[i - 1];
-      if (currentPrice !== undefined && previousEma !== undefined) {
-        ema[i] = currentPrice * multiplier + previousEma * (1 - multiplier);
-      }
-    }
-
-    return ema.slice(period - 1);
-  }
-
-  /**
-   * Calculate Stochastic Oscillator
-   */
-  private calculateStochastic(
-    klineData: KlineData[],
-    kPeriod: number = 14,
-    dPeriod: number = 3
-  ): { k: number[]; d: number[] } {
-    if (klineData.length < kPeriod) return { k: [], d: [] };
-
-    const kValues: number[] = [];
-    const dValues: number[] = [];
-
-    for (let i = kPeriod - 1; i < klineData.length; i++) {
-      const periodData = klineData.slice(i - kPeriod + 1, i + 1);
-
-      let highestHigh = 0;
-      let lowestLow = Infinity;
-      const lastCandle = periodData[periodData.length - 1];
-      if (!lastCandle) continue;
-      const currentClose = parseFloat(lastCandle.close);
-
-      periodData.forEach((candle) => {
-        const high = parseFloat(candle.high);
-        const low = parseFloat(candle.low);
-        if (high > highestHigh) highestHigh = high;
-        if (low < lowestLow) lowestLow = low;
-      });
-
-      if (highestHigh === lowestLow) {
-        kValues.push(50); // Neutral value when no range
-      } else {
-        const k =
-          ((currentClose - lowestLow) / (highestHigh - lowestLow)) * 100;
-        kValues.push(k);
-      }
+  private updateIndicators(
+    symbol: string,
+    timeframe: string,
+    klineData: KlineData[]
+  ): ScalpingIndicators {
+    const key = `${symbol}:${timeframe}`;
+    let indicators = this.indicators.get(key);
+    if (!indicators) {
+      indicators = {
+        cursor: new ClosedCandleCursor(),
+        emaFast: new StreamingEMA(this.config.emaFastPeriod),
+        emaSlow: new StreamingEMA(this.config.emaSlowPeriod),
+        stochastic: new StreamingStochastic(
+          this.config.stochasticKPeriod,
+          this.config.stochasticDPeriod
+        ),
+        bollinger: new StreamingBollingerBands(
+          this.config.bollingerPeriod,
+          this.config.bollingerStdDev
+        ),
+        volume: new StreamingSMA(this.config.volumePeriod),
+      };
+      this.indicators.set(key, indicators);
     }
 
-    // Calculate %D (SMA of %K)
-    for (let i = dPeriod - 1; i < kValues.length; i++) {
-      const dSum = kValues
-        .slice(i - dPeriod + 1, i + 1)
-        .reduce((sum, val) => sum + val, 0);
-      dValues.push(dSum / dPeriod);
+    const { candles, reset } = indicators.cursor.advance(klineData);
+    if (reset) {
+      indicators.emaFast.reset();
+      indicators.emaSlow.reset();
+      indicators.stochastic.reset();
+      indicators.bollinger.reset();
+      indicators.volume.reset();
     }
 
-    return { k: kValues, d: dValues };
-  }
-
-  /**
-   * Calculate Bollinger Bands
-   */
-  private calculateBollingerBands(
-    prices: number[],
-    period: number = 20,
-    stdDev: number = 2
-  ): { upper: number[]; middle: number[]; lower: number[] } {
-    if (prices.length < period) return { upper: [], middle: [], lower: [] };
-
-    const upper: number[] = [];
-    const middle: number[] = [];
-    const lower: number[] = [];
-
-    for (let i = period - 1; i < prices.length; i++) {
-      const periodPrices = prices.slice(i - period + 1, i + 1);
-
-      // Calculate SMA (middle band)
-      const sma = periodPrices.reduce((sum, price) => sum + price, 0) / period;
-      middle.push(sma);
-
-      // Calculate standard deviation
-      const variance =
-        periodPrices.reduce((sum, price) => sum + Math.pow(price - sma, 2), 0) /
-        period;
-      const standardDeviation = Math.sqrt(variance);
-
-      // Calculate upper and lower bands
-      upper.push(sma + stdDev * standardDeviation);
-      lower.push(sma - stdDev * standardDeviation);
+    for (const candle of candles) {
+      const close = parseFloat(candle.close);
+      indicators.emaFast.update(close);
+      indicators.emaSlow.update(close);
+      indicators.stochastic.update(toPriceBar(candle));
+      indicators.bollinger.update(close);
+      indicators.volume.update(parseFloat(candle.volume));
     }
 
-    return { upper, middle, lower };
-  }
-
-  /**
-   * Calculate average volume
-   */
-  private calculateAverageVolume(
-    klineData: KlineData[],
-    period: number = 20
-  ): number {
-    if (klineData.length < period) return 0;
-
-    const recentCandles = klineData.slice(-period);
-    const totalVolume = recentCandles.reduce((sum, candle) => {
-      return sum + parseFloat(candle.volume);
-    }, 0);
-
-    return totalVolume / period;
+    return indicators;
   }
 
   /**
@@ -204,27 +156,21 @@ export class ScalpingService {
   private detectEMACrossover(
     symbol: string,
     timeframe: string,
-    klineData: KlineData[],
+    indicators: ScalpingIndicators,
+    latestCandle: KlineData,
     currentPrice: number
   ): ScalpingAlert | null {
-    if (klineData.length < this.config.emaSlowPeriod) return null;
-
-    const closes = klineData.map((candle) => parseFloat(candle.close));
-    const ema9 = this.calculateEMA(closes, this.config.emaFastPeriod);
-    const ema21 = this.calculateEMA(closes, this.config.emaSlowPeriod);
-
-    if (ema9.length < 2 || ema21.length < 2) return null;
-
-    const currentEma9 = ema9[ema9.length - 1];
-    const currentEma21 = ema21[ema21.length - 1];
-    const previousEma9 = ema9[ema9.length - 2];
-    const previousEma21 = ema21[ema21.length - 2];
+    const close = parseFloat(latestCandle.close);
+    const currentEma9 = indicators.emaFast.peek(close);
+    const currentEma21 = indicators.emaSlow.peek(close);
+    const previousEma9 = indicators.emaFast.value;
+    const previousEma21 = indicators.emaSlow.value;
 
     if (
-      currentEma9 === undefined ||
-      currentEma21 === undefined ||
-      previousEma9 === undefined ||
-      previousEma21 === undefined
+      currentEma9 === null ||
+      currentEma21 === null ||
+      previousEma9 === null ||
+      previousEma21 === null
     ) {
       return null;
     }
@@ -254,7 +200,7 @@ export class ScalpingService {
         type: "ema_crossover",
         symbol,
         timeframe,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         currentPrice,
         signal,
         confidence,
@@ -274,32 +220,16 @@ export class ScalpingService {
   private detectStochasticSignal(
     symbol: string,
     timeframe: string,
-    klineData: KlineData[],
+    indicators: ScalpingIndicators,
+    latestCandle: KlineData,
     currentPrice: number
   ): ScalpingAlert | null {
-    if (klineData.length < this.config.stochasticKPeriod) return null;
-
-    const { k, d } = this.calculateStochastic(
-      klineData,
-      this.config.stochasticKPeriod,
-      this.config.stochasticDPeriod
-    );
-
-    if (k.length < 2 || d.length < 2) return null;
+    const current = indicators.stochastic.peek(toPriceBar(latestCandle));
+    const previous = indicators.stochastic.value;
+    if (!current || !previous) return null;
 
-    const currentK = k[k.length - 1];
-    const currentD = d[d.length - 1];
-    const previousK = k[k.length - 2];
-    const previousD = d[d.length - 2];
-
-    if (
-      currentK === undefined ||
-      currentD === undefined ||
-      previousK === undefined ||
-      previousD === undefined
-    ) {
-      return null;
-    }
+    const { k: currentK, d: currentD } = current;
+    const { k: previousK, d: previousD } = previous;
 
     let signal: "buy" | "sell" | null = null;
     let confidence = 0;
@@ -334,7 +264,7 @@ export class ScalpingService {
         type: "stochastic_signal",
         symbol,
         timeframe,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         currentPrice,
         signal,
         confidence,
@@ -354,31 +284,18 @@ export class ScalpingService {
   private detectBollingerSignal(
     symbol: string,
     timeframe: string,
-    klineData: KlineData[],
+    indicators: ScalpingIndicators,
+    latestCandle: KlineData,
     currentPrice: number
   ): ScalpingAlert | null {
-    if (klineData.length < this.config.bollingerPeriod) return null;
+    const bands = indicators.bollinger.peek(parseFloat(latestCandle.close));
+    if (!bands) return null;
 
-    const closes = klineData.map((candle) => parseFloat(candle.close));
-    const { upper, middle, lower } = this.calculateBollingerBands(
-      closes,
-      this.config.bollingerPeriod,
-      this.config.bollingerStdDev
-    );
-
-    if (upper.length < 1) return null;
-
-    const currentUpper = upper[upper.length - 1];
-    const currentMiddle = middle[middle.length - 1];
-    const currentLower = lower[lower.length - 1];
-
-    if (
-      currentUpper === undefined ||
-      currentMiddle === undefined ||
-      currentLower === undefined
-    ) {
-      return null;
-    }
+    const {
+      upper: currentUpper,
+      middle: currentMiddle,
+      lower: currentLower,
+    } = bands;
 
     let signal: "buy" | "sell" | null = null;
     let confidence = 0;
@@ -409,7 +326,7 @@ export class ScalpingService {
         type: "bollinger_squeeze",
         symbol,
         timeframe,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         currentPrice,
         signal,
         confidence,
@@ -430,19 +347,13 @@ export class ScalpingService {
   private detectVolumeSpike(
     symbol: string,
     timeframe: string,
-    klineData: KlineData[],
+    indicators: ScalpingIndicators,
+    latestCandle: KlineData,
     currentPrice: number
   ): ScalpingAlert | null {
-    if (klineData.length < 2) return null;
-
-    const latestCandle = klineData[klineData.length - 1];
-    if (!latestCandle) return null;
-
     const currentVolume = parseFloat(latestCandle.volume);
-    const averageVolume = this.calculateAverageVolume(
-      klineData.slice(0, -1),
-      this.config.volumePeriod
-    );
+    // Average of the closed candles, the current one excluded
+    const averageVolume = indicators.volume.value ?? 0;
 
     if (averageVolume === 0) return null;
 
@@ -453,7 +364,7 @@ export class ScalpingService {
         type: "volume_spike",
         symbol,
         timeframe,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         currentPrice,
         signal: "buy", // Volume spike often indicates momentum
         confidence: Math.min(90, 60 + (spikeRatio - 1) * 10),
@@ -474,7 +385,7 @@ export class ScalpingService {
     const tracker = this.tracker[symbol]?.[timeframe];
     if (!tracker) return true;
 
-    const now = Date.now();
+    const now = this.clock.now();
     const lastAlertTime = tracker.lastAlertTime || 0;
 
     return now - lastAlertTime >= this.config.alertCooldown;
@@ -487,7 +398,7 @@ export class ScalpingService {
     this.initializeTracker(symbol, timeframe);
     const tracker = this.tracker[symbol]?.[timeframe];
     if (tracker) {
-      tracker.lastAlertTime = Date.now();
+      tracker.lastAlertTime = this.clock.now();
       this.saveTracker();
     }
   }
@@ -503,6 +414,11 @@ export class ScalpingService {
   ): ScalpingAlert[] {
     const alerts: ScalpingAlert[] = [];
 
+    // Keep indicators current even while alerts are cooling down
+    const indicators = this.updateIndicators(symbol, timeframe, klineData);
+    const latestCandle = klineData[klineData.length - 1];
+    if (!latestCandle) return alerts;
+
     // Check cooldown
     if (!this.shouldSendAlert(symbol, timeframe)) {
       return alerts;
@@ -512,7 +428,8 @@ export class ScalpingService {
     const emaAlert = this.detectEMACrossover(
       symbol,
       timeframe,
-      klineData,
+      indicators,
+      latestCandle,
       currentPrice
     );
     if (emaAlert) {
@@ -524,7 +441,8 @@ export class ScalpingService {
     const stochasticAlert = this.detectStochasticSignal(
       symbol,
       timeframe,
-      klineData,
+      indicators,
+      latestCandle,
       currentPrice
     );
     if (stochasticAlert) {
@@ -536,7 +454,8 @@ export class ScalpingService {
     const bollingerAlert = this.detectBollingerSignal(
       symbol,
       timeframe,
-      klineData,
+      indicators,
+      latestCandle,
       currentPrice
     );
     if (bollingerAlert) {
@@ -548,7 +467,8 @@ export class ScalpingService {
     const volumeAlert = this.detectVolumeSpike(
       symbol,
       timeframe,
-      klineData,
+      indicators,
+      latestCandle,
       currentPrice
     );
     if (volumeAlert) {
@@ -571,6 +491,7 @@ export class ScalpingService {
    */
   updateConfig(newConfig: Partial<ScalpingConfig>): void {
     this.config = { ...this.config, ...newConfig };
+    this.indicators.clear(); // Periods may have changed
     console.log("📝 Scalping service config updated:", this.config);
   }
 
@@ -0,0 +1,461 @@
+import fs from "fs";
+import path from "path";
+import { BotActionService } from "./bot-action.service";
+import { TelegramService } from "./telegram.service";
+import {
+  Alert,
+  RSIAlert,
+  RSIPivotDivergenceAlert,
+  OscillatorDivergenceAlert,
+  MACDAlert,
+  SuperTrendAlert,
+  ScalpingAlert,
+  StrategyConfig,
+  StrategyMode,
+  StrategyRule,
+} from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+
+type RoutableAlert =
+  | RSIAlert
+  | RSIPivotDivergenceAlert
+  | OscillatorDivergenceAlert
+  | MACDAlert
+  | SuperTrendAlert
+  | ScalpingAlert;
+
+export interface StrategySignal {
+  id: string;
+  strategy: string;
+  mode: StrategyMode;
+  alertId: string; // <type>:<symbol>:<timeframe>:<timestamp>
+  alert: {
+    type: RoutableAlert["type"];
+    symbol: string;
+    timeframe: string;
+    timestamp: number;
+    price: number;
+    signal: "buy" | "sell";
+  };
+  action: {
+    type: "buy" | "sell";
+    symbol: string;
+    parameters: Record<string, any>;
+  };
+  status:
+    | "notified"
+    | "pending_approval"
+    | "executing"
+    | "rejected"
+    | "expired"
+    | "executed"
+    | "failed";
+  actionId?: string;
+  result?: any;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const MAX_SIGNAL_HISTORY = 500;
+const DEFAULT_LEVERAGE = 10;
+
+/**
+ * Routes directional alerts to trading actions through per-strategy rules.
+ * Each rule either only notifies, asks for approval with Telegram inline
+ * buttons, or queues the action right away. Every signal is kept in
+ * data/strategy-signals.json with the action it produced, and actions carry
+ * their signal as source, so each trade can be traced back to its alert.
+ */
+export class StrategyRouter {
+  private readonly signalsFile: string;
+  private config: StrategyConfig;
+  private botActionService: BotActionService;
+  private telegramService: TelegramService;
+  private clock: Clock;
+  private signals: StrategySignal[] = [];
+  private nextSignalId: number = 1;
+
+  constructor(
+    config: StrategyConfig,
+    botActionService: BotActionService,
+    telegramService: TelegramService,
+    clock: Clock = systemClock
+  ) {
+    this.config = config;
+    this.botActionService = botActionService;
+    this.telegramService = telegramService;
+    this.clock = clock;
+    this.signalsFile = path.join(process.cwd(), "/data/strategy-signals.json");
+    this.loadSignals();
+  }
+
+  /**
+   * Match alerts against the strategy rules and handle each match by mode
+   */
+  async route(alerts: Alert[]): Promise<StrategySignal[]> {
+    if (!this.config.enabled) return [];
+
+    this.expireApprovals();
+    const signals: StrategySignal[] = [];
+
+    for (const alert of alerts) {
+      if (!this.isRoutable(alert)) continue;
+
+      for (const rule of this.config.rules) {
+        if (!this.matches(rule, alert)) continue;
+
+        const signal = this.createSignal(rule, alert);
+        signals.push(signal);
+        this.recordSignal(signal);
+
+        try {
+          await this.handleSignal(signal);
+        } catch (error) {
+          console.error(`❌ Error routing signal ${signal.id}:`, error);
+        }
+      }
+    }
+
+    if (signals.length > 0) {
+      this.saveSignals();
+    }
+    return signals;
+  }
+
+  /**
+   * Execute a signal waiting for approval
+   */
+  async approve(signalId: string): Promise<StrategySignal> {
+    const signal = this.getPendingSignal(signalId);
+    await this.executeSignal(signal);
+    this.saveSignals();
+    return signal;
+  }
+
+  /**
+   * Drop a signal waiting for approval
+   */
+  reject(signalId: string): StrategySignal {
+    const signal = this.getPendingSignal(signalId);
+    this.updateStatus(signal, "rejected");
+    this.saveSignals();
+    console.log(`🚫 Signal rejected: ${signal.id} (${signal.strategy})`);
+    return signal;
+  }
+
+  private async handleSignal(signal: StrategySignal): Promise<void> {
+    switch (signal.mode) {
+      case "notify":
+        await this.telegramService.sendMessage(
+          this.formatSignal(signal, "🔔 TÍN HIỆU GIAO DỊCH")
+        );
+        break;
+      case "approve":
+        await this.telegramService.sendMessage(
+          this.formatSignal(signal, "🗳️ CHỜ DUYỆT LỆNH") +
+            `\n\n<i>Hết hạn sau ${Math.round(
+              this.config.approvalTimeout / 60000
+            )} phút</i>`,
+          {
+            inline_keyboard: [
+              [
+                {
+                  text: "✅ Duyệt",
+                  callback_data: `strategy_approve_${signal.id}`,
+                },
+                {
+                  text: "❌ Bỏ qua",
+                  callback_data: `strategy_reject_${signal.id}`,
+                },
+              ],
+            ],
+          }
+        );
+        break;
+      case "auto":
+        await this.executeSignal(signal);
+        await this.telegramService.sendMessage(
+          this.formatSignal(
+            signal,
+            signal.status === "executed"
+              ? "🤖 ĐÃ TỰ ĐỘNG ĐẶT LỆNH"
+              : "❌ TỰ ĐỘNG ĐẶT LỆNH THẤT BẠI"
+          ) + (signal.error ? `\n\n<b>Lỗi:</b> ${signal.error}` : "")
+        );
+        break;
+    }
+  }
+
+  /**
+   * Queue the signal's action with its audit source and execute it. The
+   * signal leaves pending_approval before the first await, so a repeated
+   * approval is rejected instead of queueing a second order.
+   */
+  private async executeSignal(signal: StrategySignal): Promise<void> {
+    this.updateStatus(signal, "executing");
+    this.saveSignals();
+
+    const actionId = this.botActionService.queueAction({
+      ...signal.action,
+      source: {
+        strategy: signal.strategy,
+        signalId: signal.id,
+        alertId: signal.alertId,
+      },
+    });
+    signal.actionId = actionId;
+
+    const result = await this.botActionService.executeAction(actionId);
+
+    if (result?.success) {
+      signal.result = result.result;
+      this.updateStatus(signal, "executed");
+      console.log(
+        `🤖 Signal executed: ${signal.id} (${signal.strategy}) → ${actionId}`
+      );
+    } else {
+      signal.error = result?.error || "Action was not executed";
+      this.updateStatus(signal, "failed");
+      console.error(`❌ Signal failed: ${signal.id} - ${signal.error}`);
+    }
+  }
+
+  private isRoutable(alert: Alert): alert is RoutableAlert {
+    return (
+      alert.type === "rsi_divergence" ||
+      alert.type === "oscillator_divergence" ||
+      "signal" in alert
+    );
+  }
+
+  private matches(rule: StrategyRule, alert: RoutableAlert): boolean {
+    if (rule.alertType !== alert.type) return false;
+    if (rule.signal && rule.signal !== this.getDirection(alert)) return false;
+    if (rule.symbols && !rule.symbols.includes(alert.symbol)) return false;
+    if (rule.timeframes && !rule.timeframes.includes(alert.timeframe)) {
+      return false;
+    }
+    if (
+      rule.minConfidence !== undefined &&
+      "confidence" in alert &&
+      alert.confidence < rule.minConfidence
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  private getDirection(alert: RoutableAlert): "buy" | "sell" {
+    if (
+      alert.type === "rsi_divergence" ||
+      alert.type === "oscillator_divergence"
+    ) {
+      return alert.divergenceType === "bullish" ? "buy" : "sell";
+    }
+    return alert.signal;
+  }
+
+  private createSignal(
+    rule: StrategyRule,
+    alert: RoutableAlert
+  ): StrategySignal {
+    const direction = this.getDirection(alert);
+    const now = this.clock.now();
+
+    return {
+      id: `sig${this.nextSignalId++}`,
+      strategy: rule.name,
+      mode: rule.mode,
+      alertId: `${alert.type}:${alert.symbol}:${alert.timeframe}:${alert.timestamp}`,
+      alert: {
+        type: alert.type,
+        symbol: alert.symbol,
+        timeframe: alert.timeframe,
+        timestamp: alert.timestamp,
+        price: alert.currentPrice,
+        signal: direction,
+      },
+      action: {
+        type: direction,
+        symbol: alert.symbol,
+        parameters: {
+          symbol: alert.symbol,
+          leverage: rule.leverage ?? DEFAULT_LEVERAGE,
+          ...(rule.quantity ? { quantity: rule.quantity } : {}),
+          ...(rule.riskPercent && !rule.quantity
+            ? { riskPercent: rule.riskPercent }
+            : {}),
+          ...(rule.stopLossPercent
+            ? { stopLossPercent: rule.stopLossPercent }
+            : {}),
+          ...(rule.takeProfitPercent
+            ? { takeProfitPercent: rule.takeProfitPercent }
+            : {}),
+          ...this.getAlertProtection(rule, alert),
+        },
+      },
+      status: rule.mode === "approve" ? "pending_approval" : "notified",
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * TP/SL prices carried by the alert, used when the rule sets no percents
+   */
+  private getAlertProtection(
+    rule: StrategyRule,
+    alert: RoutableAlert
+  ): { takeProfitPrice?: number; stopLossPrice?: number } {
+    if (alert.type !== "rsi_pivot_divergence") return {};
+    return {
+      ...(!rule.takeProfitPercent && {
+        takeProfitPrice: alert.takeProfitPrice,
+      }),
+      ...(!rule.stopLossPercent && { stopLossPrice: alert.stopLossPrice }),
+    };
+  }
+
+  private getPendingSignal(signalId: string): StrategySignal {
+    this.expireApprovals();
+
+    const signal = this.signals.find((entry) => entry.id === signalId);
+    if (!signal) {
+      throw new Error(`Signal not found: ${signalId}`);
+    }
+    if (signal.status !== "pending_approval") {
+      throw new Error(`Signal ${signalId} is already ${signal.status}`);
+    }
+    return signal;
+  }
+
+  /**
+   * Expire approvals older than the approval timeout, a stale entry price
+   * should not be traded
+   */
+  private expireApprovals(): void {
+    const cutoff = this.clock.now() - this.config.approvalTimeout;
+    for (const signal of this.signals) {
+      if (signal.status === "pending_approval" && signal.createdAt < cutoff) {
+        this.updateStatus(signal, "expired");
+      }
+    }
+  }
+
+  private updateStatus(
+    signal: StrategySignal,
+    status: StrategySignal["status"]
+  ): void {
+    signal.status = status;
+    signal.updatedAt = this.clock.now();
+  }
+
+  private formatSignal(signal: StrategySignal, title: string): string {
+    const { alert, action } = signal;
+    const sideText = action.type === "buy" ? "🟢 MUA (Long)" : "🔴 BÁN (Short)";
+    const params = action.parameters;
+    const sizeText = params.quantity
+      ? `${params.quantity} hợp đồng`
+      : `Rủi ro ${params.riskPercent}%`;
+
+    return `
+<b>${title}</b>
+
+<b>Chiến lược:</b> ${signal.strategy}
+<b>Tín hiệu:</b> ${alert.type} (${alert.timeframe})
+<b>Symbol:</b> ${alert.symbol}
+<b>Loại:</b> ${sideText}
+<b>Giá tín hiệu:</b> ${alert.price}
+<b>Khối lượng:</b> ${sizeText}
+<b>Đòn bẩy:</b> ${params.leverage}x
+<b>SL:</b> ${this.formatProtection(
+      params.stopLossPercent,
+      params.stopLossPrice
+    )}
+<b>TP:</b> ${this.formatProtection(
+      params.takeProfitPercent,
+      params.takeProfitPrice
+    )}
+<b>Signal ID:</b> ${signal.id}
+    `.trim();
+  }
+
+  private formatProtection(percent?: number, price?: number): string {
+    if (percent) return `${percent}%`;
+    if (price) return `$${price}`;
+    return "Không";
+  }
+
+  private recordSignal(signal: StrategySignal): void {
+    this.signals.push(signal);
+    if (this.signals.length > MAX_SIGNAL_HISTORY) {
+      this.signals = this.signals.slice(-MAX_SIGNAL_HISTORY);
+    }
+  }
+
+  /**
+   * Get recent signals, newest last
+   */
+  getSignals(limit: number = 50): StrategySignal[] {
+    return this.signals.slice(-limit);
+  }
+
+  /**
+   * Get router status
+   */
+  getStatus(): {
+    enabled: boolean;
+    ruleCount: number;
+    pendingApprovals: number;
+    signalCount: number;
+  } {
+    return {
+      enabled: this.config.enabled,
+      ruleCount: this.config.rules.length,
+      pendingApprovals: this.signals.filter(
+        (signal) => signal.status === "pending_approval"
+      ).length,
+      signalCount: this.signals.length,
+    };
+  }
+
+  /**
+   * Load signal history from JSON file
+   */
+  private loadSignals(): void {
+    try {
+      if (fs.existsSync(this.signalsFile)) {
+        const data = JSON.parse(fs.readFileSync(this.signalsFile, "utf8"));
+        this.signals = data.signals || [];
+        this.nextSignalId = data.nextSignalId || 1;
+      }
+    } catch (error) {
+      console.error("❌ Error loading strategy signals:", error);
+      this.signals = [];
+    }
+  }
+
+  /**
+   * Save signal history to JSON file
+   */
+  private saveSignals(): void {
+    try {
+      const dataDir = path.dirname(this.signalsFile);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      fs.writeFileSync(
+        this.signalsFile,
+        JSON.stringify(
+          { nextSignalId: this.nextSignalId, signals: this.signals },
+          null,
+          2
+        )
+      );
+    } catch (error) {
+      console.error("❌ Error saving strategy signals:", error);
+    }
+  }
+}
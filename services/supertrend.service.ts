@@ -0,0 +1,74 @@
+import {
+  AlertConfig,
+  KlineData,
+  SuperTrendAlert,
+  SuperTrendConfig,
+} from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+import {
+  StreamingSuperTrend,
+  SuperTrendValue,
+  toPriceBar,
+} from "../utils/indicators.utils";
+import { IndicatorSignalService } from "./indicator-signal.service";
+
+interface SuperTrendState {
+  superTrend: StreamingSuperTrend;
+  previous: SuperTrendValue | null;
+}
+
+type SuperTrendSignal = Omit<
+  SuperTrendAlert,
+  "symbol" | "timeframe" | "timestamp" | "currentPrice"
+>;
+
+/**
+ * SuperTrend flips: buy when a close breaks above the upper band, sell
+ * when it breaks below the lower band
+ */
+export class SuperTrendService extends IndicatorSignalService<
+  SuperTrendState,
+  SuperTrendSignal
+> {
+  private config: SuperTrendConfig;
+
+  constructor(
+    config: AlertConfig,
+    clock: Clock = systemClock,
+    persistTracker: boolean = true
+  ) {
+    super("SuperTrend", "supertrend-tracker.json", clock, persistTracker);
+    this.config = config.superTrend;
+  }
+
+  protected createState(): SuperTrendState {
+    return {
+      superTrend: new StreamingSuperTrend(
+        this.config.atrPeriod,
+        this.config.multiplier
+      ),
+      previous: null,
+    };
+  }
+
+  protected update(
+    state: SuperTrendState,
+    candle: KlineData
+  ): SuperTrendSignal[] {
+    const current = state.superTrend.update(toPriceBar(candle));
+    const previous = state.previous;
+    state.previous = current;
+    if (!current || !previous) return [];
+    if (current.direction === previous.direction) return [];
+
+    return [
+      {
+        type: "supertrend_flip",
+        signal: current.direction === "up" ? "buy" : "sell",
+        candleTime: candle.openTime,
+        superTrend: current.value,
+        atr: current.atr,
+      },
+    ];
+  }
+}
@@ -1,35 +1,79 @@
 import TelegramBot from "node-telegram-bot-api";
 import { OKXService } from "./okx.service";
-import { BotActionService } from "./bot-action.service";
+import { OKXPrivateStreamService } from "./okx-private-stream.service";
+import { BotActionService, resolveProtection } from "./bot-action.service";
 import { OKXBalanceAlertService } from "./okx-balance-alert.service";
+import { InstrumentRegistry } from "./instrument-registry.service";
+import { PaperActionExecutor } from "./paper-trading.service";
+import { StrategyRouter } from "./strategy-router.service";
+import { RiskManager } from "./risk-manager.service";
+import { TradeFilter, TradeJournal } from "./trade-journal.service";
+import { PerformanceService } from "./performance.service";
+import { Clock, systemClock } from "../utils/clock.utils";
+import { calculatePositionSize } from "../utils/position-sizing.utils";
 
 export interface OrderFormData {
   symbol: string;
   side: "buy" | "sell";
-  quantity: number;
+  quantity?: number; // Contracts, unset when sized by riskPercent
+  riskPercent?: number; // Percent of equity lost at the stop loss
   price?: number;
   orderType: "market" | "limit";
   leverage: number;
+  takeProfit?: ProtectionLevel | null; // null when skipped
+  stopLoss?: ProtectionLevel | null;
 }
 
+/**
+ * TP/SL entered as an absolute price or a percent from the entry price
+ */
+export type ProtectionLevel = { price: number } | { percent: number };
+
+interface PositionView {
+  symbol: string;
+  posSide: "long" | "short";
+  size: number;
+  entryPrice: number;
+  markPrice: number;
+  unrealizedPnl: number;
+  liquidationPrice: number | null;
+  leverage: number;
+}
+
+const CLOSE_PERCENTS = [25, 50, 100];
+const TRADES_PAGE_SIZE = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class TelegramCommandService {
   private bot: TelegramBot;
   private chatId: string;
   private okxService: OKXService | null = null;
+  private okxPrivateStream: OKXPrivateStreamService | null = null;
+  private paperActionExecutor: PaperActionExecutor | null = null;
+  private strategyRouter: StrategyRouter | null = null;
+  private riskManager: RiskManager | null = null;
+  private tradeJournal: TradeJournal | null = null;
+  private performanceService: PerformanceService | null = null;
   private botActionService: BotActionService;
   private okxBalanceAlertService: OKXBalanceAlertService;
+  private instrumentRegistry: InstrumentRegistry;
+  private clock: Clock;
   private userStates: Map<number, { state: string; data?: any }> = new Map();
 
   constructor(
     bot: TelegramBot,
     chatId: string,
     botActionService: BotActionService,
-    okxBalanceAlertService: OKXBalanceAlertService
+    okxBalanceAlertService: OKXBalanceAlertService,
+    instrumentRegistry: InstrumentRegistry,
+    clock: Clock = systemClock
   ) {
     this.bot = bot;
     this.chatId = chatId;
     this.botActionService = botActionService;
     this.okxBalanceAlertService = okxBalanceAlertService;
+    this.instrumentRegistry = instrumentRegistry;
+    this.clock = clock;
     this.setupCommands();
   }
 
@@ -40,6 +84,48 @@ export class TelegramCommandService {
     this.okxService = okxService;
   }
 
+  /**
+   * Answer /balance from pushed balances while the stream is connected
+   */
+  setOKXPrivateStream(okxPrivateStream: OKXPrivateStreamService): void {
+    this.okxPrivateStream = okxPrivateStream;
+  }
+
+  /**
+   * Report and trade the paper account instead of OKX
+   */
+  setPaperActionExecutor(paperActionExecutor: PaperActionExecutor): void {
+    this.paperActionExecutor = paperActionExecutor;
+  }
+
+  /**
+   * Handle approve/reject buttons on strategy signals
+   */
+  setStrategyRouter(strategyRouter: StrategyRouter): void {
+    this.strategyRouter = strategyRouter;
+  }
+
+  /**
+   * Show risk limits and control the kill switch
+   */
+  setRiskManager(riskManager: RiskManager): void {
+    this.riskManager = riskManager;
+  }
+
+  /**
+   * List round-trip trades with /trades
+   */
+  setTradeJournal(tradeJournal: TradeJournal): void {
+    this.tradeJournal = tradeJournal;
+  }
+
+  /**
+   * Report account performance with /pnl
+   */
+  setPerformanceService(performanceService: PerformanceService): void {
+    this.performanceService = performanceService;
+  }
+
   /**
    * Setup command handlers
    */
@@ -59,6 +145,36 @@ export class TelegramCommandService {
       await this.handleOrderCommand(msg);
     });
 
+    // Positions command
+    this.bot.onText(/\/positions/, async (msg) => {
+      await this.handlePositionsCommand(msg, true);
+    });
+
+    // Close position command
+    this.bot.onText(/\/close/, async (msg) => {
+      await this.handlePositionsCommand(msg, false);
+    });
+
+    // Leverage command
+    this.bot.onText(/\/leverage(?:\s+(.+))?/, async (msg, match) => {
+      await this.handleLeverageCommand(msg, match?.[1]);
+    });
+
+    // Risk command
+    this.bot.onText(/\/risk(?:\s+(.+))?/, async (msg, match) => {
+      await this.handleRiskCommand(msg, match?.[1]);
+    });
+
+    // Trades command
+    this.bot.onText(/\/trades(?:\s+(.+))?/, async (msg, match) => {
+      await this.handleTradesCommand(msg.chat.id, match?.[1]);
+    });
+
+    // PnL command
+    this.bot.onText(/\/pnl(?:\s+(.+))?/, async (msg, match) => {
+      await this.handlePnlCommand(msg, match?.[1]);
+    });
+
     // Help command
     this.bot.onText(/\/help/, async (msg) => {
       await this.handleHelpCommand(msg);
@@ -87,6 +203,11 @@ export class TelegramCommandService {
    */
   private async handleBalanceCommand(msg: TelegramBot.Message): Promise<void> {
     try {
+      if (this.paperActionExecutor) {
+        await this.sendPaperBalance(msg.chat.id, this.paperActionExecutor);
+        return;
+      }
+
       if (!this.okxService) {
         await this.bot.sendMessage(
           msg.chat.id,
@@ -95,9 +216,11 @@ export class TelegramCommandService {
         return;
       }
 
-      await this.bot.sendMessage(msg.chat.id, "📊 Đang kiểm tra số dư...");
-
-      const balances = await this.okxService.getFuturesBalance();
+      let balances = this.okxPrivateStream?.getBalances() ?? null;
+      if (!balances) {
+        await this.bot.sendMessage(msg.chat.id, "📊 Đang kiểm tra số dư...");
+        balances = await this.okxService.getFuturesBalance();
+      }
 
       if (!balances || balances.length === 0) {
         await this.bot.sendMessage(msg.chat.id, "📊 Không có dữ liệu số dư");
@@ -113,30 +236,39 @@ export class TelegramCommandService {
         return;
       }
 
+      const usdValues = await this.okxService.getUsdValues(significantBalances);
+      const totalValue = Array.from(usdValues.values()).reduce(
+        (total, value) => total + value,
+        0
+      );
+
       const balanceDetails = significantBalances
         .map((balance) => {
           const total = balance.available + balance.locked;
+          const usdValue = usdValues.get(balance.asset);
+          const valueText =
+            usdValue !== undefined
+              ? ` ≈ $${usdValue.toFixed(2)} (${(totalValue > 0
+                  ? (usdValue / totalValue) * 100
+                  : 0
+                ).toFixed(1)}%)`
+              : " (chưa có giá USD)";
           return `• <b>${balance.asset}:</b> ${total.toFixed(
             6
-          )}\n  - Available: ${balance.available.toFixed(
+          )}${valueText}\n  - Available: ${balance.available.toFixed(
             6
           )}\n  - Locked: ${balance.locked.toFixed(6)}`;
         })
         .join("\n\n");
 
-      const totalValue = significantBalances.reduce(
-        (total, balance) => total + balance.available + balance.locked,
-        0
-      );
-
       const message = `
 <b>💰 SỐ DƯ OKX FUTURES</b>
 
 ${balanceDetails}
 
-<b>Tổng giá trị:</b> ${totalValue.toFixed(6)}
+<b>Tổng giá trị:</b> $${totalValue.toFixed(2)}
 
-<b>Thời gian:</b> ${new Date().toISOString()}
+<b>Thời gian:</b> ${new Date(this.clock.now()).toISOString()}
       `.trim();
 
       await this.bot.sendMessage(msg.chat.id, message, { parse_mode: "HTML" });
@@ -157,6 +289,11 @@ ${balanceDetails}
     msg: TelegramBot.Message
   ): Promise<void> {
     try {
+      if (this.paperActionExecutor) {
+        await this.sendPaperOrders(msg.chat.id, this.paperActionExecutor);
+        return;
+      }
+
       if (!this.okxService) {
         await this.bot.sendMessage(
           msg.chat.id,
@@ -170,19 +307,24 @@ ${balanceDetails}
         "📋 Đang kiểm tra lệnh đã khớp..."
       );
 
-      const orders = await this.okxService.getActiveFuturesOrders();
-
-      if (!orders || orders.length === 0) {
+      const [filledOrders, activeOrders, algoOrders] = await Promise.all([
+        this.okxService.getOrderHistory({ state: "filled", limit: 10 }),
+        this.okxService.getActiveFuturesOrders(),
+        this.okxService.getPendingAlgoOrders(),
+      ]);
+
+      if (
+        filledOrders.length === 0 &&
+        activeOrders.length === 0 &&
+        algoOrders.length === 0
+      ) {
         await this.bot.sendMessage(
           msg.chat.id,
-          "📋 Không có lệnh đang hoạt động"
+          "📋 Không có lệnh nào trong 7 ngày qua"
         );
         return;
       }
 
-      const filledOrders = orders.filter((order) => order.status === "filled");
-      const activeOrders = orders.filter((order) => order.status === "open");
-
       let message = "<b>📋 TRẠNG THÁI LỆNH</b>\n\n";
 
       if (filledOrders.length > 0) {
@@ -192,8 +334,14 @@ ${balanceDetails}
           message += `   - Action: ${order.action}\n`;
           message += `   - Position: ${order.position}\n`;
           message += `   - Quantity: ${order.quantity}\n`;
-          message += `   - Price: ${order.price || "Market"}\n`;
+          message += `   - Price: ${
+            order.averagePrice ?? order.price ?? "Market"
+          }\n`;
           message += `   - Leverage: ${order.leverage}x\n`;
+          message += `   - Fee: ${(order.fee ?? 0).toFixed(4)} USDT\n`;
+          if (order.realizedPnl) {
+            message += `   - PnL: ${order.realizedPnl.toFixed(2)} USDT\n`;
+          }
           message += `   - Time: ${new Date(
             order.timestamp
           ).toLocaleString()}\n\n`;
@@ -208,7 +356,20 @@ ${balanceDetails}
           message += `   - Position: ${order.position}\n`;
           message += `   - Quantity: ${order.quantity}\n`;
           message += `   - Price: ${order.price || "Market"}\n`;
-          message += `   - Leverage: ${order.leverage}x\n\n`;
+          message += `   - Leverage: ${order.leverage}x\n`;
+          message += `${this.formatProtection(order)}\n`;
+        });
+      }
+
+      if (algoOrders.length > 0) {
+        message += "<b>🛡️ Lệnh TP/SL:</b>\n";
+        algoOrders.forEach((order, index) => {
+          message += `${index + 1}. <b>${order.symbol}</b> (${
+            order.ordType
+          })\n`;
+          message += `   - Position: ${order.position}\n`;
+          message += `   - Quantity: ${order.quantity}\n`;
+          message += `${this.formatProtection(order)}\n`;
         });
       }
 
@@ -223,12 +384,784 @@ ${balanceDetails}
     }
   }
 
+  /**
+   * Send the paper account balance and open positions
+   */
+  private async sendPaperBalance(
+    chatId: number,
+    paper: PaperActionExecutor
+  ): Promise<void> {
+    const summary = paper.getAccountSummary();
+    const positions = paper.getPositions();
+
+    const positionDetails =
+      positions.length > 0
+        ? positions
+            .map(
+              (position) =>
+                `• <b>${
+                  position.instId
+                }</b> ${position.posSide.toUpperCase()} ${
+                  position.size
+                } @ ${position.entryPrice.toFixed(4)} (${
+                  position.leverage
+                }x)\n  - Mark: ${position.markPrice.toFixed(
+                  4
+                )}\n  - PnL: ${position.unrealizedPnl.toFixed(2)} USDT`
+            )
+            .join("\n\n")
+        : "Không có vị thế";
+
+    const message = `
+<b>💰 SỐ DƯ PAPER TRADING</b>
+
+• <b>Balance:</b> ${summary.balance.toFixed(2)} USDT
+• <b>Equity:</b> ${summary.equity.toFixed(2)} USDT
+• <b>Available:</b> ${summary.available.toFixed(2)} USDT
+• <b>Margin:</b> ${summary.usedMargin.toFixed(2)} USDT
+• <b>Unrealized PnL:</b> ${summary.unrealizedPnl.toFixed(2)} USDT
+• <b>Phí:</b> ${summary.totalFees.toFixed(2)} USDT
+• <b>Funding:</b> ${summary.totalFunding.toFixed(2)} USDT
+
+<b>📈 Vị thế:</b>
+${positionDetails}
+
+<b>Thời gian:</b> ${new Date(this.clock.now()).toISOString()}
+    `.trim();
+
+    await this.bot.sendMessage(chatId, message, { parse_mode: "HTML" });
+  }
+
+  /**
+   * Send recent paper fills and resting limit orders
+   */
+  private async sendPaperOrders(
+    chatId: number,
+    paper: PaperActionExecutor
+  ): Promise<void> {
+    const fills = paper.getFills(10);
+    const openOrders = paper.getOpenOrders();
+    const protectedPositions = paper
+      .getPositions()
+      .filter(
+        (position) =>
+          position.takeProfitPrice !== undefined ||
+          position.stopLossPrice !== undefined
+      );
+
+    if (
+      fills.length === 0 &&
+      openOrders.length === 0 &&
+      protectedPositions.length === 0
+    ) {
+      await this.bot.sendMessage(chatId, "📋 Không có lệnh paper nào");
+      return;
+    }
+
+    let message = "<b>📋 TRẠNG THÁI LỆNH PAPER</b>\n\n";
+
+    if (fills.length > 0) {
+      message += "<b>✅ Lệnh đã khớp:</b>\n";
+      fills.reverse().forEach((fill, index) => {
+        message += `${index + 1}. <b>${fill.instId}</b>\n`;
+        message += `   - Side: ${fill.side} (${fill.posSide})\n`;
+        message += `   - Quantity: ${fill.size}\n`;
+        message += `   - Price: ${fill.price}\n`;
+        message += `   - Fee: ${fill.fee.toFixed(4)} USDT (${
+          fill.liquidity
+        })\n`;
+        if (fill.realizedPnl !== 0) {
+          message += `   - PnL: ${fill.realizedPnl.toFixed(2)} USDT\n`;
+        }
+        message += `   - Time: ${new Date(
+          fill.timestamp
+        ).toLocaleString()}\n\n`;
+      });
+    }
+
+    if (openOrders.length > 0) {
+      message += "<b>⏳ Lệnh đang chờ:</b>\n";
+      openOrders.forEach((order, index) => {
+        message += `${index + 1}. <b>${order.instId}</b>\n`;
+        message += `   - Side: ${order.side} (${order.posSide})\n`;
+        message += `   - Quantity: ${order.size}\n`;
+        message += `   - Price: ${order.price}\n`;
+        message += `   - Leverage: ${order.leverage}x\n`;
+        message += `${this.formatProtection(order)}\n`;
+      });
+    }
+
+    if (protectedPositions.length > 0) {
+      message += "<b>🛡️ Lệnh TP/SL:</b>\n";
+      protectedPositions.forEach((position, index) => {
+        message += `${index + 1}. <b>${position.instId}</b>\n`;
+        message += `   - Position: ${position.posSide}\n`;
+        message += `   - Quantity: ${position.size}\n`;
+        message += `${this.formatProtection(position)}\n`;
+      });
+    }
+
+    await this.bot.sendMessage(chatId, message, { parse_mode: "HTML" });
+  }
+
+  /**
+   * Handle /positions (with details) and /close (buttons only) commands
+   */
+  private async handlePositionsCommand(
+    msg: TelegramBot.Message,
+    showDetails: boolean
+  ): Promise<void> {
+    try {
+      if (!this.okxService && !this.paperActionExecutor) {
+        await this.bot.sendMessage(
+          msg.chat.id,
+          "❌ OKX service chưa được cấu hình. Vui lòng kiểm tra OKX_API_KEY, OKX_API_SECRET, và OKX_PASSPHRASE trong file .env"
+        );
+        return;
+      }
+
+      const positions = await this.getPositionViews();
+      if (positions.length === 0) {
+        await this.bot.sendMessage(msg.chat.id, "📈 Không có vị thế nào");
+        return;
+      }
+
+      const title = this.paperActionExecutor
+        ? "VỊ THẾ PAPER TRADING"
+        : "VỊ THẾ OKX FUTURES";
+      let message = showDetails
+        ? `<b>📈 ${title}</b>\n\n`
+        : `<b>📉 ĐÓNG VỊ THẾ</b>\n\nChọn vị thế và tỷ lệ muốn đóng:\n`;
+
+      if (showDetails) {
+        positions.forEach((position, index) => {
+          message += `${index + 1}. <b>${
+            position.symbol
+          }</b> ${position.posSide.toUpperCase()}\n`;
+          message += `   - Quantity: ${position.size}\n`;
+          message += `   - Entry: ${position.entryPrice}\n`;
+          message += `   - Mark: ${position.markPrice}\n`;
+          message += `   - PnL: ${position.unrealizedPnl.toFixed(2)} USDT\n`;
+          message += `   - Liq. Price: ${
+            position.liquidationPrice !== null
+              ? position.liquidationPrice.toFixed(4)
+              : "N/A"
+          }\n`;
+          message += `   - Leverage: ${position.leverage}x\n\n`;
+        });
+      }
+
+      const keyboard = {
+        inline_keyboard: positions.map((position) =>
+          CLOSE_PERCENTS.map((percent) => ({
+            text: `${percent === 100 ? "❌" : "🔻"} ${position.symbol} ${
+              position.posSide
+            } ${percent}%`,
+            callback_data: `close_pos_${percent}_${position.posSide}_${position.symbol}`,
+          }))
+        ),
+      };
+
+      await this.bot.sendMessage(msg.chat.id, message.trim(), {
+        parse_mode: "HTML",
+        reply_markup: keyboard,
+      });
+    } catch (error) {
+      await this.bot.sendMessage(
+        msg.chat.id,
+        `❌ Lỗi khi kiểm tra vị thế: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Handle /leverage [symbol] [leverage] [cross|isolated]: show the
+   * instrument's leverage, or set it (and the margin mode)
+   */
+  private async handleLeverageCommand(
+    msg: TelegramBot.Message,
+    args?: string
+  ): Promise<void> {
+    try {
+      if (!this.okxService && !this.paperActionExecutor) {
+        await this.bot.sendMessage(
+          msg.chat.id,
+          "❌ OKX service chưa được cấu hình. Vui lòng kiểm tra OKX_API_KEY, OKX_API_SECRET, và OKX_PASSPHRASE trong file .env"
+        );
+        return;
+      }
+
+      const [symbolText, leverageText, marginMode] = (args || "")
+        .trim()
+        .split(/\s+/)
+        .filter(Boolean);
+
+      if (!symbolText) {
+        await this.bot.sendMessage(
+          msg.chat.id,
+          "<b>⚙️ ĐÒN BẨY</b>\n\n/leverage BTCUSDT - Xem đòn bẩy hiện tại\n/leverage BTCUSDT 10 - Đặt đòn bẩy 10x\n/leverage BTCUSDT 10 isolated - Đặt đòn bẩy và chế độ margin (cross/isolated)",
+          { parse_mode: "HTML" }
+        );
+        return;
+      }
+
+      const instrument = this.instrumentRegistry.getInstrument(
+        symbolText,
+        "okx",
+        "swap"
+      );
+      const instId =
+        instrument?.venueSymbol ||
+        this.instrumentRegistry.toCanonical(symbolText, "swap");
+      if (!instId || (!instrument && this.instrumentRegistry.hasVenue("okx"))) {
+        await this.bot.sendMessage(
+          msg.chat.id,
+          "❌ Symbol không hợp lệ hoặc không có trên OKX."
+        );
+        return;
+      }
+
+      if (!leverageText) {
+        await this.sendLeverageInfo(msg.chat.id, instId);
+        return;
+      }
+
+      const leverage = parseInt(leverageText);
+      if (isNaN(leverage) || leverage < 1 || leverage > 125) {
+        await this.bot.sendMessage(
+          msg.chat.id,
+          "❌ Đòn bẩy không hợp lệ. Vui lòng nhập từ 1-125."
+        );
+        return;
+      }
+      if (marginMode && marginMode !== "cross" && marginMode !== "isolated") {
+        await this.bot.sendMessage(
+          msg.chat.id,
+          "❌ Chế độ margin không hợp lệ. Chọn cross hoặc isolated."
+        );
+        return;
+      }
+
+      const actionId = this.botActionService.queueAction({
+        type: "adjust_leverage",
+        symbol: instId,
+        parameters: {
+          symbol: instId,
+          leverage,
+          ...(marginMode ? { marginMode } : {}),
+        },
+      });
+
+      const result = await this.botActionService.executeAction(actionId);
+
+      if (result && result.success) {
+        await this.bot.sendMessage(
+          msg.chat.id,
+          `✅ <b>Đã cập nhật đòn bẩy!</b>\n\n${
+            result.result?.message || `${instId} ${leverage}x`
+          }`,
+          { parse_mode: "HTML" }
+        );
+      } else {
+        await this.bot.sendMessage(
+          msg.chat.id,
+          `❌ <b>Cập nhật đòn bẩy thất bại!</b>\n\nLỗi: ${
+            result?.error || "Action was not executed"
+          }`,
+          { parse_mode: "HTML" }
+        );
+      }
+    } catch (error) {
+      await this.bot.sendMessage(
+        msg.chat.id,
+        `❌ Lỗi khi xử lý đòn bẩy: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Send the instrument's margin mode, leverage and the account position mode
+   */
+  private async sendLeverageInfo(
+    chatId: number,
+    instId: string
+  ): Promise<void> {
+    if (this.paperActionExecutor) {
+      await this.bot.sendMessage(
+        chatId,
+        `<b>⚙️ ĐÒN BẨY PAPER</b>\n\n<b>${instId}</b>\n• Margin: cross\n• Leverage: ${this.paperActionExecutor.getLeverage(
+          instId
+        )}x`,
+        { parse_mode: "HTML" }
+      );
+      return;
+    }
+
+    const okxService = this.okxService!;
+    const marginMode = okxService.getMarginMode(instId);
+    const [positionMode, leverageInfo] = await Promise.all([
+      okxService.getPositionMode(true),
+      okxService.getLeverageInfo(instId, marginMode),
+    ]);
+
+    const leverageLines = leverageInfo
+      .map((info) => `• Leverage (${info.posSide}): ${info.leverage}x`)
+      .join("\n");
+
+    await this.bot.sendMessage(
+      chatId,
+      `<b>⚙️ ĐÒN BẨY OKX</b>\n\n<b>${instId}</b>\n• Margin: ${marginMode}\n${leverageLines}\n\n<b>Position mode:</b> ${
+        positionMode === "net" ? "net (không hỗ trợ đặt lệnh)" : "long/short"
+      }`,
+      { parse_mode: "HTML" }
+    );
+  }
+
+  /**
+   * Handle /trades [symbol] [from YYYY-MM-DD] [to YYYY-MM-DD], also used by
+   * the page buttons
+   */
+  private async handleTradesCommand(
+    chatId: number,
+    args?: string,
+    offset: number = 0
+  ): Promise<void> {
+    try {
+      if (!this.tradeJournal) {
+        await this.bot.sendMessage(
+          chatId,
+          "❌ Nhật ký giao dịch chưa được khởi tạo (chưa có executor giao dịch)."
+        );
+        return;
+      }
+
+      const filter = this.parseTradeFilter(args);
+      await this.tradeJournal.sync();
+      const { trades, total, netPnl } = this.tradeJournal.getTrades({
+        ...filter,
+        offset,
+        limit: TRADES_PAGE_SIZE,
+      });
+
+      if (total === 0) {
+        await this.bot.sendMessage(chatId, "📒 Không có giao dịch nào");
+        return;
+      }
+
+      const tradeDetails = trades
+        .map((trade, index) => {
+          const sideText = trade.position === "long" ? "🟢 LONG" : "🔴 SHORT";
+          const statusText =
+            trade.status === "open" ? "⏳ Đang mở" : "✅ Đã đóng";
+          return `${offset + index + 1}. <b>${
+            trade.symbol
+          }</b> ${sideText} - ${statusText}
+   - Khối lượng: ${trade.entryQuantity} hợp đồng
+   - Vào: ${trade.entryPrice.toFixed(4)}${
+            trade.exitPrice !== undefined
+              ? ` → Ra: ${trade.exitPrice.toFixed(4)}`
+              : ""
+          }
+   - PnL: ${trade.realizedPnl.toFixed(2)} | Phí: ${trade.fees.toFixed(
+            4
+          )} | Funding: ${trade.funding.toFixed(4)}
+   - <b>PnL ròng:</b> ${trade.netPnl >= 0 ? "+" : ""}${trade.netPnl.toFixed(
+            2
+          )} USDT
+   - Mở: ${new Date(trade.openedAt).toLocaleString()}${
+            trade.closedAt
+              ? `\n   - Đóng: ${new Date(trade.closedAt).toLocaleString()}`
+              : ""
+          }`;
+        })
+        .join("\n\n");
+
+      const page = Math.floor(offset / TRADES_PAGE_SIZE) + 1;
+      const pageCount = Math.ceil(total / TRADES_PAGE_SIZE);
+      const encodedFilter = this.encodeTradeFilter(filter);
+      const buttons = [
+        ...(offset > 0
+          ? [
+              {
+                text: "⬅️ Trước",
+                callback_data: `trades_${
+                  offset - TRADES_PAGE_SIZE
+                }_${encodedFilter}`,
+              },
+            ]
+          : []),
+        ...(offset + TRADES_PAGE_SIZE < total
+          ? [
+              {
+                text: "Sau ➡️",
+                callback_data: `trades_${
+                  offset + TRADES_PAGE_SIZE
+                }_${encodedFilter}`,
+              },
+            ]
+          : []),
+      ];
+
+      await this.bot.sendMessage(
+        chatId,
+        `<b>📒 NHẬT KÝ GIAO DỊCH</b> (trang ${page}/${pageCount})
+
+${tradeDetails}
+
+<b>Tổng PnL ròng (${total} giao dịch):</b> ${
+          netPnl >= 0 ? "+" : ""
+        }${netPnl.toFixed(2)} USDT`,
+        {
+          parse_mode: "HTML",
+          ...(buttons.length > 0
+            ? { reply_markup: { inline_keyboard: [buttons] } }
+            : {}),
+        }
+      );
+    } catch (error) {
+      await this.bot.sendMessage(
+        chatId,
+        `❌ Lỗi khi tải nhật ký giao dịch: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Parse "[symbol] [from] [to]", dates as YYYY-MM-DD in UTC. The to date
+   * includes the whole day.
+   */
+  private parseTradeFilter(args?: string): TradeFilter {
+    const filter: TradeFilter = {};
+    const dates: number[] = [];
+
+    for (const token of (args || "").trim().split(/\s+/).filter(Boolean)) {
+      if (/^\d{4}-?\d{2}-?\d{2}$/.test(token)) {
+        const digits = token.replace(/-/g, "");
+        const time = Date.parse(
+          `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(
+            6
+          )}T00:00:00Z`
+        );
+        if (isNaN(time)) {
+          throw new Error(`Ngày không hợp lệ: ${token}`);
+        }
+        dates.push(time);
+      } else {
+        filter.symbol = token.toUpperCase();
+      }
+    }
+
+    const [from, to] = dates;
+    if (from !== undefined) filter.from = from;
+    if (to !== undefined) filter.to = to + DAY_MS - 1;
+    return filter;
+  }
+
+  /**
+   * Filter as "symbol_from_to" for page buttons, within Telegram's 64-byte
+   * callback data limit
+   */
+  private encodeTradeFilter(filter: TradeFilter): string {
+    const toDate = (time?: number) =>
+      time !== undefined
+        ? new Date(time).toISOString().slice(0, 10).replace(/-/g, "")
+        : "";
+    return `${filter.symbol || ""}_${toDate(filter.from)}_${toDate(filter.to)}`;
+  }
+
+  /**
+   * Handle trades page buttons (trades_<offset>_<symbol>_<from>_<to>)
+   */
+  private async handleTradesPage(chatId: number, data: string): Promise<void> {
+    const [, offset, ...filterParts] = data.split("_");
+    await this.handleTradesCommand(
+      chatId,
+      filterParts.filter(Boolean).join(" "),
+      Math.max(0, parseInt(offset || "0") || 0)
+    );
+  }
+
+  /**
+   * Handle /pnl [day|week|month|all]
+   */
+  private async handlePnlCommand(
+    msg: TelegramBot.Message,
+    args?: string
+  ): Promise<void> {
+    try {
+      if (!this.performanceService) {
+        await this.bot.sendMessage(
+          msg.chat.id,
+          "❌ Báo cáo hiệu suất chưa được khởi tạo (chưa có executor giao dịch)."
+        );
+        return;
+      }
+
+      const period = this.performanceService.parsePeriod(args);
+      if (!period) {
+        await this.bot.sendMessage(
+          msg.chat.id,
+          "❌ Kỳ không hợp lệ. Dùng: /pnl [day|week|month|all]"
+        );
+        return;
+      }
+
+      const titles = {
+        day: "📊 HIỆU SUẤT HÔM NAY",
+        week: "📊 HIỆU SUẤT TUẦN NÀY",
+        month: "📊 HIỆU SUẤT THÁNG NÀY",
+        all: "📊 HIỆU SUẤT TỪ ĐẦU",
+      };
+      const report = await this.performanceService.getReport(period);
+      await this.bot.sendMessage(
+        msg.chat.id,
+        this.performanceService.formatReport(report, titles[period]),
+        { parse_mode: "HTML" }
+      );
+    } catch (error) {
+      await this.bot.sendMessage(
+        msg.chat.id,
+        `❌ Lỗi khi tính hiệu suất: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Handle /risk [reset|kill]: show limits and kill switch state, reset the
+   * kill switch, or trip it manually
+   */
+  private async handleRiskCommand(
+    msg: TelegramBot.Message,
+    args?: string
+  ): Promise<void> {
+    try {
+      if (!this.riskManager) {
+        await this.bot.sendMessage(
+          msg.chat.id,
+          "❌ Risk manager chưa được khởi tạo (chưa có executor giao dịch)."
+        );
+        return;
+      }
+
+      const command = args?.trim().toLowerCase();
+
+      if (command === "reset") {
+        const wasActive = this.riskManager.resetKillSwitch();
+        await this.bot.sendMessage(
+          msg.chat.id,
+          wasActive
+            ? "✅ Đã tắt kill switch, bot có thể mở vị thế trở lại."
+            : "ℹ️ Kill switch đang không hoạt động."
+        );
+        return;
+      }
+
+      if (command === "kill") {
+        await this.riskManager.tripKillSwitch(
+          "Kích hoạt thủ công qua Telegram"
+        );
+        return;
+      }
+
+      const config = this.riskManager.getConfig();
+      const killSwitch = this.riskManager.getKillSwitchState();
+      const limit = (value: number, unit: string = "") =>
+        value > 0 ? `${value}${unit}` : "Không giới hạn";
+
+      let dailyPnlText: string;
+      try {
+        const dailyPnl = await this.riskManager.getDailyRealizedPnl();
+        dailyPnlText = `${dailyPnl >= 0 ? "+" : ""}${dailyPnl.toFixed(2)} USDT`;
+      } catch (error) {
+        dailyPnlText = "N/A";
+      }
+
+      const killSwitchText = killSwitch.active
+        ? `🛑 <b>ĐANG BẬT</b>\n• Lý do: ${killSwitch.reason}\n• Từ: ${new Date(
+            killSwitch.trippedAt ?? 0
+          ).toLocaleString()}`
+        : "✅ Tắt";
+
+      await this.bot.sendMessage(
+        msg.chat.id,
+        `<b>🛡️ QUẢN LÝ RỦI RO</b>
+
+<b>Kill switch:</b> ${killSwitchText}
+<b>PnL đã chốt hôm nay:</b> ${dailyPnlText}
+<b>Lệnh trong 1 phút qua:</b> ${this.riskManager.getRecentOrderCount()}
+
+<b>Giới hạn:</b>
+• Đòn bẩy tối đa: ${limit(config.maxLeverage, "x")}
+• Notional tối đa mỗi symbol: ${limit(config.maxNotionalPerSymbol, " USDT")}
+• Số vị thế tối đa: ${limit(config.maxOpenPositions)}
+• Lỗ tối đa mỗi ngày: ${limit(config.maxDailyLoss, " USDT")}
+• Lệnh tối đa mỗi phút: ${limit(config.maxOrdersPerMinute)}
+• Symbol bị chặn: ${config.blockedSymbols.join(", ") || "Không"}
+• Đóng vị thế khi kill switch: ${config.flattenOnKill ? "Có" : "Không"}
+
+/risk reset - Tắt kill switch
+/risk kill - Bật kill switch thủ công`,
+        { parse_mode: "HTML" }
+      );
+    } catch (error) {
+      await this.bot.sendMessage(
+        msg.chat.id,
+        `❌ Lỗi khi xử lý lệnh risk: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Open positions from the paper account or OKX
+   */
+  private async getPositionViews(): Promise<PositionView[]> {
+    if (this.paperActionExecutor) {
+      return this.paperActionExecutor.getPositions().map((position) => ({
+        symbol: position.instId,
+        posSide: position.posSide,
+        size: position.size,
+        entryPrice: position.entryPrice,
+        markPrice: position.markPrice,
+        unrealizedPnl: position.unrealizedPnl,
+        liquidationPrice: position.liquidationPrice,
+        leverage: position.leverage,
+      }));
+    }
+
+    const positions = await this.okxService!.getPositions();
+    return positions.map((position) => ({
+      symbol: position.symbol,
+      posSide: position.position,
+      size: position.quantity,
+      entryPrice: position.averagePrice,
+      markPrice: position.markPrice,
+      unrealizedPnl: position.unrealizedPnl,
+      liquidationPrice: position.liquidationPrice ?? null,
+      leverage: position.leverage,
+    }));
+  }
+
+  /**
+   * Handle a close button: close_pos_<percent>_<posSide>_<instId>
+   */
+  private async handleClosePositionSelection(
+    chatId: number,
+    data: string
+  ): Promise<void> {
+    const [, , percentText, posSide, ...instIdParts] = data.split("_");
+    const percent = parseFloat(percentText || "");
+    const symbol = instIdParts.join("_");
+
+    await this.bot.sendMessage(
+      chatId,
+      `⏳ Đang đóng ${percent}% vị thế ${symbol} ${posSide}...`
+    );
+
+    const actionId = this.botActionService.queueAction({
+      type: "close_position",
+      symbol,
+      parameters: { symbol, posSide, percent },
+    });
+
+    const result = await this.botActionService.executeAction(actionId);
+
+    if (result && result.success) {
+      await this.bot.sendMessage(
+        chatId,
+        `✅ <b>Đã đóng vị thế!</b>\n\n${symbol} ${posSide} ${percent}%\n${
+          result.result?.message || ""
+        }`,
+        { parse_mode: "HTML" }
+      );
+    } else {
+      await this.bot.sendMessage(
+        chatId,
+        `❌ <b>Đóng vị thế thất bại!</b>\n\nLỗi: ${
+          result?.error || "Action was not executed"
+        }`,
+        { parse_mode: "HTML" }
+      );
+    }
+  }
+
+  /**
+   * Handle a strategy signal button: strategy_<approve|reject>_<signalId>
+   */
+  private async handleStrategyDecision(
+    chatId: number,
+    data: string
+  ): Promise<void> {
+    if (!this.strategyRouter) {
+      await this.bot.sendMessage(chatId, "❌ Auto trading chưa được bật");
+      return;
+    }
+
+    const [, decision, signalId] = data.split("_");
+    if (!signalId) return;
+
+    if (decision === "reject") {
+      this.strategyRouter.reject(signalId);
+      await this.bot.sendMessage(chatId, `🚫 Đã bỏ qua tín hiệu ${signalId}`);
+      return;
+    }
+
+    await this.bot.sendMessage(chatId, `⏳ Đang đặt lệnh cho ${signalId}...`);
+    const signal = await this.strategyRouter.approve(signalId);
+
+    if (signal.status === "executed") {
+      await this.bot.sendMessage(
+        chatId,
+        `✅ <b>Đã duyệt và đặt lệnh!</b>\n\nSignal: ${signal.id} (${
+          signal.strategy
+        })\nAction: ${signal.actionId}\nOrder ID: ${
+          signal.result?.orderId || "N/A"
+        }`,
+        { parse_mode: "HTML" }
+      );
+    } else {
+      await this.bot.sendMessage(
+        chatId,
+        `❌ <b>Đặt lệnh thất bại!</b>\n\nSignal: ${signal.id}\nLỗi: ${
+          signal.error || "Unknown error"
+        }`,
+        { parse_mode: "HTML" }
+      );
+    }
+  }
+
+  /**
+   * Format TP/SL trigger prices as message lines
+   */
+  private formatProtection(order: {
+    takeProfitPrice?: number;
+    stopLossPrice?: number;
+  }): string {
+    let lines = "";
+    if (order.takeProfitPrice !== undefined) {
+      lines += `   - TP: ${order.takeProfitPrice}\n`;
+    }
+    if (order.stopLossPrice !== undefined) {
+      lines += `   - SL: ${order.stopLossPrice}\n`;
+    }
+    return lines;
+  }
+
   /**
    * Handle /order command
    */
   private async handleOrderCommand(msg: TelegramBot.Message): Promise<void> {
     try {
-      if (!this.okxService) {
+      if (!this.okxService && !this.paperActionExecutor) {
         await this.bot.sendMessage(
           msg.chat.id,
           "❌ OKX service chưa được cấu hình. Vui lòng kiểm tra OKX_API_KEY, OKX_API_SECRET, và OKX_PASSPHRASE trong file .env"
@@ -250,7 +1183,7 @@ ${balanceDetails}
       };
 
       const message = `
-<b>📝 ĐẶT LỆNH FUTURES</b>
+<b>📝 ĐẶT LỆNH FUTURES${this.paperActionExecutor ? " (PAPER)" : ""}</b>
 
 <b>Bước 1:</b> Chọn loại lệnh (Mua hoặc Bán)
       `.trim();
@@ -325,9 +1258,18 @@ ${balanceDetails}
 <b>📊 Thông tin tài khoản:</b>
 /balance - Kiểm tra số dư OKX Futures
 /filled - Kiểm tra lệnh đã khớp và đang chờ
+/pnl - Hiệu suất: /pnl [day|week|month|all]
+/trades - Nhật ký giao dịch (lọc: /trades BTC 2025-01-01 2025-01-31)
+/positions - Xem vị thế đang mở
 
 <b>📝 Giao dịch:</b>
 /order - Đặt lệnh futures mới
+/close - Đóng vị thế (toàn bộ hoặc một phần)
+/leverage - Xem/đặt đòn bẩy và chế độ margin
+
+<b>🛡️ Rủi ro:</b>
+/risk - Xem giới hạn rủi ro và kill switch
+/risk reset - Tắt kill switch
 
 <b>🔧 Kiểm tra:</b>
 /test - Test kết nối OKX API
@@ -341,7 +1283,7 @@ ${balanceDetails}
 3. Bot sẽ xác nhận trước khi thực hiện lệnh
 
 <b>⚠️ Lưu ý:</b>
-- Tất cả lệnh đều được thực hiện trên OKX Futures
+- Tất cả lệnh đều được thực hiện trên OKX Futures (TRADING_MODE=paper chỉ mô phỏng, không gửi lệnh thật)
 - Vui lòng kiểm tra kỹ thông tin trước khi xác nhận
 - Bot chỉ hỗ trợ các cặp tiền có sẵn trên OKX
     `.trim();
@@ -372,6 +1314,12 @@ ${balanceDetails}
         await this.handleOrderConfirmation(userId, chatId);
       } else if (data === "cancel_order") {
         await this.handleOrderCancellation(userId, chatId);
+      } else if (data.startsWith("close_pos_")) {
+        await this.handleClosePositionSelection(chatId, data);
+      } else if (data.startsWith("strategy_")) {
+        await this.handleStrategyDecision(chatId, data);
+      } else if (data.startsWith("trades_")) {
+        await this.handleTradesPage(chatId, data);
       }
     } catch (error) {
       await this.bot.sendMessage(
@@ -450,7 +1398,7 @@ ${balanceDetails}
 <b>Bước 3:</b> Nhập thông tin giao dịch
 
 <b>1. Symbol (cặp tiền):</b>
-<b>Ví dụ:</b> BTC-USDT, ETH-USDT, SOL-USDT
+<b>Ví dụ:</b> BTCUSDT, ETH-USDT, SOL-USDT-SWAP
 <b>Lưu ý:</b> Bot sẽ tự động thêm -SWAP cho futures
 
 Nhập symbol:
@@ -475,25 +1423,78 @@ Nhập symbol:
 
     try {
       if (!data.symbol) {
-        // Validate symbol - accept both BTC-USDT and BTC-USDT-SWAP formats
-        if (!text.match(/^[A-Z]+-[A-Z]+(-SWAP)?$/)) {
+        // Accept BTCUSDT, BTC-USDT and BTC-USDT-SWAP, always trade the swap
+        const instrument = this.instrumentRegistry.getInstrument(
+          text,
+          "okx",
+          "swap"
+        );
+        const instId =
+          instrument?.venueSymbol ||
+          this.instrumentRegistry.toCanonical(text, "swap");
+
+        if (
+          !instId ||
+          (!instrument && this.instrumentRegistry.hasVenue("okx"))
+        ) {
           await this.bot.sendMessage(
             msg.chat.id,
-            "❌ Symbol không hợp lệ.\n\n<b>Định dạng chấp nhận:</b>\n• BTC-USDT\n• BTC-USDT-SWAP\n\n<b>Lưu ý:</b> Nếu bạn nhập BTC-USDT, bot sẽ tự động thêm -SWAP cho futures trading."
+            "❌ Symbol không hợp lệ hoặc không có trên OKX.\n\n<b>Định dạng chấp nhận:</b>\n• BTCUSDT\n• BTC-USDT\n• BTC-USDT-SWAP\n\n<b>Lưu ý:</b> Bot sẽ tự động chuyển sang hợp đồng -SWAP cho futures trading.",
+            { parse_mode: "HTML" }
           );
           return;
         }
 
-        // Auto-add -SWAP if not present for futures trading
-        data.symbol = text.endsWith("-SWAP") ? text : `${text}-SWAP`;
+        data.symbol = instId;
         this.userStates.set(userId, userState);
 
+        const contractInfo = instrument
+          ? `\n1 hợp đồng = ${instrument.contractValue} ${instrument.base} | Bước: ${instrument.lotSize} | Tối thiểu: ${instrument.minSize}`
+          : "";
+
         await this.bot.sendMessage(
           msg.chat.id,
-          `✅ Symbol: ${data.symbol}\n\n<b>2. Quantity (số lượng):</b>\nNhập số lượng:`,
+          `✅ Symbol: ${data.symbol}${contractInfo}\n\n<b>2. Quantity (số hợp đồng):</b>\nNhập số lượng, hoặc rủi ro % kèm SL (ví dụ: <code>1% 60000</code> hoặc <code>1% 2%</code>):`,
           { parse_mode: "HTML" }
         );
-      } else if (!data.quantity) {
+      } else if (!data.quantity && !data.riskPercent) {
+        // "1% 60000": risk 1% of equity with the stop loss at 60000 (or 2% away)
+        const riskMatch = text.match(/^(\d+(?:\.\d+)?)%\s+(\S+)$/);
+        if (riskMatch) {
+          const riskPercent = parseFloat(riskMatch[1] || "");
+          const stopLoss = this.parseProtectionLevel(riskMatch[2] || "");
+          if (!(riskPercent > 0 && riskPercent <= 100) || !stopLoss) {
+            await this.bot.sendMessage(
+              msg.chat.id,
+              "❌ Rủi ro không hợp lệ. Ví dụ: 1% 60000 (SL theo giá) hoặc 1% 2% (SL theo phần trăm)."
+            );
+            return;
+          }
+
+          data.riskPercent = riskPercent;
+          data.stopLoss = stopLoss;
+          this.userStates.set(userId, userState);
+
+          const riskText = `✅ Rủi ro: ${riskPercent}% với SL ${this.formatProtectionLevel(
+            stopLoss
+          )}`;
+          if (data.orderType === "limit") {
+            await this.bot.sendMessage(
+              msg.chat.id,
+              `${riskText}\n\n<b>3. Price (giá):</b>\nNhập giá:`,
+              { parse_mode: "HTML" }
+            );
+          } else {
+            data.price = undefined;
+            await this.bot.sendMessage(
+              msg.chat.id,
+              `${riskText}\n\n<b>3. Leverage (đòn bẩy):</b>\nNhập đòn bẩy (1-125):`,
+              { parse_mode: "HTML" }
+            );
+          }
+          return;
+        }
+
         // Validate quantity
         const quantity = parseFloat(text);
         if (isNaN(quantity) || quantity <= 0) {
@@ -504,6 +1505,15 @@ Nhập symbol:
           return;
         }
 
+        const instrumentError = this.validateAgainstInstrument(
+          data.symbol,
+          quantity
+        );
+        if (instrumentError) {
+          await this.bot.sendMessage(msg.chat.id, `❌ ${instrumentError}`);
+          return;
+        }
+
         data.quantity = quantity;
         this.userStates.set(userId, userState);
 
@@ -530,6 +1540,16 @@ Nhập symbol:
           return;
         }
 
+        const instrumentError = this.validateAgainstInstrument(
+          data.symbol,
+          data.quantity,
+          price
+        );
+        if (instrumentError) {
+          await this.bot.sendMessage(msg.chat.id, `❌ ${instrumentError}`);
+          return;
+        }
+
         data.price = price;
         this.userStates.set(userId, userState);
 
@@ -551,6 +1571,52 @@ Nhập symbol:
         data.leverage = leverage;
         this.userStates.set(userId, userState);
 
+        await this.bot.sendMessage(
+          msg.chat.id,
+          `✅ Leverage: ${leverage}x\n\n<b>${
+            data.orderType === "limit" ? 5 : 4
+          }. Take Profit:</b>\nNhập giá hoặc phần trăm (ví dụ: 65000 hoặc 2%), 0 để bỏ qua:`,
+          { parse_mode: "HTML" }
+        );
+      } else if (data.takeProfit === undefined) {
+        const takeProfit = this.parseProtectionLevel(text);
+        if (takeProfit === undefined) {
+          await this.bot.sendMessage(
+            msg.chat.id,
+            "❌ Take profit không hợp lệ. Nhập giá, phần trăm (ví dụ: 2%) hoặc 0 để bỏ qua."
+          );
+          return;
+        }
+
+        data.takeProfit = takeProfit;
+        this.userStates.set(userId, userState);
+
+        // Stop loss was already given with the risk percent
+        if (data.stopLoss !== undefined) {
+          await this.showOrderConfirmation(msg.chat.id, data);
+          return;
+        }
+
+        await this.bot.sendMessage(
+          msg.chat.id,
+          `✅ Take Profit: ${this.formatProtectionLevel(takeProfit)}\n\n<b>${
+            data.orderType === "limit" ? 6 : 5
+          }. Stop Loss:</b>\nNhập giá hoặc phần trăm (ví dụ: 60000 hoặc 1%), 0 để bỏ qua:`,
+          { parse_mode: "HTML" }
+        );
+      } else if (data.stopLoss === undefined) {
+        const stopLoss = this.parseProtectionLevel(text);
+        if (stopLoss === undefined) {
+          await this.bot.sendMessage(
+            msg.chat.id,
+            "❌ Stop loss không hợp lệ. Nhập giá, phần trăm (ví dụ: 1%) hoặc 0 để bỏ qua."
+          );
+          return;
+        }
+
+        data.stopLoss = stopLoss;
+        this.userStates.set(userId, userState);
+
         // Show confirmation
         await this.showOrderConfirmation(msg.chat.id, data);
       }
@@ -564,6 +1630,123 @@ Nhập symbol:
     }
   }
 
+  /**
+   * Parse a TP/SL input: "2%" is a percent, a number is a price and
+   * 0 skips it. Returns undefined for invalid input.
+   */
+  private parseProtectionLevel(
+    text: string
+  ): ProtectionLevel | null | undefined {
+    const isPercent = text.endsWith("%");
+    const value = parseFloat(isPercent ? text.slice(0, -1) : text);
+
+    if (isNaN(value) || value < 0) return undefined;
+    if (value === 0) return null;
+    return isPercent ? { percent: value } : { price: value };
+  }
+
+  private formatProtectionLevel(
+    level: ProtectionLevel | null | undefined
+  ): string {
+    if (!level) return "Không";
+    return "percent" in level ? `${level.percent}%` : `${level.price}`;
+  }
+
+  /**
+   * Map TP/SL form input onto action parameters
+   */
+  private toProtectionParameters(data: OrderFormData): Record<string, number> {
+    const parameters: Record<string, number> = {};
+    if (data.takeProfit) {
+      if ("percent" in data.takeProfit) {
+        parameters.takeProfitPercent = data.takeProfit.percent;
+      } else {
+        parameters.takeProfitPrice = data.takeProfit.price;
+      }
+    }
+    if (data.stopLoss) {
+      if ("percent" in data.stopLoss) {
+        parameters.stopLossPercent = data.stopLoss.percent;
+      } else {
+        parameters.stopLossPrice = data.stopLoss.price;
+      }
+    }
+    return parameters;
+  }
+
+  /**
+   * Check size/price against the instrument's lot and tick rules,
+   * returning the violation message if any
+   */
+  private validateAgainstInstrument(
+    symbol: string,
+    quantity: number | undefined,
+    price?: number
+  ): string | null {
+    const instrument = this.instrumentRegistry.getInstrument(symbol, "okx");
+    if (!instrument) return null;
+
+    try {
+      // Risk-sized orders have no quantity yet, only the price is checked
+      this.instrumentRegistry.validateOrder(
+        instrument,
+        quantity ?? instrument.minSize,
+        price
+      );
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : "Invalid order";
+    }
+  }
+
+  /**
+   * Estimate the contracts a risk-sized order will get at the current
+   * equity and price. The executor sizes it again when the order is placed.
+   */
+  private async estimateRiskSize(data: OrderFormData): Promise<string> {
+    try {
+      const posSide = data.side === "buy" ? "long" : "short";
+      const instrument = this.instrumentRegistry.getInstrument(
+        data.symbol,
+        "okx",
+        "swap"
+      );
+      const paper = this.paperActionExecutor;
+      const entryPrice =
+        data.price ||
+        (paper
+          ? await paper.getCurrentPrice(data.symbol)
+          : await this.okxService!.getTickerPrice(data.symbol));
+      const equity = paper
+        ? paper.getAccountSummary().equity
+        : await this.okxService!.getAccountEquity("USDT");
+      const { stopLossPrice } = resolveProtection(
+        this.toProtectionParameters({ ...data, takeProfit: null }),
+        posSide,
+        entryPrice
+      );
+
+      const sizing = calculatePositionSize({
+        equity,
+        riskPercent: data.riskPercent || 0,
+        entryPrice,
+        stopPrice: stopLossPrice || 0,
+        contractValue: instrument?.contractValue ?? 1,
+        ...(instrument
+          ? { lotSize: instrument.lotSize, minSize: instrument.minSize }
+          : {}),
+      });
+
+      return `≈ ${sizing.size} hợp đồng, lỗ ${sizing.expectedLoss.toFixed(
+        2
+      )} USDT tại SL`;
+    } catch (error) {
+      return `không ước tính được: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+    }
+  }
+
   /**
    * Show order confirmation
    */
@@ -575,6 +1758,9 @@ Nhập symbol:
     const typeText =
       data.orderType === "market" ? "📊 Market Order" : "🎯 Limit Order";
     const priceText = data.price ? data.price.toString() : "Market Price";
+    const quantityText = data.riskPercent
+      ? `Rủi ro ${data.riskPercent}% (${await this.estimateRiskSize(data)})`
+      : `${data.quantity}`;
 
     const message = `
 <b>📋 XÁC NHẬN LỆNH</b>
@@ -582,9 +1768,11 @@ Nhập symbol:
 <b>Symbol:</b> ${data.symbol}
 <b>Loại:</b> ${sideText}
 <b>Kiểu:</b> ${typeText}
-<b>Số lượng:</b> ${data.quantity}
+<b>Số lượng:</b> ${quantityText}
 <b>Giá:</b> ${priceText}
 <b>Đòn bẩy:</b> ${data.leverage}x
+<b>Take Profit:</b> ${this.formatProtectionLevel(data.takeProfit)}
+<b>Stop Loss:</b> ${this.formatProtectionLevel(data.stopLoss)}
 
 <b>⚠️ Xác nhận đặt lệnh này?</b>
     `.trim();
@@ -619,19 +1807,21 @@ Nhập symbol:
     try {
       await this.bot.sendMessage(chatId, "⏳ Đang đặt lệnh...");
 
-      // Test OKX connection first
-      try {
-        await this.okxService!.getFuturesBalance();
-        console.log("✅ OKX connection test passed");
-      } catch (error) {
-        console.error("❌ OKX connection test failed:", error);
-        await this.bot.sendMessage(
-          chatId,
-          `❌ <b>Lỗi kết nối OKX:</b>\n${
-            error instanceof Error ? error.message : "Unknown error"
-          }\n\nVui lòng kiểm tra:\n• API credentials\n• Quyền futures trading\n• Kết nối mạng`
-        );
-        return;
+      // Test OKX connection first (paper orders never reach OKX)
+      if (!this.paperActionExecutor) {
+        try {
+          await this.okxService!.getFuturesBalance();
+          console.log("✅ OKX connection test passed");
+        } catch (error) {
+          console.error("❌ OKX connection test failed:", error);
+          await this.bot.sendMessage(
+            chatId,
+            `❌ <b>Lỗi kết nối OKX:</b>\n${
+              error instanceof Error ? error.message : "Unknown error"
+            }\n\nVui lòng kiểm tra:\n• API credentials\n• Quyền futures trading\n• Kết nối mạng`
+          );
+          return;
+        }
       }
 
       // Queue the action
@@ -643,6 +1833,8 @@ Nhập symbol:
           quantity: data.quantity,
           price: data.price,
           leverage: data.leverage,
+          ...(data.riskPercent ? { riskPercent: data.riskPercent } : {}),
+          ...this.toProtectionParameters(data),
         },
       });
 
@@ -654,9 +1846,7 @@ Nhập symbol:
         leverage: data.leverage,
       });
 
-      // Execute pending actions
-      const results = await this.botActionService.executePendingActions();
-      const result = results.find((r) => r.actionId === actionId);
+      const result = await this.botActionService.executeAction(actionId);
 
       console.log(`📊 Action execution result:`, result);
 
@@ -665,14 +1855,14 @@ Nhập symbol:
           chatId,
           `✅ <b>Lệnh đã được đặt thành công!</b>\n\nOrder ID: ${
             result.result?.orderId || "N/A"
-          }\nThời gian: ${new Date().toLocaleString()}`,
+          }\nThời gian: ${new Date(this.clock.now()).toLocaleString()}`,
           { parse_mode: "HTML" }
         );
       } else {
         await this.bot.sendMessage(
           chatId,
           `❌ <b>Lệnh thất bại!</b>\n\nLỗi: ${
-            result?.error || "Unknown error"
+            result?.error || "Action was not executed"
           }`,
           { parse_mode: "HTML" }
         );
@@ -1,28 +1,52 @@
 import TelegramBot from "node-telegram-bot-api";
 import {
+  Alert,
   VolumeAlert,
   RSIAlert,
+  RSIPivotDivergenceAlert,
+  OscillatorDivergenceAlert,
+  MACDAlert,
+  ATRVolatilityAlert,
+  ADXTrendAlert,
+  SuperTrendAlert,
   ScalpingAlert,
   OKXBalanceAlert,
+  DivergenceOscillator,
 } from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+
+const OSCILLATOR_NAMES: { [oscillator in DivergenceOscillator]: string } = {
+  rsi: "RSI",
+  macd: "MACD Histogram",
+  obv: "OBV",
+  cvd: "CVD",
+  stochastic: "Stochastic %K",
+  mfi: "MFI",
+};
 
 export class TelegramService {
   public bot: TelegramBot;
   private chatId: string;
+  private clock: Clock;
 
-  constructor(botToken: string, chatId: string) {
+  constructor(botToken: string, chatId: string, clock: Clock = systemClock) {
     this.bot = new TelegramBot(botToken, { polling: true });
     this.chatId = chatId;
+    this.clock = clock;
   }
 
   /**
    * Send a simple text message
    */
-  async sendMessage(message: string): Promise<void> {
+  async sendMessage(
+    message: string,
+    replyMarkup?: TelegramBot.InlineKeyboardMarkup
+  ): Promise<void> {
     try {
       await this.bot.sendMessage(this.chatId, message, {
         parse_mode: "HTML",
         disable_web_page_preview: true,
+        ...(replyMarkup ? { reply_markup: replyMarkup } : {}),
       });
     } catch (error) {
       console.error("Error sending Telegram message:", error);
@@ -38,7 +62,7 @@ export class TelegramService {
 <b>BOT CẢNH BÁO VOLUME ĐÃ KHỞI ĐỘNG</b>
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-<i>Khởi động lúc: ${new Date().toISOString()}</i>
+<i>Khởi động lúc: ${new Date(this.clock.now()).toISOString()}</i>
     `.trim();
 
     await this.sendMessage(message);
@@ -53,7 +77,7 @@ export class TelegramService {
 
 ${context ? `<b>Ngữ cảnh:</b> ${context}\n` : ""}
 <b>Lỗi:</b> ${error}
-<b>Thời gian:</b> ${new Date().toISOString()}
+<b>Thời gian:</b> ${new Date(this.clock.now()).toISOString()}
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 <i>Kiểm tra log bot để biết thêm chi tiết</i>
@@ -70,7 +94,7 @@ ${context ? `<b>Ngữ cảnh:</b> ${context}\n` : ""}
 <b>KIỂM TRA SỨC KHỎE BOT</b>
 
 Bot đang hoạt động bình thường
-Lần kiểm tra cuối: ${new Date().toISOString()}
+Lần kiểm tra cuối: ${new Date(this.clock.now()).toISOString()}
     `.trim();
 
     await this.sendMessage(message);
@@ -180,6 +204,222 @@ ${candles
     await this.sendMessage(message);
   }
 
+  /**
+   * Send RSI pivot divergence alert with entry, TP and SL
+   */
+  async sendRSIPivotDivergenceAlert(
+    alert: RSIPivotDivergenceAlert
+  ): Promise<void> {
+    const isBuy = alert.signal === "buy";
+
+    const message = `
+<b>${isBuy ? "🟢" : "🔴"} PHÂN KỲ RSI PIVOT - ${
+      isBuy ? "MUA (B)" : "BÁN (S)"
+    }</b>
+
+<b>${alert.symbol}</b> | <b>${alert.timeframe}</b>
+<b>Giá hiện tại:</b> $${alert.currentPrice.toFixed(2)}
+
+<b>Điểm vào lệnh:</b> $${alert.entryPrice.toFixed(2)}
+<b>Chốt lời (TP):</b> $${alert.takeProfitPrice.toFixed(2)}
+<b>Cắt lỗ (SL):</b> $${alert.stopLossPrice.toFixed(2)}
+
+<b>Chi tiết pivot:</b>
+• Giá: $${alert.previousPivotPrice.toFixed(2)} → $${alert.entryPrice.toFixed(2)}
+• RSI: ${alert.previousRsiValue.toFixed(2)} → ${alert.rsiValue.toFixed(2)}
+• Nến pivot: ${new Date(alert.pivotTime).toISOString()}
+
+<b>Thời gian:</b> ${new Date(alert.timestamp).toISOString()}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+<i>${
+      isBuy
+        ? "Tín hiệu mua: Đáy giá thấp hơn nhưng đáy RSI cao hơn"
+        : "Tín hiệu bán: Đỉnh giá cao hơn nhưng đỉnh RSI thấp hơn"
+    }</i>
+    `.trim();
+
+    await this.sendMessage(message);
+  }
+
+  /**
+   * Send oscillator divergence alert with both pivots
+   */
+  async sendOscillatorDivergenceAlert(
+    alert: OscillatorDivergenceAlert
+  ): Promise<void> {
+    const { previousPivot, currentPivot } = alert;
+    const isBullish = alert.divergenceType === "bullish";
+    const isRegular = alert.divergenceClass === "regular";
+    const pivotName = isBullish ? "Đáy" : "Đỉnh";
+    const formatValue = (value: number) =>
+      Math.abs(value) >= 1000 ? value.toFixed(0) : value.toFixed(4);
+
+    const message = `
+<b>${isBullish ? "🟢" : "🔴"} PHÂN KỲ ${isRegular ? "THƯỜNG" : "ẨN"} ${
+      OSCILLATOR_NAMES[alert.oscillator]
+    }</b>
+
+<b>${alert.symbol}</b> | <b>${alert.timeframe}</b>
+<b>Giá hiện tại:</b> $${alert.currentPrice.toFixed(2)}
+
+<b>Loại phân kỳ:</b> <b>${isBullish ? "TÍCH CỰC" : "TIÊU CỰC"}</b> (${
+      isRegular ? "thường" : "ẩn"
+    })
+
+<b>${pivotName} trước:</b> ${new Date(previousPivot.time).toISOString()}
+• Giá: $${previousPivot.price.toFixed(2)}
+• ${OSCILLATOR_NAMES[alert.oscillator]}: ${formatValue(previousPivot.value)}
+
+<b>${pivotName} sau:</b> ${new Date(currentPivot.time).toISOString()}
+• Giá: $${currentPivot.price.toFixed(2)}
+• ${OSCILLATOR_NAMES[alert.oscillator]}: ${formatValue(currentPivot.value)}
+
+<b>Khoảng cách:</b> ${alert.barDistance} nến
+<b>Thời gian:</b> ${new Date(alert.timestamp).toISOString()}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+<i>${
+      isRegular
+        ? isBullish
+          ? "Đáy giá thấp hơn nhưng chỉ báo cao hơn - có thể đảo chiều tăng"
+          : "Đỉnh giá cao hơn nhưng chỉ báo thấp hơn - có thể đảo chiều giảm"
+        : isBullish
+        ? "Đáy giá cao hơn nhưng chỉ báo thấp hơn - xu hướng tăng tiếp diễn"
+        : "Đỉnh giá thấp hơn nhưng chỉ báo cao hơn - xu hướng giảm tiếp diễn"
+    }</i>
+    `.trim();
+
+    await this.sendMessage(message);
+  }
+
+  /**
+   * Send MACD crossover or zero-line cross alert
+   */
+  async sendMACDAlert(alert: MACDAlert): Promise<void> {
+    const isBuy = alert.signal === "buy";
+    const isCrossover = alert.type === "macd_crossover";
+
+    const message = `
+<b>${isBuy ? "🟢" : "🔴"} MACD ${
+      isCrossover ? "CẮT ĐƯỜNG TÍN HIỆU" : "CẮT ĐƯỜNG 0"
+    } - ${isBuy ? "MUA" : "BÁN"}</b>
+
+<b>${alert.symbol}</b> | <b>${alert.timeframe}</b>
+<b>Giá hiện tại:</b> $${alert.currentPrice.toFixed(2)}
+
+<b>MACD:</b>
+• MACD: ${alert.macd.toFixed(4)}
+• Signal: ${alert.signalLine.toFixed(4)}
+• Histogram: ${alert.histogram.toFixed(4)}
+
+<b>Nến:</b> ${new Date(alert.candleTime).toISOString()}
+<b>Thời gian:</b> ${new Date(alert.timestamp).toISOString()}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+<i>${
+      isCrossover
+        ? isBuy
+          ? "MACD cắt lên trên đường tín hiệu"
+          : "MACD cắt xuống dưới đường tín hiệu"
+        : isBuy
+        ? "MACD vượt lên trên 0 - động lượng tăng"
+        : "MACD giảm xuống dưới 0 - động lượng giảm"
+    }</i>
+    `.trim();
+
+    await this.sendMessage(message);
+  }
+
+  /**
+   * Send ATR volatility expansion alert
+   */
+  async sendATRVolatilityAlert(alert: ATRVolatilityAlert): Promise<void> {
+    const message = `
+<b>🌋 BIẾN ĐỘNG TĂNG MẠNH (ATR)</b>
+
+<b>${alert.symbol}</b> | <b>${alert.timeframe}</b>
+<b>Giá hiện tại:</b> $${alert.currentPrice.toFixed(2)}
+<b>Nến:</b> ${alert.candleDirection === "up" ? "🟢 Tăng" : "🔴 Giảm"}
+
+<b>ATR:</b>
+• ATR: ${alert.atr.toFixed(4)} (${alert.atrPercent.toFixed(2)}% giá)
+• ATR trung bình: ${alert.averageAtr.toFixed(4)}
+• Tỷ lệ: <b>${alert.expansionRatio.toFixed(2)}x</b>
+
+<b>Nến:</b> ${new Date(alert.candleTime).toISOString()}
+<b>Thời gian:</b> ${new Date(alert.timestamp).toISOString()}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+<i>Biến động vượt xa mức trung bình - cân nhắc nới SL hoặc giảm khối lượng</i>
+    `.trim();
+
+    await this.sendMessage(message);
+  }
+
+  /**
+   * Send ADX trend strength transition alert
+   */
+  async sendADXTrendAlert(alert: ADXTrendAlert): Promise<void> {
+    const isStrengthening = alert.transition === "strengthening";
+    const isBullish = alert.trendDirection === "bullish";
+
+    const message = `
+<b>${isStrengthening ? "💪" : "😴"} ADX - ${
+      isStrengthening ? "XU HƯỚNG MẠNH LÊN" : "XU HƯỚNG YẾU ĐI"
+    }</b>
+
+<b>${alert.symbol}</b> | <b>${alert.timeframe}</b>
+<b>Giá hiện tại:</b> $${alert.currentPrice.toFixed(2)}
+<b>Xu hướng:</b> ${isBullish ? "🟢 TĂNG" : "🔴 GIẢM"}
+
+<b>ADX:</b> ${alert.previousAdx.toFixed(2)} → <b>${alert.adx.toFixed(2)}</b>
+• +DI: ${alert.plusDI.toFixed(2)}
+• -DI: ${alert.minusDI.toFixed(2)}
+
+<b>Nến:</b> ${new Date(alert.candleTime).toISOString()}
+<b>Thời gian:</b> ${new Date(alert.timestamp).toISOString()}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+<i>${
+      isStrengthening
+        ? "ADX vượt ngưỡng xu hướng - thị trường bắt đầu có xu hướng"
+        : "ADX xuống dưới ngưỡng yếu - thị trường chuyển sang đi ngang"
+    }</i>
+    `.trim();
+
+    await this.sendMessage(message);
+  }
+
+  /**
+   * Send SuperTrend flip alert
+   */
+  async sendSuperTrendAlert(alert: SuperTrendAlert): Promise<void> {
+    const isBuy = alert.signal === "buy";
+
+    const message = `
+<b>${isBuy ? "🟢" : "🔴"} SUPERTREND ĐẢO CHIỀU - ${isBuy ? "MUA" : "BÁN"}</b>
+
+<b>${alert.symbol}</b> | <b>${alert.timeframe}</b>
+<b>Giá hiện tại:</b> $${alert.currentPrice.toFixed(2)}
+
+<b>SuperTrend:</b> $${alert.superTrend.toFixed(2)}
+<b>ATR:</b> ${alert.atr.toFixed(4)}
+
+<b>Nến:</b> ${new Date(alert.candleTime).toISOString()}
+<b>Thời gian:</b> ${new Date(alert.timestamp).toISOString()}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+<i>${
+      isBuy
+        ? "Giá đóng cửa vượt dải trên - chuyển sang xu hướng tăng"
+        : "Giá đóng cửa thủng dải dưới - chuyển sang xu hướng giảm"
+    }</i>
+    `.trim();
+
+    await this.sendMessage(message);
+  }
+
   /**
    * Send scalping alert
    */
@@ -246,7 +486,7 @@ ${indicatorDetails}
    * Send OKX balance alert
    */
   async sendOKXBalanceAlert(alert: OKXBalanceAlert): Promise<void> {
-    const { balances, totalPortfolioValue, alertType } = alert;
+    const { balances, totalPortfolioValue, marginRatio, alertType } = alert;
 
     let alertEmoji = "💰";
     let alertTitle = "CẬP NHẬT SỐ DƯ OKX";
@@ -260,23 +500,44 @@ ${indicatorDetails}
         alertEmoji = "🚨";
         alertTitle = "THAY ĐỔI SỐ DƯ LỚN";
         break;
+      case "margin_ratio_warning":
+        alertEmoji = "🆘";
+        alertTitle = "CẢNH BÁO TỶ LỆ KÝ QUỸ";
+        break;
     }
 
-    const balanceDetails = balances
+    const balanceDetails = [...balances]
+      .sort((a, b) => (b.usdValue ?? 0) - (a.usdValue ?? 0))
       .map((balance) => {
         const total = balance.available + balance.locked;
+        const valueText =
+          balance.usdValue !== undefined
+            ? ` ≈ $${balance.usdValue.toFixed(2)} (${(
+                balance.portfolioShare ?? 0
+              ).toFixed(1)}%)`
+            : " (chưa có giá USD)";
         return `• <b>${balance.asset}:</b> ${total.toFixed(
           6
-        )} (Available: ${balance.available.toFixed(6)})`;
+        )}${valueText}\n  Available: ${balance.available.toFixed(6)}`;
       })
       .join("\n");
+    const marginText =
+      marginRatio !== undefined
+        ? `\n<b>Tỷ lệ ký quỹ thấp nhất:</b> ${(marginRatio * 100).toFixed(
+            0
+          )}% (thanh lý tại 100%)`
+        : "";
 
     const message = `
 <b>${alertEmoji} ${alertTitle}</b>
 
 ${balanceDetails}
 
-<b>Tổng giá trị:</b> ${totalPortfolioValue?.toFixed(6) || "N/A"}
+<b>Tổng giá trị:</b> ${
+      totalPortfolioValue !== undefined
+        ? `$${totalPortfolioValue.toFixed(2)}`
+        : "N/A"
+    }${marginText}
 
 <b>Thời gian:</b> ${new Date(alert.timestamp).toISOString()}
 
@@ -290,26 +551,39 @@ ${balanceDetails}
   /**
    * Send multiple alerts
    */
-  async sendAlerts(
-    alerts: (VolumeAlert | RSIAlert | ScalpingAlert | OKXBalanceAlert)[]
-  ): Promise<void> {
+  async sendAlerts(alerts: Alert[]): Promise<void> {
     for (const alert of alerts) {
       try {
         if (alert.type === "spike") {
-          await this.sendVolumeSpikeAlert(alert as VolumeAlert);
+          await this.sendVolumeSpikeAlert(alert);
         } else if (alert.type === "divergence") {
-          await this.sendVolumeDivergenceAlert(alert as VolumeAlert);
+          await this.sendVolumeDivergenceAlert(alert);
         } else if (alert.type === "rsi_divergence") {
-          await this.sendRSIDivergenceAlert(alert as RSIAlert);
+          await this.sendRSIDivergenceAlert(alert);
+        } else if (alert.type === "oscillator_divergence") {
+          await this.sendOscillatorDivergenceAlert(alert);
+        } else if (
+          alert.type === "macd_crossover" ||
+          alert.type === "macd_zero_cross"
+        ) {
+          await this.sendMACDAlert(alert);
+        } else if (alert.type === "atr_expansion") {
+          await this.sendATRVolatilityAlert(alert);
+        } else if (alert.type === "adx_trend") {
+          await this.sendADXTrendAlert(alert);
+        } else if (alert.type === "supertrend_flip") {
+          await this.sendSuperTrendAlert(alert);
+        } else if (alert.type === "rsi_pivot_divergence") {
+          await this.sendRSIPivotDivergenceAlert(alert);
         } else if (
           alert.type === "ema_crossover" ||
           alert.type === "stochastic_signal" ||
           alert.type === "bollinger_squeeze" ||
           alert.type === "volume_spike"
         ) {
-          await this.sendScalpingAlert(alert as ScalpingAlert);
+          await this.sendScalpingAlert(alert);
         } else if (alert.type === "okx_balance") {
-          await this.sendOKXBalanceAlert(alert as OKXBalanceAlert);
+          await this.sendOKXBalanceAlert(alert);
         }
 
         // Small delay between alerts to avoid rate limiting
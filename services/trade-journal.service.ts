@@ -0,0 +1,312 @@
+import fs from "fs";
+import path from "path";
+import { Fill } from "./okx.service";
+import { Clock, systemClock } from "../utils/clock.utils";
+
+export interface FundingPayment {
+  id: string;
+  symbol: string;
+  position?: "long" | "short"; // Unset when the venue does not report it
+  amount: number; // USDT, positive when received
+  timestamp: number;
+}
+
+/**
+ * Account history the journal is built from, implemented by the live OKX
+ * and paper executors
+ */
+export interface TradeHistorySource {
+  getTradeFills(since: number): Promise<Fill[]>; // Oldest first
+  getFundingPayments(since: number): Promise<FundingPayment[]>;
+}
+
+/**
+ * One round trip: from the first fill opening a position to the fill that
+ * brings it back to zero
+ */
+export interface JournalTrade {
+  id: string; // <symbol>:<position>:<openedAt>
+  symbol: string;
+  position: "long" | "short";
+  status: "open" | "closed";
+  entryQuantity: number; // Contracts opened, including adds
+  exitQuantity: number; // Contracts closed so far
+  entryPrice: number; // Average opening fill price
+  exitPrice?: number; // Average closing fill price
+  fees: number; // USDT paid
+  funding: number; // USDT, positive when received
+  realizedPnl: number; // Price PnL of the closing fills
+  netPnl: number; // realizedPnl - fees + funding
+  fillCount: number;
+  openedAt: number;
+  closedAt?: number;
+}
+
+export interface TradeFilter {
+  symbol?: string; // instId, pair or base asset, e.g. BTC-USDT-SWAP, BTCUSDT or BTC
+  from?: number; // Close time, or open time for open trades
+  to?: number;
+  offset?: number;
+  limit?: number; // Default: 5
+}
+
+const HISTORY_WINDOW = 90 * 24 * 60 * 60 * 1000; // OKX fill history limit
+const SYNC_OVERLAP = 60 * 60 * 1000; // Refetch the last hour, late fills are deduplicated
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * Local journal of round-trip trades. Fills and funding payments are pulled
+ * from the account history, deduplicated and kept in
+ * data/trade-journal.json, so trades stay available after the exchange
+ * history window has passed. Trades are rebuilt from the stored fills per
+ * symbol and side: opening fills add to the entry, closing fills to the
+ * exit, and funding goes to the trade open at the time it was charged.
+ */
+export class TradeJournal {
+  private readonly journalFile: string;
+  private source: TradeHistorySource;
+  private clock: Clock;
+  private fills: Fill[] = [];
+  private funding: FundingPayment[] = [];
+  private syncedUntil: number = 0;
+  private trades: JournalTrade[] = [];
+  private syncPromise: Promise<void> | null = null;
+
+  constructor(source: TradeHistorySource, clock: Clock = systemClock) {
+    this.source = source;
+    this.clock = clock;
+    this.journalFile = path.join(process.cwd(), "/data/trade-journal.json");
+    this.loadJournal();
+    this.trades = this.buildTrades();
+  }
+
+  /**
+   * Pull new fills and funding from the account history. Concurrent calls
+   * share one sync.
+   */
+  async sync(): Promise<void> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  /**
+   * Get trades matching a filter, newest first, with the total count and
+   * net PnL of every match
+   */
+  getTrades(filter: TradeFilter = {}): {
+    trades: JournalTrade[];
+    total: number;
+    netPnl: number;
+  } {
+    const offset = filter.offset ?? 0;
+    const limit = filter.limit ?? 5;
+
+    const matches = this.trades
+      .filter((trade) => {
+        const time = trade.closedAt ?? trade.openedAt;
+        if (filter.symbol && !this.matchesSymbol(trade.symbol, filter.symbol)) {
+          return false;
+        }
+        if (filter.from !== undefined && time < filter.from) return false;
+        if (filter.to !== undefined && time > filter.to) return false;
+        return true;
+      })
+      .sort((a, b) => (b.closedAt ?? b.openedAt) - (a.closedAt ?? a.openedAt));
+
+    return {
+      trades: matches.slice(offset, offset + limit),
+      total: matches.length,
+      netPnl: matches.reduce((total, trade) => total + trade.netPnl, 0),
+    };
+  }
+
+  /**
+   * Time of the last successful sync, 0 before the first one
+   */
+  getLastSyncTime(): number {
+    return this.syncedUntil;
+  }
+
+  private async runSync(): Promise<void> {
+    const now = this.clock.now();
+    const since =
+      this.syncedUntil > 0
+        ? this.syncedUntil - SYNC_OVERLAP
+        : now - HISTORY_WINDOW;
+
+    const [fills, funding] = await Promise.all([
+      this.source.getTradeFills(since),
+      this.source.getFundingPayments(since),
+    ]);
+
+    const fillKeys = new Set(this.fills.map((fill) => this.getFillKey(fill)));
+    const newFills = fills.filter(
+      (fill) => !fillKeys.has(this.getFillKey(fill))
+    );
+    const fundingIds = new Set(this.funding.map((payment) => payment.id));
+    const newFunding = funding.filter((payment) => !fundingIds.has(payment.id));
+
+    this.fills = [...this.fills, ...newFills].sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+    this.funding = [...this.funding, ...newFunding].sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+    this.syncedUntil = now;
+    this.trades = this.buildTrades();
+    this.saveJournal();
+
+    if (newFills.length > 0 || newFunding.length > 0) {
+      console.log(
+        `📒 Trade journal synced: ${newFills.length} fills, ${newFunding.length} funding payments`
+      );
+    }
+  }
+
+  /**
+   * Group fills into round trips and attach funding
+   */
+  private buildTrades(): JournalTrade[] {
+    const trades: JournalTrade[] = [];
+    const openTrades = new Map<string, JournalTrade>(); // symbol:position
+
+    for (const fill of this.fills) {
+      if (fill.position !== "long" && fill.position !== "short") continue;
+
+      const key = `${fill.symbol}:${fill.position}`;
+      const isOpening = (fill.side === "buy") === (fill.position === "long");
+      let trade = openTrades.get(key);
+
+      if (isOpening) {
+        if (!trade) {
+          trade = this.createTrade(fill);
+          openTrades.set(key, trade);
+          trades.push(trade);
+        }
+        trade.entryPrice =
+          (trade.entryPrice * trade.entryQuantity +
+            fill.price * fill.quantity) /
+          (trade.entryQuantity + fill.quantity);
+        trade.entryQuantity += fill.quantity;
+      } else {
+        // Closing a position opened before the journal's history starts
+        if (!trade) continue;
+
+        trade.exitPrice =
+          ((trade.exitPrice ?? 0) * trade.exitQuantity +
+            fill.price * fill.quantity) /
+          (trade.exitQuantity + fill.quantity);
+        trade.exitQuantity += fill.quantity;
+        trade.realizedPnl += fill.realizedPnl;
+
+        if (trade.exitQuantity >= trade.entryQuantity - QUANTITY_EPSILON) {
+          trade.status = "closed";
+          trade.closedAt = fill.timestamp;
+          openTrades.delete(key);
+        }
+      }
+
+      trade.fees -= fill.fee;
+      trade.fillCount++;
+    }
+
+    for (const payment of this.funding) {
+      const trade = trades.find(
+        (entry) =>
+          entry.symbol === payment.symbol &&
+          (!payment.position || entry.position === payment.position) &&
+          entry.openedAt <= payment.timestamp &&
+          (entry.closedAt === undefined || entry.closedAt >= payment.timestamp)
+      );
+      if (trade) {
+        trade.funding += payment.amount;
+      }
+    }
+
+    trades.forEach((trade) => {
+      trade.netPnl = trade.realizedPnl - trade.fees + trade.funding;
+    });
+    return trades;
+  }
+
+  private createTrade(fill: Fill): JournalTrade {
+    return {
+      id: `${fill.symbol}:${fill.position}:${fill.timestamp}`,
+      symbol: fill.symbol,
+      position: fill.position,
+      status: "open",
+      entryQuantity: 0,
+      exitQuantity: 0,
+      entryPrice: 0,
+      fees: 0,
+      funding: 0,
+      realizedPnl: 0,
+      netPnl: 0,
+      fillCount: 0,
+      openedAt: fill.timestamp,
+    };
+  }
+
+  private matchesSymbol(instId: string, symbol: string): boolean {
+    const query = symbol.toUpperCase();
+    return (
+      instId === query ||
+      instId.startsWith(`${query}-`) ||
+      instId.replace(/-/g, "").startsWith(query)
+    );
+  }
+
+  private getFillKey(fill: Fill): string {
+    return `${fill.symbol}:${fill.tradeId}:${fill.orderId}`;
+  }
+
+  /**
+   * Load stored fills and funding from JSON file
+   */
+  private loadJournal(): void {
+    try {
+      if (fs.existsSync(this.journalFile)) {
+        const data = JSON.parse(fs.readFileSync(this.journalFile, "utf8"));
+        this.fills = data.fills || [];
+        this.funding = data.funding || [];
+        this.syncedUntil = data.syncedUntil || 0;
+      }
+    } catch (error) {
+      console.error("❌ Error loading trade journal:", error);
+      this.fills = [];
+      this.funding = [];
+      this.syncedUntil = 0;
+    }
+  }
+
+  /**
+   * Save fills and funding to JSON file
+   */
+  private saveJournal(): void {
+    try {
+      const dataDir = path.dirname(this.journalFile);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      fs.writeFileSync(
+        this.journalFile,
+        JSON.stringify(
+          {
+            syncedUntil: this.syncedUntil,
+            fills: this.fills,
+            funding: this.funding,
+          },
+          null,
+          2
+        )
+      );
+    } catch (error) {
+      console.error("❌ Error saving trade journal:", error);
+    }
+  }
+}
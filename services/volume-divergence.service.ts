@@ -6,19 +6,37 @@ import {
   VolumeDivergenceTracker,
   KlineData,
 } from "../types/market.model";
+import { Clock, systemClock } from "../utils/clock.utils";
+import { ClosedCandleCursor, StreamingSMA } from "../utils/indicators.utils";
+
+const AVERAGE_VOLUME_PERIOD = 20;
 
 export class VolumeDivergenceService {
   private config: AlertConfig;
   private divergenceTracker: VolumeDivergenceTracker = {};
+  private averageVolumes: Map<
+    string,
+    { cursor: ClosedCandleCursor; volume: StreamingSMA }
+  > = new Map();
   private readonly divergenceTrackerFile: string;
-
-  constructor(config: AlertConfig) {
+  private readonly persistTracker: boolean;
+  private clock: Clock;
+
+  constructor(
+    config: AlertConfig,
+    clock: Clock = systemClock,
+    persistTracker: boolean = true
+  ) {
     this.config = config;
+    this.clock = clock;
+    this.persistTracker = persistTracker;
     this.divergenceTrackerFile = path.join(
       process.cwd(),
       "/data/volume-divergence-tracker.json"
     );
-    this.loadDivergenceTracker();
+    if (this.persistTracker) {
+      this.loadDivergenceTracker();
+    }
   }
 
   /**
@@ -41,6 +59,8 @@ export class VolumeDivergenceService {
    * Save divergence tracker to JSON file
    */
   private saveDivergenceTracker(): void {
+    if (!this.persistTracker) return;
+
     try {
       // Ensure data directory exists
       const dataDir = path.dirname(this.divergenceTrackerFile);
@@ -72,22 +92,33 @@ export class VolumeDivergenceService {
   }
 
   /**
-   * Calculate average volume from recent candles
+   * Average volume of the recent closed candles (the current one excluded),
+   * 0 until there are enough of them
    */
-  private calculateAverageVolume(
-    klineData: KlineData[],
-    period: number = 20
+  private updateAverageVolume(
+    symbol: string,
+    timeframe: string,
+    klineData: KlineData[]
   ): number {
-    if (klineData.length < period) {
-      return 0;
+    const key = `${symbol}:${timeframe}`;
+    let average = this.averageVolumes.get(key);
+    if (!average) {
+      average = {
+        cursor: new ClosedCandleCursor(),
+        volume: new StreamingSMA(AVERAGE_VOLUME_PERIOD),
+      };
+      this.averageVolumes.set(key, average);
     }
 
-    const recentCandles = klineData.slice(-period);
-    const totalVolume = recentCandles.reduce((sum, candle) => {
-      return sum + parseFloat(candle.volume);
-    }, 0);
+    const { candles, reset } = average.cursor.advance(klineData);
+    if (reset) {
+      average.volume.reset();
+    }
+    candles.forEach((candle) =>
+      average!.volume.update(parseFloat(candle.volume))
+    );
 
-    return totalVolume / period;
+    return average.volume.value ?? 0;
   }
 
   /**
@@ -105,7 +136,11 @@ export class VolumeDivergenceService {
     if (!latestCandle) return null;
 
     const currentVolume = parseFloat(latestCandle.volume);
-    const averageVolume = this.calculateAverageVolume(klineData.slice(0, -1)); // Exclude current candle
+    const averageVolume = this.updateAverageVolume(
+      symbol,
+      timeframe,
+      klineData
+    );
 
     if (averageVolume === 0) return null;
 
@@ -116,7 +151,7 @@ export class VolumeDivergenceService {
         type: "spike",
         symbol,
         timeframe,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
         currentPrice,
         volume: currentVolume,
         averageVolume,
@@ -170,7 +205,7 @@ export class VolumeDivergenceService {
 
     if (isDivergence) {
       // Check if we already sent an alert for this pattern recently (within 1 hour)
-      const now = Date.now();
+      const now = this.clock.now();
       const lastAlertTime = tracker.lastAlertTime || 0;
       const oneHour = 60 * 60 * 1000;
 
@@ -199,7 +234,7 @@ export class VolumeDivergenceService {
         timestamp: now,
         currentPrice,
         volume: lastCandle.volume,
-        averageVolume: this.calculateAverageVolume(klineData.slice(0, -1)),
+        averageVolume: this.updateAverageVolume(symbol, timeframe, klineData),
         divergenceData: {
           candleCount: divergenceCandles.length,
           priceChange,
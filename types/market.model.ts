@@ -40,19 +40,102 @@ export interface OKXConfig {
   passphrase: string;
   balanceAlertsEnabled: boolean;
   balanceAlertInterval: number; // in minutes
-  minBalanceThreshold: number;
+  minBalanceThreshold: number; // USD value below which an asset is left out of alerts, Default: 1
+  lowBalanceThresholds: { [asset: string]: number }; // USD value per asset that triggers a low balance warning
+  minTotalEquity: number; // USD, warn below this total equity (0 disables), Default: 0
+  balanceChangePercent: number; // Total equity change between checks flagged as large, Default: 10
+  marginRatioAlert: number; // Warn when a margin ratio falls below this (liquidation at 1, 0 disables), Default: 3
+  tradingMode: TradingMode; // Default: "live"
+  paperTrading: PaperTradingConfig;
+  marginMode: MarginMode; // Default: "cross"
+  marginModeOverrides: { [instId: string]: MarginMode }; // Per-instrument margin mode
+  reconcileInterval: number; // in seconds, Default: 30
+  privateStreamEnabled: boolean; // Push orders, positions and balances over WebSocket, Default: true
+}
+
+export type MarginMode = "cross" | "isolated";
+
+export type TradingMode = "live" | "paper";
+
+export interface PaperTradingConfig {
+  initialBalance: number; // Default: 10000 (USDT)
+  takerFeeRate: number; // Default: 0.0005
+  makerFeeRate: number; // Default: 0.0002
+  slippageBps: number; // Default: 2, applied to market fills
+  fundingRate: number; // Default: 0.0001 per 8h funding interval
+}
+
+/**
+ * Pre-trade risk limits, 0 disables a limit
+ */
+export interface RiskConfig {
+  maxLeverage: number; // Default: 20
+  maxNotionalPerSymbol: number; // USDT, Default: 0
+  maxOpenPositions: number; // Default: 0
+  maxDailyLoss: number; // Realized USDT loss per UTC day that trips the kill switch, Default: 0
+  maxOrdersPerMinute: number; // Default: 10
+  blockedSymbols: string[]; // Pairs or OKX instIds that cannot be opened
+  flattenOnKill: boolean; // Close all positions when the kill switch trips, Default: false
+}
+
+/**
+ * Equity snapshots and the scheduled daily PnL summary
+ */
+export interface PerformanceConfig {
+  snapshotInterval: number; // in minutes, Default: 60
+  dailySummaryEnabled: boolean; // Default: true
+  dailySummaryHour: number; // UTC hour the summary of the last 24h is sent, Default: 0
+}
+
+export type MarketDataProviderName = "binance_spot" | "binance_futures" | "okx";
+
+export type InstrumentType = "spot" | "swap";
+
+/**
+ * Tradable instrument metadata, keyed by a canonical symbol that is
+ * "BASE-QUOTE" for spot and "BASE-QUOTE-SWAP" for perpetual swaps
+ */
+export interface Instrument {
+  canonical: string;
+  venue: MarketDataProviderName;
+  venueSymbol: string;
+  base: string;
+  quote: string;
+  type: InstrumentType;
+  tickSize: number;
+  lotSize: number; // Size step, in contracts for OKX swaps, base asset otherwise
+  minSize: number;
+  contractValue: number; // Base asset per contract (1 when sized in base asset)
+  maxLeverage?: number; // Only when the venue publishes it publicly
 }
 
 // Alert System Types
+/**
+ * wilder: Wilder's RMA, matches TradingView ta.rsi
+ * sma: simple average of the last period gains and losses
+ */
+export type RSISmoothing = "wilder" | "sma";
+
 export interface AlertConfig {
   pairs: string[];
   timeframes: string[];
   volumeSpikeThreshold: number; // Default: 1.5
   divergenceCandleCount: number; // Default: 3
   rsiPeriod: number; // Default: 14
+  rsiSmoothing: RSISmoothing; // Default: "wilder"
   rsiOverbought: number; // Default: 70
   rsiOversold: number; // Default: 30
   rsiDivergenceLookback: number; // Default: 20
+  rsiPivotDivergence: RSIPivotDivergenceConfig;
+  oscillatorDivergence: OscillatorDivergenceConfig;
+  macdSignals: MACDConfig;
+  atrVolatility: ATRVolatilityConfig;
+  adxTrend: ADXTrendConfig;
+  superTrend: SuperTrendConfig;
+  useKlineStreams: boolean; // Default: true
+  useCandleStore: boolean; // Default: true
+  marketDataProvider: MarketDataProviderName; // Default: "binance_spot"
+  pairProviders: { [pair: string]: MarketDataProviderName }; // Per-pair overrides
 }
 
 export interface VolumeAlert {
@@ -95,6 +178,178 @@ export interface RSIAlert {
   };
 }
 
+/**
+ * Settings of the "RSI Divergence B/S with TP & SL" Pine indicator
+ */
+export interface RSIPivotDivergenceConfig {
+  enabled: boolean; // Default: true
+  rsiLength: number; // Default: 14
+  pivotLength: number; // Default: 2, candles on each side of a pivot
+  bullDivDiff: number; // Default: 5, min RSI rise between lows
+  bearDivDiff: number; // Default: 5, min RSI drop between highs
+  bullRsiLevel: number; // Default: 35, max RSI of a bullish pivot
+  bearRsiLevel: number; // Default: 65, min RSI of a bearish pivot
+  tpPercent: number; // Default: 1
+  slPercent: number; // Default: 1
+}
+
+export interface RSIPivotDivergenceAlert {
+  type: "rsi_pivot_divergence";
+  symbol: string;
+  timeframe: string;
+  timestamp: number;
+  currentPrice: number;
+  signal: "buy" | "sell";
+  pivotTime: number; // Open time of the pivot candle
+  entryPrice: number; // Pivot close
+  takeProfitPrice: number;
+  stopLossPrice: number;
+  rsiValue: number; // RSI at the pivot
+  previousPivotPrice: number;
+  previousRsiValue: number;
+}
+
+export type DivergenceOscillator =
+  | "rsi"
+  | "macd" // Histogram
+  | "obv"
+  | "cvd"
+  | "stochastic" // %K
+  | "mfi";
+
+/**
+ * Regular divergence warns of a reversal, hidden divergence of a trend
+ * continuing
+ */
+export type DivergenceClass = "regular" | "hidden";
+
+export interface OscillatorDivergenceConfig {
+  enabled: boolean; // Default: true
+  oscillators: DivergenceOscillator[]; // Default: all
+  classes: DivergenceClass[]; // Default: regular, hidden
+  pivotStrength: number; // Default: 3, candles on each side of a price pivot
+  maxBarDistance: number; // Default: 60, max candles between the two pivots
+}
+
+export interface DivergencePivot {
+  time: number; // Open time of the pivot candle
+  price: number; // High of a pivot high, low of a pivot low
+  value: number; // Oscillator at the pivot
+}
+
+export interface OscillatorDivergenceAlert {
+  type: "oscillator_divergence";
+  symbol: string;
+  timeframe: string;
+  timestamp: number;
+  currentPrice: number;
+  oscillator: DivergenceOscillator;
+  divergenceClass: DivergenceClass;
+  divergenceType: "bullish" | "bearish";
+  previousPivot: DivergencePivot;
+  currentPivot: DivergencePivot;
+  barDistance: number; // Candles between the two pivots
+}
+
+// Trend and volatility detectors. timeframes limits a detector to those
+// timeframes, all alert timeframes when empty.
+export interface MACDConfig {
+  enabled: boolean; // Default: true
+  timeframes: string[]; // Default: all
+  fastPeriod: number; // Default: 12
+  slowPeriod: number; // Default: 26
+  signalPeriod: number; // Default: 9
+}
+
+export interface ATRVolatilityConfig {
+  enabled: boolean; // Default: true
+  timeframes: string[]; // Default: all
+  period: number; // Default: 14
+  averagePeriod: number; // Default: 20, candles of ATR baseline
+  expansionMultiplier: number; // Default: 1.5, ATR / baseline to alert
+}
+
+export interface ADXTrendConfig {
+  enabled: boolean; // Default: true
+  timeframes: string[]; // Default: all
+  period: number; // Default: 14
+  trendThreshold: number; // Default: 25, ADX crossing above starts a trend
+  weakThreshold: number; // Default: 20, ADX crossing below ends it
+}
+
+export interface SuperTrendConfig {
+  enabled: boolean; // Default: true
+  timeframes: string[]; // Default: all
+  atrPeriod: number; // Default: 10
+  multiplier: number; // Default: 3
+}
+
+export interface MACDAlert {
+  type: "macd_crossover" | "macd_zero_cross";
+  symbol: string;
+  timeframe: string;
+  timestamp: number;
+  currentPrice: number;
+  signal: "buy" | "sell";
+  candleTime: number; // Open time of the candle that crossed
+  macd: number;
+  signalLine: number;
+  histogram: number;
+}
+
+export interface ATRVolatilityAlert {
+  type: "atr_expansion";
+  symbol: string;
+  timeframe: string;
+  timestamp: number;
+  currentPrice: number;
+  candleTime: number;
+  candleDirection: "up" | "down"; // Close against open of the candle
+  atr: number;
+  averageAtr: number; // Mean ATR of the previous averagePeriod candles
+  expansionRatio: number; // atr / averageAtr
+  atrPercent: number; // ATR as percent of the close
+}
+
+export interface ADXTrendAlert {
+  type: "adx_trend";
+  symbol: string;
+  timeframe: string;
+  timestamp: number;
+  currentPrice: number;
+  transition: "strengthening" | "weakening";
+  trendDirection: "bullish" | "bearish"; // +DI above -DI is bullish
+  candleTime: number;
+  adx: number;
+  previousAdx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface SuperTrendAlert {
+  type: "supertrend_flip";
+  symbol: string;
+  timeframe: string;
+  timestamp: number;
+  currentPrice: number;
+  signal: "buy" | "sell"; // Flip to uptrend or downtrend
+  candleTime: number;
+  superTrend: number; // Band that became the trailing stop
+  atr: number;
+}
+
+/**
+ * Candle time of the last alert per symbol-timeframe, keeps a restart from
+ * sending a closed candle's signal twice
+ */
+export interface IndicatorSignalTracker {
+  [key: string]: {
+    [timeframe: string]: {
+      lastSignalTime?: number;
+    };
+  };
+}
+
 export interface VolumeDivergenceTracker {
   [key: string]: {
     [timeframe: string]: {
@@ -123,6 +378,23 @@ export interface RSIDivergenceTracker {
   };
 }
 
+export interface RSIPivotDivergenceTracker {
+  [key: string]: {
+    [timeframe: string]: {
+      lastSignalTime?: number; // Pivot time of the last alert
+    };
+  };
+}
+
+export interface OscillatorDivergenceTracker {
+  [key: string]: {
+    [timeframe: string]: {
+      // Pivot time of the last alert per oscillator
+      lastPivotTimes: { [oscillator: string]: number };
+    };
+  };
+}
+
 // Scalping Indicators Types
 export interface ScalpingAlert {
   type:
@@ -158,12 +430,67 @@ export interface OKXBalanceAlert {
     locked: number;
     marginBalance?: number;
     totalValue?: number;
+    usdValue?: number; // Unset when the asset has no price
+    portfolioShare?: number; // Percent of totalPortfolioValue
   }>;
-  totalPortfolioValue?: number;
+  totalPortfolioValue?: number; // USD
+  marginRatio?: number; // Lowest margin ratio of the account and isolated positions
   alertType:
     | "balance_update"
     | "low_balance_warning"
-    | "balance_threshold_breach";
+    | "balance_threshold_breach"
+    | "margin_ratio_warning";
+}
+
+// Alerts raised by the market detectors, all tied to a symbol and timeframe
+export type MarketAlert =
+  | VolumeAlert
+  | RSIAlert
+  | RSIPivotDivergenceAlert
+  | OscillatorDivergenceAlert
+  | MACDAlert
+  | ATRVolatilityAlert
+  | ADXTrendAlert
+  | SuperTrendAlert
+  | ScalpingAlert;
+
+// Every alert the bot sends and routes
+export type Alert = MarketAlert | OKXBalanceAlert;
+
+// Strategy Router Types
+export type StrategyMode = "notify" | "approve" | "auto";
+
+export type StrategyAlertType =
+  | RSIAlert["type"]
+  | RSIPivotDivergenceAlert["type"]
+  | OscillatorDivergenceAlert["type"]
+  | MACDAlert["type"]
+  | SuperTrendAlert["type"]
+  | ScalpingAlert["type"];
+
+/**
+ * Turns matching directional alerts into buy/sell actions. Bullish/buy
+ * signals open longs, bearish/sell signals open shorts.
+ */
+export interface StrategyRule {
+  name: string;
+  alertType: StrategyAlertType;
+  signal?: "buy" | "sell"; // Only this direction, both when omitted
+  symbols?: string[]; // Only these pairs, all when omitted
+  timeframes?: string[]; // Only these timeframes, all when omitted
+  minConfidence?: number; // Scalping alerts only
+  mode: StrategyMode;
+  quantity?: number; // Contracts, or riskPercent with stopLossPercent
+  riskPercent?: number;
+  leverage?: number; // Default: 10
+  stopLossPercent?: number;
+  takeProfitPercent?: number;
+}
+
+export interface StrategyConfig {
+  enabled: boolean; // Default: false
+  approvalTimeout: number; // ms, Default: 15 minutes
+  rules: StrategyRule[];
 }
 
 export interface ScalpingConfig {
@@ -4,6 +4,8 @@
  * based on the specified timeframe
  */
 
+import { Clock, ClockTimer, systemClock } from "./clock.utils";
+
 export interface CandleSyncConfig {
   timeframe: string; // e.g., "1m", "5m", "15m", "1h", "4h", "1d"
   timezone?: string; // Default: "UTC"
@@ -11,11 +13,13 @@ export interface CandleSyncConfig {
 
 export class CandleSyncScheduler {
   private config: CandleSyncConfig;
-  private intervalId: NodeJS.Timeout | null = null;
+  private clock: Clock;
+  private intervalId: ClockTimer | null = null;
   private callback: (() => Promise<void>) | null = null;
   private isRunning: boolean = false;
 
-  constructor(config: CandleSyncConfig) {
+  constructor(config: CandleSyncConfig, clock: Clock = systemClock) {
+    this.clock = clock;
     this.config = {
       timezone: "UTC",
       ...config,
@@ -40,13 +44,13 @@ export class CandleSyncScheduler {
 
     // Calculate next candle open time
     const nextCandleTime = this.getNextCandleOpenTime();
-    const delay = nextCandleTime.getTime() - Date.now();
+    const delay = nextCandleTime.getTime() - this.clock.now();
 
     console.log(`⏰ Next candle opens at: ${nextCandleTime.toISOString()}`);
     console.log(`⏱️ Waiting ${Math.round(delay / 1000)} seconds...`);
 
     // Set timeout for next candle
-    this.intervalId = setTimeout(() => {
+    this.intervalId = this.clock.setTimeout(() => {
       this.executeAndScheduleNext();
     }, delay);
   }
@@ -56,7 +60,7 @@ export class CandleSyncScheduler {
    */
   stop(): void {
     if (this.intervalId) {
-      clearTimeout(this.intervalId);
+      this.clock.clearTimeout(this.intervalId);
       this.intervalId = null;
     }
     this.isRunning = false;
@@ -71,7 +75,11 @@ export class CandleSyncScheduler {
     if (!this.callback) return;
 
     try {
-      console.log(`🕐 Executing at candle open: ${new Date().toISOString()}`);
+      console.log(
+        `🕐 Executing at candle open: ${new Date(
+          this.clock.now()
+        ).toISOString()}`
+      );
       await this.callback();
     } catch (error) {
       console.error("❌ Error in candle sync execution:", error);
@@ -80,12 +88,12 @@ export class CandleSyncScheduler {
     // Schedule next execution
     if (this.isRunning) {
       const nextCandleTime = this.getNextCandleOpenTime();
-      const delay = nextCandleTime.getTime() - Date.now();
+      const delay = nextCandleTime.getTime() - this.clock.now();
 
       console.log(`⏰ Next candle opens at: ${nextCandleTime.toISOString()}`);
       console.log(`⏱️ Waiting ${Math.round(delay / 1000)} seconds...`);
 
-      this.intervalId = setTimeout(() => {
+      this.intervalId = this.clock.setTimeout(() => {
         this.executeAndScheduleNext();
       }, delay);
     }
@@ -95,7 +103,7 @@ export class CandleSyncScheduler {
    * Get the next candle open time based on timeframe
    */
   private getNextCandleOpenTime(): Date {
-    const now = new Date();
+    const now = new Date(this.clock.now());
     const timeframeMs = this.getTimeframeMs(this.config.timeframe);
 
     // Calculate the start of the current candle
@@ -161,7 +169,7 @@ export class CandleSyncScheduler {
    */
   getSecondsUntilNextCandle(): number {
     const nextCandleTime = this.getNextCandleOpenTime();
-    const delay = nextCandleTime.getTime() - Date.now();
+    const delay = nextCandleTime.getTime() - this.clock.now();
     return Math.max(0, Math.round(delay / 1000));
   }
 
@@ -174,7 +182,7 @@ export class CandleSyncScheduler {
     nextCandleStart: Date;
     progressPercent: number;
   } {
-    const now = new Date();
+    const now = new Date(this.clock.now());
     const timeframeMs = this.getTimeframeMs(this.config.timeframe);
 
     const currentCandleStart = this.getCandleStartTime(now, timeframeMs);
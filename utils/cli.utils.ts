@@ -0,0 +1,50 @@
+/**
+ * Argument parsing helpers for the command-line entry points
+ */
+
+/**
+ * Parse `--key value` and `--flag` arguments
+ */
+export function parseArgs(argv: string[]): { [key: string]: string } {
+  const args: { [key: string]: string } = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg?.startsWith("--")) continue;
+
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = "true";
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Parse an ISO date or unix milliseconds
+ */
+export function parseTime(value: string): number {
+  const time = /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return time;
+}
+
+/**
+ * Split a comma-separated option, falling back to a default list
+ */
+export function parseList(
+  value: string | undefined,
+  fallback: string
+): string[] {
+  return (value || fallback)
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item);
+}
@@ -0,0 +1,153 @@
+/**
+ * Time source and timers for time-dependent services and schedulers, so
+ * tests, backtests and session replays can run on controlled time.
+ * Exchange-facing code (request signing, rate limits, instrument cache)
+ * stays on wall-clock time.
+ */
+
+export type ClockTimer = NodeJS.Timeout | number;
+
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, delayMs: number): ClockTimer;
+  clearTimeout(timer: ClockTimer): void;
+  setInterval(callback: () => void, intervalMs: number): ClockTimer;
+  clearInterval(timer: ClockTimer): void;
+}
+
+/**
+ * Wall-clock time and Node timers
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (timer) => clearTimeout(timer),
+  setInterval: (callback, intervalMs) => setInterval(callback, intervalMs),
+  clearInterval: (timer) => clearInterval(timer),
+};
+
+interface VirtualTimer {
+  id: number;
+  time: number; // When the timer fires next
+  interval: number | null; // Repeat period, null for one-shot timers
+  callback: () => void;
+}
+
+/**
+ * Manually controlled time. Timers fire in order as time is moved forward.
+ */
+export class VirtualClock implements Clock {
+  private time: number;
+  private timers: VirtualTimer[] = [];
+  private nextTimerId: number = 1;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): ClockTimer {
+    return this.addTimer(callback, delayMs, null);
+  }
+
+  clearTimeout(timer: ClockTimer): void {
+    this.timers = this.timers.filter((entry) => entry.id !== timer);
+  }
+
+  setInterval(callback: () => void, intervalMs: number): ClockTimer {
+    return this.addTimer(callback, intervalMs, Math.max(1, intervalMs));
+  }
+
+  clearInterval(timer: ClockTimer): void {
+    this.clearTimeout(timer);
+  }
+
+  /**
+   * Jump to an absolute time, firing every timer due on the way
+   */
+  setTime(time: number): void {
+    for (
+      let timer = this.getNextTimer(time);
+      timer;
+      timer = this.getNextTimer(time)
+    ) {
+      this.fireTimer(timer);
+    }
+    this.time = time;
+  }
+
+  /**
+   * Move time forward, firing every timer due on the way
+   */
+  advance(ms: number): void {
+    this.setTime(this.time + ms);
+  }
+
+  /**
+   * Move time forward like advance(), but yield to the event loop after each
+   * timer so async callbacks can finish and schedule their follow-up timers
+   */
+  async advanceAsync(ms: number): Promise<void> {
+    const target = this.time + ms;
+
+    for (
+      let timer = this.getNextTimer(target);
+      timer;
+      timer = this.getNextTimer(target)
+    ) {
+      this.fireTimer(timer);
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    this.time = target;
+  }
+
+  /**
+   * Get the number of scheduled timers
+   */
+  getPendingTimerCount(): number {
+    return this.timers.length;
+  }
+
+  private addTimer(
+    callback: () => void,
+    delayMs: number,
+    interval: number | null
+  ): ClockTimer {
+    const id = this.nextTimerId++;
+    this.timers.push({
+      id,
+      time: this.time + Math.max(0, delayMs),
+      interval,
+      callback,
+    });
+    return id;
+  }
+
+  /**
+   * Earliest timer due at or before the given time (first scheduled wins ties)
+   */
+  private getNextTimer(until: number): VirtualTimer | null {
+    let next: VirtualTimer | null = null;
+    for (const timer of this.timers) {
+      if (timer.time <= until && (!next || timer.time < next.time)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+
+  private fireTimer(timer: VirtualTimer): void {
+    this.time = Math.max(this.time, timer.time);
+
+    if (timer.interval === null) {
+      this.clearTimeout(timer.id);
+    } else {
+      timer.time += timer.interval;
+    }
+
+    timer.callback();
+  }
+}
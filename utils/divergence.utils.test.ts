@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  DivergenceDetector,
+  DivergenceOptions,
+  DivergencePoint,
+  findDivergences,
+} from "./divergence.utils";
+
+const HOUR = 60 * 60 * 1000;
+
+const options: DivergenceOptions = { pivotStrength: 2, maxBarDistance: 60 };
+
+/**
+ * Candles whose lows (or highs) follow prices, the other side flat so it
+ * never forms a pivot
+ */
+function toPoints(
+  kind: "low" | "high",
+  prices: number[],
+  values: Array<number | null>
+): DivergencePoint[] {
+  return prices.map((price, i) => ({
+    time: i * HOUR,
+    high: kind === "high" ? price : 1000,
+    low: kind === "low" ? price : 0,
+    value: values[i] ?? null,
+  }));
+}
+
+/**
+ * Index of the candle reporting each divergence, with its class and pivots
+ */
+function detect(points: DivergencePoint[], detectorOptions = options) {
+  const detector = new DivergenceDetector(detectorOptions);
+  return points.flatMap((point, index) =>
+    detector.update(point).map((divergence) => ({
+      index,
+      kind: `${divergence.divergenceClass} ${divergence.divergenceType}`,
+      pivots: [divergence.previous.time / HOUR, divergence.current.time / HOUR],
+      barDistance: divergence.barDistance,
+    }))
+  );
+}
+
+// Two troughs at candles 2 and 6, or two peaks for the highs
+const troughs = (second: number) => [10, 9, 5, 9, 10, 9, second, 9, 10];
+const peaks = (second: number) => [10, 11, 15, 11, 10, 11, second, 11, 10];
+function values(first: number, second: number): number[] {
+  return [50, 50, first, 50, 50, 50, second, 50, 50];
+}
+
+describe("DivergenceDetector", () => {
+  test("regular bullish: lower price low, higher oscillator low", () => {
+    assert.deepEqual(detect(toPoints("low", troughs(4), values(30, 35))), [
+      { index: 8, kind: "regular bullish", pivots: [2, 6], barDistance: 4 },
+    ]);
+  });
+
+  test("hidden bullish: higher price low, lower oscillator low", () => {
+    assert.deepEqual(detect(toPoints("low", troughs(6), values(30, 25))), [
+      { index: 8, kind: "hidden bullish", pivots: [2, 6], barDistance: 4 },
+    ]);
+  });
+
+  test("regular bearish: higher price high, lower oscillator high", () => {
+    assert.deepEqual(detect(toPoints("high", peaks(16), values(70, 65))), [
+      { index: 8, kind: "regular bearish", pivots: [2, 6], barDistance: 4 },
+    ]);
+  });
+
+  test("hidden bearish: lower price high, higher oscillator high", () => {
+    assert.deepEqual(detect(toPoints("high", peaks(14), values(70, 75))), [
+      { index: 8, kind: "hidden bearish", pivots: [2, 6], barDistance: 4 },
+    ]);
+  });
+
+  test("no divergence when the oscillator confirms price", () => {
+    assert.deepEqual(detect(toPoints("low", troughs(4), values(30, 25))), []);
+    assert.deepEqual(detect(toPoints("high", peaks(16), values(70, 75))), []);
+  });
+
+  test("reports the pivots and oscillator values compared", () => {
+    const [divergence] = findDivergences(
+      toPoints("low", troughs(4), values(30, 35)),
+      options
+    );
+    assert.deepEqual(divergence?.previous, {
+      time: 2 * HOUR,
+      price: 5,
+      value: 30,
+    });
+    assert.deepEqual(divergence?.current, {
+      time: 6 * HOUR,
+      price: 4,
+      value: 35,
+    });
+  });
+
+  test("pairs each pivot with the previous one of the same kind", () => {
+    // Third trough at candle 10: against candle 6 it is hidden, against
+    // candle 2 it would be regular
+    const points = toPoints(
+      "low",
+      [...troughs(4), 9, 4.5, 9, 10],
+      [...values(30, 35), 50, 32, 50, 50]
+    );
+    assert.deepEqual(
+      detect(points).map(({ index, kind, pivots }) => ({
+        index,
+        kind,
+        pivots,
+      })),
+      [
+        { index: 8, kind: "regular bullish", pivots: [2, 6] },
+        { index: 12, kind: "hidden bullish", pivots: [6, 10] },
+      ]
+    );
+  });
+
+  test("a pivot without an oscillator value breaks the pairing", () => {
+    // The first trough is still in the oscillator's warm-up
+    const warmingUp = values(30, 35).map((value, i) => (i < 3 ? null : value));
+    assert.deepEqual(detect(toPoints("low", troughs(4), warmingUp)), []);
+  });
+
+  test("ignores pivots further apart than maxBarDistance", () => {
+    const points = toPoints("low", troughs(4), values(30, 35));
+    assert.deepEqual(detect(points, { ...options, maxBarDistance: 3 }), []);
+  });
+
+  test("reports only the configured classes", () => {
+    const regular = toPoints("low", troughs(4), values(30, 35));
+    const hidden = toPoints("low", troughs(6), values(30, 25));
+    const regularOnly = { ...options, classes: ["regular" as const] };
+    assert.equal(detect(regular, regularOnly).length, 1);
+    assert.deepEqual(detect(hidden, regularOnly), []);
+  });
+});
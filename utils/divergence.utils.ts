@@ -0,0 +1,178 @@
+import { DivergenceClass, DivergencePivot } from "../types/market.model";
+import { StreamingPivot } from "./indicators.utils";
+
+/**
+ * Divergence between price pivots and an oscillator. Pivots are found on
+ * candle highs and lows and each new pivot is compared with the previous
+ * pivot of the same kind, using the oscillator values at both pivot candles:
+ *
+ * - regular bullish: lower price low, higher oscillator low
+ * - hidden bullish: higher price low, lower oscillator low
+ * - regular bearish: higher price high, lower oscillator high
+ * - hidden bearish: lower price high, higher oscillator high
+ */
+
+export interface DivergencePoint {
+  time: number; // Candle open time
+  high: number;
+  low: number;
+  value: number | null; // Oscillator, null while warming up
+}
+
+export interface Divergence {
+  divergenceClass: DivergenceClass;
+  divergenceType: "bullish" | "bearish";
+  previous: DivergencePivot;
+  current: DivergencePivot;
+  barDistance: number;
+}
+
+export interface DivergenceOptions {
+  pivotStrength: number; // Candles on each side of a pivot
+  maxBarDistance: number; // Older previous pivots are ignored
+  classes?: DivergenceClass[]; // Both when omitted
+}
+
+type IndexedPivot = DivergencePivot & { index: number };
+
+/**
+ * Every divergence in a series, each reported at the candle that confirms
+ * its pivot
+ */
+export function findDivergences(
+  points: DivergencePoint[],
+  options: DivergenceOptions
+): Divergence[] {
+  const detector = new DivergenceDetector(options);
+  return points.flatMap((point) => detector.update(point));
+}
+
+/**
+ * Streaming divergence detection fed one closed candle at a time. A pivot is
+ * confirmed pivotStrength candles after it, so that is when its divergence
+ * is reported.
+ */
+export class DivergenceDetector {
+  private readonly options: DivergenceOptions;
+  private highs: StreamingPivot;
+  private lows: StreamingPivot;
+  private recent: DivergencePoint[] = []; // Last pivotStrength + 1 points
+  private index: number = -1;
+  private lastHigh: IndexedPivot | null = null;
+  private lastLow: IndexedPivot | null = null;
+
+  constructor(options: DivergenceOptions) {
+    this.options = options;
+    this.highs = new StreamingPivot(
+      "high",
+      options.pivotStrength,
+      options.pivotStrength
+    );
+    this.lows = new StreamingPivot(
+      "low",
+      options.pivotStrength,
+      options.pivotStrength
+    );
+  }
+
+  /**
+   * Add a closed candle and return the divergences it confirms
+   */
+  update(point: DivergencePoint): Divergence[] {
+    this.index++;
+    this.recent.push(point);
+    if (this.recent.length > this.options.pivotStrength + 1) {
+      this.recent.shift();
+    }
+
+    const pivotHigh = this.highs.update(point.high);
+    const pivotLow = this.lows.update(point.low);
+    const pivotPoint = this.recent[0];
+    if (!pivotPoint) return [];
+
+    const pivotIndex = this.index - this.options.pivotStrength;
+    const divergences: Divergence[] = [];
+
+    if (pivotLow !== null) {
+      const pivot = this.toPivot(pivotPoint, pivotLow, pivotIndex);
+      const divergence = this.compare(this.lastLow, pivot, "bullish");
+      if (divergence) divergences.push(divergence);
+      this.lastLow = pivot;
+    }
+
+    if (pivotHigh !== null) {
+      const pivot = this.toPivot(pivotPoint, pivotHigh, pivotIndex);
+      const divergence = this.compare(this.lastHigh, pivot, "bearish");
+      if (divergence) divergences.push(divergence);
+      this.lastHigh = pivot;
+    }
+
+    return divergences.filter(
+      (divergence) =>
+        !this.options.classes ||
+        this.options.classes.includes(divergence.divergenceClass)
+    );
+  }
+
+  reset(): void {
+    this.highs.reset();
+    this.lows.reset();
+    this.recent = [];
+    this.index = -1;
+    this.lastHigh = null;
+    this.lastLow = null;
+  }
+
+  /**
+   * A pivot without an oscillator value cannot be compared
+   */
+  private toPivot(
+    point: DivergencePoint,
+    price: number,
+    index: number
+  ): IndexedPivot | null {
+    if (point.value === null || isNaN(point.value)) return null;
+    return { time: point.time, price, value: point.value, index };
+  }
+
+  private compare(
+    previous: IndexedPivot | null,
+    current: IndexedPivot | null,
+    divergenceType: "bullish" | "bearish"
+  ): Divergence | null {
+    if (!previous || !current) return null;
+
+    const barDistance = current.index - previous.index;
+    if (barDistance > this.options.maxBarDistance) return null;
+
+    // Lows for bullish, highs for bearish: flip the sign so a regular
+    // divergence is always price beyond the previous pivot and the
+    // oscillator short of it
+    const sign = divergenceType === "bullish" ? -1 : 1;
+    const priceBeyond = (current.price - previous.price) * sign > 0;
+    const priceShort = (current.price - previous.price) * sign < 0;
+    const valueBeyond = (current.value - previous.value) * sign > 0;
+    const valueShort = (current.value - previous.value) * sign < 0;
+
+    let divergenceClass: DivergenceClass;
+    if (priceBeyond && valueShort) {
+      divergenceClass = "regular";
+    } else if (priceShort && valueBeyond) {
+      divergenceClass = "hidden";
+    } else {
+      return null;
+    }
+
+    return {
+      divergenceClass,
+      divergenceType,
+      previous: this.stripIndex(previous),
+      current: this.stripIndex(current),
+      barDistance,
+    };
+  }
+
+  private stripIndex(pivot: IndexedPivot): DivergencePivot {
+    return { time: pivot.time, price: pivot.price, value: pivot.value };
+  }
+}
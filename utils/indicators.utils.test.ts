@@ -0,0 +1,645 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  PriceBar,
+  StreamingADX,
+  StreamingATR,
+  StreamingBollingerBands,
+  StreamingCVD,
+  StreamingEMA,
+  StreamingIndicator,
+  StreamingMACD,
+  StreamingMFI,
+  StreamingOBV,
+  StreamingPivot,
+  StreamingRMA,
+  StreamingRSI,
+  StreamingSMA,
+  StreamingStochastic,
+  StreamingSuperTrend,
+  VolumeBar,
+  calculateADX,
+  calculateATR,
+  calculateBollingerBands,
+  calculateCVD,
+  calculateEMA,
+  calculateMACD,
+  calculateMFI,
+  calculateOBV,
+  calculatePivotHighs,
+  calculatePivotLows,
+  calculateRSI,
+  calculateSMA,
+  calculateStochastic,
+  calculateSuperTrend,
+} from "./indicators.utils";
+
+/**
+ * Deterministic random walk. Prices are rounded to cents so equal closes
+ * and equal highs occur, exercising the tie rules.
+ */
+function randomBars(count: number, seed: number = 42): VolumeBar[] {
+  let state = seed;
+  const random = () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const bars: VolumeBar[] = [];
+  let close = 100;
+  for (let i = 0; i < count; i++) {
+    const open = close;
+    close = round(open * (1 + (random() - 0.5) * 0.04));
+    if (i % 17 === 0) close = open; // Flat candle
+    const volume = round(10 + random() * 90);
+    bars.push({
+      open,
+      high: round(Math.max(open, close) * (1 + random() * 0.01)),
+      low: round(Math.min(open, close) * (1 - random() * 0.01)),
+      close,
+      volume,
+      // Some candles carry taker volume, the others exercise the estimate
+      ...(i % 3 !== 0 && { takerBuyVolume: round(volume * random()) }),
+    });
+  }
+  return bars;
+}
+
+/**
+ * Deep equality with a relative tolerance on numbers; NaN equals NaN
+ */
+function assertClose(actual: unknown, expected: unknown, path = "value") {
+  if (typeof actual === "number" && typeof expected === "number") {
+    if (Number.isNaN(actual) && Number.isNaN(expected)) return;
+    const tolerance = 1e-9 * Math.max(1, Math.abs(expected));
+    assert.ok(
+      Math.abs(actual - expected) <= tolerance,
+      `${path}: ${actual} !== ${expected}`
+    );
+    return;
+  }
+  if (
+    actual !== null &&
+    expected !== null &&
+    typeof actual === "object" &&
+    typeof expected === "object"
+  ) {
+    const actualRecord = actual as Record<string, unknown>;
+    const expectedRecord = expected as Record<string, unknown>;
+    assert.deepEqual(
+      Object.keys(actualRecord).sort(),
+      Object.keys(expectedRecord).sort(),
+      `${path}: keys differ`
+    );
+    for (const key of Object.keys(expectedRecord)) {
+      assertClose(actualRecord[key], expectedRecord[key], `${path}.${key}`);
+    }
+    return;
+  }
+  assert.equal(actual, expected, path);
+}
+
+/**
+ * Feed inputs one at a time and check the streaming contract: peek matches
+ * the following update without changing state, the non-null updates match
+ * the batch function, and reset replays the same series. Returns the
+ * per-input outputs, null while warming up.
+ */
+function checkStreaming<TInput, TOutput>(
+  create: () => StreamingIndicator<TInput, TOutput>,
+  inputs: TInput[],
+  batch: (TOutput | null)[]
+): (TOutput | null)[] {
+  const stream = create();
+  const outputs: (TOutput | null)[] = [];
+  inputs.forEach((input, index) => {
+    const before = stream.value;
+    const peeked = stream.peek(input);
+    assertClose(stream.peek(input), peeked, `peek twice at ${index}`);
+    assertClose(stream.value, before, `value after peek at ${index}`);
+
+    const updated = stream.update(input);
+    assertClose(peeked, updated, `peek vs update at ${index}`);
+    assertClose(stream.value, updated, `value at ${index}`);
+    outputs.push(updated);
+  });
+
+  assertClose(
+    outputs.filter((output) => output !== null),
+    batch.filter((output) => output !== null),
+    "batch"
+  );
+
+  stream.reset();
+  assert.equal(stream.value, null);
+  assertClose(
+    inputs.map((input) => stream.update(input)),
+    outputs,
+    "after reset"
+  );
+  return outputs;
+}
+
+/**
+ * Straightforward reference implementations, one value per input
+ */
+function naiveSMA(values: number[], period: number): (number | null)[] {
+  return values.map((_, i) =>
+    i < period - 1
+      ? null
+      : values.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0) / period
+  );
+}
+
+function naiveSeeded(
+  values: number[],
+  period: number,
+  step: (previous: number, value: number) => number
+): (number | null)[] {
+  let previous: number | null = null;
+  return values.map((value, i) => {
+    if (i < period - 1) return null;
+    previous =
+      previous === null
+        ? values.slice(0, period).reduce((a, b) => a + b, 0) / period
+        : step(previous, value);
+    return previous;
+  });
+}
+
+function naiveEMA(values: number[], period: number): (number | null)[] {
+  const k = 2 / (period + 1);
+  return naiveSeeded(
+    values,
+    period,
+    (prev, value) => value * k + prev * (1 - k)
+  );
+}
+
+function naiveRMA(values: number[], period: number): (number | null)[] {
+  return naiveSeeded(
+    values,
+    period,
+    (prev, value) => (prev * (period - 1) + value) / period
+  );
+}
+
+/**
+ * RMA of a series that may start with nulls
+ */
+function naiveRMAFrom(
+  values: (number | null)[],
+  period: number
+): (number | null)[] {
+  const start = values.findIndex((value) => value !== null);
+  const tail = naiveRMA(values.slice(start) as number[], period);
+  return [...values.slice(0, start).map(() => null), ...tail];
+}
+
+function naiveTrueRange(bars: PriceBar[]): number[] {
+  return bars.map((bar, i) => {
+    const previous = bars[i - 1];
+    if (!previous) return bar.high - bar.low;
+    return Math.max(
+      bar.high - bar.low,
+      Math.abs(bar.high - previous.close),
+      Math.abs(bar.low - previous.close)
+    );
+  });
+}
+
+const bars = randomBars(300);
+const closes = bars.map((bar) => bar.close);
+
+describe("StreamingSMA", () => {
+  test("matches batch and a naive SMA", () => {
+    const outputs = checkStreaming(
+      () => new StreamingSMA(10),
+      closes,
+      calculateSMA(closes, 10)
+    );
+    assertClose(outputs, naiveSMA(closes, 10));
+  });
+});
+
+describe("StreamingEMA", () => {
+  test("matches batch and an SMA-seeded EMA", () => {
+    const outputs = checkStreaming(
+      () => new StreamingEMA(12),
+      closes,
+      calculateEMA(closes, 12)
+    );
+    assertClose(outputs, naiveEMA(closes, 12));
+  });
+});
+
+describe("StreamingRMA", () => {
+  test("matches an SMA-seeded Wilder average", () => {
+    const outputs = checkStreaming(
+      () => new StreamingRMA(14),
+      closes,
+      naiveRMA(closes, 14)
+    );
+    assertClose(outputs, naiveRMA(closes, 14));
+  });
+});
+
+describe("StreamingRSI", () => {
+  const changes = closes.slice(1).map((close, i) => close - closes[i]!);
+  const gains = changes.map((change) => Math.max(change, 0));
+  const losses = changes.map((change) => Math.max(-change, 0));
+  const toRSI = (gain: number | null, loss: number | null) =>
+    gain === null || loss === null
+      ? null
+      : loss <= 0
+      ? 100
+      : 100 - 100 / (1 + gain / loss);
+
+  test("wilder matches batch and RMA of gains and losses", () => {
+    const outputs = checkStreaming(
+      () => new StreamingRSI(14, "wilder"),
+      closes,
+      calculateRSI(closes, 14, "wilder")
+    );
+    const averageGains = naiveRMA(gains, 14);
+    const averageLosses = naiveRMA(losses, 14);
+    assertClose(outputs, [
+      null,
+      ...averageGains.map((gain, i) => toRSI(gain, averageLosses[i]!)),
+    ]);
+  });
+
+  test("wilder matches the worked 14-period example", () => {
+    // Closes of the StockCharts RSI worksheet. The first value averages the
+    // first 14 changes: gains 3.34 / 14 and losses 1.40 / 14, RSI 70.46;
+    // later values smooth each average by 13/14 plus the new change / 14.
+    const worksheet = [
+      44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08,
+      45.89, 46.03, 45.61, 46.28, 46.28, 46.0, 46.03, 46.41, 46.22, 45.64,
+      46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+      43.42, 42.66, 43.13,
+    ];
+    const expected = [
+      70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34,
+      54.67, 50.39, 40.02, 41.49, 41.9, 45.5, 37.32, 33.09, 37.79,
+    ];
+    const rsi = calculateRSI(worksheet, 14, "wilder");
+    assert.equal(rsi.length, expected.length);
+    rsi.forEach((value, i) =>
+      assert.ok(
+        Math.abs(value - expected[i]!) < 0.005,
+        `RSI ${i}: ${value.toFixed(4)} !== ${expected[i]}`
+      )
+    );
+  });
+
+  test("sma matches batch and SMA of gains and losses", () => {
+    const outputs = checkStreaming(
+      () => new StreamingRSI(14, "sma"),
+      closes,
+      calculateRSI(closes, 14, "sma")
+    );
+    const averageGains = naiveSMA(gains, 14);
+    const averageLosses = naiveSMA(losses, 14);
+    assertClose(outputs, [
+      null,
+      ...averageGains.map((gain, i) => toRSI(gain, averageLosses[i]!)),
+    ]);
+  });
+});
+
+describe("StreamingStochastic", () => {
+  test("matches batch and a naive %K/%D", () => {
+    const outputs = checkStreaming(
+      () => new StreamingStochastic(14, 3),
+      bars,
+      calculateStochastic(bars, 14, 3)
+    );
+    const kValues = bars.map((bar, i) => {
+      if (i < 13) return null;
+      const window = bars.slice(i - 13, i + 1);
+      const highest = Math.max(...window.map((b) => b.high));
+      const lowest = Math.min(...window.map((b) => b.low));
+      return highest === lowest
+        ? 50
+        : ((bar.close - lowest) / (highest - lowest)) * 100;
+    });
+    const expected = kValues.map((k, i) => {
+      const window = kValues.slice(Math.max(0, i - 2), i + 1);
+      if (k === null || i < 15) return null;
+      return { k, d: (window as number[]).reduce((a, b) => a + b, 0) / 3 };
+    });
+    assertClose(outputs, expected);
+  });
+});
+
+describe("StreamingBollingerBands", () => {
+  test("matches batch and population standard deviation bands", () => {
+    const outputs = checkStreaming(
+      () => new StreamingBollingerBands(20, 2),
+      closes,
+      calculateBollingerBands(closes, 20, 2)
+    );
+    const expected = naiveSMA(closes, 20).map((middle, i) => {
+      if (middle === null) return null;
+      const window = closes.slice(i - 19, i + 1);
+      const variance =
+        window.reduce((sum, value) => sum + (value - middle) ** 2, 0) / 20;
+      const deviation = 2 * Math.sqrt(variance);
+      return { upper: middle + deviation, middle, lower: middle - deviation };
+    });
+    // Running sums of squares lose a little precision against the direct form
+    expected.forEach((bands, i) => {
+      const output = outputs[i];
+      if (bands === null || !output) {
+        assert.equal(output, bands);
+        return;
+      }
+      assert.ok(Math.abs(output.upper - bands.upper) < 1e-6);
+      assert.ok(Math.abs(output.middle - bands.middle) < 1e-9);
+      assert.ok(Math.abs(output.lower - bands.lower) < 1e-6);
+    });
+  });
+
+  test("a flat series has zero width", () => {
+    const stream = new StreamingBollingerBands(5, 2);
+    let bands = null;
+    for (let i = 0; i < 10; i++) bands = stream.update(0.1);
+    assert.ok(bands);
+    assert.equal(bands.upper, bands.lower);
+  });
+});
+
+describe("StreamingMACD", () => {
+  test("matches batch and EMA differences", () => {
+    const outputs = checkStreaming(
+      () => new StreamingMACD(12, 26, 9),
+      closes,
+      calculateMACD(closes, 12, 26, 9)
+    );
+    const fast = naiveEMA(closes, 12);
+    const slow = naiveEMA(closes, 26);
+    const macd = fast.map((value, i) =>
+      value === null || slow[i] === null ? null : value - slow[i]!
+    );
+    const start = macd.findIndex((value) => value !== null);
+    const signal = [
+      ...macd.slice(0, start),
+      ...naiveEMA(macd.slice(start) as number[], 9),
+    ];
+    assertClose(
+      outputs,
+      macd.map((value, i) =>
+        value === null || signal[i] === null
+          ? null
+          : { macd: value, signal: signal[i]!, histogram: value - signal[i]! }
+      )
+    );
+  });
+});
+
+describe("StreamingOBV", () => {
+  test("matches batch and signed cumulative volume", () => {
+    const outputs = checkStreaming(
+      () => new StreamingOBV(),
+      bars,
+      calculateOBV(bars)
+    );
+    let total = 0;
+    assertClose(
+      outputs,
+      bars.map((bar, i) => {
+        const previous = bars[i - 1];
+        if (previous)
+          total += Math.sign(bar.close - previous.close) * bar.volume;
+        return total;
+      })
+    );
+  });
+});
+
+describe("StreamingCVD", () => {
+  test("matches batch, using taker volume or the close location", () => {
+    const outputs = checkStreaming(
+      () => new StreamingCVD(),
+      bars,
+      calculateCVD(bars)
+    );
+    let total = 0;
+    assertClose(
+      outputs,
+      bars.map((bar) => {
+        const range = bar.high - bar.low;
+        total +=
+          bar.takerBuyVolume !== undefined
+            ? 2 * bar.takerBuyVolume - bar.volume
+            : range > 0
+            ? (bar.volume * (2 * bar.close - bar.high - bar.low)) / range
+            : 0;
+        return total;
+      })
+    );
+  });
+});
+
+describe("StreamingMFI", () => {
+  test("matches batch and a naive money flow index", () => {
+    const outputs = checkStreaming(
+      () => new StreamingMFI(14),
+      bars,
+      calculateMFI(bars, 14)
+    );
+    const typical = bars.map((bar) => (bar.high + bar.low + bar.close) / 3);
+    assertClose(
+      outputs,
+      bars.map((_, i) => {
+        if (i < 14) return null;
+        let positive = 0;
+        let negative = 0;
+        for (let j = i - 13; j <= i; j++) {
+          const flow = typical[j]! * bars[j]!.volume;
+          if (typical[j]! > typical[j - 1]!) positive += flow;
+          if (typical[j]! < typical[j - 1]!) negative += flow;
+        }
+        return negative <= 0 ? 100 : 100 - 100 / (1 + positive / negative);
+      })
+    );
+  });
+});
+
+describe("StreamingATR", () => {
+  test("matches batch and the RMA of true range", () => {
+    const outputs = checkStreaming(
+      () => new StreamingATR(14),
+      bars,
+      calculateATR(bars, 14)
+    );
+    assertClose(outputs, naiveRMA(naiveTrueRange(bars), 14));
+  });
+});
+
+describe("StreamingADX", () => {
+  test("matches batch and a naive ta.dmi", () => {
+    const outputs = checkStreaming(
+      () => new StreamingADX(14),
+      bars,
+      calculateADX(bars, 14)
+    );
+
+    // Directional movement and true range start at the second bar
+    const trueRanges = naiveTrueRange(bars);
+    const plusDM: (number | null)[] = [null];
+    const minusDM: (number | null)[] = [null];
+    for (let i = 1; i < bars.length; i++) {
+      const up = bars[i]!.high - bars[i - 1]!.high;
+      const down = bars[i - 1]!.low - bars[i]!.low;
+      plusDM.push(up > down && up > 0 ? up : 0);
+      minusDM.push(down > up && down > 0 ? down : 0);
+    }
+    const trueRange = naiveRMAFrom([null, ...trueRanges.slice(1)], 14);
+    const plus = naiveRMAFrom(plusDM, 14);
+    const minus = naiveRMAFrom(minusDM, 14);
+    const lines = trueRange.map((range, i) => {
+      if (range === null) return null;
+      const plusDI = range > 0 ? (100 * plus[i]!) / range : 0;
+      const minusDI = range > 0 ? (100 * minus[i]!) / range : 0;
+      const dx = (100 * Math.abs(plusDI - minusDI)) / (plusDI + minusDI || 1);
+      return { plusDI, minusDI, dx };
+    });
+    const adx = naiveRMAFrom(
+      lines.map((line) => line?.dx ?? null),
+      14
+    );
+    assertClose(
+      outputs,
+      lines.map((line, i) =>
+        line && adx[i] !== null
+          ? { adx: adx[i]!, plusDI: line.plusDI, minusDI: line.minusDI }
+          : null
+      )
+    );
+  });
+});
+
+describe("StreamingSuperTrend", () => {
+  test("matches batch and a naive ta.supertrend", () => {
+    const outputs = checkStreaming(
+      () => new StreamingSuperTrend(10, 3),
+      bars,
+      calculateSuperTrend(bars, 10, 3)
+    );
+
+    const atr = naiveRMA(naiveTrueRange(bars), 10);
+    let previous: {
+      upperBand: number;
+      lowerBand: number;
+      direction: "up" | "down";
+    } | null = null;
+    const expected = bars.map((bar, i) => {
+      const value = atr[i];
+      if (value === null || value === undefined) return null;
+      const middle = (bar.high + bar.low) / 2;
+      let upperBand = middle + 3 * value;
+      let lowerBand = middle - 3 * value;
+      let direction: "up" | "down" = "down";
+      if (previous) {
+        const previousClose = bars[i - 1]!.close;
+        if (
+          lowerBand <= previous.lowerBand &&
+          previousClose >= previous.lowerBand
+        ) {
+          lowerBand = previous.lowerBand;
+        }
+        if (
+          upperBand >= previous.upperBand &&
+          previousClose <= previous.upperBand
+        ) {
+          upperBand = previous.upperBand;
+        }
+        direction =
+          previous.direction === "down"
+            ? bar.close > upperBand
+              ? "up"
+              : "down"
+            : bar.close < lowerBand
+            ? "down"
+            : "up";
+      }
+      previous = { upperBand, lowerBand, direction };
+      return {
+        value: direction === "up" ? lowerBand : upperBand,
+        direction,
+        upperBand,
+        lowerBand,
+        atr: value,
+      };
+    });
+    assertClose(outputs, expected);
+    assert.ok(
+      outputs.some((output) => output?.direction === "up") &&
+        outputs.some((output) => output?.direction === "down"),
+      "series should flip at least once"
+    );
+  });
+});
+
+describe("StreamingPivot", () => {
+  const naivePivots = (
+    values: number[],
+    kind: "high" | "low",
+    left: number,
+    right: number
+  ) => {
+    const sign = kind === "high" ? 1 : -1;
+    return values.map((_, i) => {
+      const center = i - right;
+      if (center - left < 0) return null;
+      const pivot = values[center]!;
+      if (isNaN(pivot)) return null;
+      for (let j = center - left; j <= i; j++) {
+        if (j === center) continue;
+        const value = values[j]!;
+        if (isNaN(value)) return null;
+        const difference = (pivot - value) * sign;
+        if (j < center ? difference <= 0 : difference < 0) return null;
+      }
+      return pivot;
+    });
+  };
+
+  // Cent-rounded highs tie now and then; a NaN never forms a pivot
+  const highs = bars.map((bar) => bar.high);
+  highs[100] = NaN;
+  const lows = bars.map((bar) => bar.low);
+
+  test("pivot highs match batch and a naive ta.pivothigh", () => {
+    const outputs = checkStreaming(
+      () => new StreamingPivot("high", 3, 2),
+      highs,
+      calculatePivotHighs(highs, 3, 2)
+    );
+    assertClose(outputs, naivePivots(highs, "high", 3, 2));
+    assertClose(outputs, calculatePivotHighs(highs, 3, 2));
+  });
+
+  test("pivot lows match batch and a naive ta.pivotlow", () => {
+    const outputs = checkStreaming(
+      () => new StreamingPivot("low", 5, 5),
+      lows,
+      calculatePivotLows(lows, 5, 5)
+    );
+    assertClose(outputs, naivePivots(lows, "low", 5, 5));
+  });
+
+  test("of two equal values the left one is the pivot", () => {
+    assert.deepEqual(calculatePivotHighs([1, 2, 5, 5, 2, 1], 2, 2), [
+      null,
+      null,
+      null,
+      null,
+      5,
+      null,
+    ]);
+  });
+});
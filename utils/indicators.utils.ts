@@ -0,0 +1,1177 @@
+import { KlineData, RSISmoothing } from "../types/market.model";
+
+/**
+ * Technical indicators shared by the detectors. Each indicator comes in two
+ * forms: a pure function over a full series, and a streaming class that is
+ * fed one closed candle at a time so a new candle costs a fixed amount of
+ * work instead of a pass over the whole kline history. Both forms produce the
+ * same values for the same input.
+ */
+
+export interface PriceBar {
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface StochasticValue {
+  k: number;
+  d: number; // SMA of %K
+}
+
+export interface BollingerBandsValue {
+  upper: number;
+  middle: number; // SMA
+  lower: number;
+}
+
+export interface VolumeBar extends PriceBar {
+  open: number;
+  volume: number;
+  takerBuyVolume?: number; // Unset when the exchange does not report it
+}
+
+export interface MACDValue {
+  macd: number; // Fast EMA - slow EMA
+  signal: number; // EMA of the MACD line
+  histogram: number;
+}
+
+export interface ADXValue {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface SuperTrendValue {
+  value: number; // Lower band in an uptrend, upper band in a downtrend
+  direction: "up" | "down";
+  upperBand: number;
+  lowerBand: number;
+  atr: number;
+}
+
+/**
+ * Indicator updated one closed candle at a time
+ */
+export interface StreamingIndicator<TInput, TOutput> {
+  /** Value at the last closed candle, null while warming up */
+  readonly value: TOutput | null;
+  /** Add a closed candle and return the new value */
+  update(input: TInput): TOutput | null;
+  /** Value if the next candle closed at this input, without changing state */
+  peek(input: TInput): TOutput | null;
+  reset(): void;
+}
+
+/**
+ * Simple moving average, aligned to the end of the series: the first value
+ * covers values[0..period-1]
+ */
+export function calculateSMA(values: number[], period: number): number[] {
+  const stream = new StreamingSMA(period);
+  return collect(values, stream);
+}
+
+/**
+ * Exponential moving average seeded with the SMA of the first period values
+ */
+export function calculateEMA(values: number[], period: number): number[] {
+  const stream = new StreamingEMA(period);
+  return collect(values, stream);
+}
+
+/**
+ * RSI of closes, Wilder-smoothed by default (see StreamingRSI)
+ */
+export function calculateRSI(
+  closes: number[],
+  period: number = 14,
+  smoothing: RSISmoothing = "wilder"
+): number[] {
+  const stream = new StreamingRSI(period, smoothing);
+  return collect(closes, stream);
+}
+
+/**
+ * Stochastic oscillator, %K over kPeriod bars and %D as its dPeriod SMA.
+ * %K values before the first %D are dropped so both arrays line up.
+ */
+export function calculateStochastic(
+  bars: PriceBar[],
+  kPeriod: number = 14,
+  dPeriod: number = 3
+): StochasticValue[] {
+  const stream = new StreamingStochastic(kPeriod, dPeriod);
+  return collect(bars, stream);
+}
+
+/**
+ * Bollinger Bands: SMA ± stdDev population standard deviations
+ */
+export function calculateBollingerBands(
+  values: number[],
+  period: number = 20,
+  stdDev: number = 2
+): BollingerBandsValue[] {
+  const stream = new StreamingBollingerBands(period, stdDev);
+  return collect(values, stream);
+}
+
+/**
+ * MACD line, signal line and histogram. Values before the first signal are
+ * dropped.
+ */
+export function calculateMACD(
+  closes: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): MACDValue[] {
+  const stream = new StreamingMACD(fastPeriod, slowPeriod, signalPeriod);
+  return collect(closes, stream);
+}
+
+/**
+ * On-balance volume, starting at 0 on the first bar
+ */
+export function calculateOBV(bars: VolumeBar[]): number[] {
+  return collect(bars, new StreamingOBV());
+}
+
+/**
+ * Cumulative volume delta, see StreamingCVD
+ */
+export function calculateCVD(bars: VolumeBar[]): number[] {
+  return collect(bars, new StreamingCVD());
+}
+
+/**
+ * Money flow index of the typical price (hlc3), like TradingView's ta.mfi
+ */
+export function calculateMFI(bars: VolumeBar[], period: number = 14): number[] {
+  return collect(bars, new StreamingMFI(period));
+}
+
+/**
+ * Average true range, Wilder-smoothed like TradingView's ta.atr
+ */
+export function calculateATR(bars: PriceBar[], period: number = 14): number[] {
+  return collect(bars, new StreamingATR(period));
+}
+
+/**
+ * ADX with the +DI/-DI lines, like TradingView's ta.dmi
+ */
+export function calculateADX(
+  bars: PriceBar[],
+  period: number = 14
+): ADXValue[] {
+  return collect(bars, new StreamingADX(period));
+}
+
+/**
+ * SuperTrend of hl2 ± multiplier × ATR, like TradingView's ta.supertrend
+ */
+export function calculateSuperTrend(
+  bars: PriceBar[],
+  atrPeriod: number = 10,
+  multiplier: number = 3
+): SuperTrendValue[] {
+  return collect(bars, new StreamingSuperTrend(atrPeriod, multiplier));
+}
+
+/**
+ * Pivot highs like Pine's ta.pivothigh: at each index, the value rightBars
+ * back when it is a pivot, otherwise null. NaN inputs never form pivots.
+ */
+export function calculatePivotHighs(
+  values: number[],
+  leftBars: number,
+  rightBars: number
+): (number | null)[] {
+  const stream = new StreamingPivot("high", leftBars, rightBars);
+  return values.map((value) => stream.update(value));
+}
+
+/**
+ * Pivot lows like Pine's ta.pivotlow, see calculatePivotHighs
+ */
+export function calculatePivotLows(
+  values: number[],
+  leftBars: number,
+  rightBars: number
+): (number | null)[] {
+  const stream = new StreamingPivot("low", leftBars, rightBars);
+  return values.map((value) => stream.update(value));
+}
+
+/**
+ * Average volume of the last period candles, 0 with fewer candles
+ */
+export function calculateAverageVolume(
+  klineData: KlineData[],
+  period: number = 20
+): number {
+  if (klineData.length < period) return 0;
+  const volumes = klineData
+    .slice(-period)
+    .map((candle) => parseFloat(candle.volume));
+  return volumes.reduce((sum, volume) => sum + volume, 0) / period;
+}
+
+export function toPriceBar(candle: KlineData): PriceBar {
+  return {
+    high: parseFloat(candle.high),
+    low: parseFloat(candle.low),
+    close: parseFloat(candle.close),
+  };
+}
+
+/**
+ * Candles without a trade count (OKX) carry no taker volume
+ */
+export function toVolumeBar(candle: KlineData): VolumeBar {
+  return {
+    ...toPriceBar(candle),
+    open: parseFloat(candle.open),
+    volume: parseFloat(candle.volume),
+    ...(candle.numberOfTrades > 0 && {
+      takerBuyVolume: parseFloat(candle.takerBuyBaseAssetVolume),
+    }),
+  };
+}
+
+export class StreamingSMA implements StreamingIndicator<number, number> {
+  private readonly period: number;
+  private window: RollingWindow;
+  private sum: number = 0;
+  value: number | null = null;
+
+  constructor(period: number) {
+    this.period = period;
+    this.window = new RollingWindow(period);
+  }
+
+  update(input: number): number | null {
+    const evicted = this.window.push(input);
+    this.sum += input - (evicted ?? 0);
+    this.value = this.window.isFull() ? this.sum / this.period : null;
+    return this.value;
+  }
+
+  peek(input: number): number | null {
+    if (this.window.size < this.period - 1) return null;
+    const evicted = this.window.isFull() ? this.window.oldest() : 0;
+    return (this.sum - evicted + input) / this.period;
+  }
+
+  reset(): void {
+    this.window.clear();
+    this.sum = 0;
+    this.value = null;
+  }
+}
+
+export class StreamingEMA implements StreamingIndicator<number, number> {
+  private readonly period: number;
+  private readonly multiplier: number;
+  private seedSum: number = 0;
+  private count: number = 0;
+  value: number | null = null;
+
+  constructor(period: number) {
+    this.period = period;
+    this.multiplier = 2 / (period + 1);
+  }
+
+  update(input: number): number | null {
+    this.value = this.next(input);
+    if (this.count < this.period) {
+      this.seedSum += input;
+      this.count++;
+    }
+    return this.value;
+  }
+
+  peek(input: number): number | null {
+    return this.next(input);
+  }
+
+  reset(): void {
+    this.seedSum = 0;
+    this.count = 0;
+    this.value = null;
+  }
+
+  private next(input: number): number | null {
+    if (this.value !== null) {
+      return input * this.multiplier + this.value * (1 - this.multiplier);
+    }
+    // First EMA is the SMA of the first period values
+    return this.count === this.period - 1
+      ? (this.seedSum + input) / this.period
+      : null;
+  }
+}
+
+/**
+ * RSI of closes. "wilder" smooths gains and losses with Wilder's moving
+ * average (RMA) seeded by the SMA of the first period changes, like
+ * TradingView's ta.rsi; "sma" averages the last period changes only.
+ */
+export class StreamingRSI implements StreamingIndicator<number, number> {
+  private readonly period: number;
+  private readonly smoothing: RSISmoothing;
+  private gains: RollingWindow;
+  private losses: RollingWindow;
+  private gainSum: number = 0;
+  private lossSum: number = 0;
+  private averageGain: number | null = null; // Wilder only
+  private averageLoss: number | null = null;
+  private previousClose: number | null = null;
+  value: number | null = null;
+
+  constructor(period: number = 14, smoothing: RSISmoothing = "wilder") {
+    this.period = period;
+    this.smoothing = smoothing;
+    this.gains = new RollingWindow(period);
+    this.losses = new RollingWindow(period);
+  }
+
+  update(input: number): number | null {
+    if (this.previousClose !== null) {
+      const change = input - this.previousClose;
+      const gain = Math.max(change, 0);
+      const loss = Math.max(-change, 0);
+
+      if (this.averageGain !== null && this.averageLoss !== null) {
+        this.averageGain = this.smooth(this.averageGain, gain);
+        this.averageLoss = this.smooth(this.averageLoss, loss);
+      } else {
+        this.gainSum += gain - (this.gains.push(gain) ?? 0);
+        this.lossSum += loss - (this.losses.push(loss) ?? 0);
+
+        // Wilder switches from the seed window to RMA once it is full
+        if (this.smoothing === "wilder" && this.gains.isFull()) {
+          this.averageGain = this.gainSum / this.period;
+          this.averageLoss = this.lossSum / this.period;
+        }
+      }
+    }
+    this.previousClose = input;
+    this.value = this.current();
+    return this.value;
+  }
+
+  peek(input: number): number | null {
+    if (this.previousClose === null) return null;
+
+    const change = input - this.previousClose;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (this.averageGain !== null && this.averageLoss !== null) {
+      return this.toRSI(
+        this.smooth(this.averageGain, gain),
+        this.smooth(this.averageLoss, loss)
+      );
+    }
+    if (this.gains.size < this.period - 1) return null;
+
+    const full = this.gains.isFull();
+    return this.toRSI(
+      this.gainSum - (full ? this.gains.oldest() : 0) + gain,
+      this.lossSum - (full ? this.losses.oldest() : 0) + loss
+    );
+  }
+
+  reset(): void {
+    this.gains.clear();
+    this.losses.clear();
+    this.gainSum = 0;
+    this.lossSum = 0;
+    this.averageGain = null;
+    this.averageLoss = null;
+    this.previousClose = null;
+    this.value = null;
+  }
+
+  private current(): number | null {
+    if (this.averageGain !== null && this.averageLoss !== null) {
+      return this.toRSI(this.averageGain, this.averageLoss);
+    }
+    return this.gains.isFull() ? this.toRSI(this.gainSum, this.lossSum) : null;
+  }
+
+  private smooth(average: number, value: number): number {
+    return (average * (this.period - 1) + value) / this.period;
+  }
+
+  /**
+   * RSI from gains and losses, either both averages or both sums
+   */
+  private toRSI(gain: number, loss: number): number {
+    if (loss <= 0) return 100;
+    const rs = gain / loss;
+    return 100 - 100 / (1 + rs);
+  }
+}
+
+/**
+ * Stochastic oscillator. The highest high and lowest low are taken over
+ * the kPeriod window, so an update costs O(kPeriod) regardless of history.
+ */
+export class StreamingStochastic
+  implements StreamingIndicator<PriceBar, StochasticValue>
+{
+  private readonly kPeriod: number;
+  private readonly dPeriod: number;
+  private highs: RollingWindow;
+  private lows: RollingWindow;
+  private kValues: RollingWindow;
+  private kSum: number = 0;
+  value: StochasticValue | null = null;
+
+  constructor(kPeriod: number = 14, dPeriod: number = 3) {
+    this.kPeriod = kPeriod;
+    this.dPeriod = dPeriod;
+    this.highs = new RollingWindow(kPeriod);
+    this.lows = new RollingWindow(kPeriod);
+    this.kValues = new RollingWindow(dPeriod);
+  }
+
+  update(input: PriceBar): StochasticValue | null {
+    this.highs.push(input.high);
+    this.lows.push(input.low);
+    this.value = null;
+    if (!this.highs.isFull()) return null;
+
+    const k = this.toK(
+      Math.max(...this.highs.values()),
+      Math.min(...this.lows.values()),
+      input.close
+    );
+    this.kSum += k - (this.kValues.push(k) ?? 0);
+    if (this.kValues.isFull()) {
+      this.value = { k, d: this.kSum / this.dPeriod };
+    }
+    return this.value;
+  }
+
+  peek(input: PriceBar): StochasticValue | null {
+    if (this.highs.size < this.kPeriod - 1) return null;
+    if (this.kValues.size < this.dPeriod - 1) return null;
+
+    const skip = this.highs.isFull() ? 1 : 0;
+    const k = this.toK(
+      Math.max(input.high, ...this.highs.values().slice(skip)),
+      Math.min(input.low, ...this.lows.values().slice(skip)),
+      input.close
+    );
+    const evicted = this.kValues.isFull() ? this.kValues.oldest() : 0;
+    return { k, d: (this.kSum - evicted + k) / this.dPeriod };
+  }
+
+  reset(): void {
+    this.highs.clear();
+    this.lows.clear();
+    this.kValues.clear();
+    this.kSum = 0;
+    this.value = null;
+  }
+
+  private toK(highestHigh: number, lowestLow: number, close: number): number {
+    // Neutral value when no range
+    if (highestHigh === lowestLow) return 50;
+    return ((close - lowestLow) / (highestHigh - lowestLow)) * 100;
+  }
+}
+
+/**
+ * Bollinger Bands from running sums of the values and their squares
+ */
+export class StreamingBollingerBands
+  implements StreamingIndicator<number, BollingerBandsValue>
+{
+  private readonly period: number;
+  private readonly stdDev: number;
+  private window: RollingWindow;
+  private sum: number = 0;
+  private sumOfSquares: number = 0;
+  value: BollingerBandsValue | null = null;
+
+  constructor(period: number = 20, stdDev: number = 2) {
+    this.period = period;
+    this.stdDev = stdDev;
+    this.window = new RollingWindow(period);
+  }
+
+  update(input: number): BollingerBandsValue | null {
+    const evicted = this.window.push(input) ?? 0;
+    this.sum += input - evicted;
+    this.sumOfSquares += input * input - evicted * evicted;
+    this.value = this.window.isFull()
+      ? this.toBands(this.sum, this.sumOfSquares)
+      : null;
+    return this.value;
+  }
+
+  peek(input: number): BollingerBandsValue | null {
+    if (this.window.size < this.period - 1) return null;
+    const evicted = this.window.isFull() ? this.window.oldest() : 0;
+    return this.toBands(
+      this.sum - evicted + input,
+      this.sumOfSquares - evicted * evicted + input * input
+    );
+  }
+
+  reset(): void {
+    this.window.clear();
+    this.sum = 0;
+    this.sumOfSquares = 0;
+    this.value = null;
+  }
+
+  private toBands(sum: number, sumOfSquares: number): BollingerBandsValue {
+    const middle = sum / this.period;
+    // Rounding can leave a tiny negative variance on a flat series
+    const variance = Math.max(sumOfSquares / this.period - middle * middle, 0);
+    const deviation = this.stdDev * Math.sqrt(variance);
+    return { upper: middle + deviation, middle, lower: middle - deviation };
+  }
+}
+
+/**
+ * MACD from a fast and a slow EMA of the closes, with the signal line as an
+ * EMA of the MACD line once the slow EMA is ready
+ */
+export class StreamingMACD implements StreamingIndicator<number, MACDValue> {
+  private fast: StreamingEMA;
+  private slow: StreamingEMA;
+  private signal: StreamingEMA;
+  value: MACDValue | null = null;
+
+  constructor(
+    fastPeriod: number = 12,
+    slowPeriod: number = 26,
+    signalPeriod: number = 9
+  ) {
+    this.fast = new StreamingEMA(fastPeriod);
+    this.slow = new StreamingEMA(slowPeriod);
+    this.signal = new StreamingEMA(signalPeriod);
+  }
+
+  update(input: number): MACDValue | null {
+    const fast = this.fast.update(input);
+    const slow = this.slow.update(input);
+    this.value = null;
+    if (fast === null || slow === null) return null;
+
+    const macd = fast - slow;
+    const signal = this.signal.update(macd);
+    if (signal !== null) {
+      this.value = { macd, signal, histogram: macd - signal };
+    }
+    return this.value;
+  }
+
+  peek(input: number): MACDValue | null {
+    const fast = this.fast.peek(input);
+    const slow = this.slow.peek(input);
+    if (fast === null || slow === null) return null;
+
+    const macd = fast - slow;
+    const signal = this.signal.peek(macd);
+    return signal !== null ? { macd, signal, histogram: macd - signal } : null;
+  }
+
+  reset(): void {
+    this.fast.reset();
+    this.slow.reset();
+    this.signal.reset();
+    this.value = null;
+  }
+}
+
+/**
+ * On-balance volume: volume added on up closes, subtracted on down closes
+ */
+export class StreamingOBV implements StreamingIndicator<VolumeBar, number> {
+  private previousClose: number | null = null;
+  value: number | null = null;
+
+  update(input: VolumeBar): number | null {
+    this.value = this.next(input);
+    this.previousClose = input.close;
+    return this.value;
+  }
+
+  peek(input: VolumeBar): number | null {
+    return this.next(input);
+  }
+
+  reset(): void {
+    this.previousClose = null;
+    this.value = null;
+  }
+
+  private next(input: VolumeBar): number {
+    const total = this.value ?? 0;
+    if (this.previousClose === null) return total;
+    return total + Math.sign(input.close - this.previousClose) * input.volume;
+  }
+}
+
+/**
+ * Cumulative volume delta, taker buys minus taker sells. Without taker
+ * volume the delta is estimated from where the candle closes in its range.
+ */
+export class StreamingCVD implements StreamingIndicator<VolumeBar, number> {
+  value: number | null = null;
+
+  update(input: VolumeBar): number | null {
+    this.value = this.next(input);
+    return this.value;
+  }
+
+  peek(input: VolumeBar): number | null {
+    return this.next(input);
+  }
+
+  reset(): void {
+    this.value = null;
+  }
+
+  private next(input: VolumeBar): number {
+    return (this.value ?? 0) + this.getDelta(input);
+  }
+
+  private getDelta(input: VolumeBar): number {
+    if (input.takerBuyVolume !== undefined) {
+      return 2 * input.takerBuyVolume - input.volume;
+    }
+    const range = input.high - input.low;
+    if (range <= 0) return 0;
+    return (input.volume * (2 * input.close - input.high - input.low)) / range;
+  }
+}
+
+/**
+ * Money flow index. Raw money flow (typical price × volume) counts as
+ * positive when the typical price rose and negative when it fell, summed
+ * over period bars.
+ */
+export class StreamingMFI implements StreamingIndicator<VolumeBar, number> {
+  private readonly period: number;
+  private positiveFlows: RollingWindow;
+  private negativeFlows: RollingWindow;
+  private positiveSum: number = 0;
+  private negativeSum: number = 0;
+  private previousTypicalPrice: number | null = null;
+  value: number | null = null;
+
+  constructor(period: number = 14) {
+    this.period = period;
+    this.positiveFlows = new RollingWindow(period);
+    this.negativeFlows = new RollingWindow(period);
+  }
+
+  update(input: VolumeBar): number | null {
+    const typicalPrice = this.getTypicalPrice(input);
+    if (this.previousTypicalPrice !== null) {
+      const [positive, negative] = this.getFlows(input, typicalPrice);
+      this.positiveSum += positive - (this.positiveFlows.push(positive) ?? 0);
+      this.negativeSum += negative - (this.negativeFlows.push(negative) ?? 0);
+    }
+    this.previousTypicalPrice = typicalPrice;
+    this.value = this.positiveFlows.isFull()
+      ? this.toMFI(this.positiveSum, this.negativeSum)
+      : null;
+    return this.value;
+  }
+
+  peek(input: VolumeBar): number | null {
+    if (this.previousTypicalPrice === null) return null;
+    if (this.positiveFlows.size < this.period - 1) return null;
+
+    const [positive, negative] = this.getFlows(
+      input,
+      this.getTypicalPrice(input)
+    );
+    const full = this.positiveFlows.isFull();
+    return this.toMFI(
+      this.positiveSum - (full ? this.positiveFlows.oldest() : 0) + positive,
+      this.negativeSum - (full ? this.negativeFlows.oldest() : 0) + negative
+    );
+  }
+
+  reset(): void {
+    this.positiveFlows.clear();
+    this.negativeFlows.clear();
+    this.positiveSum = 0;
+    this.negativeSum = 0;
+    this.previousTypicalPrice = null;
+    this.value = null;
+  }
+
+  private getTypicalPrice(input: VolumeBar): number {
+    return (input.high + input.low + input.close) / 3;
+  }
+
+  /**
+   * Positive and negative money flow of a bar
+   */
+  private getFlows(input: VolumeBar, typicalPrice: number): [number, number] {
+    const moneyFlow = typicalPrice * input.volume;
+    const change = typicalPrice - (this.previousTypicalPrice ?? typicalPrice);
+    return [change > 0 ? moneyFlow : 0, change < 0 ? moneyFlow : 0];
+  }
+
+  private toMFI(positive: number, negative: number): number {
+    if (negative <= 0) return 100;
+    return 100 - 100 / (1 + positive / negative);
+  }
+}
+
+/**
+ * Wilder's moving average (RMA), seeded by the SMA of the first period
+ * values like Pine's ta.rma
+ */
+export class StreamingRMA implements StreamingIndicator<number, number> {
+  private readonly period: number;
+  private seedSum: number = 0;
+  private count: number = 0;
+  value: number | null = null;
+
+  constructor(period: number) {
+    this.period = period;
+  }
+
+  update(input: number): number | null {
+    this.value = this.next(input);
+    if (this.count < this.period) {
+      this.seedSum += input;
+      this.count++;
+    }
+    return this.value;
+  }
+
+  peek(input: number): number | null {
+    return this.next(input);
+  }
+
+  reset(): void {
+    this.seedSum = 0;
+    this.count = 0;
+    this.value = null;
+  }
+
+  private next(input: number): number | null {
+    if (this.value !== null) {
+      return (this.value * (this.period - 1) + input) / this.period;
+    }
+    return this.count === this.period - 1
+      ? (this.seedSum + input) / this.period
+      : null;
+  }
+}
+
+/**
+ * Average true range. The first bar's true range is its high - low.
+ */
+export class StreamingATR implements StreamingIndicator<PriceBar, number> {
+  private rma: StreamingRMA;
+  private previousClose: number | null = null;
+  value: number | null = null;
+
+  constructor(period: number = 14) {
+    this.rma = new StreamingRMA(period);
+  }
+
+  update(input: PriceBar): number | null {
+    this.value = this.rma.update(trueRange(input, this.previousClose));
+    this.previousClose = input.close;
+    return this.value;
+  }
+
+  peek(input: PriceBar): number | null {
+    return this.rma.peek(trueRange(input, this.previousClose));
+  }
+
+  reset(): void {
+    this.rma.reset();
+    this.previousClose = null;
+    this.value = null;
+  }
+}
+
+/**
+ * Average directional index. Directional movement and true range start at
+ * the second bar; +DI/-DI are their RMAs and ADX is the RMA of the DX.
+ */
+export class StreamingADX implements StreamingIndicator<PriceBar, ADXValue> {
+  private trueRange: StreamingRMA;
+  private plusDM: StreamingRMA;
+  private minusDM: StreamingRMA;
+  private dx: StreamingRMA;
+  private previous: PriceBar | null = null;
+  value: ADXValue | null = null;
+
+  constructor(period: number = 14) {
+    this.trueRange = new StreamingRMA(period);
+    this.plusDM = new StreamingRMA(period);
+    this.minusDM = new StreamingRMA(period);
+    this.dx = new StreamingRMA(period);
+  }
+
+  update(input: PriceBar): ADXValue | null {
+    const previous = this.previous;
+    this.previous = input;
+    this.value = null;
+    if (!previous) return null;
+
+    const [plus, minus] = directionalMovement(input, previous);
+    const trueRangeAverage = this.trueRange.update(
+      trueRange(input, previous.close)
+    );
+    const plusAverage = this.plusDM.update(plus);
+    const minusAverage = this.minusDM.update(minus);
+    if (
+      trueRangeAverage === null ||
+      plusAverage === null ||
+      minusAverage === null
+    ) {
+      return null;
+    }
+
+    const [plusDI, minusDI, dx] = this.toDI(
+      trueRangeAverage,
+      plusAverage,
+      minusAverage
+    );
+    const adx = this.dx.update(dx);
+    if (adx !== null) {
+      this.value = { adx, plusDI, minusDI };
+    }
+    return this.value;
+  }
+
+  peek(input: PriceBar): ADXValue | null {
+    if (!this.previous) return null;
+
+    const [plus, minus] = directionalMovement(input, this.previous);
+    const trueRangeAverage = this.trueRange.peek(
+      trueRange(input, this.previous.close)
+    );
+    const plusAverage = this.plusDM.peek(plus);
+    const minusAverage = this.minusDM.peek(minus);
+    if (
+      trueRangeAverage === null ||
+      plusAverage === null ||
+      minusAverage === null
+    ) {
+      return null;
+    }
+
+    const [plusDI, minusDI, dx] = this.toDI(
+      trueRangeAverage,
+      plusAverage,
+      minusAverage
+    );
+    const adx = this.dx.peek(dx);
+    return adx !== null ? { adx, plusDI, minusDI } : null;
+  }
+
+  reset(): void {
+    this.trueRange.reset();
+    this.plusDM.reset();
+    this.minusDM.reset();
+    this.dx.reset();
+    this.previous = null;
+    this.value = null;
+  }
+
+  /**
+   * +DI, -DI and DX from the smoothed true range and directional movement
+   */
+  private toDI(
+    trueRangeAverage: number,
+    plusAverage: number,
+    minusAverage: number
+  ): [number, number, number] {
+    const plusDI =
+      trueRangeAverage > 0 ? (100 * plusAverage) / trueRangeAverage : 0;
+    const minusDI =
+      trueRangeAverage > 0 ? (100 * minusAverage) / trueRangeAverage : 0;
+    const sum = plusDI + minusDI;
+    return [plusDI, minusDI, (100 * Math.abs(plusDI - minusDI)) / (sum || 1)];
+  }
+}
+
+/**
+ * SuperTrend. The bands only tighten while price stays inside them, and
+ * the trend flips when the close crosses the active band.
+ */
+export class StreamingSuperTrend
+  implements StreamingIndicator<PriceBar, SuperTrendValue>
+{
+  private readonly multiplier: number;
+  private atr: StreamingATR;
+  private previousClose: number | null = null;
+  value: SuperTrendValue | null = null;
+
+  constructor(atrPeriod: number = 10, multiplier: number = 3) {
+    this.multiplier = multiplier;
+    this.atr = new StreamingATR(atrPeriod);
+  }
+
+  update(input: PriceBar): SuperTrendValue | null {
+    const atr = this.atr.update(input);
+    this.value = atr !== null ? this.next(input, atr) : null;
+    this.previousClose = input.close;
+    return this.value;
+  }
+
+  peek(input: PriceBar): SuperTrendValue | null {
+    const atr = this.atr.peek(input);
+    return atr !== null ? this.next(input, atr) : null;
+  }
+
+  reset(): void {
+    this.atr.reset();
+    this.previousClose = null;
+    this.value = null;
+  }
+
+  private next(input: PriceBar, atr: number): SuperTrendValue {
+    const middle = (input.high + input.low) / 2;
+    let upperBand = middle + this.multiplier * atr;
+    let lowerBand = middle - this.multiplier * atr;
+
+    // First value: the raw bands, starting in a downtrend like Pine
+    const previous = this.value;
+    if (!previous || this.previousClose === null) {
+      return { value: upperBand, direction: "down", upperBand, lowerBand, atr };
+    }
+
+    if (
+      !(lowerBand > previous.lowerBand) &&
+      !(this.previousClose < previous.lowerBand)
+    ) {
+      lowerBand = previous.lowerBand;
+    }
+    if (
+      !(upperBand < previous.upperBand) &&
+      !(this.previousClose > previous.upperBand)
+    ) {
+      upperBand = previous.upperBand;
+    }
+
+    const direction =
+      previous.direction === "down"
+        ? input.close > upperBand
+          ? "up"
+          : "down"
+        : input.close < lowerBand
+        ? "down"
+        : "up";
+    return {
+      value: direction === "up" ? lowerBand : upperBand,
+      direction,
+      upperBand,
+      lowerBand,
+      atr,
+    };
+  }
+}
+
+/**
+ * Pivot high or low confirmed rightBars candles after it. The pivot must
+ * beat every one of the leftBars before it and be at least equal to the
+ * rightBars after it, so of two equal neighbours the left one is the pivot.
+ */
+export class StreamingPivot implements StreamingIndicator<number, number> {
+  private readonly kind: "high" | "low";
+  private readonly leftBars: number;
+  private readonly rightBars: number;
+  private window: RollingWindow;
+  value: number | null = null;
+
+  constructor(kind: "high" | "low", leftBars: number, rightBars: number) {
+    this.kind = kind;
+    this.leftBars = leftBars;
+    this.rightBars = rightBars;
+    this.window = new RollingWindow(leftBars + rightBars + 1);
+  }
+
+  update(input: number): number | null {
+    this.window.push(input);
+    this.value = this.window.isFull()
+      ? this.findPivot(this.window.values())
+      : null;
+    return this.value;
+  }
+
+  peek(input: number): number | null {
+    if (this.window.size < this.leftBars + this.rightBars) return null;
+    const values = [...this.window.values(), input];
+    return this.findPivot(values.slice(-(this.leftBars + this.rightBars + 1)));
+  }
+
+  reset(): void {
+    this.window.clear();
+    this.value = null;
+  }
+
+  /**
+   * Check the center of a full window, oldest value first
+   */
+  private findPivot(values: number[]): number | null {
+    const center = values[this.leftBars];
+    if (center === undefined || isNaN(center)) return null;
+
+    const sign = this.kind === "high" ? 1 : -1;
+    for (let i = 0; i < values.length; i++) {
+      if (i === this.leftBars) continue;
+      const value = values[i];
+      if (value === undefined || isNaN(value)) return null;
+
+      const difference = (center - value) * sign;
+      if (i < this.leftBars ? difference <= 0 : difference < 0) return null;
+    }
+    return center;
+  }
+}
+
+/**
+ * Tracks which candles of a kline series were fed to streaming indicators.
+ * Every candle but the last, which is still forming, counts as closed.
+ */
+export class ClosedCandleCursor {
+  private lastOpenTime: number | null = null;
+
+  /**
+   * Closed candles after the last one consumed. When the series no longer
+   * connects to what was consumed (first call, gap, history reload), reset
+   * is true and every closed candle is returned so indicators can be rebuilt.
+   */
+  advance(klineData: KlineData[]): { candles: KlineData[]; reset: boolean } {
+    const closedCount = klineData.length - 1;
+    let start = -1;
+
+    if (this.lastOpenTime !== null) {
+      for (let i = closedCount - 1; i >= 0; i--) {
+        const openTime = klineData[i]?.openTime ?? -Infinity;
+        if (openTime === this.lastOpenTime) {
+          start = i + 1;
+          break;
+        }
+        if (openTime < this.lastOpenTime) break;
+      }
+    }
+
+    const reset = start === -1;
+    const candles = klineData.slice(
+      reset ? 0 : start,
+      Math.max(closedCount, 0)
+    );
+    const lastCandle = candles[candles.length - 1];
+    if (lastCandle) {
+      this.lastOpenTime = lastCandle.openTime;
+    } else if (reset) {
+      this.lastOpenTime = null;
+    }
+    return { candles, reset };
+  }
+}
+
+/**
+ * Fixed-size FIFO of numbers
+ */
+class RollingWindow {
+  private readonly capacity: number;
+  private buffer: number[] = [];
+  private start: number = 0;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  isFull(): boolean {
+    return this.buffer.length === this.capacity;
+  }
+
+  /**
+   * Append a value, returning the one evicted when the window was full
+   */
+  push(value: number): number | undefined {
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(value);
+      return undefined;
+    }
+    const evicted = this.buffer[this.start];
+    this.buffer[this.start] = value;
+    this.start = (this.start + 1) % this.capacity;
+    return evicted;
+  }
+
+  oldest(): number {
+    return this.buffer[this.isFull() ? this.start : 0] ?? 0;
+  }
+
+  /**
+   * Values from oldest to newest
+   */
+  values(): number[] {
+    return [
+      ...this.buffer.slice(this.start),
+      ...this.buffer.slice(0, this.start),
+    ];
+  }
+
+  clear(): void {
+    this.buffer = [];
+    this.start = 0;
+  }
+}
+
+/**
+ * True range against the previous close, high - low without one
+ */
+function trueRange(bar: PriceBar, previousClose: number | null): number {
+  if (previousClose === null) return bar.high - bar.low;
+  return Math.max(
+    bar.high - bar.low,
+    Math.abs(bar.high - previousClose),
+    Math.abs(bar.low - previousClose)
+  );
+}
+
+/**
+ * +DM and -DM: only the larger of the up and down moves counts
+ */
+function directionalMovement(
+  bar: PriceBar,
+  previous: PriceBar
+): [number, number] {
+  const up = bar.high - previous.high;
+  const down = previous.low - bar.low;
+  return [up > down && up > 0 ? up : 0, down > up && down > 0 ? down : 0];
+}
+
+function collect<TInput, TOutput>(
+  inputs: TInput[],
+  stream: StreamingIndicator<TInput, TOutput>
+): TOutput[] {
+  const output: TOutput[] = [];
+  for (const input of inputs) {
+    const value = stream.update(input);
+    if (value !== null) output.push(value);
+  }
+  return output;
+}
@@ -0,0 +1,83 @@
+/**
+ * Risk-based position sizing for contract-sized swaps: how many contracts
+ * lose riskPercent of equity if price moves from entry to the stop.
+ */
+
+import { roundDownToStep } from "./step.utils";
+
+export interface PositionSizeParams {
+  equity: number; // Account equity in the quote currency (USDT)
+  riskPercent: number; // Percent of equity lost at the stop, e.g. 1
+  entryPrice: number;
+  stopPrice: number;
+  contractValue: number; // Base asset per contract
+  lotSize?: number; // Size step in contracts, sizes are rounded down to it
+  minSize?: number; // Smallest accepted size in contracts
+  feeRate?: number; // Taker fee charged on entry and exit
+}
+
+export interface PositionSize {
+  size: number; // Contracts
+  riskAmount: number; // Risk budget: equity × riskPercent
+  expectedLoss: number; // Loss at the stop for the rounded size, fees included
+  notional: number; // Size × contract value × entry price
+  stopDistancePercent: number;
+}
+
+/**
+ * Calculate the order size in contracts. Throws when the inputs are invalid
+ * or the risk budget cannot buy the instrument's minimum size.
+ */
+export function calculatePositionSize(
+  params: PositionSizeParams
+): PositionSize {
+  const {
+    equity,
+    riskPercent,
+    entryPrice,
+    stopPrice,
+    contractValue,
+    lotSize = 0,
+    minSize = 0,
+    feeRate = 0,
+  } = params;
+
+  if (equity <= 0) {
+    throw new Error("Account equity must be greater than 0");
+  }
+  if (riskPercent <= 0 || riskPercent > 100) {
+    throw new Error("Risk percent must be between 0 and 100");
+  }
+  if (entryPrice <= 0 || stopPrice <= 0 || contractValue <= 0) {
+    throw new Error(
+      "Entry price, stop price and contract value must be positive"
+    );
+  }
+  if (entryPrice === stopPrice) {
+    throw new Error("Stop price must differ from the entry price");
+  }
+
+  const riskAmount = (equity * riskPercent) / 100;
+  const lossPerContract =
+    (Math.abs(entryPrice - stopPrice) + (entryPrice + stopPrice) * feeRate) *
+    contractValue;
+
+  const rawSize = riskAmount / lossPerContract;
+  const size = lotSize > 0 ? roundDownToStep(rawSize, lotSize) : rawSize;
+
+  if (size <= 0 || size < minSize) {
+    throw new Error(
+      `Risk budget ${riskAmount.toFixed(2)} covers ${rawSize.toFixed(
+        4
+      )} contracts, below the minimum size ${minSize || lotSize}`
+    );
+  }
+
+  return {
+    size,
+    riskAmount,
+    expectedLoss: size * lossPerContract,
+    notional: size * contractValue * entryPrice,
+    stopDistancePercent: (Math.abs(entryPrice - stopPrice) / entryPrice) * 100,
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Sliding-window request weight limiter for exchange REST budgets
+ */
+
+export class WeightRateLimiter {
+  private readonly weightPerWindow: number;
+  private readonly windowMs: number;
+  private usage: { timestamp: number; weight: number }[] = [];
+
+  constructor(weightPerWindow: number, windowMs: number = 60000) {
+    this.weightPerWindow = weightPerWindow;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Wait until the given weight fits in the current window, then reserve it
+   * @param weight Weight of the request about to be sent
+   */
+  async acquire(weight: number): Promise<void> {
+    const cappedWeight = Math.min(weight, this.weightPerWindow);
+
+    while (true) {
+      const now = Date.now();
+      this.usage = this.usage.filter(
+        (entry) => now - entry.timestamp < this.windowMs
+      );
+
+      const used = this.usage.reduce((sum, entry) => sum + entry.weight, 0);
+      const oldest = this.usage[0];
+      if (used + cappedWeight <= this.weightPerWindow || !oldest) {
+        this.usage.push({ timestamp: now, weight: cappedWeight });
+        return;
+      }
+
+      await sleep(oldest.timestamp + this.windowMs - now + 10);
+    }
+  }
+
+  /**
+   * Treat the whole window as used, e.g. after the exchange answered 429
+   * @param delayMs How long the exchange asked us to back off
+   */
+  pause(delayMs: number): void {
+    this.usage = [
+      {
+        timestamp: Date.now() + delayMs - this.windowMs,
+        weight: this.weightPerWindow,
+      },
+    ];
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+}
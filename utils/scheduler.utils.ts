@@ -2,10 +2,17 @@
  * Utility functions for scheduling tasks at specific UTC times
  */
 
+import { Clock, ClockTimer, systemClock } from "./clock.utils";
+
 export class UTCScheduler {
-  private intervalId: NodeJS.Timeout | null = null;
+  private clock: Clock;
+  private intervalId: ClockTimer | null = null;
   private isRunning: boolean = false;
 
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
+
   /**
    * Schedule a function to run every minute at the start of the minute (UTC)
    * @param callback Function to execute every minute
@@ -20,7 +27,7 @@ export class UTCScheduler {
     console.log("🕐 Starting UTC minute scheduler...");
 
     // Calculate milliseconds until next minute
-    const now = new Date();
+    const now = new Date(this.clock.now());
     const nextMinute = new Date(now);
     nextMinute.setUTCSeconds(0, 0);
     nextMinute.setUTCMinutes(nextMinute.getUTCMinutes() + 1);
@@ -28,12 +35,12 @@ export class UTCScheduler {
     const msUntilNextMinute = nextMinute.getTime() - now.getTime();
 
     // Wait until the next minute, then start the interval
-    setTimeout(() => {
+    this.clock.setTimeout(() => {
       // Execute immediately at the start of the minute
       this.executeCallback(callback);
 
       // Then set up the interval for every minute
-      this.intervalId = setInterval(() => {
+      this.intervalId = this.clock.setInterval(() => {
         this.executeCallback(callback);
       }, 60000); // 60 seconds = 1 minute
 
@@ -46,7 +53,7 @@ export class UTCScheduler {
    */
   stop(): void {
     if (this.intervalId) {
-      clearInterval(this.intervalId);
+      this.clock.clearInterval(this.intervalId);
       this.intervalId = null;
     }
     this.isRunning = false;
@@ -60,7 +67,7 @@ export class UTCScheduler {
     callback: () => void | Promise<void>
   ): Promise<void> {
     try {
-      const now = new Date();
+      const now = new Date(this.clock.now());
       console.log(`🔄 Executing scheduled task at ${now.toISOString()}`);
       await callback();
     } catch (error) {
@@ -72,14 +79,14 @@ export class UTCScheduler {
    * Get current UTC time in a readable format
    */
   getCurrentUTCTime(): string {
-    return new Date().toISOString();
+    return new Date(this.clock.now()).toISOString();
   }
 
   /**
    * Get seconds until next minute
    */
   getSecondsUntilNextMinute(): number {
-    const now = new Date();
+    const now = new Date(this.clock.now());
     const nextMinute = new Date(now);
     nextMinute.setUTCSeconds(0, 0);
     nextMinute.setUTCMinutes(nextMinute.getUTCMinutes() + 1);
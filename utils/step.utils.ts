@@ -0,0 +1,36 @@
+/**
+ * Rounding to exchange tick and lot steps. Steps like 1e-8 stringify in
+ * exponent notation, so decimals are counted from the exponent as well.
+ */
+
+/**
+ * Decimal places needed to represent a step, e.g. 0.01 → 2, 1e-8 → 8,
+ * 2.5e-7 → 8
+ */
+export function stepDecimals(step: number): number {
+  if (!Number.isFinite(step) || step <= 0) return 0;
+
+  const [mantissa = "", exponent = "0"] = step.toString().split("e");
+  const mantissaDecimals = (mantissa.split(".")[1] || "").length;
+  return Math.min(100, Math.max(0, mantissaDecimals - parseInt(exponent, 10)));
+}
+
+/**
+ * Round to the nearest whole number of steps, stripping float noise
+ */
+export function roundToStep(value: number, step: number): number {
+  if (step <= 0) return value;
+  return parseFloat(
+    (Math.round(value / step) * step).toFixed(stepDecimals(step))
+  );
+}
+
+/**
+ * Round down to a whole number of steps, stripping float noise
+ */
+export function roundDownToStep(value: number, step: number): number {
+  if (step <= 0) return value;
+  return parseFloat(
+    (Math.floor(value / step + 1e-9) * step).toFixed(stepDecimals(step))
+  );
+}